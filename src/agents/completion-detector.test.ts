@@ -0,0 +1,101 @@
+/**
+ * Unit tests for completion detection (pure evaluation only)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateAgent, parseRetryAfter, type RawReview, type RawIssueComment } from './completion-detector.js';
+import { INVOKABLE_AGENTS } from './registry.js';
+
+const SINCE = new Date('2026-05-01T10:00:00.000Z');
+
+function review(login: string, body: string, submittedAt = '2026-05-01T10:05:00.000Z'): RawReview {
+  return { user: { login }, state: 'COMMENTED', submitted_at: submittedAt, body };
+}
+
+function issueComment(login: string, body: string, createdAt = '2026-05-01T10:05:00.000Z'): RawIssueComment {
+  return { user: { login }, created_at: createdAt, body };
+}
+
+describe('parseRetryAfter', () => {
+  it('adds a relative wait to the message time', () => {
+    const body = 'Please wait **13 minutes and 2 seconds** before requesting another review.';
+    expect(parseRetryAfter(body, '2026-05-01T10:00:00.000Z')).toBe('2026-05-01T10:13:02.000Z');
+  });
+
+  it('understands "try again in" with hours', () => {
+    expect(parseRetryAfter('Limit reached, try again in 2 hours.', '2026-05-01T10:00:00.000Z'))
+      .toBe('2026-05-01T12:00:00.000Z');
+  });
+
+  it('prefers an absolute reset time', () => {
+    expect(parseRetryAfter('Your quota resets at 2026-05-02 00:00 UTC (in 14 hours).', '2026-05-01T10:00:00.000Z'))
+      .toBe('2026-05-02T00:00:00.000Z');
+  });
+
+  it('returns null when no time is stated', () => {
+    expect(parseRetryAfter('You have reached your review limit.', '2026-05-01T10:00:00.000Z')).toBeNull();
+  });
+});
+
+describe('evaluateAgent availability', () => {
+  it('reports quota_exhausted with reason and retry time', () => {
+    const result = evaluateAgent(
+      'coderabbit',
+      INVOKABLE_AGENTS.coderabbit,
+      [],
+      [issueComment('coderabbitai[bot]', '<!-- rate limited -->\n## Rate limit exceeded\n\nPlease wait **5 minutes** before requesting another review.')],
+      [],
+      SINCE
+    );
+
+    expect(result.ready).toBe(false);
+    expect(result.unavailable).toBe('quota_exhausted');
+    expect(result.reason).toBe('Rate limit exceeded');
+    expect(result.retryAfter).toBe('2026-05-01T10:10:00.000Z');
+    expect(result.source).toBe('issue_comments');
+  });
+
+  it('reports unavailable for setup problems', () => {
+    const result = evaluateAgent(
+      'greptile',
+      INVOKABLE_AGENTS.greptile,
+      [],
+      [issueComment('greptile-apps[bot]', 'Your free trial has ended. Upgrade to keep reviewing.')],
+      [],
+      SINCE
+    );
+
+    expect(result.unavailable).toBe('unavailable');
+    expect(result.retryAfter).toBeUndefined();
+  });
+
+  it('ignores quota messages from before since', () => {
+    const result = evaluateAgent(
+      'sourcery',
+      INVOKABLE_AGENTS.sourcery,
+      [review('sourcery-ai[bot]', 'You have hit your review limit.', '2026-05-01T09:00:00.000Z')],
+      [],
+      [],
+      SINCE
+    );
+
+    expect(result.unavailable).toBeUndefined();
+  });
+
+  it('prefers a completed review over an earlier quota message', () => {
+    const result = evaluateAgent(
+      'sourcery',
+      INVOKABLE_AGENTS.sourcery,
+      [
+        review('sourcery-ai[bot]', 'You have hit your review limit.', '2026-05-01T10:01:00.000Z'),
+        review('sourcery-ai[bot]', "Hey - I've found 2 issues", '2026-05-01T10:30:00.000Z')
+      ],
+      [],
+      [],
+      SINCE
+    );
+
+    expect(result.ready).toBe(true);
+    expect(result.unavailable).toBeUndefined();
+  });
+});
@@ -8,16 +8,21 @@
  * - Which API sources to check (reviews, issue_comments, check_runs)
  * - Body patterns that confirm completion (regex)
  * - Exclude patterns that reject false positives (placeholders, errors)
+ * - Quota/unavailable patterns that settle the agent without a review
  * - Expected and max wait times for per-agent timeout
  */
 
 import type { Octokit } from '@octokit/rest';
 import { getOctokit } from '../github/octokit.js';
 import {
-  INVOKABLE_AGENTS,
+  agentScope,
+  getAgentConfig,
   getDefaultAgents,
+  matchesAuthorPattern,
+  parseLocalAgentMarker,
   type AgentConfig,
   type CompletionSource,
+  type CompletionStrategy,
   type InvokableAgentId,
 } from './registry.js';
 import { logger } from '../logging.js';
@@ -28,6 +33,9 @@ import { logger } from '../logging.js';
 
 export type CompletionConfidence = 'high' | 'medium' | 'low';
 
+/** Why an agent will not deliver a review: out of quota/rate limited, or not usable at all */
+export type AgentUnavailableState = 'quota_exhausted' | 'unavailable';
+
 export interface AgentCompletionResult {
   agentId: InvokableAgentId;
   name: string;
@@ -40,6 +48,12 @@ export interface AgentCompletionResult {
   lastActivity?: string;
   /** Human-readable detail for logging */
   detail?: string;
+  /** Set when the agent replied that it cannot review (ready is false) */
+  unavailable?: AgentUnavailableState;
+  /** The agent's own explanation, from the first line of its message */
+  reason?: string;
+  /** ISO timestamp after which the agent accepts requests again, when its message states one */
+  retryAfter?: string;
 }
 
 export interface CompletionDetectionResult {
@@ -65,17 +79,16 @@ export interface AgentsStatus {
 // Author Matching (single implementation — replaces divergent versions)
 // ============================================================================
 
+// Single implementation lives in the registry (shared with custom agent lookup)
+export { matchesAuthorPattern };
+
 /**
- * Check if a GitHub login matches an agent's author pattern.
- * Normalizes both sides: lowercase, strip [bot] suffix.
- * Supports string | string[] patterns.
+ * Whether a review or comment was posted by the agent. Local agents post under
+ * the server's own token, so they are recognized by their marker instead.
  */
-export function matchesAuthorPattern(login: string, pattern: string | string[]): boolean {
-  const patterns = Array.isArray(pattern) ? pattern : [pattern];
-  const normalize = (s: string): string =>
-    s.trim().toLowerCase().replace(/\[bot\]$/, '');
-  const normLogin = normalize(login);
-  return patterns.some(p => normLogin === normalize(p));
+function isFromAgent(agentId: InvokableAgentId, config: AgentConfig, login: string | undefined, body: string | null | undefined): boolean {
+  if (config.type === 'local') return parseLocalAgentMarker(body)?.agentId === agentId;
+  return !!login && matchesAuthorPattern(login, config.authorPattern);
 }
 
 // ============================================================================
@@ -103,21 +116,24 @@ async function paginateWithLimit<T>(
 // Raw Data Types (from GitHub API)
 // ============================================================================
 
-interface RawReview {
+/** @internal Exported for testing */
+export interface RawReview {
   user: { login: string } | null;
   state: string;
   submitted_at?: string | null;
   body: string | null;
 }
 
-interface RawIssueComment {
+/** @internal Exported for testing */
+export interface RawIssueComment {
   user: { login: string } | null;
   created_at: string;
   updated_at?: string;
   body?: string;
 }
 
-interface RawCheckRun {
+/** @internal Exported for testing */
+export interface RawCheckRun {
   name: string;
   status: string;
   conclusion: string | null;
@@ -144,15 +160,21 @@ export async function fetchCompletionStatus(
 ): Promise<CompletionDetectionResult> {
   const ok = octokit ?? getOctokit();
   const sinceDate = since ? new Date(since) : null;
+  const scope = agentScope(owner, repo);
 
   // Determine which sources we need across all agents
   const neededSources = new Set<CompletionSource>();
   for (const agentId of agents) {
-    const config = INVOKABLE_AGENTS[agentId];
+    const config = getAgentConfig(agentId, scope);
     if (config) {
       for (const source of config.completionStrategy.sources) {
         neededSources.add(source);
       }
+      // Quota and setup messages may be posted as either kind of comment
+      if (hasAvailabilityPatterns(config.completionStrategy)) {
+        neededSources.add('reviews');
+        neededSources.add('issue_comments');
+      }
     }
   }
 
@@ -173,7 +195,7 @@ export async function fetchCompletionStatus(
 
   // Evaluate each agent
   const agentResults: AgentCompletionResult[] = agents.map(agentId => {
-    const config = INVOKABLE_AGENTS[agentId];
+    const config = getAgentConfig(agentId, scope);
     if (!config) {
       return {
         agentId,
@@ -200,7 +222,11 @@ export async function fetchCompletionStatus(
 // Per-Agent Evaluation
 // ============================================================================
 
-function evaluateAgent(
+/**
+ * Evaluate one agent against fetched reviews, issue comments and check runs
+ * (also used for the events in a single webhook delivery)
+ */
+export function evaluateAgent(
   agentId: InvokableAgentId,
   config: AgentConfig,
   reviews: RawReview[],
@@ -232,6 +258,10 @@ function evaluateAgent(
     }
   }
 
+  // No completion — did the agent say it can't review?
+  const availability = evaluateAvailability(agentId, config, reviews, issueComments, sinceDate);
+  if (availability) return availability;
+
   // No completion signal found
   return {
     agentId,
@@ -280,9 +310,7 @@ function evaluateReviews(
   const strategy = config.completionStrategy;
 
   // Filter by author
-  const agentReviews = reviews.filter(r =>
-    r.user && matchesAuthorPattern(r.user.login, config.authorPattern),
-  );
+  const agentReviews = reviews.filter(r => isFromAgent(agentId, config, r.user?.login, r.body));
 
   // Filter out PENDING if strategy requires
   const submitted = strategy.filterPendingReviews
@@ -298,12 +326,16 @@ function evaluateReviews(
 
   if (fresh.length === 0) return null;
 
-  // Find best match: prefer reviews whose body matches bodyPattern
-  for (const review of fresh) {
+  // Find best match: prefer reviews whose body matches bodyPattern (most recent first,
+  // so lastActivity is the latest completed review)
+  const newestFirst = [...fresh].sort((a, b) =>
+    new Date(b.submitted_at ?? 0).getTime() - new Date(a.submitted_at ?? 0).getTime(),
+  );
+  for (const review of newestFirst) {
     const body = review.body ?? '';
 
     // Check exclude patterns first
-    if (strategy.excludePatterns?.some(p => p.test(body))) {
+    if (isExcluded(strategy, body)) {
       logger.debug(`[completion] ${agentId}: review excluded by pattern match`);
       continue;
     }
@@ -344,7 +376,7 @@ function evaluateReviews(
     const latest = fresh[fresh.length - 1];
     if (latest) {
       const body = latest.body ?? '';
-      if (!strategy.excludePatterns?.some(p => p.test(body))) {
+      if (!isExcluded(strategy, body)) {
         return {
           agentId,
           name: config.name,
@@ -370,9 +402,7 @@ function evaluateIssueComments(
   const strategy = config.completionStrategy;
 
   // Filter by author
-  const agentComments = issueComments.filter(c =>
-    c.user && matchesAuthorPattern(c.user.login, config.authorPattern),
-  );
+  const agentComments = issueComments.filter(c => isFromAgent(agentId, config, c.user?.login, c.body));
 
   // Filter by since timestamp (use updated_at for persistent comments, created_at otherwise)
   const fresh = sinceDate
@@ -395,7 +425,7 @@ function evaluateIssueComments(
     const body = comment.body ?? '';
 
     // Check exclude patterns
-    if (strategy.excludePatterns?.some(p => p.test(body))) {
+    if (isExcluded(strategy, body)) {
       continue;
     }
 
@@ -419,6 +449,131 @@ function evaluateIssueComments(
   return null;
 }
 
+// ============================================================================
+// Availability (quota / setup messages)
+// ============================================================================
+
+const DURATION_UNIT_MS: Record<string, number> = {
+  d: 86_400_000,
+  h: 3_600_000,
+  m: 60_000,
+  s: 1_000,
+};
+
+const DURATION_PART = /(\d+)\s*(days?|d|hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)\b/gi;
+const RELATIVE_RETRY = /\b(?:wait|in|after)\s+\**\s*((?:\d+\s*(?:days?|d|hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)\b[\s,]*(?:and\s+)?)+)/i;
+const ABSOLUTE_RETRY = /\b(?:until|after|at|on|resets?)\s+\**\s*(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(Z|UTC|[+-]\d{2}:?\d{2})?/i;
+
+function hasAvailabilityPatterns(strategy: CompletionStrategy): boolean {
+  return (strategy.quotaPatterns?.length ?? 0) > 0 || (strategy.unavailablePatterns?.length ?? 0) > 0;
+}
+
+/**
+ * A body that never counts as a completed review
+ */
+function isExcluded(strategy: CompletionStrategy, body: string): boolean {
+  return [
+    ...(strategy.excludePatterns ?? []),
+    ...(strategy.quotaPatterns ?? []),
+    ...(strategy.unavailablePatterns ?? []),
+  ].some(p => p.test(body));
+}
+
+/**
+ * Parse when an agent accepts requests again from its quota message.
+ * Understands absolute timestamps ("resets at 2026-05-01 00:00 UTC") and
+ * durations relative to the message ("wait **13 minutes and 2 seconds**").
+ * @internal Exported for testing
+ */
+export function parseRetryAfter(body: string, postedAt: string): string | null {
+  const text = body.replace(/<[^>]+>/g, ' ');
+
+  const absolute = ABSOLUTE_RETRY.exec(text);
+  if (absolute) {
+    const zone = !absolute[2] || absolute[2].toUpperCase() === 'UTC' ? 'Z' : absolute[2];
+    const parsed = Date.parse(`${absolute[1].replace(' ', 'T')}${zone}`);
+    if (!Number.isNaN(parsed)) return new Date(parsed).toISOString();
+  }
+
+  const relative = RELATIVE_RETRY.exec(text);
+  if (relative) {
+    let totalMs = 0;
+    for (const [, amount, unit] of relative[1].matchAll(DURATION_PART)) {
+      totalMs += parseInt(amount, 10) * DURATION_UNIT_MS[unit[0].toLowerCase()];
+    }
+    const base = Date.parse(postedAt);
+    if (totalMs > 0 && !Number.isNaN(base)) return new Date(base + totalMs).toISOString();
+  }
+
+  return null;
+}
+
+/**
+ * First meaningful line of a message, without markup
+ */
+function summarizeReason(body: string): string {
+  const line = body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<[^>]+>/g, ' ')
+    .split('\n')
+    .map(l => l.replace(/^[\s#>*_-]+|[\s*_]+$/g, '').replace(/\*\*/g, '').trim())
+    .find(l => l.length > 0) ?? '';
+  return line.length > 200 ? `${line.slice(0, 197)}...` : line;
+}
+
+/**
+ * Look for the agent's most recent quota or setup message after `since`
+ */
+function evaluateAvailability(
+  agentId: InvokableAgentId,
+  config: AgentConfig,
+  reviews: RawReview[],
+  issueComments: RawIssueComment[],
+  sinceDate: Date | null,
+): AgentCompletionResult | null {
+  const strategy = config.completionStrategy;
+  if (!hasAvailabilityPatterns(strategy)) return null;
+
+  const messages: { body: string; at: string; source: CompletionSource }[] = [
+    ...reviews
+      .filter(r => isFromAgent(agentId, config, r.user?.login, r.body) && r.submitted_at)
+      .map(r => ({ body: r.body ?? '', at: r.submitted_at!, source: 'reviews' as const })),
+    ...issueComments
+      .filter(c => isFromAgent(agentId, config, c.user?.login, c.body))
+      .map(c => ({ body: c.body ?? '', at: c.updated_at ?? c.created_at, source: 'issue_comments' as const })),
+  ]
+    .filter(m => !sinceDate || new Date(m.at) > sinceDate)
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+  for (const message of messages) {
+    let state: AgentUnavailableState | null = null;
+    if (strategy.quotaPatterns?.some(p => p.test(message.body))) {
+      state = 'quota_exhausted';
+    } else if (strategy.unavailablePatterns?.some(p => p.test(message.body))) {
+      state = 'unavailable';
+    }
+    if (!state) continue;
+
+    const reason = summarizeReason(message.body);
+    const retryAfter = state === 'quota_exhausted' ? parseRetryAfter(message.body, message.at) : null;
+    return {
+      agentId,
+      name: config.name,
+      ready: false,
+      confidence: 'high',
+      source: message.source,
+      lastActivity: message.at,
+      detail: `${state === 'quota_exhausted' ? 'Quota exhausted' : 'Unavailable'}: ${reason}` +
+        (retryAfter ? ` (retry after ${retryAfter})` : ''),
+      unavailable: state,
+      reason,
+      ...(retryAfter && { retryAfter }),
+    };
+  }
+
+  return null;
+}
+
 // ============================================================================
 // Data Fetching
 // ============================================================================
@@ -554,7 +709,7 @@ export async function fetchAgentStatus(
   since: string | null,
   octokit?: Octokit,
 ): Promise<AgentsStatus> {
-  return fetchAgentStatusForAgents(owner, repo, pr, getDefaultAgents(), since, octokit);
+  return fetchAgentStatusForAgents(owner, repo, pr, getDefaultAgents(agentScope(owner, repo)), since, octokit);
 }
 
 /**
@@ -13,7 +13,7 @@ import {
   fetchCompletionStatus,
   matchesAuthorPattern as unifiedMatchesAuthorPattern,
 } from './completion-detector.js';
-import { INVOKABLE_AGENTS, getInvokableAgentIds, type InvokableAgentId } from './registry.js';
+import { agentScope, getAgentConfig, getInvokableAgentIds, type InvokableAgentId } from './registry.js';
 import { logger } from '../logging.js';
 
 // ============================================================================
@@ -50,12 +50,13 @@ export function matchesAuthorPattern(login: string, pattern: string | string[]):
 
 /**
  * Get agent ID from author login.
+ * @param scope - Repository scope for its custom agents (see agentScope)
  * @internal Exported for testing
  */
-export function getAgentFromAuthor(login: string): InvokableAgentId | null {
-  for (const agentId of getInvokableAgentIds()) {
-    const config = INVOKABLE_AGENTS[agentId];
-    if (unifiedMatchesAuthorPattern(login, config.authorPattern)) {
+export function getAgentFromAuthor(login: string, scope?: string): InvokableAgentId | null {
+  for (const agentId of getInvokableAgentIds(scope)) {
+    const config = getAgentConfig(agentId, scope);
+    if (config && unifiedMatchesAuthorPattern(login, config.authorPattern)) {
       return agentId;
     }
   }
@@ -88,7 +89,8 @@ export async function detectReviewedAgents(
 
   try {
     const ok = octokit ?? getOctokit();
-    const allAgents = getInvokableAgentIds();
+    const scope = agentScope(owner, repo);
+    const allAgents = getInvokableAgentIds(scope);
 
     // Fetch PR data once — reused for headSha (check runs) and requested reviewers,
     // eliminating a redundant pulls.get call inside fetchHeadShaAndCheckRuns.
@@ -104,10 +106,8 @@ export async function detectReviewedAgents(
         reviewed.add(agentResult.agentId);
         // Use the canonical GitHub author login (from authorPattern) so that
         // reviewAuthor is consistent with the pending case which uses the actual login.
-        const config = INVOKABLE_AGENTS[agentResult.agentId];
-        const reviewAuthor = Array.isArray(config.authorPattern)
-          ? config.authorPattern[0]
-          : config.authorPattern;
+        const authorPattern = getAgentConfig(agentResult.agentId, scope)?.authorPattern ?? agentResult.agentId;
+        const reviewAuthor = Array.isArray(authorPattern) ? authorPattern[0] : authorPattern;
         details.push({
           agentId: agentResult.agentId,
           status: 'reviewed',
@@ -126,7 +126,7 @@ export async function detectReviewedAgents(
     for (const reviewer of requestedReviewers) {
       if (!reviewer || !('login' in reviewer)) continue;
       const login = reviewer.login;
-      const agentId = getAgentFromAuthor(login);
+      const agentId = getAgentFromAuthor(login, scope);
       if (agentId && !reviewed.has(agentId) && !pending.has(agentId)) {
         pending.add(agentId);
         details.push({
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for fallback agent chains
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileFallbackChains, nextFallback } from './fallback.js';
+
+describe('compileFallbackChains', () => {
+  it('accepts a single ID or an ordered list', () => {
+    const { chains, errors } = compileFallbackChains({ sourcery: ['gemini', 'coderabbit'], codex: 'copilot' });
+    expect(errors).toEqual([]);
+    expect(chains).toEqual({ sourcery: ['gemini', 'coderabbit'], codex: ['copilot'] });
+  });
+
+  it('drops unknown agents and self references', () => {
+    const { chains, errors } = compileFallbackChains({
+      nobody: ['gemini'],
+      sourcery: ['sourcery', 'nobody', 'gemini']
+    });
+    expect(chains).toEqual({ sourcery: ['gemini'] });
+    expect(errors).toHaveLength(3);
+  });
+
+  it('rejects non-object config', () => {
+    expect(compileFallbackChains(['gemini']).errors).toHaveLength(1);
+    expect(compileFallbackChains(undefined)).toEqual({ chains: {}, errors: [] });
+  });
+});
+
+describe('nextFallback', () => {
+  const chains = { sourcery: ['gemini', 'coderabbit'] };
+
+  it('returns the first fallback not excluded', () => {
+    expect(nextFallback('sourcery', chains, new Set())).toBe('gemini');
+    expect(nextFallback('sourcery', chains, new Set(['gemini']))).toBe('coderabbit');
+  });
+
+  it('returns null when nothing is left', () => {
+    expect(nextFallback('sourcery', chains, new Set(['gemini', 'coderabbit']))).toBeNull();
+    expect(nextFallback('codex', chains, new Set())).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Fallback Agents - Substitute agents that are out of quota or unavailable
+ *
+ * Chains are configured per repository in .github/pr-review.json:
+ *   "invoke": { "fallbacks": { "sourcery": ["gemini", "coderabbit"], "codex": "copilot" } }
+ *
+ * Each agent lists its fallbacks in order of preference. When a fallback is
+ * unavailable too, its own chain is consulted the next time it is replaced.
+ */
+
+import type { Octokit } from '@octokit/rest';
+import { isInvokableAgent, type InvokableAgentId } from './registry.js';
+import { fetchCompletionStatus, type AgentCompletionResult } from './completion-detector.js';
+
+export type FallbackChains = Record<string, InvokableAgentId[]>;
+
+/** How far back a quota or setup message still marks an agent unavailable */
+const AVAILABILITY_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate `invoke.fallbacks` (agent ID → fallback ID or ordered list of IDs).
+ * Unknown agents are dropped and reported in `errors`.
+ * @param scope - Repository scope whose custom agents may be named (see agentScope)
+ */
+export function compileFallbackChains(raw: unknown, scope?: string): { chains: FallbackChains; errors: string[] } {
+  const chains: FallbackChains = {};
+  const errors: string[] = [];
+
+  if (raw === undefined) return { chains, errors };
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { chains, errors: ['invoke.fallbacks must be an object keyed by agent ID'] };
+  }
+
+  for (const [agentId, value] of Object.entries(raw)) {
+    if (!isInvokableAgent(agentId, scope)) {
+      errors.push(`fallbacks.${agentId}: unknown agent`);
+      continue;
+    }
+
+    const candidates = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(candidates) || !candidates.every(c => typeof c === 'string')) {
+      errors.push(`fallbacks.${agentId}: expected an agent ID or a list of agent IDs`);
+      continue;
+    }
+
+    const valid: InvokableAgentId[] = [];
+    for (const candidate of candidates as string[]) {
+      if (candidate === agentId) {
+        errors.push(`fallbacks.${agentId}: an agent can't fall back to itself`);
+      } else if (!isInvokableAgent(candidate, scope)) {
+        errors.push(`fallbacks.${agentId}: unknown agent "${candidate}"`);
+      } else {
+        valid.push(candidate);
+      }
+    }
+    if (valid.length > 0) chains[agentId] = valid;
+  }
+
+  return { chains, errors };
+}
+
+/**
+ * First fallback for an agent that is not excluded (already invoked, planned or unavailable)
+ */
+export function nextFallback(
+  agentId: string,
+  chains: FallbackChains,
+  exclude: ReadonlySet<string>,
+): InvokableAgentId | null {
+  return chains[agentId]?.find(candidate => !exclude.has(candidate)) ?? null;
+}
+
+/**
+ * Agents that recently reported quota exhaustion or unavailability on the PR.
+ * Quota messages with a retry-after time that has passed no longer count,
+ * and neither do agents that delivered a review after their message.
+ */
+export async function findUnavailableAgents(
+  owner: string,
+  repo: string,
+  pr: number,
+  agents: InvokableAgentId[],
+  octokit?: Octokit,
+): Promise<Map<string, AgentCompletionResult>> {
+  const since = new Date(Date.now() - AVAILABILITY_LOOKBACK_MS).toISOString();
+  const detection = await fetchCompletionStatus(owner, repo, pr, agents, since, octokit);
+
+  const unavailable = new Map<string, AgentCompletionResult>();
+  for (const result of detection.agents) {
+    if (!result.unavailable) continue;
+    if (result.retryAfter && Date.parse(result.retryAfter) <= Date.now()) continue;
+    unavailable.set(result.agentId, result);
+  }
+  return unavailable;
+}
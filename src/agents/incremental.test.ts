@@ -0,0 +1,50 @@
+/**
+ * Unit tests for incremental re-review scoping (pure functions only)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MAX_SCOPED_FILES, planReviewScope, splitCommitsAt, type PrCommit } from './incremental.js';
+import { INVOKABLE_AGENTS } from './registry.js';
+
+function commit(sha: string, date: string): PrCommit {
+  return { sha, commit: { committer: { date } } };
+}
+
+const commits = [
+  commit('a1', '2026-01-01T10:00:00Z'),
+  commit('b2', '2026-01-01T11:00:00Z'),
+  commit('c3', '2026-01-01T12:00:00Z'),
+];
+
+describe('splitCommitsAt', () => {
+  it('splits at the last commit before the review', () => {
+    expect(splitCommitsAt(commits, '2026-01-01T11:30:00Z')).toEqual({ base: 'b2', newer: ['c3'] });
+    expect(splitCommitsAt(commits, '2026-01-01T13:00:00Z')).toEqual({ base: 'c3', newer: [] });
+  });
+
+  it('has no base when every commit is newer than the review', () => {
+    expect(splitCommitsAt(commits, '2026-01-01T09:00:00Z')).toEqual({ base: null, newer: ['a1', 'b2', 'c3'] });
+  });
+
+  it('keeps an older-dated commit after a newer one on the newer side', () => {
+    const rebased = [...commits, commit('d4', '2026-01-01T10:30:00Z')];
+    expect(splitCommitsAt(rebased, '2026-01-01T11:30:00Z')).toEqual({ base: 'b2', newer: ['c3', 'd4'] });
+  });
+});
+
+describe('planReviewScope', () => {
+  it('skips agents when nothing changed', () => {
+    expect(planReviewScope(INVOKABLE_AGENTS.coderabbit, [])).toEqual({ action: 'skip' });
+  });
+
+  it('passes changed files to agents that support files', () => {
+    expect(planReviewScope(INVOKABLE_AGENTS.qodo, ['src/a.ts'])).toEqual({ action: 'invoke', options: { files: ['src/a.ts'] } });
+  });
+
+  it('falls back to incremental, then a full review', () => {
+    const many = Array.from({ length: MAX_SCOPED_FILES + 1 }, (_, i) => `f${i}.ts`);
+    expect(planReviewScope(INVOKABLE_AGENTS.coderabbit, many)).toEqual({ action: 'invoke', options: { incremental: true } });
+    expect(planReviewScope(INVOKABLE_AGENTS.qodo, null)).toEqual({ action: 'invoke', options: {} });
+    expect(planReviewScope(INVOKABLE_AGENTS.gemini, ['src/a.ts'])).toEqual({ action: 'invoke', options: {} });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Incremental Scoping - Limit re-reviews to files changed since an agent's last review
+ *
+ * pr_invoke re-invokes an agent that already reviewed the PR only when commits were
+ * pushed after its last completed review. Agents that support `files` get the files
+ * those commits changed; agents that support `incremental` are asked for an
+ * incremental review; other agents review the whole PR again.
+ */
+
+import type { Octokit } from '@octokit/rest';
+import { getOctokit } from '../github/octokit.js';
+import type { AgentConfig } from './registry.js';
+import type { InvokeOptions } from './invoker.js';
+import { logger } from '../logging.js';
+
+/** Above this many changed files, agents get `incremental` (or a full review) instead of a file list */
+export const MAX_SCOPED_FILES = 50;
+
+/** Minimal commit shape from pulls.listCommits */
+export interface PrCommit {
+  sha: string;
+  commit: { committer?: { date?: string } | null };
+}
+
+/** What to do with an agent that already reviewed the PR */
+export type ReviewScope =
+  | { action: 'skip' }
+  | { action: 'invoke'; options: Pick<InvokeOptions, 'files' | 'incremental'> };
+
+/** Scope picked for a re-invoked agent, reported by pr_invoke */
+export interface ScopedAgent {
+  agent: string;
+  /** When the agent last completed a review */
+  reviewedAt: string;
+  /** Files changed since then; null when they couldn't be determined */
+  changedFiles: string[] | null;
+  /** Files passed to the agent */
+  files?: string[];
+  incremental?: boolean;
+}
+
+/**
+ * Split PR commits at a review: the last commit the review could have seen
+ * (null when every commit is newer, e.g. after a force push) and the commits
+ * pushed after it. Commits are in PR order, oldest first.
+ */
+export function splitCommitsAt(
+  commits: PrCommit[],
+  reviewedAt: string,
+): { base: string | null; newer: string[] } {
+  const reviewTime = new Date(reviewedAt).getTime();
+  let base: string | null = null;
+  const newer: string[] = [];
+
+  for (const commit of commits) {
+    const date = commit.commit.committer?.date;
+    if (date && new Date(date).getTime() <= reviewTime && newer.length === 0) {
+      base = commit.sha;
+    } else {
+      newer.push(commit.sha);
+    }
+  }
+  return { base, newer };
+}
+
+/**
+ * Decide how to re-invoke an agent given the files changed since its last review
+ * (null: unknown, so the agent reviews the whole PR again)
+ */
+export function planReviewScope(config: AgentConfig, changedFiles: string[] | null): ReviewScope {
+  if (changedFiles !== null && changedFiles.length === 0) {
+    return { action: 'skip' };
+  }
+  if (changedFiles !== null && changedFiles.length <= MAX_SCOPED_FILES && config.supports.includes('files')) {
+    return { action: 'invoke', options: { files: changedFiles } };
+  }
+  if (config.supports.includes('incremental')) {
+    return { action: 'invoke', options: { incremental: true } };
+  }
+  return { action: 'invoke', options: {} };
+}
+
+/**
+ * Files changed by commits pushed after each agent's last review. Null for an
+ * agent means the files can't be determined (history rewritten since the review,
+ * or the GitHub calls failed).
+ */
+export async function fetchChangedFilesSince(
+  owner: string,
+  repo: string,
+  pr: number,
+  reviews: Map<string, string>,
+  octokit?: Octokit,
+): Promise<Map<string, string[] | null>> {
+  const result = new Map<string, string[] | null>();
+  if (reviews.size === 0) return result;
+
+  try {
+    const ok = octokit ?? getOctokit();
+    const commits = await ok.paginate(ok.pulls.listCommits, { owner, repo, pull_number: pr, per_page: 100 });
+    const head = commits[commits.length - 1]?.sha;
+    // Agents that reviewed the same commit share one comparison
+    const byBase = new Map<string, Promise<string[]>>();
+
+    for (const [agentId, reviewedAt] of reviews) {
+      const { base, newer } = splitCommitsAt(commits, reviewedAt);
+      if (newer.length === 0 || !head) {
+        result.set(agentId, []);
+        continue;
+      }
+      if (base === null) {
+        result.set(agentId, null);
+        continue;
+      }
+
+      if (!byBase.has(base)) {
+        byBase.set(base, ok.repos.compareCommitsWithBasehead({ owner, repo, basehead: `${base}...${head}` })
+          .then(({ data }) => [...new Set((data.files ?? []).map(f => f.filename))]));
+      }
+      result.set(agentId, await byBase.get(base)!);
+    }
+  } catch (error) {
+    logger.warning(`[incremental] Could not list changes since the last reviews on ${owner}/${repo}#${pr}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    for (const agentId of reviews.keys()) {
+      if (!result.has(agentId)) result.set(agentId, null);
+    }
+  }
+  return result;
+}
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { buildCommand, aggregateResults, type InvokeResult } from './invoker.js';
+import { buildCommand, buildAgentCommand, aggregateResults, type InvokeResult } from './invoker.js';
 import { INVOKABLE_AGENTS, type AgentConfig } from './registry.js';
 
 describe('buildCommand', () => {
@@ -133,6 +133,24 @@ describe('buildCommand', () => {
   });
 });
 
+describe('buildAgentCommand', () => {
+  it('builds catalog commands', () => {
+    expect(buildAgentCommand('coderabbit', 'full_review')).toBe('@coderabbitai full review');
+    expect(buildAgentCommand('qodo', 'ask', ' Why cache this? ')).toBe('/ask Why cache this?');
+  });
+
+  it('inserts args literally', () => {
+    expect(buildAgentCommand('gemini', 'explain', 'what does $& do?')).toBe('@gemini-code-assist what does $& do?');
+  });
+
+  it('rejects unknown commands and mismatched args', () => {
+    expect(() => buildAgentCommand('coderabbit', 'describe')).toThrow(/no "describe" command. Available: /);
+    expect(() => buildAgentCommand('copilot', 'pause')).toThrow(/no command catalog/);
+    expect(() => buildAgentCommand('qodo', 'ask')).toThrow(/requires args/);
+    expect(() => buildAgentCommand('coderabbit', 'pause', 'now')).toThrow(/takes no args/);
+  });
+});
+
 describe('aggregateResults', () => {
   const createResult = (agent: string, success: boolean): InvokeResult => ({
     success,
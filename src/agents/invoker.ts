@@ -4,7 +4,8 @@
 
 import { getOctokit } from '../github/octokit.js';
 import { StructuredError } from '../github/client.js';
-import { AgentConfig, getAgentConfig, getInvokableAgentIds, InvokableAgentId } from './registry.js';
+import { AgentConfig, agentScope, getAgentCommands, getAgentConfig, getInvokableAgentIds, InvokableAgentId } from './registry.js';
+import { invokeLocalAgent } from './local.js';
 import type { Octokit } from '@octokit/rest';
 
 export interface InvokeOptions {
@@ -23,6 +24,8 @@ export interface InvokeResult {
   agent: string;
   agentName: string;
   commentUrl: string | null;
+  /** GraphQL node ID of the posted trigger comment (not set for local agents) */
+  commentId?: string;
   message: string;
 }
 
@@ -58,6 +61,34 @@ export function buildCommand(config: AgentConfig, options?: InvokeOptions): stri
   return command;
 }
 
+/**
+ * Build the comment for a command from an agent's catalog.
+ * Throws when the agent doesn't support the command or the arguments don't fit it.
+ */
+export function buildAgentCommand(agentId: string, commandName: string, args?: string): string {
+  const commands = getAgentCommands(agentId);
+  const command = Object.hasOwn(commands, commandName) ? commands[commandName] : undefined;
+  if (!command) {
+    const available = Object.keys(commands);
+    throw new StructuredError(
+      'parse',
+      `${getAgentConfig(agentId)?.name ?? agentId} has no "${commandName}" command. ` +
+        (available.length > 0 ? `Available: ${available.join(', ')}` : 'It has no command catalog.'),
+      false
+    );
+  }
+
+  const text = args?.trim() ?? '';
+  if (command.args === 'required' && !text) {
+    throw new StructuredError('parse', `The "${commandName}" command requires args`, false);
+  }
+  if (!command.args && text) {
+    throw new StructuredError('parse', `The "${commandName}" command takes no args`, false);
+  }
+
+  return command.template.replace('{args}', () => text).trim();
+}
+
 /**
  * Post a comment to invoke an agent
  */
@@ -83,6 +114,7 @@ export async function postInvocationComment(
       agent: config.name.toLowerCase(),
       agentName: config.name,
       commentUrl: data.html_url,
+      commentId: data.node_id,
       message: `Successfully invoked ${config.name}. ` +
         `Note: This tool cannot verify that the ${config.name} GitHub App is installed. ` +
         `If no review appears, check the repository's GitHub Apps settings.`
@@ -128,7 +160,7 @@ export async function postInvocationComment(
 }
 
 /**
- * Invoke a single agent
+ * Invoke a single agent (local agents run their command instead of posting a comment)
  */
 export async function invokeAgent(
   owner: string,
@@ -138,7 +170,8 @@ export async function invokeAgent(
   options?: InvokeOptions,
   octokit?: Octokit
 ): Promise<InvokeResult> {
-  const config = getAgentConfig(agentId);
+  const scope = agentScope(owner, repo);
+  const config = getAgentConfig(agentId, scope);
 
   if (!config) {
     return {
@@ -146,10 +179,14 @@ export async function invokeAgent(
       agent: agentId,
       agentName: agentId,
       commentUrl: null,
-      message: `Unknown agent: ${agentId}. Valid agents: ${getInvokableAgentIds().join(', ')}`
+      message: `Unknown agent: ${agentId}. Valid agents: ${getInvokableAgentIds(scope).join(', ')}`
     };
   }
 
+  if (config.type === 'local') {
+    return invokeLocalAgent(owner, repo, pr, agentId, config, options, octokit);
+  }
+
   const command = buildCommand(config, options);
   return postInvocationComment(owner, repo, pr, command, config, octokit);
 }
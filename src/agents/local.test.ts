@@ -0,0 +1,148 @@
+/**
+ * Unit tests for local command-based agents
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildLocalReview,
+  commentableLines,
+  formatFindingsComment,
+  localFindingId,
+  parseFindingsComment,
+  parseLocalFindingId,
+  parseLocalOutput,
+  runLocalCommand,
+} from './local.js';
+import { compileCustomAgents, parseLocalAgentMarker } from './registry.js';
+import { extractSeverity } from '../extractors/severity.js';
+
+const { agents } = compileCustomAgents(
+  { lint: { name: 'Lint', type: 'local', command: 'lint --json' } },
+  { allowLocal: true }
+);
+const lint = agents.lint;
+
+const PATCH = [
+  '@@ -1,3 +1,4 @@',
+  ' import a',
+  '-import b',
+  '+import c',
+  '+import d',
+  ' export {}',
+  '@@ -20,2 +21,2 @@',
+  ' x',
+  '+y',
+].join('\n');
+
+describe('parseLocalOutput', () => {
+  it('normalizes severities and defaults missing fields', () => {
+    const output = parseLocalOutput(JSON.stringify({
+      comments: [
+        { path: 'a.ts', line: 3, severity: 'major', title: 'Unused import' },
+        { path: 'b.ts', title: 'No severity' }
+      ]
+    }));
+    expect(output.comments.map(c => c.severity)).toEqual(['MAJOR', 'N/A']);
+    expect(parseLocalOutput('{}').comments).toEqual([]);
+  });
+
+  it('rejects invalid JSON and unknown severities', () => {
+    expect(() => parseLocalOutput('lint passed')).toThrow(/not valid JSON/);
+    expect(() => parseLocalOutput('{"comments":[{"path":"a.ts","title":"x","severity":"BLOCKER"}]}'))
+      .toThrow(/comments\.0\.severity/);
+  });
+});
+
+describe('commentableLines', () => {
+  it('collects added and context lines of the new file', () => {
+    expect([...commentableLines(PATCH)]).toEqual([1, 2, 3, 4, 21, 22]);
+    expect(commentableLines(undefined).size).toBe(0);
+  });
+});
+
+describe('buildLocalReview', () => {
+  it('attaches findings in the diff and lists the rest in the body', () => {
+    const review = buildLocalReview('lint', lint, {
+      comments: [
+        { path: 'a.ts', line: 3, startLine: 2, severity: 'MINOR', title: 'Sort imports' },
+        { path: 'a.ts', line: 22, startLine: 4, severity: 'MINOR', title: 'Range across hunks' },
+        { path: 'a.ts', line: 10, severity: 'CRIT', title: 'Outside' },
+        { path: 'c.ts', severity: 'N/A', title: 'File-level' }
+      ]
+    }, new Map([['a.ts', commentableLines(PATCH)]]));
+
+    expect(review.comments).toHaveLength(2);
+    expect(review.comments[0]).toMatchObject({ path: 'a.ts', line: 3, start_line: 2, side: 'RIGHT' });
+    expect(review.comments[1].start_line).toBeUndefined();
+    expect(parseLocalAgentMarker(review.comments[0].body)).toEqual({ agentId: 'lint', severity: 'MINOR' });
+    expect(lint.completionStrategy.bodyPattern?.test(review.body)).toBe(true);
+    expect(review.body).toContain('`a.ts:10` — **Outside**');
+    expect(review.body).toContain('`c.ts` — **File-level**');
+  });
+
+  it('marks inline comments so severity and source survive a round trip', () => {
+    const { comments } = buildLocalReview('lint', lint, {
+      comments: [{ path: 'a.ts', line: 3, severity: 'MAJOR', title: 'Unused import', body: 'Remove it.' }]
+    }, new Map([['a.ts', commentableLines(PATCH)]]));
+    expect(extractSeverity(comments[0].body, 'some-user')).toEqual({ severity: 'MAJOR', type: 'issue', source: 'lint' });
+  });
+});
+
+describe('findings comment', () => {
+  it('round-trips findings as synthetic comments with stable IDs', () => {
+    const output = {
+      summary: 'Two problems',
+      comments: [
+        { path: 'a.ts', line: 3, severity: 'MAJOR' as const, title: 'Unused import' },
+        { path: 'b.ts', severity: 'N/A' as const, title: 'Missing header', body: 'Add a license header.' }
+      ]
+    };
+    const body = formatFindingsComment('lint', lint, output);
+    const comments = parseFindingsComment(body, { author: 'me', updatedAt: '2026-01-01T00:00:00Z' });
+
+    expect(lint.completionStrategy.bodyPattern?.test(body)).toBe(true);
+    expect(comments.map(c => [c.id, c.file, c.line, c.severity, c.source])).toEqual([
+      [localFindingId('lint', output.comments[0]), 'a.ts', 3, 'MAJOR', 'lint'],
+      [localFindingId('lint', output.comments[1]), 'b.ts', '?', 'N/A', 'lint']
+    ]);
+    expect(comments[1].fullBody).toContain('Add a license header.');
+    expect(parseLocalFindingId(comments[0].id)).toBe('lint');
+  });
+
+  it('ignores comments without findings data', () => {
+    expect(parseFindingsComment('### Lint', { author: 'me' })).toEqual([]);
+    expect(parseLocalFindingId('coderabbit-nitpick-abc12345-3')).toBeNull();
+  });
+});
+
+describe('runLocalCommand', () => {
+  const node = JSON.stringify(process.execPath);
+
+  it('passes the diff on stdin and PR details in the environment', async () => {
+    const script = 'let d="";process.stdin.on("data",c=>d+=c).on("end",()=>' +
+      'console.log(JSON.stringify({summary:process.env.PR_REVIEW_PR+":"+d.length,comments:[]})))';
+    const result = await runLocalCommand(`${node} -e ${JSON.stringify(script)}`, {
+      input: PATCH,
+      env: { PR_REVIEW_PR: '7' },
+      timeoutMs: 10_000
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(parseLocalOutput(result.stdout).summary).toBe(`7:${PATCH.length}`);
+  });
+
+  it('reports failures and timeouts without rejecting', async () => {
+    const failed = await runLocalCommand(`${node} -e ${JSON.stringify('console.error("boom");process.exit(3)')}`, {
+      input: '',
+      timeoutMs: 10_000
+    });
+    expect(failed).toMatchObject({ exitCode: 3, timedOut: false });
+    expect(failed.stderr).toContain('boom');
+
+    const slow = await runLocalCommand(`${node} -e ${JSON.stringify('setTimeout(() => {}, 30000)')}`, {
+      input: '',
+      timeoutMs: 200
+    });
+    expect(slow.timedOut).toBe(true);
+  });
+});
@@ -0,0 +1,533 @@
+/**
+ * Local Agents - Run a configured command against the PR diff and post its findings
+ *
+ * The command gets the unified diff on stdin, PR details in PR_REVIEW_* environment
+ * variables, and prints JSON on stdout:
+ *
+ *   { "summary"?: string,
+ *     "comments": [{ "path", "line"?, "startLine"?, "severity"?, "title", "body"? }] }
+ *
+ * Findings are posted as a GitHub review with inline comments (output 'review'), or as
+ * one issue comment per agent that pr_list reads back as synthetic comments (output
+ * 'synthetic'). Both carry a hidden marker, since they are posted under the server's token.
+ */
+
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
+import { getOctokit } from '../github/octokit.js';
+import { StructuredError } from '../github/client.js';
+import type { ProcessedComment } from '../github/types.js';
+import { SEVERITY_ICONS, SEVERITY_ORDER, severityToType, type Severity } from '../extractors/severity.js';
+import { truncateBody } from '../extractors/prompt.js';
+import { logger } from '../logging.js';
+import {
+  getAgentConfig,
+  getInvokableAgentIds,
+  localAgentMarker,
+  parseLocalAgentMarker,
+  type AgentConfig,
+} from './registry.js';
+import type { InvokeOptions, InvokeResult } from './invoker.js';
+
+// ============================================================================
+// Command Output
+// ============================================================================
+
+const LocalFindingSchema = z.object({
+  path: z.string().min(1),
+  line: z.number().int().positive().optional(),
+  startLine: z.number().int().positive().optional(),
+  severity: z.preprocess(
+    value => (typeof value === 'string' ? value.toUpperCase() : value),
+    z.enum(SEVERITY_ORDER as [Severity, ...Severity[]])
+  ).default('N/A'),
+  title: z.string().min(1),
+  body: z.string().optional(),
+});
+
+const LocalOutputSchema = z.object({
+  summary: z.string().optional(),
+  comments: z.array(LocalFindingSchema).default([]),
+});
+
+export type LocalFinding = z.infer<typeof LocalFindingSchema>;
+export type LocalOutput = z.infer<typeof LocalOutputSchema>;
+
+/**
+ * Parse and validate a local command's stdout
+ */
+export function parseLocalOutput(stdout: string): LocalOutput {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stdout);
+  } catch {
+    throw new StructuredError('parse', 'Local agent output is not valid JSON', false,
+      'The command must print {"comments": [...]} on stdout');
+  }
+
+  const parsed = LocalOutputSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new StructuredError('parse', `Invalid local agent output: ${issues.join('; ')}`, false);
+  }
+  return parsed.data;
+}
+
+// ============================================================================
+// Running the Command
+// ============================================================================
+
+export interface LocalCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+}
+
+/** Output beyond this is discarded and the command killed */
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Run a shell command with `input` on stdin. Never rejects on command failure:
+ * exit code, timeout and output are returned for the caller to judge.
+ */
+export function runLocalCommand(
+  command: string,
+  options: { input: string; env?: Record<string, string>; cwd?: string; timeoutMs: number }
+): Promise<LocalCommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Own process group, so a timeout also stops anything the shell started
+      detached: process.platform !== 'win32',
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let size = 0;
+    let timedOut = false;
+
+    const kill = () => {
+      try {
+        if (child.pid && process.platform !== 'win32') process.kill(-child.pid, 'SIGKILL');
+        else child.kill('SIGKILL');
+      } catch {
+        // Already exited
+      }
+    };
+
+    const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_OUTPUT_BYTES) {
+        kill();
+        return;
+      }
+      chunks.push(chunk);
+    };
+    child.stdout.on('data', collect(stdout));
+    child.stderr.on('data', collect(stderr));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, options.timeoutMs);
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve({
+        stdout: Buffer.concat(stdout).toString('utf-8'),
+        stderr: Buffer.concat(stderr).toString('utf-8'),
+        exitCode: code,
+        timedOut,
+      });
+    });
+
+    // Commands that ignore stdin close it early - that is not an error
+    child.stdin.on('error', () => {});
+    child.stdin.end(options.input);
+  });
+}
+
+// ============================================================================
+// Review Output
+// ============================================================================
+
+export interface LocalReviewComment {
+  path: string;
+  line: number;
+  start_line?: number;
+  side: 'RIGHT';
+  start_side?: 'RIGHT';
+  body: string;
+}
+
+/**
+ * Lines of the new file that a review comment can attach to (added and context lines)
+ */
+export function commentableLines(patch: string | undefined): Set<number> {
+  const lines = new Set<number>();
+  if (!patch) return lines;
+
+  let next = 0;
+  for (const line of patch.split('\n')) {
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+    if (hunk) {
+      next = parseInt(hunk[1], 10);
+      continue;
+    }
+    if (next === 0 || line.startsWith('-') || line.startsWith('\\')) continue;
+    lines.add(next++);
+  }
+  return lines;
+}
+
+function formatFinding(agentId: string, finding: LocalFinding): string {
+  return [
+    localAgentMarker(agentId, finding.severity),
+    `${SEVERITY_ICONS[finding.severity]} **${finding.title}**`,
+    ...(finding.body ? ['', finding.body] : []),
+  ].join('\n');
+}
+
+function findingLocation(finding: LocalFinding): string {
+  if (!finding.line) return finding.path;
+  const range = finding.startLine && finding.startLine < finding.line ? `${finding.startLine}-${finding.line}` : finding.line;
+  return `${finding.path}:${range}`;
+}
+
+/**
+ * Build a review from command output. Findings on lines outside the diff
+ * can't be inline comments and are listed in the review body instead.
+ * @param diffLines - Commentable lines per file (see commentableLines)
+ */
+export function buildLocalReview(
+  agentId: string,
+  config: AgentConfig,
+  output: LocalOutput,
+  diffLines: Map<string, Set<number>>
+): { body: string; comments: LocalReviewComment[] } {
+  const comments: LocalReviewComment[] = [];
+  const outside: LocalFinding[] = [];
+
+  for (const finding of output.comments) {
+    const lines = diffLines.get(finding.path);
+    if (!finding.line || !lines?.has(finding.line)) {
+      outside.push(finding);
+      continue;
+    }
+
+    const comment: LocalReviewComment = { path: finding.path, line: finding.line, side: 'RIGHT', body: formatFinding(agentId, finding) };
+    const { startLine } = finding;
+    if (startLine && startLine < finding.line) {
+      let contiguous = true;
+      for (let l = startLine; l < finding.line && contiguous; l++) contiguous = lines.has(l);
+      if (contiguous) Object.assign(comment, { start_line: startLine, start_side: 'RIGHT' });
+    }
+    comments.push(comment);
+  }
+
+  const body = [
+    localAgentMarker(agentId),
+    `### ${config.name}`,
+    '',
+    output.summary ?? (output.comments.length === 0 ? 'No findings.' : `${output.comments.length} finding(s).`),
+  ];
+  if (outside.length > 0) {
+    body.push('', '**Findings outside the diff**', '');
+    for (const finding of outside) {
+      body.push(`- ${SEVERITY_ICONS[finding.severity]} \`${findingLocation(finding)}\` — **${finding.title}**`);
+    }
+  }
+
+  return { body: body.join('\n'), comments };
+}
+
+// ============================================================================
+// Synthetic Output
+// ============================================================================
+
+const FINDINGS_DATA = /<!-- pr-review-mcp:local-findings=([A-Za-z0-9+/=]*) -->/;
+const LOCAL_FINDING_ID = /^local-([a-z0-9][a-z0-9_-]*)-([0-9a-f]{8})$/;
+
+/**
+ * Content-based finding ID (same finding on a re-run keeps its ID and resolution)
+ */
+export function localFindingId(agentId: string, finding: Pick<LocalFinding, 'path' | 'line' | 'title'>): string {
+  const hash = createHash('md5')
+    .update(`${finding.path}:${finding.line ?? ''}:${finding.title.trim().toLowerCase()}`)
+    .digest('hex')
+    .slice(0, 8);
+  return `local-${agentId}-${hash}`;
+}
+
+/**
+ * Agent ID of a synthetic local finding ID, or null for other IDs
+ */
+export function parseLocalFindingId(id: string): string | null {
+  return LOCAL_FINDING_ID.exec(id)?.[1] ?? null;
+}
+
+/**
+ * Issue comment holding a local agent's findings: readable list plus the findings as data
+ */
+export function formatFindingsComment(agentId: string, config: AgentConfig, output: LocalOutput): string {
+  const lines = [
+    localAgentMarker(agentId),
+    `### ${config.name}`,
+    '',
+    output.summary ?? (output.comments.length === 0 ? 'No findings.' : `${output.comments.length} finding(s).`),
+  ];
+  if (output.comments.length > 0) lines.push('');
+  for (const finding of output.comments) {
+    lines.push(`- ${SEVERITY_ICONS[finding.severity]} \`${findingLocation(finding)}\` — **${finding.title}**`);
+  }
+
+  const data = Buffer.from(JSON.stringify(output.comments)).toString('base64');
+  lines.push('', `<!-- pr-review-mcp:local-findings=${data} -->`);
+  return lines.join('\n');
+}
+
+/**
+ * Read findings back from a findings comment as synthetic comments
+ */
+export function parseFindingsComment(
+  body: string,
+  meta: { author: string; updatedAt?: string }
+): ProcessedComment[] {
+  const agentId = parseLocalAgentMarker(body)?.agentId;
+  const data = FINDINGS_DATA.exec(body)?.[1];
+  if (!agentId || data === undefined) return [];
+
+  let findings: LocalFinding[];
+  try {
+    findings = z.array(LocalFindingSchema).parse(JSON.parse(Buffer.from(data, 'base64').toString('utf-8')));
+  } catch {
+    logger.warning(`[local] Ignoring unreadable findings comment from ${agentId}`);
+    return [];
+  }
+
+  return findings.map(finding => {
+    const id = localFindingId(agentId, finding);
+    const fullBody = formatFinding(agentId, finding);
+    return {
+      id,
+      threadId: id,
+      file: finding.path,
+      line: finding.line ?? '?',
+      outdated: false,
+      resolved: false,
+      canResolve: false,
+      severity: finding.severity,
+      type: severityToType(finding.severity),
+      source: agentId,
+      title: finding.title,
+      body: truncateBody(fullBody),
+      fullBody,
+      aiPrompt: null,
+      aiPromptConfidence: 'absent' as const,
+      author: meta.author,
+      createdAt: meta.updatedAt,
+      updatedAt: meta.updatedAt,
+      replies: [],
+    };
+  });
+}
+
+/**
+ * Synthetic findings of all local agents with output 'synthetic' on a PR
+ */
+export async function fetchLocalFindings(
+  owner: string,
+  repo: string,
+  pr: number,
+  octokit?: Octokit
+): Promise<ProcessedComment[]> {
+  const syntheticAgents = new Set(
+    getInvokableAgentIds().filter(id => getAgentConfig(id)?.local?.output === 'synthetic')
+  );
+  if (syntheticAgents.size === 0) return [];
+
+  try {
+    const ok = octokit ?? getOctokit();
+    const comments = await ok.paginate(ok.issues.listComments, { owner, repo, issue_number: pr, per_page: 100 });
+
+    return comments.flatMap(comment => {
+      const agentId = parseLocalAgentMarker(comment.body)?.agentId;
+      if (!agentId || !syntheticAgents.has(agentId)) return [];
+      return parseFindingsComment(comment.body ?? '', {
+        author: comment.user?.login ?? 'unknown',
+        updatedAt: comment.updated_at,
+      });
+    });
+  } catch (error) {
+    // Like nitpicks, synthetic findings are a bonus - don't fail the listing
+    logger.warning('[local] Failed to fetch local agent findings', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+// ============================================================================
+// Invocation
+// ============================================================================
+
+/** stderr included in failure messages */
+const STDERR_TAIL_CHARS = 500;
+
+function failed(config: AgentConfig, message: string): InvokeResult {
+  return { success: false, agent: config.name.toLowerCase(), agentName: config.name, commentUrl: null, message };
+}
+
+function stderrTail(stderr: string): string {
+  const trimmed = stderr.trim();
+  return trimmed.length > STDERR_TAIL_CHARS ? `...${trimmed.slice(-STDERR_TAIL_CHARS)}` : trimmed;
+}
+
+/**
+ * Run a local agent's command against the PR diff and post its findings.
+ * The command's JSON output is used whatever its exit code (linters exit
+ * non-zero when they find something).
+ */
+export async function invokeLocalAgent(
+  owner: string,
+  repo: string,
+  pr: number,
+  agentId: string,
+  config: AgentConfig,
+  options?: InvokeOptions,
+  octokit?: Octokit
+): Promise<InvokeResult> {
+  const local = config.local;
+  if (!local) return failed(config, `${config.name} is not a local agent`);
+
+  try {
+    const ok = octokit ?? getOctokit();
+    const [{ data: prData }, { data: diff }] = await Promise.all([
+      ok.pulls.get({ owner, repo, pull_number: pr }),
+      ok.pulls.get({ owner, repo, pull_number: pr, mediaType: { format: 'diff' } }),
+    ]);
+
+    const env: Record<string, string> = {
+      PR_REVIEW_OWNER: owner,
+      PR_REVIEW_REPO: repo,
+      PR_REVIEW_PR: String(pr),
+      PR_REVIEW_BASE_SHA: prData.base.sha,
+      PR_REVIEW_HEAD_SHA: prData.head.sha,
+    };
+    if (options?.focus && config.supports.includes('focus')) env.PR_REVIEW_FOCUS = options.focus;
+    if (options?.files?.length && config.supports.includes('files')) env.PR_REVIEW_FILES = options.files.join(',');
+    if (options?.incremental && config.supports.includes('incremental')) env.PR_REVIEW_INCREMENTAL = '1';
+
+    let run: LocalCommandResult;
+    try {
+      run = await runLocalCommand(config.command, {
+        input: diff as unknown as string,
+        env,
+        cwd: local.cwd,
+        timeoutMs: local.timeoutMs,
+      });
+    } catch (error) {
+      return failed(config, `Failed to start ${config.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (run.timedOut) {
+      return failed(config, `${config.name} timed out after ${Math.round(local.timeoutMs / 1000)}s`);
+    }
+
+    let output: LocalOutput;
+    try {
+      output = parseLocalOutput(run.stdout);
+    } catch (error) {
+      const stderr = stderrTail(run.stderr);
+      return failed(config,
+        `${config.name} exited with code ${run.exitCode}: ${error instanceof Error ? error.message : String(error)}` +
+        (stderr ? `\n${stderr}` : ''));
+    }
+
+    const commentUrl = local.output === 'review'
+      ? await postLocalReview(ok, owner, repo, pr, agentId, config, output, prData.head.sha)
+      : await upsertFindingsComment(ok, owner, repo, pr, agentId, config, output);
+
+    logger.info(`[local] ${config.name} reported ${output.comments.length} finding(s) on ${owner}/${repo}#${pr}`);
+    return {
+      success: true,
+      agent: config.name.toLowerCase(),
+      agentName: config.name,
+      commentUrl,
+      message: `${config.name} ran locally and reported ${output.comments.length} finding(s) ` +
+        (local.output === 'review' ? 'in a review.' : 'as synthetic comments.'),
+    };
+  } catch (e) {
+    if (e instanceof StructuredError) throw e;
+    if (e && typeof e === 'object' && 'status' in e) {
+      const status = (e as { status: number }).status;
+      if (status === 401) {
+        throw new StructuredError('auth', 'Authentication failed', false, 'Check GITHUB_PERSONAL_ACCESS_TOKEN');
+      }
+      if (status === 404) return failed(config, `PR not found: ${owner}/${repo}#${pr}`);
+      const message = (e as { message?: string }).message || 'Unknown error';
+      return failed(config, `GitHub API error (${status}): ${message.slice(0, 200)}`);
+    }
+    return failed(config, `Unexpected error: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+async function postLocalReview(
+  ok: Octokit,
+  owner: string,
+  repo: string,
+  pr: number,
+  agentId: string,
+  config: AgentConfig,
+  output: LocalOutput,
+  headSha: string
+): Promise<string> {
+  const files = await ok.paginate(ok.pulls.listFiles, { owner, repo, pull_number: pr, per_page: 100 });
+  const diffLines = new Map(files.map(f => [f.filename, commentableLines(f.patch)]));
+  const review = buildLocalReview(agentId, config, output, diffLines);
+
+  const { data } = await ok.pulls.createReview({
+    owner,
+    repo,
+    pull_number: pr,
+    commit_id: headSha,
+    event: 'COMMENT',
+    body: review.body,
+    comments: review.comments,
+  });
+  return data.html_url;
+}
+
+/**
+ * Replace the agent's previous findings comment, or post the first one
+ */
+async function upsertFindingsComment(
+  ok: Octokit,
+  owner: string,
+  repo: string,
+  pr: number,
+  agentId: string,
+  config: AgentConfig,
+  output: LocalOutput
+): Promise<string> {
+  const body = formatFindingsComment(agentId, config, output);
+  const comments = await ok.paginate(ok.issues.listComments, { owner, repo, issue_number: pr, per_page: 100 });
+  const existing = comments.find(c => parseLocalAgentMarker(c.body)?.agentId === agentId && FINDINGS_DATA.test(c.body ?? ''));
+
+  if (existing) {
+    const { data } = await ok.issues.updateComment({ owner, repo, comment_id: existing.id, body });
+    return data.html_url;
+  }
+  const { data } = await ok.issues.createComment({ owner, repo, issue_number: pr, body });
+  return data.html_url;
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for sequential pipeline step state and the runner's handling of disconnected sessions
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { stepStatus, toPipelineSteps, currentStep, PipelineRunner, ORPHAN_TIMEOUT_MS } from './pipeline.js';
+import type { InvocationStore } from '../persistence/invocation-store.js';
+import type { StoredAgentStatus, StoredInvocation } from '../persistence/types.js';
+
+function row(overrides: Partial<StoredAgentStatus>): StoredAgentStatus {
+  return {
+    id: 1,
+    invocationId: 1,
+    agentId: 'coderabbit',
+    ready: false,
+    confidence: null,
+    source: null,
+    lastActivity: null,
+    timedOut: false,
+    detail: null,
+    checkedAt: '2026-01-01T00:00:00.000Z',
+    step: 0,
+    invokedAt: null,
+    invokeError: null,
+    availability: null,
+    retryAfter: null,
+    triggerCommentId: null,
+    ...overrides
+  };
+}
+
+describe('stepStatus', () => {
+  it('is waiting until the step is invoked', () => {
+    expect(stepStatus(row({}))).toBe('waiting');
+  });
+
+  it('is running once invoked and not settled', () => {
+    expect(stepStatus(row({ invokedAt: '2026-01-01T00:00:00.000Z' }))).toBe('running');
+  });
+
+  it('reports completed and timed out steps', () => {
+    expect(stepStatus(row({ invokedAt: '2026-01-01T00:00:00.000Z', ready: true }))).toBe('completed');
+    expect(stepStatus(row({ invokedAt: '2026-01-01T00:00:00.000Z', timedOut: true }))).toBe('timed_out');
+  });
+
+  it('reports failed invocations over the timed out flag', () => {
+    expect(stepStatus(row({
+      invokedAt: '2026-01-01T00:00:00.000Z',
+      timedOut: true,
+      invokeError: 'Invocation failed: GitHub API error (403)'
+    }))).toBe('failed');
+  });
+});
+
+describe('toPipelineSteps', () => {
+  it('numbers steps from 1 and resolves agent names', () => {
+    const steps = toPipelineSteps([
+      row({ agentId: 'coderabbit', step: 0 }),
+      row({ agentId: 'gemini', step: 1 }),
+      row({ agentId: 'my-custom-bot', step: 2 })
+    ]);
+
+    expect(steps.map(s => s.step)).toEqual([1, 2, 3]);
+    expect(steps.map(s => s.name)).toEqual(['CodeRabbit', 'Gemini', 'my-custom-bot']);
+  });
+});
+
+describe('currentStep', () => {
+  it('returns the running step', () => {
+    const steps = toPipelineSteps([
+      row({ agentId: 'coderabbit', invokedAt: '2026-01-01T00:00:00.000Z', ready: true }),
+      row({ agentId: 'gemini', invokedAt: '2026-01-01T00:05:00.000Z' }),
+      row({ agentId: 'codex' })
+    ]);
+    expect(currentStep(steps)?.agentId).toBe('gemini');
+  });
+
+  it('falls back to the next waiting step', () => {
+    const steps = toPipelineSteps([
+      row({ agentId: 'coderabbit', invokedAt: '2026-01-01T00:00:00.000Z', timedOut: true }),
+      row({ agentId: 'gemini' })
+    ]);
+    expect(currentStep(steps)?.agentId).toBe('gemini');
+  });
+
+  it('returns null once every step settled', () => {
+    const steps = toPipelineSteps([
+      row({ agentId: 'coderabbit', invokedAt: '2026-01-01T00:00:00.000Z', ready: true }),
+      row({ agentId: 'gemini', invokedAt: '2026-01-01T00:00:00.000Z', invokeError: 'boom', timedOut: true })
+    ]);
+    expect(currentStep(steps)).toBeNull();
+  });
+});
+
+describe('PipelineRunner', () => {
+  const pipeline = { id: 7, owner: 'o', repo: 'r', pr: 1, sessionId: 'mux-1' } as StoredInvocation;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('cancels a pipeline whose session does not reconnect', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const store = {
+      listActivePipelines: vi.fn(() => [pipeline]),
+      cancel: vi.fn(() => true),
+    } as unknown as InvocationStore;
+    const onSettled = vi.fn();
+    const runner = new PipelineRunner(store, () => null, onSettled);
+
+    await runner.tick();
+    vi.setSystemTime(Date.now() + ORPHAN_TIMEOUT_MS - 1);
+    await runner.tick();
+    expect(store.cancel).not.toHaveBeenCalled();
+
+    vi.setSystemTime(Date.now() + 1);
+    await runner.tick();
+    expect(store.cancel).toHaveBeenCalledWith(7);
+    expect(onSettled).toHaveBeenCalledWith(pipeline);
+  });
+});
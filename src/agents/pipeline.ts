@@ -0,0 +1,382 @@
+/**
+ * Sequential Review Pipeline - Server-side sequencing of review agents
+ *
+ * A pipeline is a 'sequential' invocation in the SQLite store where every agent
+ * is an ordered step. The next agent is invoked only after the previous one is
+ * detected complete, exceeds its (learned) maxWaitMs, or reports that it is out of quota
+ * or unavailable (its configured fallback is then appended as a new step).
+ * All state lives in the database, so pipelines advance on every
+ * pr_await_reviews poll and, after a restart, are resumed by the PipelineRunner
+ * once the session that started them is connected again. The default session
+ * reconnects on its own; pipelines of other sessions are cancelled when their
+ * session stays away for ORPHAN_TIMEOUT_MS.
+ */
+
+import type { Octokit } from '@octokit/rest';
+import { agentScope, getAgentConfig } from './registry.js';
+import { invokeAgent, type InvokeOptions, type InvokeResult } from './invoker.js';
+import { fetchCompletionStatus } from './completion-detector.js';
+import { getOctokit } from '../github/octokit.js';
+import { loadFallbackChains } from '../github/repo-config.js';
+import { nextFallback, type FallbackChains } from './fallback.js';
+import { loadWaitTimes } from './wait-times.js';
+import { logger } from '../logging.js';
+import type { InvocationStore } from '../persistence/invocation-store.js';
+import type { StoredInvocation, StoredAgentStatus } from '../persistence/types.js';
+
+export type PipelineStepStatus =
+  | 'waiting'
+  | 'running'
+  | 'completed'
+  | 'timed_out'
+  | 'quota_exhausted'
+  | 'unavailable'
+  | 'failed';
+
+export interface PipelineStep {
+  /** 1-based position in the pipeline */
+  step: number;
+  agentId: string;
+  name: string;
+  status: PipelineStepStatus;
+  invokedAt: string | null;
+  confidence: string | null;
+  source: string | null;
+  lastActivity: string | null;
+  detail: string | null;
+  /** When a quota-exhausted agent accepts requests again, if known */
+  retryAfter: string | null;
+}
+
+/** Invoke options stored on a pipeline invocation */
+export interface PipelineOptions extends InvokeOptions {
+  /** Per-agent review scope (files changed since the agent's last review), applied over the shared options */
+  scopes?: Record<string, Pick<InvokeOptions, 'files' | 'incremental'>>;
+}
+
+export interface PipelineAdvance {
+  steps: PipelineStep[];
+  /** Invocation attempts made during this advance (failed ones included) */
+  invoked: InvokeResult[];
+}
+
+/** How often the runner advances active pipelines */
+const DEFAULT_RUNNER_INTERVAL_MS = 30_000;
+
+/** How long the runner keeps a pipeline whose session is not connected */
+export const ORPHAN_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Pipelines being advanced in this process (a poll and a runner tick can overlap) */
+const inFlight = new Set<number>();
+
+// ============================================================================
+// Step State
+// ============================================================================
+
+/**
+ * Derive a step's status from its agent_status row
+ */
+export function stepStatus(status: StoredAgentStatus): PipelineStepStatus {
+  if (status.invokeError) return 'failed';
+  if (status.ready) return 'completed';
+  if (status.availability) return status.availability;
+  if (status.timedOut) return 'timed_out';
+  return status.invokedAt ? 'running' : 'waiting';
+}
+
+/**
+ * Map agent_status rows (in step order) to pipeline steps
+ * @param scope - Repository scope for custom agent names (see agentScope)
+ */
+export function toPipelineSteps(statuses: StoredAgentStatus[], scope?: string): PipelineStep[] {
+  return statuses.map((s, index) => ({
+    step: index + 1,
+    agentId: s.agentId,
+    name: getAgentConfig(s.agentId, scope)?.name ?? s.agentId,
+    status: stepStatus(s),
+    invokedAt: s.invokedAt,
+    confidence: s.confidence,
+    source: s.source,
+    lastActivity: s.lastActivity,
+    detail: s.detail,
+    retryAfter: s.retryAfter,
+  }));
+}
+
+/**
+ * The step the pipeline is on: the running step, else the next waiting one.
+ * Null once every step has settled.
+ */
+export function currentStep(steps: PipelineStep[]): PipelineStep | null {
+  return steps.find(s => s.status === 'running')
+    ?? steps.find(s => s.status === 'waiting')
+    ?? null;
+}
+
+// ============================================================================
+// Advancing
+// ============================================================================
+
+/**
+ * Poll the running step and, once it settles, invoke the next waiting agent.
+ * Agents whose invocation fails are marked failed and skipped; agents that fail
+ * or report quota exhaustion/unavailability get their fallback appended.
+ * Safe to call repeatedly and concurrently: steps are claimed in the database
+ * before their agent is invoked.
+ */
+export async function advancePipeline(
+  store: InvocationStore,
+  invocation: StoredInvocation,
+  octokit?: Octokit,
+): Promise<PipelineAdvance> {
+  const invoked: InvokeResult[] = [];
+
+  if (inFlight.has(invocation.id)) {
+    return { steps: toPipelineSteps(store.getAgentStatuses(invocation.id), agentScope(invocation.owner, invocation.repo)), invoked };
+  }
+
+  inFlight.add(invocation.id);
+  try {
+    const ok = octokit ?? getOctokit();
+    // Also registers custom agents declared in the repository config
+    const chains = await loadFallbackChains(invocation.owner, invocation.repo, ok);
+
+    for (;;) {
+      const statuses = store.getAgentStatuses(invocation.id);
+      const running = statuses.find(s => stepStatus(s) === 'running');
+
+      if (running) {
+        if (!await pollStep(store, invocation, running, chains, ok)) break;
+        continue;
+      }
+
+      const next = statuses.find(s => stepStatus(s) === 'waiting');
+      if (!next) break;
+
+      const result = await startStep(store, invocation, next, statuses.length, chains, ok);
+      if (result) invoked.push(result);
+      // Keep going only past failed invocations; a running step needs time to review
+      if (result?.success !== false) break;
+    }
+  } finally {
+    inFlight.delete(invocation.id);
+  }
+
+  return { steps: toPipelineSteps(store.getAgentStatuses(invocation.id), agentScope(invocation.owner, invocation.repo)), invoked };
+}
+
+/**
+ * Append the agent's first fallback that is not already part of the pipeline.
+ * Must run before the step settles, or the invocation would complete first.
+ */
+function appendFallback(
+  store: InvocationStore,
+  invocation: StoredInvocation,
+  agentId: string,
+  chains: FallbackChains,
+): void {
+  const planned = new Set(store.getAgentStatuses(invocation.id).map(s => s.agentId));
+  const fallback = nextFallback(agentId, chains, planned);
+  if (fallback && store.appendStep(invocation.id, fallback)) {
+    logger.info(`[pipeline] ${invocation.owner}/${invocation.repo}#${invocation.pr}: ${agentId} replaced by fallback ${fallback}`);
+  }
+}
+
+/**
+ * Check whether the running step's agent finished, ran out of time, or reported
+ * it can't review. Returns true when the step settled.
+ */
+async function pollStep(
+  store: InvocationStore,
+  invocation: StoredInvocation,
+  status: StoredAgentStatus,
+  chains: FallbackChains,
+  octokit: Octokit,
+): Promise<boolean> {
+  const { owner, repo, pr } = invocation;
+  const config = getAgentConfig(status.agentId, agentScope(owner, repo));
+  if (!config) {
+    store.failStep(invocation.id, status.agentId, `Unknown agent: ${status.agentId}`);
+    return true;
+  }
+
+  let headSha: string | undefined;
+  let prSize = invocation.prSize;
+  try {
+    const prData = await octokit.pulls.get({ owner, repo, pull_number: pr });
+    headSha = prData.data.head.sha;
+    if (prSize === null) {
+      prSize = prData.data.additions + prData.data.deletions;
+      store.setPrSize(invocation.id, prSize);
+    }
+  } catch {
+    // headSha remains undefined — check runs won't be fetched
+  }
+
+  const detection = await fetchCompletionStatus(
+    owner, repo, pr, [status.agentId], status.invokedAt, octokit, headSha,
+  );
+  const detected = detection.agents.find(a => a.agentId === status.agentId);
+  const { maxWaitMs } = loadWaitTimes(store, [status.agentId], { owner, repo, prSize }).get(status.agentId)!;
+  const elapsedMs = Date.now() - new Date(status.invokedAt!).getTime();
+  const unavailable = detected?.unavailable !== undefined;
+  const timedOut = !detected?.ready && !unavailable && elapsedMs >= maxWaitMs;
+
+  if (unavailable) {
+    appendFallback(store, invocation, status.agentId, chains);
+  }
+
+  store.updateAgentStatus(invocation.id, [{
+    agentId: status.agentId,
+    name: detected?.name ?? config.name,
+    ready: detected?.ready ?? false,
+    confidence: detected?.confidence ?? 'low',
+    source: detected?.source,
+    lastActivity: detected?.lastActivity,
+    detail: detected?.detail ?? (timedOut ? `Exceeded maxWaitMs (${Math.round(maxWaitMs / 1000)}s)` : undefined),
+    unavailable: detected?.unavailable,
+    retryAfter: detected?.retryAfter,
+    timedOut,
+  }]);
+
+  return (detected?.ready ?? false) || unavailable || timedOut;
+}
+
+/**
+ * Claim and invoke a waiting step.
+ * Returns null when another caller claimed the step first.
+ */
+async function startStep(
+  store: InvocationStore,
+  invocation: StoredInvocation,
+  status: StoredAgentStatus,
+  total: number,
+  chains: FallbackChains,
+  octokit: Octokit,
+): Promise<InvokeResult | null> {
+  // Capture 1s before invocation to avoid strict > filtering missing same-second events
+  const invokedAt = new Date(Date.now() - 1000).toISOString();
+  const { owner, repo, pr } = invocation;
+  const { maxWaitMs } = loadWaitTimes(store, [status.agentId], { owner, repo, prSize: invocation.prSize })
+    .get(status.agentId)!;
+  if (!store.claimStep(invocation.id, status.agentId, invokedAt, maxWaitMs)) return null;
+
+  const { scopes, ...options } = (invocation.options ?? {}) as PipelineOptions;
+  let result: InvokeResult;
+  try {
+    result = await invokeAgent(
+      owner, repo, pr, status.agentId, { ...options, ...scopes?.[status.agentId] }, octokit,
+    );
+  } catch (e) {
+    result = {
+      success: false,
+      agent: status.agentId,
+      agentName: getAgentConfig(status.agentId, agentScope(owner, repo))?.name ?? status.agentId,
+      commentUrl: null,
+      message: e instanceof Error ? e.message : String(e),
+    };
+  }
+
+  const stepLabel = `step ${status.step + 1}/${total}`;
+  if (result.success) {
+    if (result.commentId) {
+      store.setTriggerComment(invocation.id, status.agentId, result.commentId);
+    }
+    logger.info(`[pipeline] ${owner}/${repo}#${pr}: invoked ${result.agentName} (${stepLabel})`);
+  } else {
+    appendFallback(store, invocation, status.agentId, chains);
+    store.failStep(invocation.id, status.agentId, `Invocation failed: ${result.message}`);
+    logger.warning(`[pipeline] ${owner}/${repo}#${pr}: failed to invoke ${result.agentName} (${stepLabel})`, {
+      error: result.message,
+    });
+  }
+  return result;
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Advances every active pipeline on an interval, including pipelines left
+ * active by a previous server process.
+ */
+export class PipelineRunner {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  /** Pipelines whose session is not connected, with when that was first noticed */
+  private readonly orphanedSince = new Map<number, number>();
+
+  /**
+   * @param resolveOctokit - Client for the session that started a pipeline, or null
+   *   when that session is not connected (the pipeline then waits for it, up to ORPHAN_TIMEOUT_MS)
+   * @param onSettled - Called when a pipeline finishes
+   */
+  constructor(
+    private readonly store: InvocationStore,
+    private readonly resolveOctokit: (sessionId: string) => Octokit | null,
+    private readonly onSettled?: (invocation: StoredInvocation) => void,
+    private readonly intervalMs: number = DEFAULT_RUNNER_INTERVAL_MS,
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    void this.tick();
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+    this.timer.unref(); // Don't prevent process exit
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Advance all active pipelines once */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      for (const invocation of this.store.listActivePipelines()) {
+        const octokit = this.resolveOctokit(invocation.sessionId);
+        if (!octokit) {
+          this.handleOrphan(invocation);
+          continue;
+        }
+        this.orphanedSince.delete(invocation.id);
+
+        try {
+          await advancePipeline(this.store, invocation, octokit);
+          if (this.store.getInvocation(invocation.id)?.status !== 'active') {
+            this.onSettled?.(invocation);
+          }
+        } catch (e) {
+          logger.warning(`[pipeline] Failed to advance pipeline ${invocation.id}`, {
+            error: e instanceof Error ? e.message : String(e),
+          });
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /** Wait for the session of a pipeline to reconnect, and cancel the pipeline when it doesn't */
+  private handleOrphan(invocation: StoredInvocation): void {
+    const label = `${invocation.owner}/${invocation.repo}#${invocation.pr}`;
+    const since = this.orphanedSince.get(invocation.id);
+    if (since === undefined) {
+      this.orphanedSince.set(invocation.id, Date.now());
+      logger.warning(`[pipeline] ${label}: session ${invocation.sessionId} is not connected, pipeline ${invocation.id} is waiting for it`);
+      return;
+    }
+    if (Date.now() - since < ORPHAN_TIMEOUT_MS) return;
+
+    this.orphanedSince.delete(invocation.id);
+    if (this.store.cancel(invocation.id)) {
+      logger.warning(`[pipeline] ${label}: cancelled pipeline ${invocation.id}, session ${invocation.sessionId} did not reconnect`);
+      this.onSettled?.(invocation);
+    }
+  }
+}
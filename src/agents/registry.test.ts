@@ -9,15 +9,26 @@ import {
   getDefaultAgents,
   getReviewMode,
   getEnvConfig,
+  agentScope,
   getAgentConfig,
   getInvokableAgentIds,
   isInvokableAgent,
+  compileCustomAgents,
+  registerCustomAgents,
+  clearCustomAgents,
+  getCustomAgentFromAuthor,
+  localAgentMarker,
+  parseLocalAgentMarker,
+  commandTrackingId,
+  getAgentCommands,
+  isTrackableAgent,
+  type BuiltinAgentId,
   type InvokableAgentId,
 } from './registry.js';
 
 describe('INVOKABLE_AGENTS', () => {
   it('contains all expected agents', () => {
-    const expectedAgents: InvokableAgentId[] = ['coderabbit', 'sourcery', 'qodo', 'gemini', 'codex', 'copilot', 'greptile'];
+    const expectedAgents: BuiltinAgentId[] = ['coderabbit', 'sourcery', 'qodo', 'gemini', 'codex', 'copilot', 'greptile'];
     for (const agent of expectedAgents) {
       expect(INVOKABLE_AGENTS[agent]).toBeDefined();
     }
@@ -268,3 +279,159 @@ describe('isInvokableAgent', () => {
     expect(isInvokableAgent('__proto__')).toBe(false); // Prototype pollution attempt
   });
 });
+
+describe('command catalog', () => {
+  it('lists commands for built-in agents only', () => {
+    expect(Object.keys(getAgentCommands('coderabbit'))).toContain('pause');
+    expect(getAgentCommands('copilot')).toEqual({});
+    expect(getAgentCommands('__proto__')).toEqual({});
+  });
+
+  it('tracks review commands under the agent and replies under agent:command', () => {
+    expect(commandTrackingId('coderabbit', 'full_review')).toBe('coderabbit');
+    expect(commandTrackingId('gemini', 'summary')).toBe('gemini:summary');
+    expect(commandTrackingId('coderabbit', 'pause')).toBeNull();
+    expect(commandTrackingId('coderabbit', 'unknown')).toBeNull();
+  });
+
+  it('resolves tracked commands to the agent config with the command\'s completion strategy', () => {
+    const config = getAgentConfig('gemini:summary');
+    expect(config?.name).toBe('Gemini summary');
+    expect(config?.authorPattern).toBe('gemini-code-assist');
+    expect(config?.completionStrategy.sources).toEqual(['issue_comments']);
+    expect(isTrackableAgent('gemini:summary')).toBe(true);
+    expect(isTrackableAgent('coderabbit:pause')).toBe(false);
+    expect(isInvokableAgent('gemini:summary')).toBe(false);
+  });
+});
+
+describe('custom agents', () => {
+  const acme = {
+    name: 'Acme Review',
+    command: '@acme-bot review',
+    type: 'mention',
+    supports: ['focus'],
+    authorPattern: 'acme-bot',
+    completionStrategy: {
+      sources: ['reviews'],
+      bodyPattern: '^## Acme Review',
+      excludePatterns: ['/rate limit/i'],
+      expectedTimeMs: 60_000,
+      maxWaitMs: 300_000,
+    },
+  };
+
+  beforeEach(() => {
+    clearCustomAgents();
+  });
+
+  afterEach(() => {
+    clearCustomAgents();
+  });
+
+  describe('compileCustomAgents', () => {
+    it('compiles regex strings and applies defaults', () => {
+      const { agents, errors } = compileCustomAgents({ acme });
+      expect(errors).toEqual([]);
+      const strategy = agents.acme.completionStrategy;
+      expect(strategy.bodyPattern).toBeInstanceOf(RegExp);
+      expect(strategy.bodyPattern?.test('## Acme Review\n')).toBe(true);
+      expect(strategy.excludePatterns?.[0].flags).toBe('i');
+      expect(strategy.filterPendingReviews).toBe(true);
+    });
+
+    it('rejects reserved and malformed IDs', () => {
+      const { agents, errors } = compileCustomAgents({ coderabbit: acme, all: acme, 'Bad ID': acme });
+      expect(Object.keys(agents)).toEqual([]);
+      expect(errors).toHaveLength(3);
+    });
+
+    it('reports invalid definitions', () => {
+      const { agents, errors } = compileCustomAgents({
+        broken: { ...acme, completionStrategy: { ...acme.completionStrategy, bodyPattern: '(' } },
+        slow: { ...acme, completionStrategy: { ...acme.completionStrategy, maxWaitMs: 1_000 } },
+        typo: { ...acme, comand: 'x' },
+      });
+      expect(Object.keys(agents)).toEqual([]);
+      expect(errors[0]).toMatch(/broken.*bodyPattern.*invalid regex/);
+      expect(errors[1]).toMatch(/slow.*maxWaitMs/);
+      expect(errors[2]).toMatch(/typo/);
+    });
+
+    it('rejects stateful regex flags', () => {
+      const { agents, errors } = compileCustomAgents({
+        acme: { ...acme, completionStrategy: { ...acme.completionStrategy, excludePatterns: ['/rate limit/gi'] } },
+        sticky: { ...acme, completionStrategy: { ...acme.completionStrategy, bodyPattern: '/^## Acme/y' } },
+      });
+      expect(Object.keys(agents)).toEqual([]);
+      expect(errors[0]).toMatch(/acme.*excludePatterns.*g and y flags/);
+      expect(errors[1]).toMatch(/sticky.*bodyPattern.*g and y flags/);
+    });
+
+    it('rejects a non-object section', () => {
+      expect(compileCustomAgents([acme]).errors).toHaveLength(1);
+      expect(compileCustomAgents(undefined)).toEqual({ agents: {}, errors: [] });
+    });
+
+    it('compiles local agents only where allowed', () => {
+      const lint = { name: 'Lint', type: 'local', command: 'npm run -s lint:json', output: 'synthetic' };
+
+      expect(compileCustomAgents({ lint }).errors[0]).toMatch(/lint.*local config file/);
+
+      const { agents, errors } = compileCustomAgents({ lint }, { allowLocal: true });
+      expect(errors).toEqual([]);
+      expect(agents.lint.local).toEqual({ output: 'synthetic', timeoutMs: 120_000 });
+      expect(agents.lint.authorPattern).toEqual([]);
+      expect(agents.lint.completionStrategy.sources).toEqual(['issue_comments']);
+      expect(agents.lint.completionStrategy.maxWaitMs).toBeGreaterThan(120_000);
+      expect(agents.lint.completionStrategy.bodyPattern?.test(localAgentMarker('lint'))).toBe(true);
+      expect(agents.lint.completionStrategy.bodyPattern?.test(localAgentMarker('lint2'))).toBe(false);
+    });
+  });
+
+  describe('local agent markers', () => {
+    it('round-trips agent ID and severity', () => {
+      expect(parseLocalAgentMarker(`text\n${localAgentMarker('lint', 'N/A')}`)).toEqual({ agentId: 'lint', severity: 'N/A' });
+      expect(parseLocalAgentMarker(localAgentMarker('my_lint'))).toEqual({ agentId: 'my_lint' });
+      expect(parseLocalAgentMarker('<!-- other -->')).toBeNull();
+    });
+  });
+
+  describe('registerCustomAgents', () => {
+    const scope = agentScope('Owner', 'Repo');
+
+    it('makes agents invokable and resolvable by author in their repository', () => {
+      expect(registerCustomAgents({ acme }, scope)).toEqual(['acme']);
+      expect(scope).toBe('owner/repo');
+      expect(isInvokableAgent('acme', scope)).toBe(true);
+      expect(getAgentConfig('acme', scope)?.name).toBe('Acme Review');
+      expect(getInvokableAgentIds(scope)).toContain('acme');
+      expect(getCustomAgentFromAuthor('acme-bot[bot]', scope)).toBe('acme');
+      expect(getCustomAgentFromAuthor('coderabbitai', scope)).toBeNull();
+    });
+
+    it('keeps a repository\'s agents out of other repositories', () => {
+      registerCustomAgents({ acme }, scope);
+      registerCustomAgents({ other: { ...acme, name: 'Other', authorPattern: 'other-bot' } }, agentScope('o', 'second'));
+
+      expect(isInvokableAgent('acme')).toBe(false);
+      expect(isInvokableAgent('acme', agentScope('o', 'second'))).toBe(false);
+      expect(getInvokableAgentIds(scope)).not.toContain('other');
+      expect(getCustomAgentFromAuthor('acme-bot', agentScope('o', 'second'))).toBeNull();
+    });
+
+    it('replaces the repository\'s previous agents', () => {
+      registerCustomAgents({ acme }, scope);
+      registerCustomAgents({ beta: { ...acme, name: 'Beta' } }, scope);
+
+      expect(isInvokableAgent('acme', scope)).toBe(false);
+      expect(isInvokableAgent('beta', scope)).toBe(true);
+      registerCustomAgents(undefined, scope);
+      expect(isInvokableAgent('beta', scope)).toBe(false);
+    });
+
+    it('is cleared between tests', () => {
+      expect(isInvokableAgent('acme', scope)).toBe(false);
+    });
+  });
+});
@@ -4,8 +4,19 @@
  * Configuration via environment variables:
  * - PR_REVIEW_AGENTS: Comma-separated list of agents to invoke (default: 'coderabbit')
  * - PR_REVIEW_MODE: 'sequential' | 'parallel' (default: 'sequential')
+ * - PR_REVIEW_CONFIG: Local config file with custom agents (default: ~/.config/pr-review/config.json)
+ *
+ * Custom agents are declared under `customAgents` in the local config file or in
+ * a repository's .github/pr-review.json, keyed by agent ID. Custom agents of type
+ * 'local' run a command on this machine instead of posting a PR comment.
+ * Repository agents are only visible to lookups for that repository (see
+ * agentScope); local config agents are visible everywhere.
  */
 
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
 import { logger } from '../logging.js';
 
 // ============================================================================
@@ -21,8 +32,12 @@ export interface CompletionStrategy {
   sources: CompletionSource[];
   /** Body pattern that confirms completion (regex) */
   bodyPattern?: RegExp;
-  /** Patterns that indicate NOT complete (placeholders, errors, rate limits) */
+  /** Patterns that indicate NOT complete (placeholders, progress messages) */
   excludePatterns?: RegExp[];
+  /** Patterns meaning the agent is out of quota or rate limited (reported as quota_exhausted) */
+  quotaPatterns?: RegExp[];
+  /** Patterns meaning the agent can't review at all: plan, account or setup problems (reported as unavailable) */
+  unavailablePatterns?: RegExp[];
   /** Whether to filter reviews by state !== PENDING */
   filterPendingReviews: boolean;
   /** Expected completion time in ms (for logging/monitoring) */
@@ -33,13 +48,23 @@ export interface CompletionStrategy {
   checkRunAppSlugs?: string[];
 }
 
+/** How a local agent runs and where its findings go */
+export interface LocalAgentOptions {
+  /** 'review': GitHub review with inline comments; 'synthetic': one findings comment listed like nitpicks */
+  output: 'review' | 'synthetic';
+  /** Kill the command after this long */
+  timeoutMs: number;
+  /** Working directory for the command (default: server working directory) */
+  cwd?: string;
+}
+
 export interface AgentConfig {
   /** Human-readable agent name */
   name: string;
-  /** Command to invoke the agent (mention or slash command) */
+  /** Command to invoke the agent (mention or slash command; shell command for local agents) */
   command: string;
-  /** Type of invocation: @mention or /slash command */
-  type: 'mention' | 'slash';
+  /** Type of invocation: @mention, /slash command, or a local command run against the PR diff */
+  type: 'mention' | 'slash' | 'local';
   /** Supported options: focus, files, incremental */
   supports: ('focus' | 'files' | 'incremental')[];
   /** Whether to apply MSYS_NO_PATHCONV workaround on Windows */
@@ -48,9 +73,29 @@ export interface AgentConfig {
   authorPattern: string | string[];
   /** How to detect that this agent has completed its review */
   completionStrategy: CompletionStrategy;
+  /** Set for type 'local' */
+  local?: LocalAgentOptions;
+}
+
+/** A command an agent understands besides its review trigger */
+export interface AgentCommand {
+  /** What the command does */
+  description: string;
+  /** Comment to post; `{args}` is replaced with the caller's arguments */
+  template: string;
+  /** Whether the command takes arguments (default: none) */
+  args?: 'required' | 'optional';
+  /**
+   * How to detect that the agent acted on the command: 'review' uses the agent's
+   * own completion strategy. Commands without one (they only change settings or
+   * the PR description) are not tracked.
+   */
+  completion?: 'review' | CompletionStrategy;
 }
 
-export type InvokableAgentId = 'coderabbit' | 'sourcery' | 'qodo' | 'gemini' | 'codex' | 'copilot' | 'greptile';
+export type BuiltinAgentId = 'coderabbit' | 'sourcery' | 'qodo' | 'gemini' | 'codex' | 'copilot' | 'greptile';
+/** Built-in agent ID, or the ID of a custom agent from local or repository config */
+export type InvokableAgentId = BuiltinAgentId | (string & {});
 export type ReviewMode = 'sequential' | 'parallel';
 
 // ============================================================================
@@ -60,7 +105,7 @@ export type ReviewMode = 'sequential' | 'parallel';
 /**
  * Agents that can be manually invoked via pr_invoke
  */
-export const INVOKABLE_AGENTS: Record<InvokableAgentId, AgentConfig> = {
+export const INVOKABLE_AGENTS: Record<BuiltinAgentId, AgentConfig> = {
   coderabbit: {
     name: 'CodeRabbit',
     command: '@coderabbitai review',
@@ -70,6 +115,7 @@ export const INVOKABLE_AGENTS: Record<InvokableAgentId, AgentConfig> = {
     completionStrategy: {
       sources: ['check_runs', 'reviews'],
       bodyPattern: /^\*\*Actionable comments posted: \d+\*\*/,
+      quotaPatterns: [/rate limit exceeded/i],
       filterPendingReviews: true,
       expectedTimeMs: 300_000,   // 5 min
       maxWaitMs: 720_000,        // 12 min
@@ -85,7 +131,7 @@ export const INVOKABLE_AGENTS: Record<InvokableAgentId, AgentConfig> = {
     completionStrategy: {
       sources: ['reviews'],
       bodyPattern: /^Hey - I've found \d+ issues?/,
-      excludePatterns: [/rate limit/i, /review limit/i],
+      quotaPatterns: [/rate limit/i, /review limit/i],
       filterPendingReviews: true,
       expectedTimeMs: 120_000,   // 2 min
       maxWaitMs: 300_000,        // 5 min
@@ -117,6 +163,7 @@ export const INVOKABLE_AGENTS: Record<InvokableAgentId, AgentConfig> = {
       sources: ['reviews'],
       bodyPattern: /^## Code Review\n/,
       excludePatterns: [/I'm currently reviewing/i, /will post my feedback shortly/i],
+      quotaPatterns: [/daily quota limit/i],
       filterPendingReviews: true,
       expectedTimeMs: 240_000,   // 4 min
       maxWaitMs: 600_000,        // 10 min
@@ -132,7 +179,8 @@ export const INVOKABLE_AGENTS: Record<InvokableAgentId, AgentConfig> = {
     completionStrategy: {
       sources: ['reviews'],
       bodyPattern: /^### 💡 Codex Review/,
-      excludePatterns: [/create a Codex account/i, /create an environment/i],
+      quotaPatterns: [/usage limits?/i],
+      unavailablePatterns: [/create a Codex account/i, /create an environment/i],
       filterPendingReviews: true,
       expectedTimeMs: 300_000,   // 5 min
       maxWaitMs: 600_000,        // 10 min
@@ -161,7 +209,7 @@ export const INVOKABLE_AGENTS: Record<InvokableAgentId, AgentConfig> = {
     completionStrategy: {
       sources: ['reviews', 'issue_comments'],
       bodyPattern: /(?:<sub>\d+ files reviewed|<h2>Greptile Overview<\/h2>)/,
-      excludePatterns: [/free trial has ended/i],
+      unavailablePatterns: [/free trial has ended/i],
       filterPendingReviews: true,
       expectedTimeMs: 300_000,   // 5 min
       maxWaitMs: 600_000,        // 10 min
@@ -185,6 +233,311 @@ export const PARSABLE_SOURCES = [
 
 export type ParsableSource = typeof PARSABLE_SOURCES[number];
 
+// ============================================================================
+// Command Catalog
+// ============================================================================
+
+/** Replies to chat-style commands: expected quickly, but may wait in the agent's queue */
+const REPLY_TIMING = { filterPendingReviews: false, expectedTimeMs: 60_000, maxWaitMs: 300_000 };
+
+/**
+ * Commands each built-in agent supports, by command name (used by pr_agent_command)
+ */
+export const AGENT_COMMANDS: Partial<Record<BuiltinAgentId, Record<string, AgentCommand>>> = {
+  coderabbit: {
+    full_review: {
+      description: 'Review all files from scratch, ignoring earlier reviews',
+      template: '@coderabbitai full review',
+      completion: 'review',
+    },
+    pause: { description: 'Pause automatic reviews on this PR', template: '@coderabbitai pause' },
+    resume: { description: 'Resume automatic reviews on this PR', template: '@coderabbitai resume' },
+    resolve: { description: 'Resolve all CodeRabbit review comments', template: '@coderabbitai resolve' },
+    summary: { description: 'Regenerate the summary in the PR description', template: '@coderabbitai summary' },
+    explain: {
+      description: 'Ask CodeRabbit to explain code or answer a question about the PR',
+      template: '@coderabbitai {args}',
+      args: 'required',
+      completion: {
+        sources: ['issue_comments'],
+        // The walkthrough comment is edited on every push
+        excludePatterns: [/auto-generated comment: summarize by coderabbit\.ai/],
+        ...REPLY_TIMING,
+      },
+    },
+  },
+  sourcery: {
+    summary: { description: 'Regenerate the summary in the PR description', template: '@sourcery-ai summary' },
+    guide: { description: "Regenerate the reviewer's guide", template: '@sourcery-ai guide' },
+    resolve: { description: 'Resolve all Sourcery review comments', template: '@sourcery-ai resolve' },
+    dismiss: { description: 'Dismiss all Sourcery reviews', template: '@sourcery-ai dismiss' },
+  },
+  qodo: {
+    improve: {
+      description: 'Suggest code improvements',
+      template: '/improve',
+      completion: { sources: ['issue_comments'], bodyPattern: /PR Code Suggestions/, ...REPLY_TIMING },
+    },
+    describe: { description: 'Rewrite the PR title and description', template: '/describe' },
+    ask: {
+      description: 'Ask a question about the PR',
+      template: '/ask {args}',
+      args: 'required',
+      completion: { sources: ['issue_comments'], bodyPattern: /Ask❓/, ...REPLY_TIMING },
+    },
+  },
+  gemini: {
+    summary: {
+      description: 'Post a summary of the PR',
+      template: '/gemini summary',
+      completion: { sources: ['issue_comments'], bodyPattern: /^## Summary of Changes/, ...REPLY_TIMING },
+    },
+    explain: {
+      description: 'Ask Gemini to explain code or answer a question about the PR',
+      template: '@gemini-code-assist {args}',
+      args: 'required',
+      completion: {
+        sources: ['issue_comments'],
+        excludePatterns: [/^## Summary of Changes/],
+        ...REPLY_TIMING,
+      },
+    },
+  },
+};
+
+/** Separates agent and command in the agent ID a tracked command is recorded under */
+const COMMAND_SEPARATOR = ':';
+
+// ============================================================================
+// Custom Agents
+// ============================================================================
+
+/**
+ * Regex given as a string: "pattern" or "/pattern/flags". The g and y flags are
+ * rejected: they make test() stateful, so a shared pattern would skip matches.
+ */
+const RegexStringSchema = z.string().min(1).transform((value, ctx) => {
+  const literal = value.match(/^\/([\s\S]+)\/([dgimsuy]*)$/);
+  if (literal && /[gy]/.test(literal[2])) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'the g and y flags are not supported'
+    });
+    return z.NEVER;
+  }
+  try {
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `invalid regex (${error instanceof Error ? error.message : String(error)})`
+    });
+    return z.NEVER;
+  }
+});
+
+const CustomAgentSchema = z.object({
+  name: z.string().min(1),
+  command: z.string().min(1),
+  type: z.enum(['mention', 'slash']),
+  supports: z.array(z.enum(['focus', 'files', 'incremental'])).default([]),
+  msysWorkaround: z.boolean().optional(),
+  authorPattern: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  completionStrategy: z.object({
+    sources: z.array(z.enum(['reviews', 'issue_comments', 'check_runs'])).min(1),
+    bodyPattern: RegexStringSchema.optional(),
+    excludePatterns: z.array(RegexStringSchema).optional(),
+    quotaPatterns: z.array(RegexStringSchema).optional(),
+    unavailablePatterns: z.array(RegexStringSchema).optional(),
+    filterPendingReviews: z.boolean().default(true),
+    expectedTimeMs: z.number().int().positive(),
+    maxWaitMs: z.number().int().positive(),
+    checkRunAppSlugs: z.array(z.string().min(1)).optional(),
+  }).refine(s => s.maxWaitMs >= s.expectedTimeMs, {
+    message: 'maxWaitMs must not be less than expectedTimeMs',
+    path: ['maxWaitMs'],
+  }),
+}).strict();
+
+const LocalAgentSchema = z.object({
+  name: z.string().min(1),
+  type: z.literal('local'),
+  command: z.string().min(1),
+  supports: z.array(z.enum(['focus', 'files', 'incremental'])).default([]),
+  output: z.enum(['review', 'synthetic']).default('review'),
+  timeoutMs: z.number().int().positive().max(1_800_000).default(120_000),
+  cwd: z.string().min(1).optional(),
+}).strict();
+
+const CUSTOM_AGENT_ID = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** Time allowed after a local command finishes for its review or comment to show up */
+const LOCAL_POST_GRACE_MS = 60_000;
+
+/**
+ * Agent config for a local command. Local agents post under the server's token,
+ * so completion is detected by the hidden marker in their review or comment
+ * rather than by author.
+ */
+function toLocalAgentConfig(id: string, definition: z.infer<typeof LocalAgentSchema>): AgentConfig {
+  const { name, command, supports, output, timeoutMs, cwd } = definition;
+  return {
+    name,
+    command,
+    type: 'local',
+    supports,
+    authorPattern: [],
+    completionStrategy: {
+      sources: [output === 'review' ? 'reviews' : 'issue_comments'],
+      bodyPattern: new RegExp(escapeRegExp(`<!-- ${LOCAL_MARKER_PREFIX}${id} `)),
+      filterPendingReviews: true,
+      expectedTimeMs: Math.min(30_000, timeoutMs),
+      maxWaitMs: timeoutMs + LOCAL_POST_GRACE_MS,
+    },
+    local: { output, timeoutMs, ...(cwd && { cwd }) },
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Scope of the local config file's agents (repository scopes always contain "/") */
+const LOCAL_SCOPE = 'local';
+
+/** Custom agents by scope, then ID */
+const customAgents = new Map<string, Map<string, AgentConfig>>();
+
+const LOCAL_CONFIG_PATH = process.env.PR_REVIEW_CONFIG || join(homedir(), '.config', 'pr-review', 'config.json');
+let localConfigLoaded = false;
+
+/**
+ * Validate custom agent definitions (`customAgents` object keyed by agent ID).
+ * Invalid definitions are dropped and reported in `errors`. Local agents run
+ * commands on this machine, so they are only accepted with `allowLocal`
+ * (the local config file, never repository config).
+ */
+export function compileCustomAgents(
+  raw: unknown,
+  { allowLocal = false }: { allowLocal?: boolean } = {}
+): { agents: Record<string, AgentConfig>; errors: string[] } {
+  const agents: Record<string, AgentConfig> = {};
+  const errors: string[] = [];
+
+  if (raw === undefined) return { agents, errors };
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { agents, errors: ['customAgents must be an object keyed by agent ID'] };
+  }
+
+  for (const [id, definition] of Object.entries(raw)) {
+    if (!CUSTOM_AGENT_ID.test(id)) {
+      errors.push(`agent "${id}": ID must be lowercase letters, digits, "-" or "_"`);
+      continue;
+    }
+    if (id === 'all' || Object.hasOwn(INVOKABLE_AGENTS, id)) {
+      errors.push(`agent "${id}": ID is reserved by a built-in agent`);
+      continue;
+    }
+
+    const isLocal = (definition as { type?: unknown } | null)?.type === 'local';
+    if (isLocal && !allowLocal) {
+      errors.push(`agent "${id}": local agents can only be defined in the local config file`);
+      continue;
+    }
+    const parsed = isLocal
+      ? LocalAgentSchema.safeParse(definition)
+      : CustomAgentSchema.safeParse(definition);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`);
+      errors.push(`agent "${id}": ${issues.join('; ')}`);
+      continue;
+    }
+    agents[id] = parsed.data.type === 'local'
+      ? toLocalAgentConfig(id, parsed.data)
+      : parsed.data;
+  }
+
+  return { agents, errors };
+}
+
+/**
+ * Registry scope of a repository's custom agents
+ */
+export function agentScope(owner: string, repo: string): string {
+  return `${owner}/${repo}`.toLowerCase();
+}
+
+/**
+ * Register a repository's custom agents (scope from agentScope), replacing the
+ * agents previously registered for it. In that repository they take precedence
+ * over local config agents with the same ID.
+ * @returns IDs that were registered
+ */
+export function registerCustomAgents(raw: unknown, scope: string): string[] {
+  return registerScope(raw, scope, scope);
+}
+
+function registerScope(raw: unknown, scope: string, origin: string, options?: { allowLocal?: boolean }): string[] {
+  const { agents, errors } = compileCustomAgents(raw, options);
+  if (errors.length > 0) {
+    logger.warning(`[registry] Ignoring invalid custom agents from ${origin}`, { errors });
+  }
+
+  if (scope !== LOCAL_SCOPE) {
+    const shadowed = Object.keys(agents).filter(id => customAgents.get(LOCAL_SCOPE)?.has(id));
+    if (shadowed.length > 0) {
+      logger.warning(`[registry] Custom agents from ${origin} replace local config agents in this repository`, { shadowed });
+    }
+  }
+  customAgents.set(scope, new Map(Object.entries(agents)));
+  return Object.keys(agents);
+}
+
+/**
+ * Drop all custom agents
+ * @internal Exported for testing
+ */
+export function clearCustomAgents(): void {
+  customAgents.clear();
+  localConfigLoaded = true;
+}
+
+/**
+ * Custom agents visible in a scope: local config agents, then the repository's.
+ * Without a scope only local config agents are visible.
+ */
+function scopedAgents(scope?: string): Map<string, AgentConfig> {
+  ensureLocalAgents();
+  const local = customAgents.get(LOCAL_SCOPE);
+  const repo = scope !== undefined ? customAgents.get(scope) : undefined;
+  if (!repo || repo.size === 0) return local ?? new Map();
+  return local ? new Map([...local, ...repo]) : repo;
+}
+
+/**
+ * Load custom agents from the local config file (once per process)
+ */
+function ensureLocalAgents(): void {
+  if (localConfigLoaded) return;
+  localConfigLoaded = true;
+
+  let content: string;
+  try {
+    content = readFileSync(LOCAL_CONFIG_PATH, 'utf-8');
+  } catch {
+    return; // No local config
+  }
+
+  try {
+    const parsed = JSON.parse(content);
+    registerScope(parsed?.customAgents, LOCAL_SCOPE, LOCAL_CONFIG_PATH, { allowLocal: true });
+  } catch (error) {
+    logger.warning(`[registry] Invalid JSON in ${LOCAL_CONFIG_PATH}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 // ============================================================================
 // Environment Configuration
 // ============================================================================
@@ -196,8 +549,9 @@ const DEFAULT_MODE: ReviewMode = 'sequential';
  * Get default agents from PR_REVIEW_AGENTS environment variable
  * Format: comma-separated list of agent IDs (e.g., "coderabbit,gemini,codex")
  * Default: ['coderabbit']
+ * @param scope - Repository scope whose custom agents may be named (see agentScope)
  */
-export function getDefaultAgents(): InvokableAgentId[] {
+export function getDefaultAgents(scope?: string): InvokableAgentId[] {
   const envValue = process.env.PR_REVIEW_AGENTS;
 
   if (!envValue || envValue.trim() === '') {
@@ -208,12 +562,12 @@ export function getDefaultAgents(): InvokableAgentId[] {
     .split(',')
     .map(s => s.trim().toLowerCase());
 
-  const invalidAgents = rawAgents.filter(id => !isInvokableAgent(id));
+  const invalidAgents = rawAgents.filter(id => !isInvokableAgent(id, scope));
   if (invalidAgents.length > 0) {
     logger.warning(`[registry] Invalid agent IDs in PR_REVIEW_AGENTS: ${invalidAgents.join(', ')}`);
   }
 
-  const agents = rawAgents.filter((id): id is InvokableAgentId => isInvokableAgent(id));
+  const agents = rawAgents.filter((id): id is InvokableAgentId => isInvokableAgent(id, scope));
 
   return agents.length > 0 ? agents : DEFAULT_AGENTS;
 }
@@ -252,23 +606,120 @@ export function getEnvConfig(): { agents: InvokableAgentId[]; mode: ReviewMode }
 // ============================================================================
 
 /**
- * Get agent config by ID
+ * Get agent config by ID (built-in or custom)
+ * @param scope - Repository scope for its custom agents (see agentScope)
  */
-export function getAgentConfig(agentId: string): AgentConfig | undefined {
-  return INVOKABLE_AGENTS[agentId as InvokableAgentId];
+export function getAgentConfig(agentId: string, scope?: string): AgentConfig | undefined {
+  if (Object.hasOwn(INVOKABLE_AGENTS, agentId)) {
+    return INVOKABLE_AGENTS[agentId as BuiltinAgentId];
+  }
+  if (agentId.includes(COMMAND_SEPARATOR)) {
+    return getCommandConfig(agentId);
+  }
+  return scopedAgents(scope).get(agentId);
+}
+
+/**
+ * Commands an agent supports (empty for custom agents)
+ */
+export function getAgentCommands(agentId: string): Record<string, AgentCommand> {
+  return Object.hasOwn(AGENT_COMMANDS, agentId) ? AGENT_COMMANDS[agentId as BuiltinAgentId] ?? {} : {};
 }
 
 /**
- * Get all invokable agent IDs
+ * Agent ID a command is tracked under: the agent itself when the command ends in
+ * a regular review, `agent:command` when it has its own completion strategy, and
+ * null when it can't be tracked.
  */
-export function getInvokableAgentIds(): InvokableAgentId[] {
-  return Object.keys(INVOKABLE_AGENTS) as InvokableAgentId[];
+export function commandTrackingId(agentId: string, commandName: string): string | null {
+  const command = getAgentCommands(agentId)[commandName];
+  if (!command?.completion) return null;
+  return command.completion === 'review' ? agentId : `${agentId}${COMMAND_SEPARATOR}${commandName}`;
+}
+
+/**
+ * Config for an `agent:command` tracking ID: the agent's config with the
+ * command's completion strategy (built-in agents only)
+ */
+function getCommandConfig(trackingId: string): AgentConfig | undefined {
+  const [agentId, commandName] = trackingId.split(COMMAND_SEPARATOR, 2);
+  const agent = getAgentConfig(agentId);
+  const command = getAgentCommands(agentId)[commandName];
+  if (!agent || !command?.completion || command.completion === 'review') return undefined;
+
+  return {
+    ...agent,
+    name: `${agent.name} ${commandName}`,
+    command: command.template,
+    completionStrategy: command.completion,
+  };
+}
+
+/**
+ * Check if an agent ID can be awaited: an invokable agent or a tracked command
+ */
+export function isTrackableAgent(agentId: string, scope?: string): boolean {
+  return getAgentConfig(agentId, scope) !== undefined;
+}
+
+/**
+ * Get all invokable agent IDs (built-in first, then custom)
+ */
+export function getInvokableAgentIds(scope?: string): InvokableAgentId[] {
+  return [...Object.keys(INVOKABLE_AGENTS), ...scopedAgents(scope).keys()];
 }
 
 /**
  * Check if an agent ID is valid and invokable
  * Uses Object.hasOwn to avoid prototype chain issues
  */
-export function isInvokableAgent(agentId: string): agentId is InvokableAgentId {
-  return Object.hasOwn(INVOKABLE_AGENTS, agentId);
+export function isInvokableAgent(agentId: string, scope?: string): agentId is InvokableAgentId {
+  if (Object.hasOwn(INVOKABLE_AGENTS, agentId)) return true;
+  return scopedAgents(scope).has(agentId);
+}
+
+/**
+ * Check if a GitHub login matches an agent's author pattern.
+ * Normalizes both sides: lowercase, strip [bot] suffix.
+ * Supports string | string[] patterns.
+ */
+export function matchesAuthorPattern(login: string, pattern: string | string[]): boolean {
+  const patterns = Array.isArray(pattern) ? pattern : [pattern];
+  const normalize = (s: string): string =>
+    s.trim().toLowerCase().replace(/\[bot\]$/, '');
+  const normLogin = normalize(login);
+  return patterns.some(p => normLogin === normalize(p));
+}
+
+/**
+ * Find the custom agent whose author pattern matches a login
+ */
+export function getCustomAgentFromAuthor(login: string, scope?: string): string | null {
+  for (const [id, config] of scopedAgents(scope)) {
+    if (matchesAuthorPattern(login, config.authorPattern)) return id;
+  }
+  return null;
+}
+
+// ============================================================================
+// Local Agent Markers
+// ============================================================================
+
+const LOCAL_MARKER_PREFIX = 'pr-review-mcp:local-agent=';
+const LOCAL_MARKER = /<!-- pr-review-mcp:local-agent=([a-z0-9][a-z0-9_-]*) (?:severity=([A-Z/]+) )?-->/;
+
+/**
+ * Hidden marker identifying a local agent's review, findings comment or inline comment
+ */
+export function localAgentMarker(agentId: string, severity?: string): string {
+  return `<!-- ${LOCAL_MARKER_PREFIX}${agentId} ${severity ? `severity=${severity} ` : ''}-->`;
+}
+
+/**
+ * Read the local agent marker from a comment body
+ */
+export function parseLocalAgentMarker(body: string | null | undefined): { agentId: string; severity?: string } | null {
+  const match = body ? LOCAL_MARKER.exec(body) : null;
+  if (!match) return null;
+  return { agentId: match[1], ...(match[2] && { severity: match[2] }) };
 }
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for agent run statistics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { percentile, runOutcome, summarizeRuns, tallyComments } from './stats.js';
+import type { StoredAgentRun } from '../persistence/types.js';
+
+function run(overrides: Partial<StoredAgentRun>): StoredAgentRun {
+  return {
+    invocationId: 1,
+    owner: 'acme',
+    repo: 'app',
+    pr: 1,
+    prSize: null,
+    agentId: 'coderabbit',
+    invokedAt: '2026-01-01T00:00:00.000Z',
+    lastActivity: null,
+    ready: false,
+    timedOut: false,
+    availability: null,
+    invokeError: null,
+    ...overrides
+  };
+}
+
+/** A completed run that took the given number of minutes */
+function completed(minutes: number, overrides: Partial<StoredAgentRun> = {}): StoredAgentRun {
+  return run({
+    ready: true,
+    lastActivity: new Date(Date.parse('2026-01-01T00:00:00.000Z') + minutes * 60_000).toISOString(),
+    ...overrides
+  });
+}
+
+describe('percentile', () => {
+  it('interpolates between ranks', () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([10, 20, 30, 40, 50, 60, 70, 80, 90, 100], 90)).toBe(91);
+  });
+
+  it('handles a single value and empty input', () => {
+    expect(percentile([7], 90)).toBe(7);
+    expect(percentile([], 50)).toBeNaN();
+  });
+});
+
+describe('runOutcome', () => {
+  it('prefers failed invocations over the timed out flag', () => {
+    expect(runOutcome(run({ invokeError: 'boom', timedOut: true }))).toBe('failed');
+  });
+
+  it('classifies the remaining outcomes', () => {
+    expect(runOutcome(run({ ready: true }))).toBe('completed');
+    expect(runOutcome(run({ availability: 'quota_exhausted' }))).toBe('unavailable');
+    expect(runOutcome(run({ timedOut: true }))).toBe('timed_out');
+    expect(runOutcome(run({}))).toBe('pending');
+  });
+});
+
+describe('summarizeRuns', () => {
+  it('groups by repository and agent', () => {
+    const stats = summarizeRuns([
+      completed(5, { agentId: 'gemini' }),
+      completed(5),
+      completed(5, { repo: 'api' })
+    ]);
+    expect(stats.map(s => `${s.repo}:${s.agentId}`)).toEqual(['acme/api:coderabbit', 'acme/app:coderabbit', 'acme/app:gemini']);
+    expect(stats[2].name).toBe('Gemini');
+  });
+
+  it('computes completion times from completed runs only', () => {
+    const [stats] = summarizeRuns([
+      completed(2),
+      completed(4),
+      completed(10),
+      run({ timedOut: true, lastActivity: '2026-01-02T00:00:00.000Z' })
+    ]);
+    expect(stats.completionMs).toEqual({ median: 4 * 60_000, p90: 8.8 * 60_000, samples: 3 });
+  });
+
+  it('computes the timeout rate over completed and timed out runs', () => {
+    const [stats] = summarizeRuns([
+      completed(1),
+      completed(1),
+      completed(1),
+      run({ timedOut: true }),
+      run({ availability: 'unavailable' }),
+      run({ invokeError: 'boom', timedOut: true }),
+      run({})
+    ]);
+    expect(stats).toMatchObject({ runs: 7, completed: 3, timedOut: 1, unavailable: 1, failed: 1, pending: 1, timeoutRate: 0.25 });
+  });
+
+  it('leaves rates empty without settled runs', () => {
+    const [stats] = summarizeRuns([run({ availability: 'quota_exhausted' })]);
+    expect(stats.timeoutRate).toBeNull();
+    expect(stats.completionMs).toBeNull();
+  });
+});
+
+describe('tallyComments', () => {
+  it('counts dismissed comments separately from fixed ones', () => {
+    expect(tallyComments([
+      { resolved: true, dismissed: false },
+      { resolved: true, dismissed: true },
+      { resolved: false, dismissed: false },
+      { resolved: true, dismissed: false }
+    ])).toEqual({ total: 4, resolved: 2, dismissed: 1, open: 1, resolvedShare: 0.5, dismissedShare: 0.25 });
+  });
+
+  it('has no shares without comments', () => {
+    expect(tallyComments([])).toMatchObject({ total: 0, resolvedShare: null, dismissedShare: null });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Agent Statistics - Aggregate stored agent runs into per-agent performance figures
+ *
+ * Runs come from the SQLite agent_status/invocations tables; comment outcomes are
+ * tallied by the pr_agent_stats tool from the PR threads and state comment.
+ */
+
+import { agentScope, getAgentConfig } from './registry.js';
+import type { StoredAgentRun } from '../persistence/types.js';
+
+export type AgentRunOutcome = 'completed' | 'timed_out' | 'unavailable' | 'failed' | 'pending';
+
+export interface CompletionTimes {
+  /** Milliseconds from invocation to the agent's last detected activity */
+  median: number;
+  p90: number;
+  samples: number;
+}
+
+export interface CommentOutcomes {
+  total: number;
+  /** Resolved without a dismissal (fixed) */
+  resolved: number;
+  dismissed: number;
+  open: number;
+  /** resolved / total (null without comments) */
+  resolvedShare: number | null;
+  /** dismissed / total (null without comments) */
+  dismissedShare: number | null;
+}
+
+export interface AgentStats {
+  agentId: string;
+  name: string;
+  /** owner/repo */
+  repo: string;
+  runs: number;
+  completed: number;
+  timedOut: number;
+  /** Out of quota or unable to review */
+  unavailable: number;
+  /** Invocation comment could not be posted */
+  failed: number;
+  /** Still running, or abandoned before it settled */
+  pending: number;
+  /** timedOut / (completed + timedOut); null until one of them happened */
+  timeoutRate: number | null;
+  completionMs: CompletionTimes | null;
+  comments?: CommentOutcomes;
+}
+
+/**
+ * Classify a run the same way pipeline steps are classified
+ */
+export function runOutcome(run: StoredAgentRun): AgentRunOutcome {
+  if (run.invokeError) return 'failed';
+  if (run.ready) return 'completed';
+  if (run.availability) return 'unavailable';
+  if (run.timedOut) return 'timed_out';
+  return 'pending';
+}
+
+/**
+ * Milliseconds from invocation to last detected activity of a completed run (null otherwise)
+ */
+export function completionTimeMs(run: StoredAgentRun): number | null {
+  if (runOutcome(run) !== 'completed' || !run.lastActivity) return null;
+  const duration = Date.parse(run.lastActivity) - Date.parse(run.invokedAt);
+  return Number.isNaN(duration) ? null : Math.max(0, duration);
+}
+
+/**
+ * Percentile (0-100) of ascending values, interpolating between ranks
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : null;
+}
+
+/**
+ * Group runs by agent and repository, ordered by repository then agent ID
+ */
+export function summarizeRuns(runs: StoredAgentRun[]): AgentStats[] {
+  const groups = new Map<string, { stats: AgentStats; durations: number[] }>();
+
+  for (const run of runs) {
+    const repo = `${run.owner}/${run.repo}`;
+    const key = `${repo}\0${run.agentId}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        stats: {
+          agentId: run.agentId,
+          name: getAgentConfig(run.agentId, agentScope(run.owner, run.repo))?.name ?? run.agentId,
+          repo,
+          runs: 0,
+          completed: 0,
+          timedOut: 0,
+          unavailable: 0,
+          failed: 0,
+          pending: 0,
+          timeoutRate: null,
+          completionMs: null,
+        },
+        durations: [],
+      };
+      groups.set(key, group);
+    }
+
+    const { stats } = group;
+    stats.runs++;
+    switch (runOutcome(run)) {
+      case 'completed': {
+        stats.completed++;
+        const duration = completionTimeMs(run);
+        if (duration !== null) group.durations.push(duration);
+        break;
+      }
+      case 'timed_out': stats.timedOut++; break;
+      case 'unavailable': stats.unavailable++; break;
+      case 'failed': stats.failed++; break;
+      case 'pending': stats.pending++; break;
+    }
+  }
+
+  const result: AgentStats[] = [];
+  for (const { stats, durations } of groups.values()) {
+    stats.timeoutRate = ratio(stats.timedOut, stats.completed + stats.timedOut);
+    if (durations.length > 0) {
+      durations.sort((a, b) => a - b);
+      stats.completionMs = {
+        median: Math.round(percentile(durations, 50)),
+        p90: Math.round(percentile(durations, 90)),
+        samples: durations.length,
+      };
+    }
+    result.push(stats);
+  }
+
+  return result.sort((a, b) => a.repo.localeCompare(b.repo) || a.agentId.localeCompare(b.agentId));
+}
+
+/**
+ * Count comment outcomes. A dismissed comment counts as dismissed even though
+ * its thread is resolved.
+ */
+export function tallyComments(comments: Array<{ resolved: boolean; dismissed: boolean }>): CommentOutcomes {
+  let resolved = 0;
+  let dismissed = 0;
+  for (const c of comments) {
+    if (c.dismissed) dismissed++;
+    else if (c.resolved) resolved++;
+  }
+
+  return {
+    total: comments.length,
+    resolved,
+    dismissed,
+    open: comments.length - resolved - dismissed,
+    resolvedShare: ratio(resolved, comments.length),
+    dismissedShare: ratio(dismissed, comments.length),
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for adaptive wait times
+ */
+
+import { describe, it, expect } from 'vitest';
+import { agentEta, blendWaitTimes, learnWaitTimes, prSizeBucket, suggestRetryAfter, type WaitTimes } from './wait-times.js';
+import type { StoredAgentRun } from '../persistence/types.js';
+
+const PRIOR = { expectedTimeMs: 300_000, maxWaitMs: 600_000 };
+
+/** A run that completed after the given number of minutes */
+function completed(minutes: number, overrides: Partial<StoredAgentRun> = {}): StoredAgentRun {
+  return {
+    invocationId: 1,
+    owner: 'acme',
+    repo: 'app',
+    pr: 1,
+    prSize: null,
+    agentId: 'coderabbit',
+    invokedAt: '2026-01-01T00:00:00.000Z',
+    lastActivity: new Date(Date.parse('2026-01-01T00:00:00.000Z') + minutes * 60_000).toISOString(),
+    ready: true,
+    timedOut: false,
+    availability: null,
+    invokeError: null,
+    ...overrides
+  };
+}
+
+function times(expectedTimeMs: number, maxWaitMs: number): WaitTimes {
+  return { expectedTimeMs, maxWaitMs, basis: 'agent', samples: 5 };
+}
+
+describe('prSizeBucket', () => {
+  it('buckets by changed lines', () => {
+    expect(prSizeBucket(20)).toBe('small');
+    expect(prSizeBucket(100)).toBe('medium');
+    expect(prSizeBucket(1999)).toBe('large');
+    expect(prSizeBucket(5000)).toBe('huge');
+  });
+});
+
+describe('blendWaitTimes', () => {
+  it('keeps the configured values with too few samples', () => {
+    expect(blendWaitTimes(PRIOR, [completed(1), completed(1)], 'agent'))
+      .toEqual({ ...PRIOR, basis: 'config', samples: 2 });
+  });
+
+  it('moves toward observed completion times as samples grow', () => {
+    const few = blendWaitTimes(PRIOR, Array.from({ length: 5 }, () => completed(1)), 'agent');
+    const many = blendWaitTimes(PRIOR, Array.from({ length: 45 }, () => completed(1)), 'agent');
+
+    // 5 samples weigh as much as the prior: halfway between 5 min and 1 min
+    expect(few.expectedTimeMs).toBe(180_000);
+    expect(many.expectedTimeMs).toBe(84_000);
+    expect(many.maxWaitMs).toBeLessThan(few.maxWaitMs);
+    expect(many.maxWaitMs).toBeGreaterThanOrEqual(many.expectedTimeMs);
+  });
+
+  it('does not tighten maxWaitMs for agents that have timed out', () => {
+    const runs = [...Array.from({ length: 10 }, () => completed(1)), completed(0, { ready: false, timedOut: true, lastActivity: null })];
+    expect(blendWaitTimes(PRIOR, runs, 'agent').maxWaitMs).toBe(PRIOR.maxWaitMs);
+  });
+
+  it('caps maxWaitMs at twice the configured value', () => {
+    const runs = Array.from({ length: 50 }, () => completed(60));
+    expect(blendWaitTimes(PRIOR, runs, 'agent').maxWaitMs).toBe(PRIOR.maxWaitMs * 2);
+  });
+});
+
+describe('learnWaitTimes', () => {
+  const history = [
+    ...Array.from({ length: 3 }, () => completed(2, { repo: 'app', prSize: 50 })),
+    ...Array.from({ length: 3 }, () => completed(8, { repo: 'app', prSize: 1500 })),
+    ...Array.from({ length: 3 }, () => completed(1, { repo: 'api' }))
+  ];
+
+  it('prefers history for the same repository and PR size', () => {
+    const estimate = learnWaitTimes(PRIOR, history, { owner: 'acme', repo: 'app', prSize: 30 });
+    expect(estimate).toMatchObject({ basis: 'repo_size', samples: 3 });
+  });
+
+  it('falls back to the repository, then the agent', () => {
+    expect(learnWaitTimes(PRIOR, history, { owner: 'acme', repo: 'app', prSize: 300 }))
+      .toMatchObject({ basis: 'repo', samples: 6 });
+    expect(learnWaitTimes(PRIOR, history, { owner: 'acme', repo: 'web' }))
+      .toMatchObject({ basis: 'agent', samples: 9 });
+  });
+
+  it('uses the configured values without history', () => {
+    expect(learnWaitTimes(PRIOR, [], { owner: 'acme', repo: 'app' })).toEqual({ ...PRIOR, basis: 'config', samples: 0 });
+  });
+});
+
+describe('agentEta', () => {
+  it('offsets expected and timeout times from the invocation', () => {
+    expect(agentEta(times(60_000, 120_000), '2026-01-01T00:00:00.000Z')).toMatchObject({
+      expectedAt: '2026-01-01T00:01:00.000Z',
+      timeoutAt: '2026-01-01T00:02:00.000Z'
+    });
+  });
+});
+
+describe('suggestRetryAfter', () => {
+  it('waits until the earliest expected completion', () => {
+    expect(suggestRetryAfter([
+      { elapsedMs: 0, waitTimes: times(40_000, 600_000) },
+      { elapsedMs: 0, waitTimes: times(300_000, 600_000) }
+    ])).toBe(40_000);
+  });
+
+  it('polls a few times before an overdue agent times out', () => {
+    expect(suggestRetryAfter([{ elapsedMs: 400_000, waitTimes: times(300_000, 500_000) }])).toBe(25_000);
+  });
+
+  it('clamps to 10s–60s', () => {
+    expect(suggestRetryAfter([{ elapsedMs: 0, waitTimes: times(600_000, 900_000) }])).toBe(60_000);
+    expect(suggestRetryAfter([{ elapsedMs: 0, waitTimes: times(1_000, 900_000) }])).toBe(10_000);
+    expect(suggestRetryAfter([])).toBe(60_000);
+  });
+});
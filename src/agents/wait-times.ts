@@ -0,0 +1,188 @@
+/**
+ * Adaptive Wait Times - Learn expectedTimeMs/maxWaitMs from completion history
+ *
+ * The values in each agent's CompletionStrategy are priors. Completed runs in the
+ * invocation store pull them toward how long the agent actually takes, using the
+ * most specific history with enough samples: same repository and PR size, same
+ * repository, then the agent across all repositories.
+ */
+
+import { agentScope, getAgentConfig } from './registry.js';
+import { completionTimeMs, percentile, runOutcome } from './stats.js';
+import type { InvocationStore } from '../persistence/invocation-store.js';
+import type { StoredAgentRun } from '../persistence/types.js';
+
+export type PrSizeBucket = 'small' | 'medium' | 'large' | 'huge';
+
+/** Which history the wait times were learned from ('config' = static values only) */
+export type WaitTimeBasis = 'config' | 'agent' | 'repo' | 'repo_size';
+
+export interface WaitTimes {
+  expectedTimeMs: number;
+  maxWaitMs: number;
+  basis: WaitTimeBasis;
+  /** Completed runs behind the estimate */
+  samples: number;
+}
+
+export interface AgentEta {
+  /** When the agent is expected to finish */
+  expectedAt: string;
+  /** When the agent will be reported as timed out (null while a pipeline step waits) */
+  timeoutAt: string | null;
+  expectedTimeMs: number;
+  maxWaitMs: number;
+  basis: WaitTimeBasis;
+  samples: number;
+}
+
+/** How far back completion history is read (completed invocations are kept 30 days) */
+const HISTORY_DAYS = 30;
+
+/** Completed runs needed before a history level is used */
+const MIN_SAMPLES = 3;
+
+/** The configured values count as this many samples when blending */
+const PRIOR_WEIGHT = 5;
+
+/** Learned maxWaitMs is this multiple of the p90 completion time */
+const MAX_WAIT_MARGIN = 1.5;
+
+/** Learned wait times never exceed this multiple of the configured maxWaitMs */
+const MAX_WAIT_CEILING = 2;
+
+/** Used for agents without a configuration (matches pr_await_reviews) */
+const DEFAULT_PRIOR = { expectedTimeMs: 300_000, maxWaitMs: 600_000 };
+
+const MIN_RETRY_MS = 10_000;
+const MAX_RETRY_MS = 60_000;
+
+/**
+ * Bucket a PR by changed lines (additions + deletions)
+ */
+export function prSizeBucket(changedLines: number): PrSizeBucket {
+  if (changedLines < 100) return 'small';
+  if (changedLines < 500) return 'medium';
+  if (changedLines < 2000) return 'large';
+  return 'huge';
+}
+
+/**
+ * Blend the configured wait times with one agent's run history.
+ * An agent that timed out in this history keeps at least its configured maxWaitMs,
+ * since its completion times only cover the runs that finished in time.
+ */
+export function blendWaitTimes(
+  prior: { expectedTimeMs: number; maxWaitMs: number },
+  runs: StoredAgentRun[],
+  basis: Exclude<WaitTimeBasis, 'config'>,
+): WaitTimes {
+  const durations = runs
+    .map(completionTimeMs)
+    .filter((d): d is number => d !== null)
+    .sort((a, b) => a - b);
+
+  if (durations.length < MIN_SAMPLES) {
+    return { ...prior, basis: 'config', samples: durations.length };
+  }
+
+  const weight = durations.length / (durations.length + PRIOR_WEIGHT);
+  const blend = (configured: number, learned: number) => configured * (1 - weight) + learned * weight;
+
+  const ceiling = prior.maxWaitMs * MAX_WAIT_CEILING;
+  const expectedTimeMs = Math.round(Math.min(blend(prior.expectedTimeMs, percentile(durations, 50)), ceiling));
+  let maxWaitMs = blend(prior.maxWaitMs, percentile(durations, 90) * MAX_WAIT_MARGIN);
+  if (runs.some(r => runOutcome(r) === 'timed_out')) {
+    maxWaitMs = Math.max(maxWaitMs, prior.maxWaitMs);
+  }
+  maxWaitMs = Math.min(maxWaitMs, ceiling);
+
+  return {
+    expectedTimeMs,
+    maxWaitMs: Math.round(Math.max(maxWaitMs, expectedTimeMs)),
+    basis,
+    samples: durations.length,
+  };
+}
+
+/**
+ * Learn wait times from one agent's runs, using the most specific history
+ * level with at least MIN_SAMPLES completed runs.
+ */
+export function learnWaitTimes(
+  prior: { expectedTimeMs: number; maxWaitMs: number },
+  runs: StoredAgentRun[],
+  target: { owner: string; repo: string; prSize?: number | null },
+): WaitTimes {
+  const sameRepo = runs.filter(r => r.owner === target.owner && r.repo === target.repo);
+  const levels: Array<[Exclude<WaitTimeBasis, 'config'>, StoredAgentRun[]]> = [['repo', sameRepo], ['agent', runs]];
+
+  if (target.prSize !== undefined && target.prSize !== null) {
+    const bucket = prSizeBucket(target.prSize);
+    const sameSize = sameRepo.filter(r => r.prSize !== null && prSizeBucket(r.prSize) === bucket);
+    levels.unshift(['repo_size', sameSize]);
+  }
+
+  for (const [basis, history] of levels) {
+    const estimate = blendWaitTimes(prior, history, basis);
+    if (estimate.basis !== 'config') return estimate;
+  }
+  return { ...prior, basis: 'config', samples: 0 };
+}
+
+/**
+ * Wait times for each agent: learned from the store's history when available,
+ * otherwise the configured completion strategy values.
+ */
+export function loadWaitTimes(
+  store: InvocationStore | null | undefined,
+  agentIds: string[],
+  target: { owner: string; repo: string; prSize?: number | null },
+): Map<string, WaitTimes> {
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const result = new Map<string, WaitTimes>();
+
+  for (const agentId of agentIds) {
+    const strategy = getAgentConfig(agentId, agentScope(target.owner, target.repo))?.completionStrategy;
+    const prior = strategy
+      ? { expectedTimeMs: strategy.expectedTimeMs, maxWaitMs: strategy.maxWaitMs }
+      : DEFAULT_PRIOR;
+
+    if (!store) {
+      result.set(agentId, { ...prior, basis: 'config', samples: 0 });
+      continue;
+    }
+    result.set(agentId, learnWaitTimes(prior, store.listAgentRuns({ since, agentId }), target));
+  }
+
+  return result;
+}
+
+/**
+ * ETA for an agent invoked at `invokedAt`
+ */
+export function agentEta(waitTimes: WaitTimes, invokedAt: string): AgentEta {
+  const start = Date.parse(invokedAt);
+  return {
+    expectedAt: new Date(start + waitTimes.expectedTimeMs).toISOString(),
+    timeoutAt: new Date(start + waitTimes.maxWaitMs).toISOString(),
+    ...waitTimes,
+  };
+}
+
+/**
+ * Suggest when to poll next for the agents still pending: at the earliest
+ * expected completion, or — for agents already past it — a few times before
+ * they time out. Clamped to 10s–60s.
+ */
+export function suggestRetryAfter(pending: Array<{ elapsedMs: number; waitTimes: WaitTimes }>): number {
+  let delay = MAX_RETRY_MS;
+  for (const { elapsedMs, waitTimes } of pending) {
+    const untilExpected = waitTimes.expectedTimeMs - elapsedMs;
+    const candidate = untilExpected > 0
+      ? untilExpected
+      : (waitTimes.maxWaitMs - elapsedMs) / 4;
+    delay = Math.min(delay, candidate);
+  }
+  return Math.round(Math.max(MIN_RETRY_MS, delay));
+}
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for comment outcome helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectOutcomes, foreignOutcomes, mergeOutcomes } from './outcomes.js';
+import { CommentOutcomeSchema, type FilePartition } from './types.js';
+
+describe('mergeOutcomes', () => {
+  const partition: FilePartition = { file: 'a.ts', comments: ['t1', 't2'], severity: 'MAJOR', status: 'claimed' };
+
+  it('records the reporting worker and replaces earlier outcomes per thread', () => {
+    const first = mergeOutcomes(partition, [
+      { threadId: 't1', outcome: 'failed', note: 'Build broke' },
+      { threadId: 't2', outcome: 'fixed', commitSha: 'abc1234' },
+    ], 'worker-1', '2026-01-01T00:00:00Z');
+
+    const merged = mergeOutcomes(
+      { ...partition, outcomes: first }, [{ threadId: 't1', outcome: 'fixed' }], 'worker-2', '2026-01-01T00:10:00Z'
+    );
+
+    expect(merged).toEqual([
+      { threadId: 't1', outcome: 'fixed', agentId: 'worker-2', reportedAt: '2026-01-01T00:10:00Z' },
+      { threadId: 't2', outcome: 'fixed', commitSha: 'abc1234', agentId: 'worker-1', reportedAt: '2026-01-01T00:00:00Z' },
+    ]);
+  });
+
+  it('drops outcomes for threads of other partitions', () => {
+    const reported = [{ threadId: 't1', outcome: 'fixed' as const }, { threadId: 't9', outcome: 'fixed' as const }];
+
+    expect(foreignOutcomes(partition, reported)).toEqual([reported[1]]);
+    expect(mergeOutcomes(partition, reported, 'worker-1', 'x').map(o => o.threadId)).toEqual(['t1']);
+  });
+});
+
+describe('collectOutcomes', () => {
+  it('lists outcomes by partition and counts threads without one as unreported', () => {
+    const partitions: FilePartition[] = [
+      {
+        file: 'a.ts', comments: ['t1', 't2'], severity: 'MAJOR', status: 'done',
+        outcomes: [{ threadId: 't1', outcome: 'dismissed', reason: 'wont_fix', agentId: 'w1', reportedAt: 'x' }],
+      },
+      { file: 'b.ts', comments: ['t3'], severity: 'MINOR', status: 'pending' },
+    ];
+
+    const { outcomes, counts } = collectOutcomes(partitions);
+
+    expect(outcomes).toEqual([expect.objectContaining({ threadId: 't1', partition: 'a.ts' })]);
+    expect(counts).toEqual({ fixed: 0, dismissed: 1, deferred: 0, failed: 0, unreported: 2 });
+  });
+});
+
+describe('CommentOutcomeSchema', () => {
+  it('requires a reason for dismissed outcomes', () => {
+    expect(CommentOutcomeSchema.safeParse({ threadId: 't1', outcome: 'dismissed' }).success).toBe(false);
+    expect(CommentOutcomeSchema.safeParse({ threadId: 't1', outcome: 'dismissed', reason: 'out_of_scope' }).success).toBe(true);
+  });
+
+  it('rejects a commitSha that is not a hex SHA', () => {
+    expect(CommentOutcomeSchema.safeParse({ threadId: 't1', outcome: 'fixed', commitSha: 'HEAD' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Comment Outcomes - What workers did with each thread of a coordination run
+ *
+ * Workers report an outcome per thread with pr_report_progress. Outcomes are kept
+ * on the partition, one per thread: a later report for the same thread (e.g. after
+ * the partition was reopened) replaces the earlier one.
+ */
+
+import {
+  COMMENT_OUTCOMES,
+  type CommentOutcome,
+  type CommentOutcomeType,
+  type FilePartition,
+  type RecordedOutcome,
+} from './types.js';
+
+/** A recorded outcome with the partition it was reported for */
+export interface RunOutcome extends RecordedOutcome {
+  partition: string;
+}
+
+export type OutcomeCounts = Record<CommentOutcomeType | 'unreported', number>;
+
+/**
+ * Reported outcomes for threads that are not part of the partition
+ */
+export function foreignOutcomes(partition: FilePartition, reported: CommentOutcome[]): CommentOutcome[] {
+  const threads = new Set(partition.comments);
+  return reported.filter(o => !threads.has(o.threadId));
+}
+
+/**
+ * Merge reported outcomes into a partition's recorded ones, keeping the latest per thread.
+ * Outcomes for threads outside the partition are dropped.
+ */
+export function mergeOutcomes(
+  partition: FilePartition,
+  reported: CommentOutcome[],
+  agentId: string,
+  reportedAt: string,
+): RecordedOutcome[] {
+  const threads = new Set(partition.comments);
+  const byThread = new Map((partition.outcomes ?? []).map(o => [o.threadId, o]));
+  for (const outcome of reported) {
+    if (!threads.has(outcome.threadId)) continue;
+    byThread.set(outcome.threadId, { ...outcome, agentId, reportedAt });
+  }
+  return Array.from(byThread.values());
+}
+
+/**
+ * Outcomes of every partition of a run, and how many threads have each outcome.
+ * Threads of the run without an outcome count as unreported.
+ */
+export function collectOutcomes(partitions: Iterable<FilePartition>): { outcomes: RunOutcome[]; counts: OutcomeCounts } {
+  const counts = Object.fromEntries([...COMMENT_OUTCOMES, 'unreported'].map(o => [o, 0])) as OutcomeCounts;
+  const outcomes: RunOutcome[] = [];
+
+  for (const partition of partitions) {
+    const reported = new Set<string>();
+    for (const outcome of partition.outcomes ?? []) {
+      outcomes.push({ ...outcome, partition: partition.file });
+      counts[outcome.outcome]++;
+      reported.add(outcome.threadId);
+    }
+    counts.unreported += partition.comments.filter(id => !reported.has(id)).length;
+  }
+
+  return { outcomes, counts };
+}
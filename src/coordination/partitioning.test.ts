@@ -0,0 +1,72 @@
+/**
+ * Unit tests for coordination partitioning strategies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createPartitions, REGION_MAX_COMMENTS, type PartitionableComment } from './partitioning.js';
+
+function comment(threadId: string, file: string, severity = 'MINOR', line: number | string = 1): PartitionableComment {
+  return { threadId, file, severity, line };
+}
+
+const comments = [
+  comment('t1', 'src/tools/a.ts', 'MINOR'),
+  comment('t2', 'src/tools/b.ts', 'CRIT'),
+  comment('t3', 'src/tools/a.ts', 'MAJOR'),
+  comment('t4', 'README.md', 'NITPICK'),
+];
+
+describe('createPartitions', () => {
+  it('makes one partition per file by default, highest severity first', () => {
+    expect(createPartitions(comments)).toEqual([
+      { file: 'src/tools/b.ts', comments: ['t2'], severity: 'CRIT', status: 'pending' },
+      { file: 'src/tools/a.ts', comments: ['t1', 't3'], severity: 'MAJOR', status: 'pending' },
+      { file: 'README.md', comments: ['t4'], severity: 'NITPICK', status: 'pending' },
+    ]);
+  });
+
+  it('skips comments without a file and duplicate thread IDs', () => {
+    const partitions = createPartitions([{ threadId: 'x', severity: 'CRIT' }, ...comments, comments[0]]);
+    expect(partitions.flatMap(p => p.comments).sort()).toEqual(['t1', 't2', 't3', 't4']);
+  });
+
+  it('groups files by directory', () => {
+    expect(createPartitions(comments, 'directory').map(p => [p.file, p.comments])).toEqual([
+      ['src/tools/', ['t1', 't2', 't3']],
+      ['./', ['t4']],
+    ]);
+  });
+
+  it('packs whole files into batches by comment count', () => {
+    const many = Array.from({ length: 8 }, (_, i) => comment(`big${i}`, 'big.ts'));
+    const partitions = createPartitions([...many, ...comments], 'balanced');
+    expect(partitions.map(p => p.file).sort()).toEqual(['batch-1', 'batch-2']);
+    const big = partitions.find(p => p.comments.includes('big0'))!;
+    expect(big.comments).toHaveLength(10);
+    expect(partitions.find(p => p !== big)!.comments).toHaveLength(2);
+  });
+
+  it('packs batches by severity weight', () => {
+    const crits = Array.from({ length: 3 }, (_, i) => comment(`c${i}`, `crit${i}.ts`, 'CRIT'));
+    const partitions = createPartitions(crits, 'weighted');
+    // CRIT weighs 8, so two fit in a batch of 20
+    expect(partitions.map(p => p.comments.length).sort()).toEqual([1, 2]);
+  });
+
+  it('numbers new batches after the existing ones', () => {
+    const partitions = createPartitions(comments, 'balanced', ['batch-1', 'batch-3']);
+    expect(partitions.map(p => p.file)).toEqual(['batch-2']);
+  });
+
+  it('splits files with many comments into line regions', () => {
+    const lines = Array.from({ length: REGION_MAX_COMMENTS + 2 }, (_, i) => comment(`l${i}`, 'big.ts', 'MINOR', (i + 1) * 10));
+    const partitions = createPartitions([...lines, comments[3]], 'region');
+    expect(partitions.map(p => p.file)).toEqual(['big.ts#L10-L100', 'big.ts#L110-L120', 'README.md']);
+  });
+
+  it('keeps comments on the same line in one region', () => {
+    const sameLine = Array.from({ length: REGION_MAX_COMMENTS + 2 }, (_, i) => comment(`s${i}`, 'big.ts', 'MINOR', 5));
+    const partitions = createPartitions([...sameLine, comment('u1', 'big.ts', 'MINOR', '?')], 'region');
+    expect(partitions.map(p => [p.file, p.comments.length])).toEqual([['big.ts#L5-L5', 13]]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Partitioning Strategies - Split unresolved comments into coordination partitions
+ *
+ * A partition is the unit of work a worker claims. Its `file` field is the partition
+ * key: a file path (file), a directory with a trailing slash (directory), `batch-N`
+ * (balanced, weighted) or a file with a line range such as `src/a.ts#L10-L42` (region).
+ * Only `region` splits the comments of one file across partitions.
+ */
+
+import { SEVERITY_ORDER, type Severity } from '../extractors/severity.js';
+import type { FilePartition, PartitionStrategy } from './types.js';
+
+export const DEFAULT_PARTITION_STRATEGY: PartitionStrategy = 'file';
+
+/** Comment budget of a `balanced` batch (a larger file gets a batch of its own) */
+export const BATCH_MAX_COMMENTS = 10;
+
+/** Severity weight budget of a `weighted` batch */
+export const BATCH_MAX_WEIGHT = 20;
+
+/** `region` splits files with more comments than this into line ranges */
+export const REGION_MAX_COMMENTS = 10;
+
+const SEVERITY_WEIGHTS: Partial<Record<Severity, number>> = { CRIT: 8, MAJOR: 4, MINOR: 2, ISSUE: 2 };
+
+/** Comment fields used for partitioning (ProcessedComment satisfies it) */
+export interface PartitionableComment {
+  file?: string;
+  threadId: string;
+  severity: string;
+  line?: number | string;
+}
+
+interface Group {
+  key: string;
+  threadIds: Set<string>;
+  severity: Severity;
+  weight: number;
+}
+
+/** Index in SEVERITY_ORDER; unknown severities sort last */
+function severityRank(severity: Severity): number {
+  const index = SEVERITY_ORDER.indexOf(severity);
+  return index === -1 ? SEVERITY_ORDER.length : index;
+}
+
+/**
+ * Group comments by key, tracking the highest severity and the total weight
+ */
+function groupBy(comments: PartitionableComment[], keyOf: (comment: PartitionableComment) => string): Group[] {
+  const groups = new Map<string, Group>();
+
+  for (const comment of comments) {
+    const key = keyOf(comment);
+    const severity = comment.severity as Severity;
+    const group = groups.get(key) ?? { key, threadIds: new Set<string>(), severity, weight: 0 };
+    if (group.threadIds.has(comment.threadId)) continue;
+
+    group.threadIds.add(comment.threadId);
+    group.weight += SEVERITY_WEIGHTS[severity] ?? 1;
+    if (severityRank(severity) < severityRank(group.severity)) group.severity = severity;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values());
+}
+
+function directoryOf(file: string): string {
+  const index = file.lastIndexOf('/');
+  return index === -1 ? './' : file.slice(0, index + 1);
+}
+
+function lineOf(comment: PartitionableComment): number | null {
+  const line = typeof comment.line === 'number' ? comment.line : parseInt(String(comment.line), 10);
+  return Number.isFinite(line) ? line : null;
+}
+
+/**
+ * Split one file's comments into runs of consecutive lines. Comments on the same
+ * line (or without a line) stay together, so regions may exceed REGION_MAX_COMMENTS.
+ */
+function splitRegions(file: string, comments: PartitionableComment[]): Group[] {
+  if (comments.length <= REGION_MAX_COMMENTS) return groupBy(comments, () => file);
+
+  const sorted = [...comments].sort((a, b) => (lineOf(a) ?? 0) - (lineOf(b) ?? 0));
+  const regions: PartitionableComment[][] = [];
+  let current: PartitionableComment[] = [];
+
+  for (const comment of sorted) {
+    const last = current[current.length - 1];
+    if (current.length >= REGION_MAX_COMMENTS && lineOf(comment) !== lineOf(last)) {
+      regions.push(current);
+      current = [];
+    }
+    current.push(comment);
+  }
+  regions.push(current);
+
+  return regions.flatMap(region => {
+    const lines = region.map(lineOf).filter((line): line is number => line !== null);
+    const key = lines.length > 0
+      ? `${file}#L${Math.min(...lines)}-L${Math.max(...lines)}`
+      : `${file}#unplaced`;
+    return groupBy(region, () => key);
+  });
+}
+
+/**
+ * Pack file groups into batches (first fit, largest first). Batch keys continue
+ * after the ones already taken.
+ */
+function packBatches(
+  files: Group[],
+  sizeOf: (group: Group) => number,
+  capacity: number,
+  taken: Set<string>,
+): Group[] {
+  const bins: Array<{ files: Group[]; size: number }> = [];
+
+  for (const group of [...files].sort((a, b) => sizeOf(b) - sizeOf(a))) {
+    const size = sizeOf(group);
+    const bin = bins.find(b => b.size + size <= capacity);
+    if (bin) {
+      bin.files.push(group);
+      bin.size += size;
+    } else {
+      bins.push({ files: [group], size });
+    }
+  }
+
+  let next = 1;
+  return bins.map(bin => {
+    while (taken.has(`batch-${next}`)) next++;
+    const key = `batch-${next++}`;
+    return bin.files.reduce<Group>((batch, group) => {
+      group.threadIds.forEach(id => batch.threadIds.add(id));
+      batch.weight += group.weight;
+      if (severityRank(group.severity) < severityRank(batch.severity)) batch.severity = group.severity;
+      return batch;
+    }, { key, threadIds: new Set(), severity: bin.files[0].severity, weight: 0 });
+  });
+}
+
+/**
+ * Split comments into partitions with the given strategy, highest severity first.
+ * Comments without a file are skipped.
+ * @param existingKeys - Partition keys already in the run (new batches are numbered after them)
+ */
+export function createPartitions(
+  comments: PartitionableComment[],
+  strategy: PartitionStrategy = DEFAULT_PARTITION_STRATEGY,
+  existingKeys: Iterable<string> = [],
+): FilePartition[] {
+  const withFile = comments.filter(c => c.file);
+  const byFile = () => groupBy(withFile, c => c.file!);
+
+  let groups: Group[];
+  switch (strategy) {
+    case 'directory':
+      groups = groupBy(withFile, c => directoryOf(c.file!));
+      break;
+    case 'balanced':
+      groups = packBatches(byFile(), g => g.threadIds.size, BATCH_MAX_COMMENTS, new Set(existingKeys));
+      break;
+    case 'weighted':
+      groups = packBatches(byFile(), g => g.weight, BATCH_MAX_WEIGHT, new Set(existingKeys));
+      break;
+    case 'region': {
+      const files = new Map<string, PartitionableComment[]>();
+      for (const comment of withFile) {
+        files.set(comment.file!, [...(files.get(comment.file!) ?? []), comment]);
+      }
+      groups = Array.from(files.entries()).flatMap(([file, fileComments]) => splitRegions(file, fileComments));
+      break;
+    }
+    default:
+      groups = byFile();
+  }
+
+  return groups
+    .map(group => ({
+      file: group.key,
+      comments: Array.from(group.threadIds),
+      severity: group.severity,
+      status: 'pending' as const,
+    }))
+    .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+}
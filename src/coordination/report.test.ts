@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the end-of-run review report
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRunReport, formatDuration, phaseDurations, REPORT_MARKER, type ReportComment } from './report.js';
+import type { CoordinationState, FilePartition, OrchestratorProgress } from './types.js';
+
+function comment(threadId: string, file: string, source: string, severity: string, resolved: boolean): ReportComment {
+  return { threadId, file, source, severity, title: `Issue in ${file}`, resolved };
+}
+
+function run(partitions: FilePartition[]): CoordinationState {
+  return {
+    runId: 'run-1',
+    prInfo: { owner: 'o', repo: 'r', pr: 7 },
+    headSha: 'head',
+    strategy: 'file',
+    partitions: new Map(partitions.map(p => [p.file, p])),
+    agents: new Map(),
+    startedAt: '2026-01-01T00:00:00Z',
+    completedAt: '2026-01-01T00:14:03Z',
+  };
+}
+
+const partitions: FilePartition[] = [
+  {
+    file: 'a.ts', comments: ['t1', 't2'], severity: 'CRIT', status: 'done', claimedBy: 'worker-1',
+    outcomes: [
+      { threadId: 't1', outcome: 'fixed', commitSha: 'abc1234', agentId: 'worker-1', reportedAt: 'x' },
+      { threadId: 't2', outcome: 'dismissed', reason: 'false_positive', note: 'Checked | fine', agentId: 'worker-1', reportedAt: 'x' },
+    ],
+  },
+  {
+    file: 'b.ts', comments: ['t3'], severity: 'MINOR', status: 'done', claimedBy: 'worker-2',
+    outcomes: [{ threadId: 't3', outcome: 'failed', agentId: 'worker-2', reportedAt: 'x' }],
+  },
+];
+
+const comments = [
+  comment('t1', 'a.ts', 'coderabbit', 'CRIT', true),
+  comment('t2', 'a.ts', 'coderabbit', 'MINOR', true),
+  comment('t3', 'b.ts', 'gemini', 'MINOR', false),
+  comment('other', 'c.ts', 'gemini', 'MAJOR', false),
+];
+
+describe('formatDuration', () => {
+  it('formats seconds, minutes and hours', () => {
+    expect(formatDuration(42_000)).toBe('42s');
+    expect(formatDuration(843_000)).toBe('14m 3s');
+    expect(formatDuration(3_780_000)).toBe('1h 3m');
+  });
+});
+
+describe('phaseDurations', () => {
+  it('sums repeated phases and ignores terminal ones', () => {
+    const progress: OrchestratorProgress = {
+      currentPhase: 'complete',
+      startedAt: '2026-01-01T00:00:00Z',
+      completedAt: '2026-01-01T00:10:00Z',
+      history: [
+        { phase: 'preflight', timestamp: '2026-01-01T00:00:00Z' },
+        { phase: 'monitor', timestamp: '2026-01-01T00:01:00Z' },
+        { phase: 'build_test', timestamp: '2026-01-01T00:05:00Z' },
+        { phase: 'monitor', timestamp: '2026-01-01T00:06:00Z' },
+        { phase: 'complete', timestamp: '2026-01-01T00:10:00Z' },
+      ],
+    };
+    expect(phaseDurations(progress)).toEqual([
+      { phase: 'preflight', durationMs: 60_000 },
+      { phase: 'monitor', durationMs: 480_000 },
+      { phase: 'build_test', durationMs: 60_000 },
+    ]);
+  });
+});
+
+describe('buildRunReport', () => {
+  const report = buildRunReport({
+    run: run(partitions),
+    comments,
+    commits: [{ sha: 'abc1234def5678', message: 'Fix null check\n\nDetails' }],
+    progress: null,
+    now: new Date('2026-01-01T01:00:00Z'),
+  });
+
+  it('counts only the run\'s comments by source and severity', () => {
+    expect(report.bySource).toEqual({ coderabbit: { CRIT: 1, MINOR: 1 }, gemini: { MINOR: 1 } });
+  });
+
+  it('matches abbreviated commit SHAs from outcomes', () => {
+    expect(report.commits).toEqual([{ sha: 'abc1234def5678', message: 'Fix null check', threads: ['t1'] }]);
+  });
+
+  it('lists unresolved comments of the run as open', () => {
+    expect(report.open).toEqual([{ threadId: 't3', file: 'b.ts', severity: 'MINOR', source: 'gemini', outcome: 'failed' }]);
+  });
+
+  it('renders a marked Markdown comment', () => {
+    expect(report.markdown.startsWith(REPORT_MARKER)).toBe(true);
+    expect(report.markdown).toContain('completed after 14m 3s');
+    expect(report.markdown).toContain('| Issue in a.ts (`t2`) | `a.ts` | dismissed (false_positive) | worker-1 |  | Checked \\| fine |');
+    expect(report.markdown).toContain('- `abc1234` Fix null check — 1 comment(s)');
+    expect(report.markdown).not.toContain('### Phases');
+  });
+});
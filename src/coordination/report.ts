@@ -0,0 +1,284 @@
+/**
+ * Run Report - Markdown summary of a coordination run for the PR
+ *
+ * Built from the run's partitions and reported outcomes, the PR's comments as they
+ * are now, the commits pushed since the run started and the orchestrator's phase
+ * history. pr_review_report posts it as a single PR comment found by REPORT_MARKER.
+ */
+
+import { SEVERITY_ORDER, type Severity } from '../extractors/severity.js';
+import { collectOutcomes, type OutcomeCounts, type RunOutcome } from './outcomes.js';
+import type { CoordinationState, OrchestratorPhaseType, OrchestratorProgress } from './types.js';
+
+export const REPORT_MARKER = '<!-- pr-review-mcp-report -->';
+
+/** Phases that end an orchestration and have no duration of their own */
+const TERMINAL_PHASES: OrchestratorPhaseType[] = ['complete', 'error', 'aborted'];
+
+const MAX_TITLE_LENGTH = 80;
+
+/** Comment fields used by the report (ProcessedComment satisfies it) */
+export interface ReportComment {
+  threadId: string;
+  file: string;
+  source: string;
+  severity: string;
+  title: string;
+  resolved: boolean;
+}
+
+export interface ReportCommit {
+  sha: string;
+  message: string;
+}
+
+export interface RunReportInput {
+  run: CoordinationState;
+  /** Current comments of the PR, resolved ones included */
+  comments: ReportComment[];
+  /** Commits pushed since the run started, oldest first */
+  commits: ReportCommit[];
+  progress: OrchestratorProgress | null;
+  now?: Date;
+}
+
+export interface ReportedCommit {
+  sha: string;
+  /** First line of the commit message; absent for SHAs reported by workers but not in the PR */
+  message?: string;
+  threads: string[];
+}
+
+export interface OpenItem {
+  threadId: string;
+  file: string;
+  severity: string;
+  source: string;
+  outcome?: RunOutcome['outcome'];
+}
+
+export interface RunReport {
+  markdown: string;
+  /** Comment counts of the run by source, then severity */
+  bySource: Record<string, Record<string, number>>;
+  outcomeCounts: OutcomeCounts;
+  commits: ReportedCommit[];
+  /** Time spent in each phase, in order of first entry */
+  phases: Array<{ phase: OrchestratorPhaseType; durationMs: number }>;
+  /** Threads of the run that are still unresolved */
+  open: OpenItem[];
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
+
+/** Make text safe for a single Markdown table cell */
+function cell(text: string, maxLength = MAX_TITLE_LENGTH): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const short = flat.length > maxLength ? `${flat.slice(0, maxLength - 1)}…` : flat;
+  return short.replace(/\|/g, '\\|');
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.join(' | ')} |`,
+    `|${header.map(() => '---').join('|')}|`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ];
+}
+
+function severityRank(severity: string): number {
+  const index = SEVERITY_ORDER.indexOf(severity as Severity);
+  return index === -1 ? SEVERITY_ORDER.length : index;
+}
+
+// ============================================================================
+// Report Sections
+// ============================================================================
+
+/**
+ * Time spent in each phase. A phase lasts until the next entry; the current phase
+ * lasts until the orchestration completed, or until now.
+ */
+export function phaseDurations(
+  progress: OrchestratorProgress,
+  now: Date = new Date(),
+): Array<{ phase: OrchestratorPhaseType; durationMs: number }> {
+  const end = new Date(progress.completedAt ?? now).getTime();
+  const durations = new Map<OrchestratorPhaseType, number>();
+
+  progress.history.forEach((entry, i) => {
+    if (TERMINAL_PHASES.includes(entry.phase)) return;
+    const next = progress.history[i + 1];
+    const until = next ? new Date(next.timestamp).getTime() : end;
+    const duration = Math.max(0, until - new Date(entry.timestamp).getTime());
+    durations.set(entry.phase, (durations.get(entry.phase) ?? 0) + duration);
+  });
+
+  return Array.from(durations, ([phase, durationMs]) => ({ phase, durationMs }));
+}
+
+/**
+ * Commits pushed during the run with the threads whose fix they carry.
+ * SHAs reported by workers may be abbreviated.
+ */
+function matchCommits(commits: ReportCommit[], outcomes: RunOutcome[]): ReportedCommit[] {
+  const matches = (sha: string, reported: string) => sha.toLowerCase().startsWith(reported.toLowerCase());
+  const result: ReportedCommit[] = commits.map(c => ({
+    sha: c.sha,
+    message: c.message.split('\n')[0],
+    threads: [],
+  }));
+
+  for (const outcome of outcomes) {
+    if (!outcome.commitSha) continue;
+    let commit = result.find(c => matches(c.sha, outcome.commitSha!));
+    if (!commit) {
+      commit = { sha: outcome.commitSha, threads: [] };
+      result.push(commit);
+    }
+    commit.threads.push(outcome.threadId);
+  }
+  return result;
+}
+
+/**
+ * Build the report for a run
+ */
+export function buildRunReport(input: RunReportInput): RunReport {
+  const { run, comments, commits, progress } = input;
+  const now = input.now ?? new Date();
+  const partitions = Array.from(run.partitions.values());
+  const byThread = new Map(comments.map(c => [c.threadId, c]));
+  const partitionOf = new Map(partitions.flatMap(p => p.comments.map(id => [id, p.file] as const)));
+  const threadIds = Array.from(partitionOf.keys());
+
+  const { outcomes, counts: outcomeCounts } = collectOutcomes(partitions);
+  const outcomeOf = new Map(outcomes.map(o => [o.threadId, o]));
+  const fileOf = (threadId: string) => byThread.get(threadId)?.file || partitionOf.get(threadId)!;
+  const threadLabel = (threadId: string) => {
+    const title = byThread.get(threadId)?.title;
+    return title ? `${cell(title)} (\`${threadId}\`)` : `\`${threadId}\``;
+  };
+
+  const bySource: Record<string, Record<string, number>> = {};
+  for (const threadId of threadIds) {
+    const comment = byThread.get(threadId);
+    const source = comment?.source ?? 'unknown';
+    const severity = comment?.severity ?? 'N/A';
+    bySource[source] ??= {};
+    bySource[source][severity] = (bySource[source][severity] ?? 0) + 1;
+  }
+
+  const reportedCommits = matchCommits(commits, outcomes);
+  const phases = progress ? phaseDurations(progress, now) : [];
+
+  const open: OpenItem[] = threadIds
+    .filter(id => byThread.get(id)?.resolved === false)
+    .map(id => {
+      const comment = byThread.get(id)!;
+      return {
+        threadId: id,
+        file: fileOf(id),
+        severity: comment.severity,
+        source: comment.source,
+        ...(outcomeOf.has(id) && { outcome: outcomeOf.get(id)!.outcome }),
+      };
+    })
+    .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+
+  // Header
+  const { owner, repo, pr } = run.prInfo;
+  const finishedAt = run.completedAt ? new Date(run.completedAt) : now;
+  const lines = [
+    REPORT_MARKER,
+    `## 🤖 PR Review Report: ${owner}/${repo}#${pr}`,
+    '',
+    `Run \`${run.runId}\` · strategy \`${run.strategy}\` · ${threadIds.length} comment(s) in ${partitions.length} partition(s) · ` +
+      `${run.completedAt ? 'completed' : 'in progress'} after ${formatDuration(finishedAt.getTime() - new Date(run.startedAt).getTime())}`,
+  ];
+
+  // Comments by source and severity
+  const severities = Array.from(new Set(Object.values(bySource).flatMap(counts => Object.keys(counts))))
+    .sort((a, b) => severityRank(a) - severityRank(b));
+  lines.push('', '### Comments', '');
+  lines.push(...table(
+    ['Source', ...severities, 'Total'],
+    Object.entries(bySource).sort(([a], [b]) => a.localeCompare(b)).map(([source, counts]) => [
+      source,
+      ...severities.map(s => String(counts[s] ?? 0)),
+      String(Object.values(counts).reduce((sum, n) => sum + n, 0)),
+    ]),
+  ));
+
+  // Outcomes
+  lines.push('', '### Outcomes', '');
+  lines.push(
+    `Fixed ${outcomeCounts.fixed} · Dismissed ${outcomeCounts.dismissed} · Deferred ${outcomeCounts.deferred} · ` +
+    `Failed ${outcomeCounts.failed} · Unreported ${outcomeCounts.unreported}`
+  );
+  if (outcomes.length > 0) {
+    lines.push('', '<details>', `<summary>Outcome per comment (${outcomes.length})</summary>`, '');
+    lines.push(...table(
+      ['Comment', 'File', 'Outcome', 'Worker', 'Commit', 'Note'],
+      outcomes.map(o => [
+        threadLabel(o.threadId),
+        `\`${cell(fileOf(o.threadId))}\``,
+        o.reason ? `${o.outcome} (${o.reason})` : o.outcome,
+        o.agentId,
+        o.commitSha ? `\`${o.commitSha.slice(0, 7)}\`` : '',
+        o.note ? cell(o.note, 200) : '',
+      ]),
+    ));
+    lines.push('', '</details>');
+  }
+
+  // Commits
+  lines.push('', `### Commits (${reportedCommits.length})`, '');
+  if (reportedCommits.length === 0) {
+    lines.push('No commits since the run started.');
+  }
+  for (const commit of reportedCommits) {
+    const threads = commit.threads.length > 0 ? ` — ${commit.threads.length} comment(s)` : '';
+    const message = commit.message !== undefined ? ` ${cell(commit.message)}` : ' _(not in the PR)_';
+    lines.push(`- \`${commit.sha.slice(0, 7)}\`${message}${threads}`);
+  }
+
+  // Phases
+  if (phases.length > 0) {
+    lines.push('', '### Phases', '');
+    lines.push(...table(['Phase', 'Duration'], phases.map(p => [p.phase, formatDuration(p.durationMs)])));
+  }
+
+  // Left open
+  lines.push('', `### Left open (${open.length})`, '');
+  if (open.length === 0) {
+    lines.push('All comments of the run are resolved.');
+  } else {
+    lines.push(...table(
+      ['Comment', 'File', 'Severity', 'Source', 'Outcome'],
+      open.map(item => [
+        threadLabel(item.threadId),
+        `\`${cell(item.file)}\``,
+        item.severity,
+        item.source,
+        item.outcome ?? 'unreported',
+      ]),
+    ));
+  }
+
+  lines.push('', `<sub>Updated ${now.toISOString()}</sub>`);
+
+  return { markdown: lines.join('\n'), bySource, outcomeCounts, commits: reportedCommits, phases, open };
+}
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the SQLite coordination state manager (database in a temporary home directory)
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import type Database from 'better-sqlite3';
+
+// The database path is resolved when database.ts loads, so the directory must exist first
+const home = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  const { join } = await import('path');
+  return mkdtempSync(join(tmpdir(), 'pr-review-coordination-'));
+});
+
+vi.mock('os', async (importOriginal) => {
+  const os = await importOriginal<typeof import('os')>();
+  return { ...os, homedir: () => home };
+});
+
+import { openDatabase } from '../persistence/database.js';
+import { SqliteCoordinationStateManager } from './sqlite-state.js';
+import { LEASE_TTL_MS, type FilePartition } from './types.js';
+
+const prInfo = { owner: 'o', repo: 'r', pr: 1 };
+const MINUTE = 60_000;
+
+function partition(file: string): FilePartition {
+  return { file, comments: [`t-${file}`], severity: 'MAJOR', status: 'pending' };
+}
+
+let db: Database.Database;
+let manager: SqliteCoordinationStateManager;
+
+beforeAll(() => {
+  db = openDatabase()!;
+});
+
+beforeEach(() => {
+  manager = new SqliteCoordinationStateManager(db, 'session');
+});
+
+afterEach(() => {
+  manager.resetRun();
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  db?.close();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe('leases', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    manager.initRun(prInfo, 'head', [partition('a.ts'), partition('b.ts')]);
+  });
+
+  it('rejects reports and heartbeats under a reassigned lease', () => {
+    const first = manager.claimPartition('worker-1')!;
+    vi.setSystemTime(Date.now() + LEASE_TTL_MS + MINUTE);
+    manager.cleanupStaleAgents();
+    const second = manager.claimPartition('worker-2')!;
+
+    expect(second.file).toBe(first.file);
+    expect(second.leaseToken).not.toBe(first.leaseToken);
+    expect(manager.heartbeat('worker-1', first.file, first.leaseToken!)).toBeNull();
+    expect(manager.reportProgress('worker-1', first.file, first.leaseToken!, 'done')).toBe(false);
+    expect(manager.reportProgress('worker-1', first.file, second.leaseToken!, 'done')).toBe(false);
+    expect(manager.reportProgress('worker-2', second.file, second.leaseToken!, 'done')).toBe(true);
+  });
+
+  it('extends the lease on heartbeat', () => {
+    const claimed = manager.claimPartition('worker-1')!;
+    vi.setSystemTime(Date.now() + 4 * MINUTE);
+    const extended = manager.heartbeat('worker-1', claimed.file, claimed.leaseToken!);
+
+    expect(new Date(extended!.leaseExpiresAt!).getTime()).toBe(Date.now() + LEASE_TTL_MS);
+
+    vi.setSystemTime(Date.now() + 2 * MINUTE);
+    manager.cleanupStaleAgents();
+    expect(manager.reportProgress('worker-1', claimed.file, claimed.leaseToken!, 'done')).toBe(true);
+  });
+
+  it('re-queues a partition once its lease expires', () => {
+    const expiring = manager.claimPartition('worker-1')!;
+    vi.setSystemTime(Date.now() + 4 * MINUTE);
+    const current = manager.claimPartition('worker-1')!;
+    vi.setSystemTime(Date.now() + 2 * MINUTE);
+    manager.cleanupStaleAgents();
+
+    const partitions = manager.getCurrentRun()!.partitions;
+    expect(partitions.get(expiring.file)).toMatchObject({ status: 'pending', leaseToken: undefined });
+    expect(partitions.get(current.file)).toMatchObject({ status: 'claimed', claimedBy: 'worker-1' });
+  });
+});
+
+describe('runs for several PRs', () => {
+  const other = { ...prInfo, pr: 2 };
+
+  it('claims from each PR\'s run and replaces only the restarted one', () => {
+    const first = manager.initRun(prInfo, 'head', [partition('a.ts')]);
+    const second = manager.initRun(other, 'head', [partition('b.ts')]);
+
+    expect(manager.claimPartition('worker-1', first)?.file).toBe('a.ts');
+    expect(manager.claimPartition('worker-2', second)?.file).toBe('b.ts');
+
+    const restarted = manager.initRun(prInfo, 'head2', [partition('c.ts')]);
+
+    expect(manager.findRun({ runId: first })).toBeNull();
+    expect(manager.findRun({ prInfo })?.runId).toBe(restarted);
+    expect(manager.findRun({ prInfo: other })?.partitions.get('b.ts')).toMatchObject({ status: 'claimed' });
+  });
+
+  it('resets a single run', () => {
+    const first = manager.initRun(prInfo, 'head', [partition('a.ts')]);
+    const second = manager.initRun(other, 'head', [partition('b.ts')]);
+
+    manager.resetRun(first);
+
+    expect(manager.listRuns().map(r => r.runId)).toEqual([second]);
+    expect(manager.findRun({ runId: second })?.partitions.size).toBe(1);
+  });
+});
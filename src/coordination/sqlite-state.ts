@@ -6,6 +6,7 @@
  * headSha, startedAt, completedAt) and agent tracking are kept in memory because:
  *  - They are short-lived per coordination run.
  *  - On server restart a new run is always initiated; old rows are GC'd by clearExpiredRuns.
+ * Each PR has at most one run; runs for different PRs are claimed side by side.
  *
  * Nitpick / parent-child methods delegate to state-comment.ts (same as the in-memory
  * implementation) — no change in behaviour.
@@ -22,19 +23,27 @@ import { logger } from '../logging.js';
 import {
   registerParentChild as registerParentChildInPR,
   markChildResolved as markChildResolvedInPR,
+  markChildUnresolved as markChildUnresolvedInPR,
   isChildResolved as isChildResolvedInPR,
   getParentIdForChild as getParentIdForChildInPR,
   markNitpickResolved as markNitpickResolvedInPR,
+  markNitpickUnresolved as markNitpickUnresolvedInPR,
   isNitpickResolved as isNitpickResolvedInPR,
 } from '../github/state-comment.js';
+import { LEASE_TTL_MS } from './types.js';
+import { mergeOutcomes } from './outcomes.js';
 import type {
   CoordinationState,
   CoordinationStatus,
   FilePartition,
   AgentState,
   PartitionResult,
+  CommentOutcome,
+  RecordedOutcome,
   OrchestratorProgress,
   OrchestratorPhaseType,
+  PartitionStrategy,
+  RunRef,
 } from './types.js';
 
 // ---------------------------------------------------------------------------
@@ -56,6 +65,9 @@ interface CoordinationRow {
   claimed_at: string | null;
   completed_at: string | null;
   created_at: string;
+  lease_token: string | null;
+  lease_expires_at: string | null;
+  outcomes: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -81,6 +93,15 @@ function rowToPartition(row: CoordinationRow): FilePartition {
     }
   }
 
+  let outcomes: RecordedOutcome[] | undefined;
+  if (row.outcomes) {
+    try {
+      outcomes = JSON.parse(row.outcomes) as RecordedOutcome[];
+    } catch {
+      outcomes = undefined;
+    }
+  }
+
   return {
     file: row.file,
     comments,
@@ -89,10 +110,25 @@ function rowToPartition(row: CoordinationRow): FilePartition {
     status: (row.status as FilePartition['status']) || 'pending',
     claimedBy: row.agent_id ?? undefined,
     claimedAt: row.claimed_at ?? undefined,
+    leaseToken: row.lease_token ?? undefined,
+    leaseExpiresAt: row.lease_expires_at ?? undefined,
     result,
+    outcomes,
   };
 }
 
+/** Run-level metadata and agent tracking for one run */
+interface RunMeta {
+  runId: string;
+  prInfo: { owner: string; repo: string; pr: number };
+  headSha: string;
+  strategy: PartitionStrategy;
+  startedAt: string;
+  completedAt?: string;
+  // Agent tracking (mirrors DB partition state for performance)
+  agents: Map<string, AgentState>;
+}
+
 // ---------------------------------------------------------------------------
 // SqliteCoordinationStateManager
 // ---------------------------------------------------------------------------
@@ -103,17 +139,9 @@ export class SqliteCoordinationStateManager {
   private readonly STALE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
   private static readonly DEFAULT_EXPIRY_MS = 30 * 60 * 1000; // 30 minutes
 
-  // Run-level metadata lives in memory (short-lived, rebuilt on restart)
-  private runMeta: {
-    runId: string;
-    prInfo: { owner: string; repo: string; pr: number };
-    headSha: string;
-    startedAt: string;
-    completedAt?: string;
-  } | null = null;
-
-  // Agent tracking (in-memory — mirrors DB partition state for performance)
-  private agents: Map<string, AgentState> = new Map();
+  // Run-level metadata lives in memory (short-lived, rebuilt on restart).
+  // One run per PR, by run ID in start order.
+  private runs: Map<string, RunMeta> = new Map();
 
   // Orchestrator progress is purely in-memory (phase transitions within a run)
   private orchestratorProgress: OrchestratorProgress | null = null;
@@ -126,6 +154,10 @@ export class SqliteCoordinationStateManager {
   private readonly stmtGetByRun: Database.Statement;
   private readonly stmtDeleteRun: Database.Statement;
   private readonly stmtResetClaimed: Database.Statement;
+  private readonly stmtGetExpiredLeases: Database.Statement;
+  private readonly stmtReleaseLease: Database.Statement;
+  private readonly stmtExtendLease: Database.Statement;
+  private readonly stmtGetByLease: Database.Statement;
   private readonly stmtInsertOrMerge: Database.Statement;
 
   constructor(db: Database.Database, sessionId: string) {
@@ -143,7 +175,9 @@ export class SqliteCoordinationStateManager {
       UPDATE coordination
          SET status    = 'claimed',
              agent_id  = @agent_id,
-             claimed_at = @claimed_at
+             claimed_at = @claimed_at,
+             lease_token = @lease_token,
+             lease_expires_at = @lease_expires_at
        WHERE id = (
          SELECT id FROM coordination
           WHERE run_id = @run_id
@@ -167,11 +201,15 @@ export class SqliteCoordinationStateManager {
       UPDATE coordination
          SET status       = @status,
              result       = @result,
-             completed_at = @completed_at
+             outcomes     = @outcomes,
+             completed_at = @completed_at,
+             lease_token  = NULL,
+             lease_expires_at = NULL
        WHERE run_id   = @run_id
          AND file     = @file
          AND agent_id = @agent_id
          AND status   = 'claimed'
+         AND lease_token = @lease_token
     `);
 
     this.stmtGetByRun = this.db.prepare(`
@@ -186,13 +224,47 @@ export class SqliteCoordinationStateManager {
       UPDATE coordination
          SET status     = 'pending',
              agent_id   = NULL,
-             claimed_at = NULL
+             claimed_at = NULL,
+             lease_token = NULL,
+             lease_expires_at = NULL
        WHERE run_id     = @run_id
          AND status     = 'claimed'
          AND agent_id   = @agent_id
          AND claimed_at < @cutoff
     `);
 
+    this.stmtGetExpiredLeases = this.db.prepare(`
+      SELECT * FROM coordination
+       WHERE run_id = @run_id
+         AND status = 'claimed'
+         AND lease_expires_at < @now
+    `);
+
+    this.stmtReleaseLease = this.db.prepare(`
+      UPDATE coordination
+         SET status     = 'pending',
+             agent_id   = NULL,
+             claimed_at = NULL,
+             lease_token = NULL,
+             lease_expires_at = NULL
+       WHERE id = @id
+         AND lease_token = @lease_token
+    `);
+
+    this.stmtExtendLease = this.db.prepare(`
+      UPDATE coordination
+         SET lease_expires_at = @lease_expires_at
+       WHERE run_id      = @run_id
+         AND file        = @file
+         AND agent_id    = @agent_id
+         AND status      = 'claimed'
+         AND lease_token = @lease_token
+    `);
+
+    this.stmtGetByLease = this.db.prepare(`
+      SELECT * FROM coordination WHERE lease_token = @lease_token
+    `);
+
     this.stmtInsertOrMerge = this.db.prepare(`
       INSERT INTO coordination
         (owner, repo, pr, run_id, session_id, file, status, comments, created_at)
@@ -206,18 +278,25 @@ export class SqliteCoordinationStateManager {
   // Private helpers
   // ---------------------------------------------------------------------------
 
-  private getLastActivityTs(): number {
-    if (!this.runMeta) return Date.now();
-    let lastTs = new Date(this.runMeta.startedAt).getTime();
-    for (const agent of this.agents.values()) {
+  /**
+   * Run by ID, or the most recently started run when runId is omitted
+   */
+  private getRun(runId?: string): RunMeta | null {
+    if (runId !== undefined) return this.runs.get(runId) ?? null;
+    return Array.from(this.runs.values()).pop() ?? null;
+  }
+
+  private getLastActivityTs(run: RunMeta): number {
+    let lastTs = new Date(run.startedAt).getTime();
+    for (const agent of run.agents.values()) {
       const ts = new Date(agent.lastSeen).getTime();
       if (Number.isFinite(ts) && ts > lastTs) lastTs = ts;
     }
     return Number.isFinite(lastTs) ? lastTs : Date.now();
   }
 
-  private getOrCreateAgent(agentId: string): AgentState {
-    let agent = this.agents.get(agentId);
+  private getOrCreateAgent(run: RunMeta, agentId: string): AgentState {
+    let agent = run.agents.get(agentId);
     if (!agent) {
       agent = {
         agentId,
@@ -225,22 +304,21 @@ export class SqliteCoordinationStateManager {
         completedFiles: [],
         lastSeen: new Date().toISOString(),
       };
-      this.agents.set(agentId, agent);
+      run.agents.set(agentId, agent);
     }
     return agent;
   }
 
-  private updateAgentSeen(agentId: string): void {
-    const agent = this.getOrCreateAgent(agentId);
+  private updateAgentSeen(run: RunMeta, agentId: string): void {
+    const agent = this.getOrCreateAgent(run, agentId);
     agent.lastSeen = new Date().toISOString();
   }
 
   /**
-   * Load all partitions for the current run from SQLite.
+   * Load all partitions of a run from SQLite.
    */
-  private loadPartitions(): Map<string, FilePartition> {
-    if (!this.runMeta) return new Map();
-    const rows = this.stmtGetByRun.all({ run_id: this.runMeta.runId }) as CoordinationRow[];
+  private loadPartitions(run: RunMeta): Map<string, FilePartition> {
+    const rows = this.stmtGetByRun.all({ run_id: run.runId }) as CoordinationRow[];
     const map = new Map<string, FilePartition>();
     for (const row of rows) {
       map.set(row.file, rowToPartition(row));
@@ -251,50 +329,106 @@ export class SqliteCoordinationStateManager {
   /**
    * Check if all partitions are terminal (done/failed) and mark run completed.
    */
-  private checkCompletion(): void {
-    if (!this.runMeta || this.runMeta.completedAt) return;
-    const rows = this.stmtGetByRun.all({ run_id: this.runMeta.runId }) as CoordinationRow[];
+  private checkCompletion(run: RunMeta): void {
+    if (run.completedAt) return;
+    const rows = this.stmtGetByRun.all({ run_id: run.runId }) as CoordinationRow[];
     if (rows.length === 0) return;
     const allDone = rows.every(r => r.status === 'done' || r.status === 'failed');
     if (allDone) {
-      this.runMeta.completedAt = new Date().toISOString();
+      run.completedAt = new Date().toISOString();
     }
   }
 
+  /**
+   * Claimed row for a lease token, with its run (lease tokens are unique across runs)
+   */
+  private getLeasedRow(leaseToken: string): { run: RunMeta; row: CoordinationRow } | null {
+    const row = this.stmtGetByLease.get({ lease_token: leaseToken }) as CoordinationRow | undefined;
+    const run = row ? this.runs.get(row.run_id) : undefined;
+    return row && run ? { run, row } : null;
+  }
+
+  private toStatus(run: RunMeta): CoordinationStatus {
+    const rows = this.stmtGetByRun.all({ run_id: run.runId }) as CoordinationRow[];
+
+    const counts = { pending: 0, claimed: 0, done: 0, failed: 0, skipped: 0 };
+    for (const row of rows) {
+      const s = row.status as keyof typeof counts;
+      if (s in counts) counts[s]++;
+    }
+
+    const agentsList = Array.from(run.agents.values()).map(a => ({
+      agentId: a.agentId,
+      claimedCount: a.claimedFiles.length,
+      completedCount: a.completedFiles.length,
+      lastSeen: a.lastSeen,
+    }));
+
+    return {
+      active: !run.completedAt,
+      runId: run.runId,
+      prInfo: run.prInfo,
+      strategy: run.strategy,
+      progress: counts,
+      total: rows.length,
+      agents: agentsList,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+    };
+  }
+
+  private toState(run: RunMeta): CoordinationState {
+    return {
+      runId: run.runId,
+      prInfo: run.prInfo,
+      headSha: run.headSha,
+      strategy: run.strategy,
+      partitions: this.loadPartitions(run),
+      agents: new Map(run.agents),
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+    };
+  }
+
   // ---------------------------------------------------------------------------
   // Public interface (mirrors CoordinationStateManager exactly)
   // ---------------------------------------------------------------------------
 
   clearExpiredRuns(maxAgeMs: number = SqliteCoordinationStateManager.DEFAULT_EXPIRY_MS): boolean {
-    if (!this.runMeta) return false;
-    const inactivity = Date.now() - this.getLastActivityTs();
-    if (inactivity > maxAgeMs) {
-      logger.warning(
-        `[coordination/sqlite] Clearing expired run ${this.runMeta.runId} ` +
-          `(inactive: ${Math.round(inactivity / 1000)}s, threshold: ${Math.round(maxAgeMs / 1000)}s)`,
-      );
-      this.runMeta = null;
-      this.agents.clear();
+    let cleared = false;
+    for (const run of Array.from(this.runs.values())) {
+      const inactivity = Date.now() - this.getLastActivityTs(run);
+      if (inactivity > maxAgeMs) {
+        logger.warning(
+          `[coordination/sqlite] Clearing expired run ${run.runId} ` +
+            `(inactive: ${Math.round(inactivity / 1000)}s, threshold: ${Math.round(maxAgeMs / 1000)}s)`,
+        );
+        this.runs.delete(run.runId);
+        cleared = true;
+      }
+    }
+    if (cleared && this.runs.size === 0) {
       this.orchestratorProgress = null;
-      return true;
     }
-    return false;
+    return cleared;
   }
 
   initRun(
     prInfo: { owner: string; repo: string; pr: number },
     headSha: string,
     partitions: FilePartition[],
+    strategy: PartitionStrategy = 'file',
   ): string {
     this.clearExpiredRuns();
 
-    if (this.runMeta) {
-      const status = this.runMeta.completedAt ? 'completed' : 'active';
+    const previous = this.findRun({ prInfo });
+    if (previous) {
+      const status = previous.completedAt ? 'completed' : 'active';
       logger.warning(
-        `[coordination/sqlite] Replacing ${status} run ${this.runMeta.runId} for ` +
-          `${this.runMeta.prInfo.owner}/${this.runMeta.prInfo.repo}#${this.runMeta.prInfo.pr} ` +
-          `with new run for ${prInfo.owner}/${prInfo.repo}#${prInfo.pr}`,
+        `[coordination/sqlite] Replacing ${status} run ${previous.runId} for ` +
+          `${prInfo.owner}/${prInfo.repo}#${prInfo.pr}`,
       );
+      this.runs.delete(previous.runId);
     }
 
     const runId = randomUUID();
@@ -317,44 +451,45 @@ export class SqliteCoordinationStateManager {
 
     insertMany(partitions);
 
-    this.runMeta = { runId, prInfo, headSha, startedAt: now };
-    this.agents.clear();
-    this.orchestratorProgress = null;
+    const run: RunMeta = { runId, prInfo, headSha, strategy, startedAt: now, agents: new Map() };
+    this.runs.set(runId, run);
 
     // Mark completed immediately for empty runs
-    this.checkCompletion();
+    this.checkCompletion(run);
 
     return runId;
   }
 
-  claimPartition(agentId: string): FilePartition | null {
+  claimPartition(agentId: string, runId?: string): FilePartition | null {
     this.clearExpiredRuns();
-    if (!this.runMeta) return null;
+    const run = this.getRun(runId);
+    if (!run) return null;
 
     this.cleanupStaleAgents();
-    this.updateAgentSeen(agentId);
+    this.updateAgentSeen(run, agentId);
 
     // Atomically grab the first pending unclaimed row via UPDATE … WHERE id = (SELECT …)
-    const claimedAt = new Date().toISOString();
+    const now = Date.now();
+    const leaseToken = randomUUID();
     const info = this.stmtClaimPartition.run({
-      run_id: this.runMeta.runId,
+      run_id: run.runId,
       agent_id: agentId,
-      claimed_at: claimedAt,
+      claimed_at: new Date(now).toISOString(),
+      lease_token: leaseToken,
+      lease_expires_at: new Date(now + LEASE_TTL_MS).toISOString(),
     });
 
     if (info.changes === 0) return null;
 
     // Fetch the row we just claimed
-    const row = (this.db.prepare(
-      `SELECT * FROM coordination WHERE run_id = ? AND agent_id = ? AND status = 'claimed' ORDER BY id DESC LIMIT 1`,
-    ).get(this.runMeta.runId, agentId)) as CoordinationRow | undefined;
+    const row = this.stmtGetByLease.get({ lease_token: leaseToken }) as CoordinationRow | undefined;
 
     if (!row) return null;
 
     const partition = rowToPartition(row);
 
     // Update in-memory agent tracking
-    const agent = this.getOrCreateAgent(agentId);
+    const agent = this.getOrCreateAgent(run, agentId);
     agent.claimedFiles.push(partition.file);
 
     return partition;
@@ -363,64 +498,87 @@ export class SqliteCoordinationStateManager {
   reportProgress(
     agentId: string,
     file: string,
+    leaseToken: string,
     status: 'done' | 'failed' | 'skipped',
     result?: PartitionResult,
+    outcomes?: CommentOutcome[],
   ): boolean {
-    if (!this.runMeta) return false;
+    const leased = this.getLeasedRow(leaseToken);
+    if (!leased) return false;
+    const { run, row } = leased;
 
     const newStatus = status === 'skipped' ? 'done' : status;
     const now = new Date().toISOString();
 
+    // Matches only while the lease is current, so a worker presumed stale
+    // cannot overwrite a partition that was reassigned
     const info = this.stmtUpdateStatus.run({
-      run_id: this.runMeta.runId,
+      run_id: run.runId,
       file,
       agent_id: agentId,
+      lease_token: leaseToken,
       status: newStatus,
       result: result ? JSON.stringify(result) : null,
+      outcomes: outcomes
+        ? JSON.stringify(mergeOutcomes(rowToPartition(row), outcomes, agentId, now))
+        : row.outcomes,
       completed_at: now,
     });
 
     if (info.changes === 0) return false;
 
-    this.updateAgentSeen(agentId);
+    this.updateAgentSeen(run, agentId);
 
     // Update agent tracking
-    const agent = this.getOrCreateAgent(agentId);
+    const agent = this.getOrCreateAgent(run, agentId);
     agent.claimedFiles = agent.claimedFiles.filter(f => f !== file);
     agent.completedFiles.push(file);
 
-    this.checkCompletion();
+    this.checkCompletion(run);
     return true;
   }
 
-  getStatus(): CoordinationStatus {
-    if (!this.runMeta) return { active: false };
+  heartbeat(agentId: string, file: string, leaseToken: string): FilePartition | null {
+    const leased = this.getLeasedRow(leaseToken);
+    if (!leased) return null;
+    const { run } = leased;
 
-    const rows = this.stmtGetByRun.all({ run_id: this.runMeta.runId }) as CoordinationRow[];
+    const info = this.stmtExtendLease.run({
+      run_id: run.runId,
+      file,
+      agent_id: agentId,
+      lease_token: leaseToken,
+      lease_expires_at: new Date(Date.now() + LEASE_TTL_MS).toISOString(),
+    });
+    if (info.changes === 0) return null;
 
-    const counts = { pending: 0, claimed: 0, done: 0, failed: 0, skipped: 0 };
-    for (const row of rows) {
-      const s = row.status as keyof typeof counts;
-      if (s in counts) counts[s]++;
-    }
+    this.updateAgentSeen(run, agentId);
+    const row = this.stmtGetByLease.get({ lease_token: leaseToken }) as CoordinationRow | undefined;
+    return row ? rowToPartition(row) : null;
+  }
 
-    const agentsList = Array.from(this.agents.values()).map(a => ({
-      agentId: a.agentId,
-      claimedCount: a.claimedFiles.length,
-      completedCount: a.completedFiles.length,
-      lastSeen: a.lastSeen,
-    }));
+  getStatus(runId?: string): CoordinationStatus {
+    const run = this.getRun(runId);
+    return run ? this.toStatus(run) : { active: false };
+  }
 
-    return {
-      active: !this.runMeta.completedAt,
-      runId: this.runMeta.runId,
-      prInfo: this.runMeta.prInfo,
-      progress: counts,
-      total: rows.length,
-      agents: agentsList,
-      startedAt: this.runMeta.startedAt,
-      completedAt: this.runMeta.completedAt,
-    };
+  listRuns(): CoordinationStatus[] {
+    return Array.from(this.runs.values()).map(run => this.toStatus(run));
+  }
+
+  findRun(ref: RunRef): CoordinationState | null {
+    let run: RunMeta | null;
+    if (ref.runId !== undefined) {
+      run = this.getRun(ref.runId);
+    } else if (ref.prInfo) {
+      const { owner, repo, pr } = ref.prInfo;
+      run = Array.from(this.runs.values()).find(
+        r => r.prInfo.owner === owner && r.prInfo.repo === repo && r.prInfo.pr === pr,
+      ) ?? null;
+    } else {
+      run = this.getRun();
+    }
+    return run ? this.toState(run) : null;
   }
 
   // ---------------------------------------------------------------------------
@@ -432,7 +590,7 @@ export class SqliteCoordinationStateManager {
     agentId: string,
     prInfo?: { owner: string; repo: string; pr: number },
   ): Promise<void> {
-    const info = prInfo ?? this.runMeta?.prInfo;
+    const info = prInfo ?? this.getRun()?.prInfo;
     if (info) {
       try {
         await markNitpickResolvedInPR(info.owner, info.repo, info.pr, nitpickId, agentId);
@@ -445,11 +603,26 @@ export class SqliteCoordinationStateManager {
     logger.warning('[coordination/sqlite] markNitpickResolved: no prInfo available, skipping');
   }
 
+  async markNitpickUnresolved(
+    nitpickId: string,
+    prInfo?: { owner: string; repo: string; pr: number },
+  ): Promise<boolean> {
+    const info = prInfo ?? this.getRun()?.prInfo;
+    if (info) {
+      try {
+        return await markNitpickUnresolvedInPR(info.owner, info.repo, info.pr, nitpickId);
+      } catch (error) {
+        logger.warning('[coordination/sqlite] Failed to mark nitpick unresolved in GitHub', error);
+      }
+    }
+    return false;
+  }
+
   async isNitpickResolved(
     nitpickId: string,
     prInfo?: { owner: string; repo: string; pr: number },
   ): Promise<boolean> {
-    const info = prInfo ?? this.runMeta?.prInfo;
+    const info = prInfo ?? this.getRun()?.prInfo;
     if (info) {
       try {
         return await isNitpickResolvedInPR(info.owner, info.repo, info.pr, nitpickId);
@@ -463,13 +636,14 @@ export class SqliteCoordinationStateManager {
   async getResolvedNitpicksCount(
     prInfo?: { owner: string; repo: string; pr: number },
   ): Promise<number> {
-    const info = prInfo ?? this.runMeta?.prInfo;
+    const info = prInfo ?? this.getRun()?.prInfo;
     if (!info) return 0;
     try {
       const state = await import('../github/state-comment.js').then(m =>
         m.loadState(info.owner, info.repo, info.pr),
       );
-      return Object.keys(state.resolvedNitpicks ?? {}).length;
+      // Dismissal records for review threads share the map; count synthetic comments only
+      return Object.keys(state.resolvedNitpicks ?? {}).filter(id => id.startsWith('coderabbit-')).length;
     } catch {
       return 0;
     }
@@ -524,6 +698,13 @@ export class SqliteCoordinationStateManager {
     await markChildResolvedInPR(prInfo.owner, prInfo.repo, prInfo.pr, childId);
   }
 
+  async markChildUnresolved(
+    childId: string,
+    prInfo: { owner: string; repo: string; pr: number },
+  ): Promise<void> {
+    await markChildUnresolvedInPR(prInfo.owner, prInfo.repo, prInfo.pr, childId);
+  }
+
   async isChildResolved(
     childId: string,
     prInfo: { owner: string; repo: string; pr: number },
@@ -555,24 +736,39 @@ export class SqliteCoordinationStateManager {
   // ---------------------------------------------------------------------------
 
   cleanupStaleAgents(timeoutMs = this.STALE_TIMEOUT): void {
-    if (!this.runMeta) return;
+    for (const run of this.runs.values()) {
+      this.cleanupStaleAgentsInRun(run, timeoutMs);
+    }
+  }
 
+  private cleanupStaleAgentsInRun(run: RunMeta, timeoutMs: number): void {
     const now = Date.now();
     const cutoff = new Date(now - timeoutMs).toISOString();
 
-    for (const [agentId, agent] of this.agents.entries()) {
+    // Re-queue partitions whose lease expired (the worker stopped sending heartbeats)
+    const expired = this.stmtGetExpiredLeases.all({
+      run_id: run.runId,
+      now: new Date(now).toISOString(),
+    }) as CoordinationRow[];
+    for (const row of expired) {
+      this.stmtReleaseLease.run({ id: row.id, lease_token: row.lease_token });
+      const agent = row.agent_id ? run.agents.get(row.agent_id) : undefined;
+      if (agent) agent.claimedFiles = agent.claimedFiles.filter(f => f !== row.file);
+    }
+
+    for (const [agentId, agent] of run.agents.entries()) {
       const lastSeen = new Date(agent.lastSeen).getTime();
       if (now - lastSeen > timeoutMs) {
         // Re-queue claimed partitions in SQLite
         this.stmtResetClaimed.run({
-          run_id: this.runMeta.runId,
+          run_id: run.runId,
           agent_id: agentId,
           cutoff,
         });
 
         // Update in-memory agent tracking
         if (agent.completedFiles.length === 0) {
-          this.agents.delete(agentId);
+          run.agents.delete(agentId);
         } else {
           agent.claimedFiles = [];
         }
@@ -585,47 +781,49 @@ export class SqliteCoordinationStateManager {
   // ---------------------------------------------------------------------------
 
   getCurrentRun(): CoordinationState | null {
-    if (!this.runMeta) return null;
-    return {
-      runId: this.runMeta.runId,
-      prInfo: this.runMeta.prInfo,
-      headSha: this.runMeta.headSha,
-      partitions: this.loadPartitions(),
-      agents: new Map(this.agents),
-      startedAt: this.runMeta.startedAt,
-      completedAt: this.runMeta.completedAt,
-    };
+    const run = this.getRun();
+    return run ? this.toState(run) : null;
   }
 
-  isRunActive(): boolean {
-    return this.runMeta !== null && !this.runMeta.completedAt;
+  isRunActive(runId?: string): boolean {
+    const run = this.getRun(runId);
+    return run !== null && !run.completedAt;
   }
 
-  getRunAge(): number | null {
-    if (!this.runMeta) return null;
-    return Date.now() - new Date(this.runMeta.startedAt).getTime();
+  getRunAge(runId?: string): number | null {
+    const run = this.getRun(runId);
+    if (!run) return null;
+    return Date.now() - new Date(run.startedAt).getTime();
   }
 
-  forceComplete(): boolean {
-    if (!this.runMeta) return false;
-    if (this.runMeta.completedAt) return false;
-    this.runMeta.completedAt = new Date().toISOString();
+  forceComplete(runId?: string): boolean {
+    const run = this.getRun(runId);
+    if (!run) return false;
+    if (run.completedAt) return false;
+    run.completedAt = new Date().toISOString();
     return true;
   }
 
-  resetRun(): void {
-    if (this.runMeta) {
-      this.stmtDeleteRun.run({ run_id: this.runMeta.runId });
+  /**
+   * Delete one run, or all runs and orchestrator progress when runId is omitted
+   */
+  resetRun(runId?: string): void {
+    const runs = runId !== undefined ? [this.getRun(runId)] : Array.from(this.runs.values());
+    for (const run of runs) {
+      if (!run) continue;
+      this.stmtDeleteRun.run({ run_id: run.runId });
+      this.runs.delete(run.runId);
+    }
+    if (runId === undefined) {
+      this.orchestratorProgress = null;
     }
-    this.runMeta = null;
-    this.agents.clear();
-    this.orchestratorProgress = null;
   }
 
-  addPartitions(partitions: FilePartition[]): number {
-    if (!this.runMeta) return 0;
+  addPartitions(partitions: FilePartition[], runId?: string): number {
+    const run = this.getRun(runId);
+    if (!run) return 0;
 
-    const existing = this.loadPartitions();
+    const existing = this.loadPartitions(run);
     let touched = 0;
     const now = new Date().toISOString();
 
@@ -636,10 +834,10 @@ export class SqliteCoordinationStateManager {
         if (!existing_) {
           // New partition
           this.stmtInsertOrMerge.run({
-            owner: this.runMeta!.prInfo.owner,
-            repo: this.runMeta!.prInfo.repo,
-            pr: this.runMeta!.prInfo.pr,
-            run_id: this.runMeta!.runId,
+            owner: run.prInfo.owner,
+            repo: run.prInfo.repo,
+            pr: run.prInfo.pr,
+            run_id: run.runId,
             session_id: this.sessionId,
             file: p.file,
             comments: JSON.stringify(p.comments ?? []),
@@ -674,7 +872,7 @@ export class SqliteCoordinationStateManager {
                       result     = NULL
                 WHERE run_id = @run_id AND file = @file`,
             ).run({
-              run_id: this.runMeta!.runId,
+              run_id: run.runId,
               file: p.file,
               comments: JSON.stringify(Array.from(existingSet)),
             });
@@ -682,7 +880,7 @@ export class SqliteCoordinationStateManager {
             this.db.prepare(
               `UPDATE coordination SET comments = @comments WHERE run_id = @run_id AND file = @file`,
             ).run({
-              run_id: this.runMeta!.runId,
+              run_id: run.runId,
               file: p.file,
               comments: JSON.stringify(Array.from(existingSet)),
             });
@@ -695,19 +893,20 @@ export class SqliteCoordinationStateManager {
     doWork(partitions);
 
     // Reopen run if it was completed and new work was added
-    if (touched > 0 && this.runMeta.completedAt) {
+    if (touched > 0 && run.completedAt) {
       logger.warning(
-        `[coordination/sqlite] Reopening completed run ${this.runMeta.runId} — added/updated ${touched} partitions`,
+        `[coordination/sqlite] Reopening completed run ${run.runId} — added/updated ${touched} partitions`,
       );
-      this.runMeta.completedAt = undefined;
+      run.completedAt = undefined;
     }
 
     return touched;
   }
 
-  allPartitionsDone(): boolean {
-    if (!this.runMeta) return false;
-    const rows = this.stmtGetByRun.all({ run_id: this.runMeta.runId }) as CoordinationRow[];
+  allPartitionsDone(runId?: string): boolean {
+    const run = this.getRun(runId);
+    if (!run) return false;
+    const rows = this.stmtGetByRun.all({ run_id: run.runId }) as CoordinationRow[];
     if (rows.length === 0) return false;
     return rows.every(r => r.status === 'done' || r.status === 'failed');
   }
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for the in-memory coordination state manager
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CoordinationStateManager } from './state.js';
+import { LEASE_TTL_MS, type FilePartition } from './types.js';
+
+const prInfo = { owner: 'o', repo: 'r', pr: 1 };
+const MINUTE = 60_000;
+
+function partition(file: string): FilePartition {
+  return { file, comments: [`t-${file}`], severity: 'MAJOR', status: 'pending' };
+}
+
+let cwd: string;
+let manager: CoordinationStateManager;
+
+// Local nitpick records live under the working directory
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), 'pr-review-state-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(cwd);
+  manager = new CoordinationStateManager();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe('getResolvedNitpicksCount', () => {
+  it('counts synthetic CodeRabbit comments only', async () => {
+    const record = { resolvedAt: '2026-01-01T00:00:00Z', resolvedBy: 'agent' };
+    mkdirSync(join(cwd, '.agent', 'status'), { recursive: true });
+    writeFileSync(join(cwd, '.agent', 'status', 'nitpicks-o-r-1.json'), JSON.stringify({
+      'coderabbit-nitpick-1': record,
+      'coderabbit-outside-diff-2': record,
+      PRRT_a: { ...record, dismissal: { reason: 'wont_fix', rationale: 'Intended' } },
+    }));
+
+    expect(await manager.getResolvedNitpicksCount(prInfo)).toBe(2);
+  });
+});
+
+describe('leases', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    manager.initRun(prInfo, 'head', [partition('a.ts'), partition('b.ts')]);
+  });
+
+  it('rejects reports and heartbeats under a reassigned lease', () => {
+    const first = manager.claimPartition('worker-1')!;
+    vi.setSystemTime(Date.now() + LEASE_TTL_MS + MINUTE);
+    manager.cleanupStaleAgents();
+    const second = manager.claimPartition('worker-2')!;
+
+    expect(second.file).toBe(first.file);
+    expect(second.leaseToken).not.toBe(first.leaseToken);
+    expect(manager.heartbeat('worker-1', first.file, first.leaseToken!)).toBeNull();
+    expect(manager.reportProgress('worker-1', first.file, first.leaseToken!, 'done')).toBe(false);
+    expect(manager.reportProgress('worker-1', first.file, second.leaseToken!, 'done')).toBe(false);
+    expect(manager.reportProgress('worker-2', second.file, second.leaseToken!, 'done')).toBe(true);
+  });
+
+  it('extends the lease on heartbeat', () => {
+    const claimed = manager.claimPartition('worker-1')!;
+    vi.setSystemTime(Date.now() + 4 * MINUTE);
+    const extended = manager.heartbeat('worker-1', claimed.file, claimed.leaseToken!);
+
+    expect(new Date(extended!.leaseExpiresAt!).getTime()).toBe(Date.now() + LEASE_TTL_MS);
+
+    vi.setSystemTime(Date.now() + 2 * MINUTE);
+    manager.cleanupStaleAgents();
+    expect(manager.reportProgress('worker-1', claimed.file, claimed.leaseToken!, 'done')).toBe(true);
+  });
+
+  it('re-queues a partition once its lease expires', () => {
+    const expiring = manager.claimPartition('worker-1')!;
+    vi.setSystemTime(Date.now() + 4 * MINUTE);
+    const current = manager.claimPartition('worker-1')!;
+    vi.setSystemTime(Date.now() + 2 * MINUTE);
+    manager.cleanupStaleAgents();
+
+    const partitions = manager.getCurrentRun()!.partitions;
+    expect(partitions.get(expiring.file)).toMatchObject({ status: 'pending', leaseToken: undefined });
+    expect(partitions.get(current.file)).toMatchObject({ status: 'claimed', claimedBy: 'worker-1' });
+  });
+});
@@ -6,21 +6,28 @@ import { logger } from '../logging.js';
 import {
   registerParentChild as registerParentChildInPR,
   markChildResolved as markChildResolvedInPR,
+  markChildUnresolved as markChildUnresolvedInPR,
   isChildResolved as isChildResolvedInPR,
   getParentIdForChild as getParentIdForChildInPR,
   markNitpickResolved as markNitpickResolvedInPR,
+  markNitpickUnresolved as markNitpickUnresolvedInPR,
   isNitpickResolved as isNitpickResolvedInPR
 } from '../github/state-comment.js';
+import { LEASE_TTL_MS } from './types.js';
+import { mergeOutcomes } from './outcomes.js';
 import type {
   CoordinationState,
   CoordinationStatus,
   FilePartition,
   AgentState,
   PartitionResult,
+  CommentOutcome,
   NitpickResolution,
   ParentChildEntry,
   OrchestratorProgress,
-  OrchestratorPhaseType
+  OrchestratorPhaseType,
+  PartitionStrategy,
+  RunRef
 } from './types.js';
 
 /**
@@ -29,19 +36,22 @@ import type {
  * Design decisions:
  * - Singleton pattern: Ensures single source of truth for coordination state across the MCP server
  * - In-memory state: Simple, fast, suitable for short-lived coordination runs
+ * - One run per PR: runs for different PRs are partitioned and claimed side by side.
+ *   Methods that take an optional runId default to the most recently started run.
  * - Thread safety: JavaScript event loop guarantees atomicity for synchronous operations.
  *   While multiple async MCP calls may be in-flight, each call to claimPartition/reportProgress
  *   executes synchronously without interleaving, preventing race conditions.
  * - Stale agent cleanup: Re-queues work from agents that haven't reported activity within STALE_TIMEOUT
  *
  * Lifecycle:
- * 1. initRun() - Creates new coordination run, replacing any previous run (completed or not)
+ * 1. initRun() - Creates new coordination run, replacing any previous run for the same PR (completed or not)
  * 2. claimPartition() - Agents atomically claim pending work
  * 3. reportProgress() - Agents report completion with strict ownership validation
  * 4. Auto-completion when all partitions are done/failed
  */
 export class CoordinationStateManager {
-  private currentRun: CoordinationState | null = null;
+  /** Runs by run ID, in start order */
+  private runs: Map<string, CoordinationState> = new Map();
   private readonly STALE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
   private static readonly DEFAULT_EXPIRY_MS = 30 * 60 * 1000; // 30 minutes
   private resolvedNitpicks: Map<string, NitpickResolution> = new Map();
@@ -50,13 +60,20 @@ export class CoordinationStateManager {
   private orchestratorProgress: OrchestratorProgress | null = null;
 
   /**
-   * Get the timestamp of the last activity on the current run.
+   * Run by ID, or the most recently started run when runId is omitted
+   */
+  private getRun(runId?: string): CoordinationState | null {
+    if (runId !== undefined) return this.runs.get(runId) ?? null;
+    return Array.from(this.runs.values()).pop() ?? null;
+  }
+
+  /**
+   * Get the timestamp of the last activity on a run.
    * Uses the most recent agent lastSeen, falling back to startedAt.
    */
-  private getLastActivityTs(): number {
-    if (!this.currentRun) return Date.now();
-    let lastTs = new Date(this.currentRun.startedAt).getTime();
-    for (const agent of this.currentRun.agents.values()) {
+  private getLastActivityTs(run: CoordinationState): number {
+    let lastTs = new Date(run.startedAt).getTime();
+    for (const agent of run.agents.values()) {
       const ts = new Date(agent.lastSeen).getTime();
       if (Number.isFinite(ts) && ts > lastTs) lastTs = ts;
     }
@@ -69,39 +86,46 @@ export class CoordinationStateManager {
    * Called automatically from initRun() and claimPartition().
    */
   clearExpiredRuns(maxAgeMs: number = CoordinationStateManager.DEFAULT_EXPIRY_MS): boolean {
-    if (!this.currentRun) return false;
+    let cleared = false;
+
+    for (const run of Array.from(this.runs.values())) {
+      const inactivity = Date.now() - this.getLastActivityTs(run);
+      if (inactivity > maxAgeMs) {
+        logger.warning(
+          `[coordination] Clearing expired run ${run.runId} ` +
+          `(inactive: ${Math.round(inactivity / 1000)}s, threshold: ${Math.round(maxAgeMs / 1000)}s)`
+        );
+        this.runs.delete(run.runId);
+        cleared = true;
+      }
+    }
 
-    const inactivity = Date.now() - this.getLastActivityTs();
-    if (inactivity > maxAgeMs) {
-      logger.warning(
-        `[coordination] Clearing expired run ${this.currentRun.runId} ` +
-        `(inactive: ${Math.round(inactivity / 1000)}s, threshold: ${Math.round(maxAgeMs / 1000)}s)`
-      );
-      this.currentRun = null;
+    if (cleared && this.runs.size === 0) {
       this.orchestratorProgress = null;
-      return true;
     }
-    return false;
+    return cleared;
   }
 
   /**
    * Initialize a new coordination run
-   * Note: This replaces any existing run (completed or not) without explicit cleanup
+   * Note: This replaces any existing run for the same PR (completed or not) without explicit cleanup
    */
   initRun(
     prInfo: { owner: string; repo: string; pr: number },
     headSha: string,
-    partitions: FilePartition[]
+    partitions: FilePartition[],
+    strategy: PartitionStrategy = 'file'
   ): string {
     this.clearExpiredRuns();
 
-    if (this.currentRun) {
-      const status = this.currentRun.completedAt ? 'completed' : 'active';
+    const previous = this.findRun({ prInfo });
+    if (previous) {
+      const status = previous.completedAt ? 'completed' : 'active';
       logger.warning(
-        `[coordination] Replacing ${status} run ${this.currentRun.runId} for ` +
-        `${this.currentRun.prInfo.owner}/${this.currentRun.prInfo.repo}#${this.currentRun.prInfo.pr} ` +
-        `with new run for ${prInfo.owner}/${prInfo.repo}#${prInfo.pr}`
+        `[coordination] Replacing ${status} run ${previous.runId} for ` +
+        `${prInfo.owner}/${prInfo.repo}#${prInfo.pr}`
       );
+      this.runs.delete(previous.runId);
     }
 
     const runId = randomUUID();
@@ -111,45 +135,51 @@ export class CoordinationStateManager {
       partitionsMap.set(p.file, { ...p, status: 'pending' });
     });
 
-    this.currentRun = {
+    const run: CoordinationState = {
       runId,
       prInfo,
       headSha,
+      strategy,
       partitions: partitionsMap,
       agents: new Map(),
       startedAt: new Date().toISOString()
     };
+    this.runs.set(runId, run);
 
     // Mark as completed immediately if no partitions (empty PR)
-    this.checkCompletion();
+    this.checkCompletion(run);
 
     return runId;
   }
 
   /**
-   * Atomically claim the next pending partition for an agent
+   * Atomically claim the next pending partition of a run for an agent
    */
-  claimPartition(agentId: string): FilePartition | null {
+  claimPartition(agentId: string, runId?: string): FilePartition | null {
     this.clearExpiredRuns();
-    if (!this.currentRun) return null;
+    const run = this.getRun(runId);
+    if (!run) return null;
 
     this.cleanupStaleAgents();
-    this.updateAgentSeen(agentId);
+    this.updateAgentSeen(run, agentId);
 
     // Find first pending partition
-    for (const [file, partition] of this.currentRun.partitions.entries()) {
+    for (const [file, partition] of run.partitions.entries()) {
       if (partition.status === 'pending') {
         // Atomic claim
+        const now = Date.now();
         const updatedPartition: FilePartition = {
           ...partition,
           status: 'claimed',
           claimedBy: agentId,
-          claimedAt: new Date().toISOString()
+          claimedAt: new Date(now).toISOString(),
+          leaseToken: randomUUID(),
+          leaseExpiresAt: new Date(now + LEASE_TTL_MS).toISOString()
         };
-        this.currentRun.partitions.set(file, updatedPartition);
+        run.partitions.set(file, updatedPartition);
 
         // Update agent state
-        const agent = this.getOrCreateAgent(agentId);
+        const agent = this.getOrCreateAgent(run, agentId);
         agent.claimedFiles.push(file);
 
         return updatedPartition;
@@ -159,6 +189,28 @@ export class CoordinationStateManager {
     return null;
   }
 
+  /**
+   * Partition claimed by the agent under the given lease, with its run
+   * (null once the lease was reassigned). Lease tokens are unique across runs.
+   */
+  private getLeasedPartition(
+    agentId: string,
+    file: string,
+    leaseToken: string
+  ): { run: CoordinationState; partition: FilePartition } | null {
+    for (const run of this.runs.values()) {
+      const partition = run.partitions.get(file);
+      if (!partition || partition.leaseToken !== leaseToken) continue;
+
+      // Strict ownership check: partition must be claimed by this agent under this lease
+      // Prevents marking unclaimed/re-queued partitions as done, including partitions
+      // re-claimed by the same agent after it was presumed stale
+      if (partition.status !== 'claimed' || partition.claimedBy !== agentId) return null;
+      return { run, partition };
+    }
+    return null;
+  }
+
   /**
    * Report progress on a partition
    * Note: 'skipped' status is converted to 'done' for completion tracking
@@ -166,19 +218,14 @@ export class CoordinationStateManager {
   reportProgress(
     agentId: string,
     file: string,
+    leaseToken: string,
     status: 'done' | 'failed' | 'skipped',
-    result?: PartitionResult
+    result?: PartitionResult,
+    outcomes?: CommentOutcome[]
   ): boolean {
-    if (!this.currentRun) return false;
-
-    const partition = this.currentRun.partitions.get(file);
-    if (!partition) return false;
-
-    // Strict ownership check: partition must be claimed by this agent
-    // Prevents marking unclaimed/re-queued partitions as done
-    if (partition.status !== 'claimed' || partition.claimedBy !== agentId) {
-      return false;
-    }
+    const leased = this.getLeasedPartition(agentId, file, leaseToken);
+    if (!leased) return false;
+    const { run, partition } = leased;
 
     // Convert 'skipped' to 'done' for completion tracking
     // This simplifies checkCompletion logic but loses skip vs. complete distinction
@@ -187,32 +234,78 @@ export class CoordinationStateManager {
     const updatedPartition: FilePartition = {
       ...partition,
       status: newStatus,
-      result
+      leaseToken: undefined,
+      leaseExpiresAt: undefined,
+      result,
+      outcomes: outcomes
+        ? mergeOutcomes(partition, outcomes, agentId, new Date().toISOString())
+        : partition.outcomes
     };
 
-    this.currentRun.partitions.set(file, updatedPartition);
-    this.updateAgentSeen(agentId);
+    run.partitions.set(file, updatedPartition);
+    this.updateAgentSeen(run, agentId);
 
     // Update agent state
-    const agent = this.getOrCreateAgent(agentId);
+    const agent = this.getOrCreateAgent(run, agentId);
     // Remove from claimed
     agent.claimedFiles = agent.claimedFiles.filter(f => f !== file);
     // Add to completed
     agent.completedFiles.push(file);
 
-    this.checkCompletion();
+    this.checkCompletion(run);
 
     return true;
   }
 
   /**
-   * Get current status summary
+   * Extend the lease on a claimed partition
+   * @returns The partition with its new expiry, or null when the lease is no longer current
+   */
+  heartbeat(agentId: string, file: string, leaseToken: string): FilePartition | null {
+    const leased = this.getLeasedPartition(agentId, file, leaseToken);
+    if (!leased) return null;
+    const { run, partition } = leased;
+
+    const updatedPartition: FilePartition = {
+      ...partition,
+      leaseExpiresAt: new Date(Date.now() + LEASE_TTL_MS).toISOString()
+    };
+    run.partitions.set(file, updatedPartition);
+    this.updateAgentSeen(run, agentId);
+
+    return updatedPartition;
+  }
+
+  /**
+   * Get status summary of a run (default: the most recent run)
+   */
+  getStatus(runId?: string): CoordinationStatus {
+    const run = this.getRun(runId);
+    return run ? this.toStatus(run) : { active: false };
+  }
+
+  /**
+   * Get status summaries of all runs, oldest first
+   */
+  listRuns(): CoordinationStatus[] {
+    return Array.from(this.runs.values()).map(run => this.toStatus(run));
+  }
+
+  /**
+   * Find a run by ID or PR (default: the most recent run)
    */
-  getStatus(): CoordinationStatus {
-    if (!this.currentRun) {
-      return { active: false };
+  findRun(ref: RunRef): CoordinationState | null {
+    if (ref.runId !== undefined) return this.getRun(ref.runId);
+    if (ref.prInfo) {
+      const { owner, repo, pr } = ref.prInfo;
+      return Array.from(this.runs.values()).find(
+        r => r.prInfo.owner === owner && r.prInfo.repo === repo && r.prInfo.pr === pr
+      ) ?? null;
     }
+    return this.getRun();
+  }
 
+  private toStatus(run: CoordinationState): CoordinationStatus {
     const counts = {
       pending: 0,
       claimed: 0,
@@ -221,12 +314,12 @@ export class CoordinationStateManager {
       skipped: 0
     };
 
-    for (const p of this.currentRun.partitions.values()) {
+    for (const p of run.partitions.values()) {
       counts[p.status]++;
     }
 
     // Convert Maps to objects/arrays for serialization
-    const agentsList = Array.from(this.currentRun.agents.values()).map(a => ({
+    const agentsList = Array.from(run.agents.values()).map(a => ({
         agentId: a.agentId,
         claimedCount: a.claimedFiles.length,
         completedCount: a.completedFiles.length,
@@ -234,14 +327,15 @@ export class CoordinationStateManager {
     }));
 
     return {
-      active: !this.currentRun.completedAt, // active only if not completed
-      runId: this.currentRun.runId,
-      prInfo: this.currentRun.prInfo,
+      active: !run.completedAt, // active only if not completed
+      runId: run.runId,
+      prInfo: run.prInfo,
+      strategy: run.strategy,
       progress: counts,
-      total: this.currentRun.partitions.size,
+      total: run.partitions.size,
       agents: agentsList,
-      startedAt: this.currentRun.startedAt,
-      completedAt: this.currentRun.completedAt
+      startedAt: run.startedAt,
+      completedAt: run.completedAt
     };
   }
 
@@ -269,6 +363,28 @@ export class CoordinationStateManager {
     await this.persistNitpicksAsync(prInfo);
   }
 
+  async markNitpickUnresolved(
+    nitpickId: string,
+    prInfo?: { owner: string; repo: string; pr: number }
+  ): Promise<boolean> {
+    // Prefer GitHub state-comment API
+    if (prInfo) {
+      try {
+        return await markNitpickUnresolvedInPR(prInfo.owner, prInfo.repo, prInfo.pr, nitpickId);
+      } catch (error) {
+        logger.warning('[state] Failed to mark nitpick unresolved in GitHub, falling back to local', error);
+      }
+    }
+
+    // Fallback to local persistence
+    await this.ensureNitpicksLoaded(prInfo);
+    const removed = this.resolvedNitpicks.delete(nitpickId);
+    if (removed) {
+      await this.persistNitpicksAsync(prInfo);
+    }
+    return removed;
+  }
+
   async isNitpickResolved(
     nitpickId: string,
     prInfo?: { owner: string; repo: string; pr: number }
@@ -289,7 +405,8 @@ export class CoordinationStateManager {
 
   async getResolvedNitpicksCount(prInfo?: { owner: string; repo: string; pr: number }): Promise<number> {
     await this.ensureNitpicksLoaded(prInfo);
-    return this.resolvedNitpicks.size;
+    // Dismissal records for review threads share the map; count synthetic comments only
+    return Array.from(this.resolvedNitpicks.keys()).filter(id => id.startsWith('coderabbit-')).length;
   }
 
   // --- Orchestrator Progress ---
@@ -338,6 +455,13 @@ export class CoordinationStateManager {
     await markChildResolvedInPR(prInfo.owner, prInfo.repo, prInfo.pr, childId);
   }
 
+  async markChildUnresolved(
+    childId: string,
+    prInfo: { owner: string; repo: string; pr: number }
+  ): Promise<void> {
+    await markChildUnresolvedInPR(prInfo.owner, prInfo.repo, prInfo.pr, childId);
+  }
+
   async isChildResolved(
     childId: string,
     prInfo: { owner: string; repo: string; pr: number }
@@ -366,33 +490,41 @@ export class CoordinationStateManager {
   }
 
   /**
-   * Re-queue partitions from stale agents and remove idle stale agents
+   * Re-queue partitions with expired leases or from stale agents, and remove idle stale agents
    */
   cleanupStaleAgents(timeoutMs = this.STALE_TIMEOUT) {
-    if (!this.currentRun) return;
+    for (const run of this.runs.values()) {
+      this.cleanupStaleAgentsInRun(run, timeoutMs);
+    }
+  }
 
+  private cleanupStaleAgentsInRun(run: CoordinationState, timeoutMs: number) {
     const now = new Date().getTime();
 
-    for (const [agentId, agent] of this.currentRun.agents.entries()) {
+    // Re-queue partitions whose lease expired (the worker stopped sending heartbeats)
+    for (const [file, partition] of run.partitions.entries()) {
+      if (partition.status === 'claimed' && partition.leaseExpiresAt && new Date(partition.leaseExpiresAt).getTime() < now) {
+        this.releasePartition(run, file, partition);
+        const agent = partition.claimedBy ? run.agents.get(partition.claimedBy) : undefined;
+        if (agent) agent.claimedFiles = agent.claimedFiles.filter(f => f !== file);
+      }
+    }
+
+    for (const [agentId, agent] of run.agents.entries()) {
       const lastSeen = new Date(agent.lastSeen).getTime();
       if (now - lastSeen > timeoutMs) {
         // Agent is stale. Re-queue its claimed files.
         for (const file of agent.claimedFiles) {
-            const partition = this.currentRun.partitions.get(file);
+            const partition = run.partitions.get(file);
             if (partition && partition.status === 'claimed' && partition.claimedBy === agentId) {
-                this.currentRun.partitions.set(file, {
-                    ...partition,
-                    status: 'pending',
-                    claimedBy: undefined,
-                    claimedAt: undefined
-                });
+                this.releasePartition(run, file, partition);
             }
         }
 
         // Remove stale agent from map if it has no completed work
         // Agents with completed work are retained for status reporting
         if (agent.completedFiles.length === 0) {
-          this.currentRun.agents.delete(agentId);
+          run.agents.delete(agentId);
         } else {
           agent.claimedFiles = [];
         }
@@ -402,10 +534,22 @@ export class CoordinationStateManager {
 
   // --- Helpers ---
 
-  private getOrCreateAgent(agentId: string): AgentState {
-    if (!this.currentRun) throw new Error("No active run");
-    
-    let agent = this.currentRun.agents.get(agentId);
+  /**
+   * Return a claimed partition to pending; its lease token stops being current
+   */
+  private releasePartition(run: CoordinationState, file: string, partition: FilePartition): void {
+    run.partitions.set(file, {
+      ...partition,
+      status: 'pending',
+      claimedBy: undefined,
+      claimedAt: undefined,
+      leaseToken: undefined,
+      leaseExpiresAt: undefined
+    });
+  }
+
+  private getOrCreateAgent(run: CoordinationState, agentId: string): AgentState {
+    let agent = run.agents.get(agentId);
     if (!agent) {
         agent = {
             agentId,
@@ -413,31 +557,30 @@ export class CoordinationStateManager {
             completedFiles: [],
             lastSeen: new Date().toISOString()
         };
-        this.currentRun.agents.set(agentId, agent);
+        run.agents.set(agentId, agent);
     }
     return agent;
   }
 
-  private updateAgentSeen(agentId: string) {
-      const agent = this.getOrCreateAgent(agentId);
+  private updateAgentSeen(run: CoordinationState, agentId: string) {
+      const agent = this.getOrCreateAgent(run, agentId);
       agent.lastSeen = new Date().toISOString();
   }
 
-  private checkCompletion() {
-      if (!this.currentRun) return;
-      if (this.currentRun.completedAt) return;
+  private checkCompletion(run: CoordinationState) {
+      if (run.completedAt) return;
 
-      const allDone = Array.from(this.currentRun.partitions.values()).every(p => 
+      const allDone = Array.from(run.partitions.values()).every(p => 
           p.status === 'done' || p.status === 'failed'
       );
 
       if (allDone) {
-          this.currentRun.completedAt = new Date().toISOString();
+          run.completedAt = new Date().toISOString();
       }
   }
 
   private getPrKey(prInfo?: { owner: string; repo: string; pr: number }): string {
-    const info = prInfo || this.currentRun?.prInfo;
+    const info = prInfo || this.getRun()?.prInfo;
     if (!info) {
       return 'unknown';
     }
@@ -505,43 +648,53 @@ export class CoordinationStateManager {
     await rename(tempPath, filePath);
   }
 
+  /**
+   * Get the most recently started run
+   */
   public getCurrentRun() {
-    return this.currentRun;
+    return this.getRun();
   }
 
   /**
-   * Check if there's an active (non-completed) run
+   * Check if a run is active (not completed)
    */
-  isRunActive(): boolean {
-    return this.currentRun !== null && !this.currentRun.completedAt;
+  isRunActive(runId?: string): boolean {
+    const run = this.getRun(runId);
+    return run !== null && !run.completedAt;
   }
 
   /**
    * Get run age in milliseconds (or null if no run)
    */
-  getRunAge(): number | null {
-    if (!this.currentRun) return null;
-    return Date.now() - new Date(this.currentRun.startedAt).getTime();
+  getRunAge(runId?: string): number | null {
+    const run = this.getRun(runId);
+    if (!run) return null;
+    return Date.now() - new Date(run.startedAt).getTime();
   }
 
   /**
-   * Force complete the current run
+   * Force complete a run
    * Useful for testing and emergency stop scenarios
    */
-  forceComplete(): boolean {
-    if (!this.currentRun) return false;
-    if (this.currentRun.completedAt) return false;
+  forceComplete(runId?: string): boolean {
+    const run = this.getRun(runId);
+    if (!run) return false;
+    if (run.completedAt) return false;
 
-    this.currentRun.completedAt = new Date().toISOString();
+    run.completedAt = new Date().toISOString();
     return true;
   }
 
   /**
-   * Reset/clear the current run
+   * Reset/clear one run, or all runs and orchestrator progress when runId is omitted
    * Useful for testing and explicit cleanup
    */
-  resetRun(): void {
-    this.currentRun = null;
+  resetRun(runId?: string): void {
+    if (runId !== undefined) {
+      this.runs.delete(runId);
+      return;
+    }
+    this.runs.clear();
     this.orchestratorProgress = null;
   }
 
@@ -551,16 +704,17 @@ export class CoordinationStateManager {
    * Reopens the run if it was completed and work was added/updated
    * @returns Number of partitions touched (added or updated with new comments)
    */
-  addPartitions(partitions: FilePartition[]): number {
-    if (!this.currentRun) return 0;
+  addPartitions(partitions: FilePartition[], runId?: string): number {
+    const run = this.getRun(runId);
+    if (!run) return 0;
 
     let touched = 0;
 
     for (const p of partitions) {
-      const existing = this.currentRun.partitions.get(p.file);
+      const existing = run.partitions.get(p.file);
       if (!existing) {
         // New file partition - add it
-        this.currentRun.partitions.set(p.file, { ...p, status: 'pending' });
+        run.partitions.set(p.file, { ...p, status: 'pending' });
         touched++;
         continue;
       }
@@ -579,7 +733,7 @@ export class CoordinationStateManager {
       if (hasNew) {
         // If the partition was already completed, reopen it for new work
         const shouldReopen = existing.status === 'done' || existing.status === 'failed';
-        this.currentRun.partitions.set(p.file, {
+        run.partitions.set(p.file, {
           ...existing,
           comments: Array.from(existingComments),
           status: shouldReopen ? 'pending' : existing.status,
@@ -592,9 +746,9 @@ export class CoordinationStateManager {
     }
 
     // Reopen run if it was completed and we added/updated work
-    if (touched > 0 && this.currentRun.completedAt) {
-      logger.warning(`[coordination] Reopening completed run ${this.currentRun.runId} - added/updated ${touched} partitions`);
-      this.currentRun.completedAt = undefined;
+    if (touched > 0 && run.completedAt) {
+      logger.warning(`[coordination] Reopening completed run ${run.runId} - added/updated ${touched} partitions`);
+      run.completedAt = undefined;
     }
 
     return touched;
@@ -603,9 +757,10 @@ export class CoordinationStateManager {
   /**
    * Check if all current partitions are done/failed (for refresh check)
    */
-  allPartitionsDone(): boolean {
-    if (!this.currentRun) return false;
-    return Array.from(this.currentRun.partitions.values()).every(
+  allPartitionsDone(runId?: string): boolean {
+    const run = this.getRun(runId);
+    if (!run) return false;
+    return Array.from(run.partitions.values()).every(
       p => p.status === 'done' || p.status === 'failed'
     );
   }
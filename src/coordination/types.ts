@@ -5,6 +5,9 @@ import type { Severity } from '../extractors/severity.js';
 // Shared interface implemented by both CoordinationStateManager and
 // SqliteCoordinationStateManager. All tools and callers depend on this
 // interface, not on either concrete class.
+//
+// Each PR has at most one run, and runs for different PRs coexist. Methods
+// with an optional runId default to the most recently started run.
 // ---------------------------------------------------------------------------
 export interface ICoordinationStateManager {
   clearExpiredRuns(maxAgeMs?: number): boolean;
@@ -12,20 +15,30 @@ export interface ICoordinationStateManager {
     prInfo: { owner: string; repo: string; pr: number },
     headSha: string,
     partitions: FilePartition[],
+    strategy?: PartitionStrategy,
   ): string;
-  claimPartition(agentId: string): FilePartition | null;
+  claimPartition(agentId: string, runId?: string): FilePartition | null;
   reportProgress(
     agentId: string,
     file: string,
+    leaseToken: string,
     status: 'done' | 'failed' | 'skipped',
     result?: PartitionResult,
+    outcomes?: CommentOutcome[],
   ): boolean;
-  getStatus(): CoordinationStatus;
+  heartbeat(agentId: string, file: string, leaseToken: string): FilePartition | null;
+  getStatus(runId?: string): CoordinationStatus;
+  listRuns(): CoordinationStatus[];
+  findRun(ref: RunRef): CoordinationState | null;
   markNitpickResolved(
     nitpickId: string,
     agentId: string,
     prInfo?: { owner: string; repo: string; pr: number },
   ): Promise<void>;
+  markNitpickUnresolved(
+    nitpickId: string,
+    prInfo?: { owner: string; repo: string; pr: number },
+  ): Promise<boolean>;
   isNitpickResolved(
     nitpickId: string,
     prInfo?: { owner: string; repo: string; pr: number },
@@ -42,6 +55,10 @@ export interface ICoordinationStateManager {
     childId: string,
     prInfo: { owner: string; repo: string; pr: number },
   ): Promise<void>;
+  markChildUnresolved(
+    childId: string,
+    prInfo: { owner: string; repo: string; pr: number },
+  ): Promise<void>;
   isChildResolved(
     childId: string,
     prInfo: { owner: string; repo: string; pr: number },
@@ -56,45 +73,98 @@ export interface ICoordinationStateManager {
   ): Promise<string | null>;
   cleanupStaleAgents(timeoutMs?: number): void;
   getCurrentRun(): CoordinationState | null;
-  isRunActive(): boolean;
-  getRunAge(): number | null;
-  forceComplete(): boolean;
-  resetRun(): void;
-  addPartitions(partitions: FilePartition[]): number;
-  allPartitionsDone(): boolean;
+  isRunActive(runId?: string): boolean;
+  getRunAge(runId?: string): number | null;
+  forceComplete(runId?: string): boolean;
+  resetRun(runId?: string): void;
+  addPartitions(partitions: FilePartition[], runId?: string): number;
+  allPartitionsDone(runId?: string): boolean;
 }
 
+/** Selects a run by ID or by PR; neither selects the most recent run */
+export interface RunRef {
+  runId?: string;
+  prInfo?: { owner: string; repo: string; pr: number };
+}
+
+/** How long a claim is held without a heartbeat or report */
+export const LEASE_TTL_MS = 5 * 60 * 1000;
+
+/** How a run's comments are split into partitions (see partitioning.ts) */
+export const PARTITION_STRATEGIES = ['file', 'directory', 'balanced', 'weighted', 'region'] as const;
+export type PartitionStrategy = typeof PARTITION_STRATEGIES[number];
+
+export const DISMISS_REASONS = ['false_positive', 'wont_fix', 'out_of_scope', 'deferred'] as const;
+export type DismissReason = typeof DISMISS_REASONS[number];
+
+export const COMMENT_OUTCOMES = ['fixed', 'dismissed', 'deferred', 'failed'] as const;
+export type CommentOutcomeType = typeof COMMENT_OUTCOMES[number];
+
 // Zod schemas for tool inputs
+const PrInfoSchema = z.object({
+  owner: z.string().min(1),
+  repo: z.string().min(1),
+  pr: z.number().int().positive()
+});
+
 export const ClaimWorkSchema = z.object({
   agent_id: z.string().min(1),
   run_id: z.string().optional(),
-  pr_info: z.object({
-    owner: z.string().min(1),
-    repo: z.string().min(1),
-    pr: z.number().int().positive()
-  }).optional(),
-  force: z.boolean().optional()
+  pr_info: PrInfoSchema.optional().describe(
+    'PR to claim work for; starts a run when the PR has none. Without run_id or pr_info, claims from the only active run'
+  ),
+  force: z.boolean().optional().describe('Replace the existing run for pr_info with a new one'),
+  strategy: z.enum(PARTITION_STRATEGIES).optional().describe(
+    'Partitioning for a run started by this call: file, directory, balanced (by comment count), ' +
+    'weighted (by severity) or region (large files split by line range). ' +
+    'Default: coordination.partitionStrategy in .github/pr-review.json, else file'
+  )
+});
+
+export const CommentOutcomeSchema = z.object({
+  threadId: z.string().min(1),
+  outcome: z.enum(COMMENT_OUTCOMES),
+  reason: z.enum(DISMISS_REASONS).optional().describe('Dismissal reason (required when outcome is dismissed)'),
+  commitSha: z.string().regex(/^[0-9a-f]{7,40}$/i, 'commitSha must be a hex commit SHA').optional()
+    .describe('Commit with the fix'),
+  note: z.string().max(500).optional()
+}).refine(o => o.outcome !== 'dismissed' || o.reason !== undefined, {
+  message: 'reason is required when outcome is dismissed',
+  path: ['reason']
 });
 
 export const ReportProgressSchema = z.object({
   agent_id: z.string().min(1),
   file: z.string().min(1),
+  lease_token: z.string().min(1).optional()
+    .describe('leaseToken of the claimed partition (omitting it is deprecated and will be rejected in a future release)'),
   status: z.enum(['done', 'failed', 'skipped']),
   result: z.object({
     commentsProcessed: z.number(),
     commentsResolved: z.number(),
     errors: z.array(z.string()).optional()
-  }).optional()
+  }).optional(),
+  outcomes: z.array(CommentOutcomeSchema).max(500).optional()
+    .describe('What happened to each thread of the partition: fixed, dismissed (with reason), deferred or failed')
+});
+
+export const HeartbeatSchema = z.object({
+  agent_id: z.string().min(1),
+  file: z.string().min(1),
+  lease_token: z.string().min(1).describe('leaseToken of the claimed partition')
 });
 
 export const GetWorkStatusSchema = z.object({
-  run_id: z.string().optional()
+  run_id: z.string().optional(),
+  pr_info: PrInfoSchema.optional().describe('Report the run for this PR (default: the most recent run)')
 });
 
 export const ResetCoordinationSchema = z.object({
   confirm: z.boolean().optional().describe(
     'Safety guard: set true to confirm reset. If omitted, server will try interactive elicitation.'
   ),
+  run_id: z.string().optional(),
+  pr_info: PrInfoSchema.optional().describe('Reset only the run for this PR (default: all runs)'),
 });
 
 // Return type for getStatus()
@@ -102,6 +172,7 @@ export interface CoordinationStatus {
   active: boolean;
   runId?: string;
   prInfo?: { owner: string; repo: string; pr: number };
+  strategy?: PartitionStrategy;
   progress?: { pending: number; claimed: number; done: number; failed: number; skipped: number };
   total?: number;
   agents?: { agentId: string; claimedCount: number; completedCount: number; lastSeen: string }[];
@@ -111,13 +182,20 @@ export interface CoordinationStatus {
 
 // TypeScript interfaces
 export interface FilePartition {
+  /** Partition key: a file path, or a directory, batch or line region depending on the run's strategy */
   file: string;
   comments: string[];
   severity: Severity;
   status: 'pending' | 'claimed' | 'done' | 'failed' | 'skipped';
   claimedBy?: string;
   claimedAt?: string;
+  /** Fencing token of the current claim; reports and heartbeats must present it */
+  leaseToken?: string;
+  /** After this the partition may be reassigned, which invalidates leaseToken */
+  leaseExpiresAt?: string;
   result?: PartitionResult;
+  /** Latest reported outcome per thread */
+  outcomes?: RecordedOutcome[];
 }
 
 export interface PartitionResult {
@@ -126,9 +204,31 @@ export interface PartitionResult {
   errors?: string[];
 }
 
+/** What a worker did with one thread of its partition */
+export interface CommentOutcome {
+  threadId: string;
+  outcome: CommentOutcomeType;
+  reason?: DismissReason;
+  commitSha?: string;
+  note?: string;
+}
+
+/** A CommentOutcome as stored on its partition */
+export interface RecordedOutcome extends CommentOutcome {
+  agentId: string;
+  reportedAt: string;
+}
+
+export interface Dismissal {
+  reason: DismissReason;
+  rationale: string;
+}
+
 export interface NitpickResolution {
   resolvedAt: string;
   resolvedBy: string;
+  /** Present when the comment was dismissed rather than fixed */
+  dismissal?: Dismissal;
 }
 
 export interface ParentChildEntry {
@@ -150,6 +250,7 @@ export interface CoordinationState {
   runId: string;
   prInfo: { owner: string; repo: string; pr: number };
   headSha: string;
+  strategy: PartitionStrategy;
   partitions: Map<string, FilePartition>;
   agents: Map<string, AgentState>;
   startedAt: string;
@@ -186,6 +287,7 @@ export const ProgressCheckSchema = z.object({});
 
 export type ClaimWorkInput = z.infer<typeof ClaimWorkSchema>;
 export type ReportProgressInput = z.infer<typeof ReportProgressSchema>;
+export type HeartbeatInput = z.infer<typeof HeartbeatSchema>;
 export type GetWorkStatusInput = z.infer<typeof GetWorkStatusSchema>;
 export type ResetCoordinationInput = z.infer<typeof ResetCoordinationSchema>;
 export type ProgressUpdateInput = z.infer<typeof ProgressUpdateSchema>;
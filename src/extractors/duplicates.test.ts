@@ -0,0 +1,110 @@
+/**
+ * Unit tests for cross-agent duplicate detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findDuplicateGroups,
+  parseLineWindow,
+  tokenize,
+  textSimilarity,
+  type DuplicateCandidate,
+} from './duplicates.js';
+
+function candidate(overrides: Partial<DuplicateCandidate>): DuplicateCandidate {
+  return {
+    threadId: 'PRRT_1',
+    file: 'src/db.ts',
+    line: 42,
+    source: 'coderabbit',
+    title: 'Possible null dereference',
+    body: 'The connection pool may be undefined when query() runs before init().',
+    ...overrides
+  };
+}
+
+describe('parseLineWindow', () => {
+  it('parses numbers, single lines, and ranges', () => {
+    expect(parseLineWindow(10)).toEqual([10, 10]);
+    expect(parseLineWindow('10')).toEqual([10, 10]);
+    expect(parseLineWindow('10-14')).toEqual([10, 14]);
+  });
+
+  it('returns null for unknown lines', () => {
+    expect(parseLineWindow('?')).toBeNull();
+  });
+});
+
+describe('tokenize', () => {
+  it('drops markup, urls, short words, and stopwords', () => {
+    const tokens = tokenize('<b>Consider</b> the [pool](https://x.y/z) init https://example.com ok');
+    expect([...tokens].sort()).toEqual(['init', 'pool']);
+  });
+});
+
+describe('textSimilarity', () => {
+  it('uses the smaller set as the denominator', () => {
+    const result = textSimilarity(new Set(['a1', 'b2']), new Set(['a1', 'b2', 'c3', 'd4']));
+    expect(result).toEqual({ score: 1, shared: 2 });
+  });
+
+  it('returns zero for empty sets', () => {
+    expect(textSimilarity(new Set(), new Set(['x']))).toEqual({ score: 0, shared: 0 });
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups similar comments from different sources on nearby lines', () => {
+    const groups = findDuplicateGroups([
+      candidate({ threadId: 'PRRT_a', source: 'coderabbit', line: 42 }),
+      candidate({
+        threadId: 'PRRT_b',
+        source: 'gemini',
+        line: '40-43',
+        title: 'Null pool',
+        body: 'query() can run before init(), leaving the connection pool undefined.'
+      }),
+      candidate({ threadId: 'PRRT_c', source: 'codex', line: 90, title: 'Unrelated', body: 'Rename this variable for clarity everywhere.' })
+    ]);
+
+    expect(groups.get('PRRT_a')).toBeDefined();
+    expect(groups.get('PRRT_a')).toBe(groups.get('PRRT_b'));
+    expect(groups.get('PRRT_a')).toMatch(/^dup-[a-f0-9]{10}$/);
+    expect(groups.has('PRRT_c')).toBe(false);
+  });
+
+  it('does not group comments from the same source', () => {
+    const groups = findDuplicateGroups([
+      candidate({ threadId: 'PRRT_a' }),
+      candidate({ threadId: 'PRRT_b' })
+    ]);
+    expect(groups.size).toBe(0);
+  });
+
+  it('does not group across files or distant lines', () => {
+    const groups = findDuplicateGroups([
+      candidate({ threadId: 'PRRT_a', source: 'coderabbit' }),
+      candidate({ threadId: 'PRRT_b', source: 'gemini', file: 'src/other.ts' }),
+      candidate({ threadId: 'PRRT_c', source: 'codex', line: 60 })
+    ]);
+    expect(groups.size).toBe(0);
+  });
+
+  it('merges transitive matches into one group', () => {
+    const groups = findDuplicateGroups([
+      candidate({ threadId: 'PRRT_a', source: 'coderabbit', line: 40 }),
+      candidate({ threadId: 'PRRT_b', source: 'gemini', line: 43 }),
+      candidate({ threadId: 'PRRT_c', source: 'codex', line: 46 })
+    ]);
+    expect(new Set(groups.values()).size).toBe(1);
+    expect(groups.size).toBe(3);
+  });
+
+  it('skips comments without a file or parsable line', () => {
+    const groups = findDuplicateGroups([
+      candidate({ threadId: 'a', source: 'coderabbit', line: '?' }),
+      candidate({ threadId: 'b', source: 'gemini', line: '?' })
+    ]);
+    expect(groups.size).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Duplicate Detector - Group comments from different agents that flag the same issue
+ *
+ * Two comments are duplicates when they come from different sources, target the
+ * same file with overlapping line windows, and have similar normalized text.
+ */
+
+import { createHash } from 'crypto';
+import type { CommentSource } from '../github/types.js';
+
+export interface DuplicateCandidate {
+  threadId: string;
+  file: string;
+  line: number | string;
+  source: CommentSource;
+  title: string;
+  body: string;
+}
+
+export interface DuplicateOptions {
+  /** Lines of slack on each side when comparing line windows */
+  lineWindow?: number;
+  /** Minimum token overlap coefficient (0-1) */
+  minSimilarity?: number;
+}
+
+const DEFAULT_LINE_WINDOW = 3;
+const DEFAULT_MIN_SIMILARITY = 0.4;
+const MIN_SHARED_TOKENS = 3;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'this', 'that', 'with', 'are', 'was', 'will', 'can', 'should',
+  'could', 'would', 'not', 'but', 'you', 'your', 'its', 'from', 'have', 'has', 'into',
+  'when', 'which', 'than', 'then', 'also', 'may', 'might', 'there', 'here', 'use', 'using',
+  'consider', 'suggestion', 'code', 'line', 'lines', 'file', 'issue', 'prompt', 'agents'
+]);
+
+/**
+ * Parse a line value ("12", 12, "12-15") into an inclusive range
+ * @internal Exported for testing
+ */
+export function parseLineWindow(line: number | string): [number, number] | null {
+  if (typeof line === 'number') return [line, line];
+  const match = line.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return null;
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? parseInt(match[2], 10) : start;
+  return [Math.min(start, end), Math.max(start, end)];
+}
+
+/**
+ * Reduce comment text to a set of significant lowercase tokens
+ * @internal Exported for testing
+ */
+export function tokenize(text: string): Set<string> {
+  const cleaned = text
+    .toLowerCase()
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ');
+
+  const tokens = new Set<string>();
+  for (const word of cleaned.split(/[^a-z0-9_]+/)) {
+    if (word.length >= 3 && !STOPWORDS.has(word)) {
+      tokens.add(word);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Overlap coefficient |A ∩ B| / min(|A|, |B|), plus the raw shared count
+ * @internal Exported for testing
+ */
+export function textSimilarity(a: Set<string>, b: Set<string>): { score: number; shared: number } {
+  if (a.size === 0 || b.size === 0) return { score: 0, shared: 0 };
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return { score: shared / Math.min(a.size, b.size), shared };
+}
+
+/**
+ * Group duplicate comments across sources.
+ * Returns threadId -> duplicateGroup id for every comment that has at least one duplicate.
+ */
+export function findDuplicateGroups(
+  comments: DuplicateCandidate[],
+  options: DuplicateOptions = {}
+): Map<string, string> {
+  const lineWindow = options.lineWindow ?? DEFAULT_LINE_WINDOW;
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+  const prepared = comments
+    .map(c => ({ comment: c, window: parseLineWindow(c.line), tokens: tokenize(`${c.title} ${c.body}`) }))
+    .filter(p => p.comment.file && p.window !== null);
+
+  // Union-find over comment indices
+  const parent = prepared.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const a = prepared[i];
+      const b = prepared[j];
+      if (a.comment.source === b.comment.source) continue;
+      if (a.comment.file !== b.comment.file) continue;
+
+      const [aStart, aEnd] = a.window!;
+      const [bStart, bEnd] = b.window!;
+      if (aStart - lineWindow > bEnd || bStart - lineWindow > aEnd) continue;
+
+      const { score, shared } = textSimilarity(a.tokens, b.tokens);
+      if (score >= minSimilarity && shared >= MIN_SHARED_TOKENS) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const members = new Map<number, string[]>();
+  prepared.forEach((p, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) ?? []), p.comment.threadId]);
+  });
+
+  const groups = new Map<string, string>();
+  for (const ids of members.values()) {
+    if (ids.length < 2) continue;
+    const groupId = `dup-${createHash('sha256').update([...ids].sort().join('|')).digest('hex').substring(0, 10)}`;
+    for (const id of ids) {
+      groups.set(id, groupId);
+    }
+  }
+
+  return groups;
+}
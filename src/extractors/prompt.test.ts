@@ -8,6 +8,8 @@ import {
   extractGeminiPrompt,
   extractCopilotPrompt,
   extractCodexPrompt,
+  extractGreptilePrompt,
+  extractQodoPrompt,
   cleanPrompt,
   extractTitle,
   truncateBody,
@@ -227,6 +229,75 @@ Useful? React with 👍 or 👎`;
   });
 });
 
+describe('extractGreptilePrompt', () => {
+  it('extracts the Prompt To Fix With AI block', () => {
+    const body = `**logic:** Off-by-one in loop bound.
+
+<details><summary>Prompt To Fix With AI</summary>
+
+\`\`\`\`\`markdown
+Path: src/loop.ts
+Change the loop condition from <= to < so the last index is not read.
+\`\`\`\`\`
+</details>`;
+
+    const result = extractGreptilePrompt(body);
+    expect(result.confidence).toBe('high');
+    expect(result.pattern).toBe('greptile_fix_prompt');
+    expect(result.prompt).toContain('Change the loop condition');
+  });
+
+  it('combines description and suggestion block without the label', () => {
+    const body = `**style:** Prefer const for values that are never reassigned.
+
+\`\`\`suggestion
+const total = 0;
+\`\`\``;
+
+    const result = extractGreptilePrompt(body);
+    expect(result.pattern).toBe('greptile_suggestion');
+    expect(result.prompt).not.toContain('**style:**');
+    expect(result.prompt).toContain('const total = 0;');
+  });
+
+  it('dispatches from extractPrompt', () => {
+    const result = extractPrompt('**logic:** The retry counter is never reset between requests.', 'greptile');
+    expect(result.pattern).toBe('greptile_description');
+  });
+});
+
+describe('extractQodoPrompt', () => {
+  it('strips the label and importance from the suggestion', () => {
+    const body = `**Suggestion:** Guard against a missing config before reading its fields [possible issue, importance: 8]
+
+\`\`\`suggestion
+if (!config) return null;
+\`\`\``;
+
+    const result = extractQodoPrompt(body);
+    expect(result.confidence).toBe('high');
+    expect(result.pattern).toBe('qodo_suggestion');
+    expect(result.prompt).toMatch(/^Guard against a missing config/);
+    expect(result.prompt).not.toContain('importance');
+    expect(result.prompt).toContain('if (!config) return null;');
+  });
+
+  it('prefers a Suggested fix details block', () => {
+    const body = `Missing input validation
+
+<details><summary>Suggested fix</summary>
+
+\`\`\`ts
+if (typeof input !== 'string') throw new TypeError('input');
+\`\`\`
+</details>`;
+
+    const result = extractPrompt(body, 'qodo');
+    expect(result.pattern).toBe('qodo_suggested_fix');
+    expect(result.prompt).toContain('TypeError');
+  });
+});
+
 describe('cleanPrompt', () => {
   it('removes HTML tags', () => {
     const raw = '<b>Important</b> text <br/> here';
@@ -278,6 +349,13 @@ describe('extractTitle', () => {
     });
   });
 
+  describe('Greptile/Qodo source', () => {
+    it('skips the label prefix', () => {
+      expect(extractTitle('**logic:** Off-by-one in loop bound. Details follow.', 'greptile')).toBe('Off-by-one in loop bound.');
+      expect(extractTitle('**Suggestion:** Guard against null [possible issue, importance: 8]', 'qodo')).toBe('Guard against null');
+    });
+  });
+
   describe('CodeRabbit/default source', () => {
     it('extracts bold text', () => {
       const body = '**Missing null check** in function foo()';
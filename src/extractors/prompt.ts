@@ -1,6 +1,6 @@
 /**
  * AI Prompt Extractor - Multi-source support
- * Sources: CodeRabbit, Gemini Code Assist, Codex
+ * Sources: CodeRabbit, Gemini Code Assist, Codex, Copilot, Greptile, Qodo
  */
 
 import type { CommentSource } from '../github/types.js';
@@ -51,7 +51,7 @@ const PROMPT_PATTERNS: PatternDef[] = [
   },
 
   // Layer 3: Suggestion code blocks (LOW confidence) - treat as fallback
-  // Note: These should ideally be extracted separately as "committable suggestions"
+  // Committable patches are extracted separately by suggestion.ts (pr_apply_suggestion)
   {
     pattern: /```suggestion\n([\s\S]*?)```/,
     confidence: 'low',
@@ -104,6 +104,14 @@ export function extractPrompt(body: string | null | undefined, source: CommentSo
     return extractCopilotPrompt(body);
   }
 
+  if (source === 'greptile') {
+    return extractGreptilePrompt(body);
+  }
+
+  if (source === 'qodo') {
+    return extractQodoPrompt(body);
+  }
+
   // CodeRabbit and unknown: use pattern matching
   for (const { pattern, confidence, name, captureGroup } of PROMPT_PATTERNS) {
     const match = body.match(pattern);
@@ -184,6 +192,80 @@ export function extractCopilotPrompt(body: string): PromptExtraction {
   return { prompt: null, confidence: 'absent', pattern: null };
 }
 
+/**
+ * Extract prompt from Greptile inline comments
+ * Layers: "Prompt To Fix With AI" details block, then suggestion block, then description
+ * @internal Exported for testing
+ */
+export function extractGreptilePrompt(body: string): PromptExtraction {
+  const fixPrompt = body.match(/<details>\s*<summary>\s*Prompt To Fix (?:With|with) AI\s*<\/summary>\s*(`{3,})[^\n]*\n([\s\S]*?)\1/i);
+  if (fixPrompt) {
+    const cleaned = cleanPrompt(fixPrompt[2]);
+    if (cleaned.length > 10) {
+      return { prompt: cleaned, confidence: 'high', pattern: 'greptile_fix_prompt' };
+    }
+  }
+
+  // Label prefix (**logic:**) and priority badge carry no instructions
+  const description = body
+    .replace(/<details>[\s\S]*?<\/details>/gi, '')
+    .replace(/<sub>[\s\S]*?<\/sub>/gi, '')
+    .replace(/\*\*(?:security|logic|syntax|performance|style)(?::\*\*|\*\*:)\s*/gi, '')
+    .trim();
+
+  return extractSuggestedFix(description, 'greptile');
+}
+
+/**
+ * Extract prompt from Qodo inline code suggestions
+ * Format: **Suggestion:** Description [label, importance: N]\n```suggestion ...```
+ * @internal Exported for testing
+ */
+export function extractQodoPrompt(body: string): PromptExtraction {
+  const fixBlock = body.match(/<details>\s*<summary>[^<]*Suggested fix[^<]*<\/summary>\s*(`{3,})[^\n]*\n([\s\S]*?)\1/i);
+  if (fixBlock) {
+    const cleaned = cleanPrompt(fixBlock[2]);
+    if (cleaned.length > 10) {
+      return { prompt: cleaned, confidence: 'high', pattern: 'qodo_suggested_fix' };
+    }
+  }
+
+  const description = body
+    .replace(/<details>[\s\S]*?<\/details>/gi, '')
+    .replace(/^\s*\*\*Suggestion:\*\*\s*/i, '')
+    .replace(/\s*\[[^\]\n]*importance:\s*\d+\]/i, '')
+    .trim();
+
+  return extractSuggestedFix(description, 'qodo');
+}
+
+/**
+ * Shared fallback for Greptile and Qodo: description plus suggestion block (high),
+ * or the description alone (low)
+ */
+function extractSuggestedFix(description: string, prefix: 'greptile' | 'qodo'): PromptExtraction {
+  const suggestionMatch = description.match(/```suggestion\n([\s\S]*?)```/);
+  if (suggestionMatch) {
+    const text = description.slice(0, description.indexOf('```suggestion')).trim();
+    const suggestion = suggestionMatch[1].trim();
+    return {
+      prompt: text ? `${text}\n\nSuggested change:\n${suggestion}` : suggestion,
+      confidence: 'high',
+      pattern: `${prefix}_suggestion`
+    };
+  }
+
+  if (description.length < 20) {
+    return { prompt: null, confidence: 'absent', pattern: null };
+  }
+
+  return {
+    prompt: description,
+    confidence: 'low',
+    pattern: `${prefix}_description`
+  };
+}
+
 /**
  * Extract prompt from Codex comments
  * Format: **<sub><sub>![P2 Badge](...)</sub></sub> Title**\n\nDescription\n\nUseful? React with...
@@ -252,7 +334,7 @@ export function cleanPrompt(raw: string | undefined): string {
 /**
  * Extract issue title from comment body
  * @param body - Comment body text
- * @param source - Comment source (coderabbit, gemini, codex, unknown)
+ * @param source - Comment source (coderabbit, gemini, codex, greptile, qodo, unknown)
  */
 export function extractTitle(body: string | null | undefined, source: CommentSource = 'unknown'): string {
   if (!body) return 'N/A';
@@ -267,6 +349,17 @@ export function extractTitle(body: string | null | undefined, source: CommentSou
     return cleaned.slice(0, 100);
   }
 
+  // Greptile/Qodo: first sentence after the label prefix (bold text is only the label)
+  if (source === 'greptile' || source === 'qodo') {
+    const cleaned = body
+      .replace(/<sub>[\s\S]*?<\/sub>/gi, '')
+      .replace(/^\s*\*\*[^*\n]+(?::\*\*|\*\*:)\s*/, '')
+      .replace(/\s*\[[^\]\n]*importance:\s*\d+\]/i, '')
+      .trim();
+    const firstSentence = cleaned.match(/^([^.!?\n]+[.!?]?)/);
+    return (firstSentence ? firstSentence[1] : cleaned).slice(0, 100);
+  }
+
   // Try to get first bold text (CodeRabbit style)
   const boldMatch = body.match(/\*\*([^*]+)\*\*/);
   if (boldMatch) {
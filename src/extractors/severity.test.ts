@@ -2,17 +2,23 @@
  * Unit tests for severity extraction
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import {
   detectSource,
   extractSeverity,
   detectCopilotSeverity,
+  detectGreptileSeverity,
+  detectQodoSeverity,
   isResolvedByMarker,
+  compileSeverityRules,
+  applySeverityRules,
+  severityToType,
   SEVERITY_ORDER,
   SEVERITY_ICONS,
   type Severity,
   type CommentSource,
 } from './severity.js';
+import { registerCustomAgents, clearCustomAgents } from '../agents/registry.js';
 
 describe('detectSource', () => {
   describe('author-based detection', () => {
@@ -215,6 +221,60 @@ describe('extractSeverity', () => {
     });
   });
 
+  describe('Greptile patterns', () => {
+    it('maps priority badges', () => {
+      const result = extractSeverity('<sub>P0</sub> Token is logged in plain text', 'greptile-apps');
+      expect(result.severity).toBe('CRIT');
+      expect(result.source).toBe('greptile');
+      expect(detectGreptileSeverity('**P2** Minor cleanup')).toBe('MINOR');
+    });
+
+    it('maps label prefixes', () => {
+      expect(extractSeverity('**logic:** Off-by-one in loop bound', 'greptile-apps').severity).toBe('MAJOR');
+      expect(extractSeverity('**style:** Prefer const', 'greptile-apps').type).toBe('nitpick');
+    });
+
+    it('does not apply Greptile labels without the Greptile author', () => {
+      expect(extractSeverity('**logic:** Off-by-one in loop bound').severity).toBe('N/A');
+    });
+  });
+
+  describe('Qodo patterns', () => {
+    it('maps importance scores', () => {
+      const result = extractSeverity('**Suggestion:** Guard against null [possible issue, importance: 8]', 'qodo-code-review');
+      expect(result.severity).toBe('MAJOR');
+      expect(result.source).toBe('qodo');
+      expect(detectQodoSeverity('[security, importance: 9]')).toBe('CRIT');
+      expect(detectQodoSeverity('[general, importance: 5]')).toBe('MINOR');
+      expect(detectQodoSeverity('[style, importance: 2]')).toBe('TRIVIAL');
+    });
+
+    it('returns N/A without an importance score', () => {
+      expect(detectQodoSeverity('**Suggestion:** Rename variable')).toBe('N/A');
+    });
+  });
+
+  describe('custom agents', () => {
+    afterEach(() => {
+      clearCustomAgents();
+    });
+
+    it('uses the custom agent ID as the source in its repository', () => {
+      registerCustomAgents({
+        acme: {
+          name: 'Acme Review',
+          command: '@acme-bot review',
+          type: 'mention',
+          authorPattern: 'acme-bot',
+          completionStrategy: { sources: ['reviews'], expectedTimeMs: 1_000, maxWaitMs: 2_000 },
+        },
+      }, 'o/r');
+      expect(detectSource('Looks risky', 'acme-bot', 'o/r')).toBe('acme');
+      expect(extractSeverity('Looks risky', 'acme-bot', [], 'o/r')).toEqual({ severity: 'N/A', type: 'other', source: 'acme' });
+      expect(detectSource('Looks risky', 'acme-bot', 'o/other')).toBe('unknown');
+    });
+  });
+
   describe('edge cases', () => {
     it('returns N/A for null body', () => {
       const result = extractSeverity(null);
@@ -353,6 +413,82 @@ describe('isResolvedByMarker', () => {
   });
 });
 
+describe('severity overrides', () => {
+  describe('compileSeverityRules', () => {
+    it('compiles valid rules with case-insensitive patterns', () => {
+      const { rules, errors } = compileSeverityRules([
+        { source: 'gemini', from: 'MAJOR', severity: 'CRIT' },
+        { source: '*', pattern: 'sql\\s+injection', severity: 'CRIT' }
+      ]);
+      expect(errors).toEqual([]);
+      expect(rules).toHaveLength(2);
+      expect(rules[1].pattern?.test('Possible SQL  Injection')).toBe(true);
+    });
+
+    it('drops invalid rules and reports them', () => {
+      const { rules, errors } = compileSeverityRules([
+        { source: 'gemini', severity: 'URGENT' },
+        { source: 'codex', from: 'HIGH', severity: 'CRIT' },
+        { source: 'sourcery', pattern: '(', severity: 'CRIT' },
+        { severity: 'CRIT' },
+        'not-an-object',
+        { source: 'copilot', severity: 'MINOR' }
+      ]);
+      expect(rules).toHaveLength(1);
+      expect(rules[0].source).toBe('copilot');
+      expect(errors).toHaveLength(5);
+    });
+
+    it('treats a missing section as empty and rejects non-arrays', () => {
+      expect(compileSeverityRules(undefined)).toEqual({ rules: [], errors: [] });
+      expect(compileSeverityRules({}).errors).toHaveLength(1);
+    });
+  });
+
+  describe('applySeverityRules', () => {
+    const { rules } = compileSeverityRules([
+      { source: 'copilot', from: 'CRIT', severity: 'MAJOR' },
+      { source: 'gemini', from: 'MAJOR', severity: 'CRIT' },
+      { source: '*', pattern: 'typo', severity: 'NITPICK' }
+    ]);
+
+    it('remaps by source and original severity', () => {
+      const result = applySeverityRules({ severity: 'MAJOR', type: 'issue', source: 'gemini' }, 'body', rules);
+      expect(result.severity).toBe('CRIT');
+    });
+
+    it('recomputes the type from the new severity', () => {
+      const result = applySeverityRules({ severity: 'MINOR', type: 'issue', source: 'codex' }, 'Fix this typo', rules);
+      expect(result).toEqual({ severity: 'NITPICK', type: 'nitpick', source: 'codex' });
+    });
+
+    it('leaves unmatched comments untouched', () => {
+      const original = { severity: 'MINOR' as Severity, type: 'issue' as const, source: 'gemini' as CommentSource };
+      expect(applySeverityRules(original, 'body', rules)).toBe(original);
+      expect(applySeverityRules(original, 'body', undefined)).toBe(original);
+    });
+  });
+
+  describe('extractSeverity with rules', () => {
+    it('applies rules after built-in extraction', () => {
+      const { rules } = compileSeverityRules([{ source: 'sourcery', from: 'MINOR', severity: 'TRIVIAL' }]);
+      const result = extractSeverity('**suggestion (style):** Consider renaming', undefined, rules);
+      expect(result.severity).toBe('TRIVIAL');
+      expect(result.type).toBe('nitpick');
+    });
+  });
+
+  describe('severityToType', () => {
+    it('maps severities to issue types', () => {
+      expect(severityToType('CRIT')).toBe('issue');
+      expect(severityToType('REFACTOR')).toBe('refactor');
+      expect(severityToType('TRIVIAL')).toBe('nitpick');
+      expect(severityToType('DOCS')).toBe('docs');
+      expect(severityToType('N/A')).toBe('other');
+    });
+  });
+});
+
 describe('constants', () => {
   describe('SEVERITY_ORDER', () => {
     it('has correct order from most to least severe', () => {
@@ -4,6 +4,7 @@
  */
 
 import type { CommentSource } from '../github/types.js';
+import { getCustomAgentFromAuthor, parseLocalAgentMarker } from '../agents/registry.js';
 
 export type Severity = 'CRIT' | 'MAJOR' | 'MINOR' | 'TRIVIAL' | 'ISSUE' | 'REFACTOR' | 'NITPICK' | 'DOCS' | 'N/A';
 export type IssueType = 'issue' | 'refactor' | 'nitpick' | 'docs' | 'other';
@@ -21,6 +22,21 @@ interface SeverityPattern {
   source: CommentSource;
 }
 
+/**
+ * Per-repo severity override (from the `severity` section of .github/pr-review.json)
+ * A rule matches when the source matches and every given condition holds;
+ * the first matching rule wins.
+ */
+export interface SeverityRule {
+  /** Comment source, or '*' for any */
+  source: CommentSource | '*';
+  /** Built-in severity to remap */
+  from?: Severity;
+  /** Case-insensitive pattern tested against the comment body */
+  pattern?: RegExp;
+  severity: Severity;
+}
+
 // ============================================================================
 // Severity Patterns by Source
 // ============================================================================
@@ -74,13 +90,108 @@ export const SEVERITY_ICONS: Record<Severity, string> = {
 // Main Extraction Function
 // ============================================================================
 
+/**
+ * Map a severity to its issue type
+ */
+export function severityToType(severity: Severity): IssueType {
+  if (['CRIT', 'MAJOR', 'MINOR', 'ISSUE'].includes(severity)) return 'issue';
+  if (severity === 'REFACTOR') return 'refactor';
+  if (severity === 'NITPICK' || severity === 'TRIVIAL') return 'nitpick';
+  if (severity === 'DOCS') return 'docs';
+  return 'other';
+}
+
+function isSeverity(value: unknown): value is Severity {
+  return typeof value === 'string' && (SEVERITY_ORDER as string[]).includes(value);
+}
+
+/**
+ * Validate raw severity rules from repo config.
+ * Invalid rules (unknown severity, bad regex) are dropped and reported in `errors`.
+ */
+export function compileSeverityRules(raw: unknown): { rules: SeverityRule[]; errors: string[] } {
+  const rules: SeverityRule[] = [];
+  const errors: string[] = [];
+
+  if (!Array.isArray(raw)) {
+    return { rules, errors: raw === undefined ? [] : ['severity.rules must be an array'] };
+  }
+
+  raw.forEach((entry, index) => {
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`rule ${index}: must be an object`);
+      return;
+    }
+    const { source, from, pattern, severity } = entry as Record<string, unknown>;
+
+    if (typeof source !== 'string' || !source) {
+      errors.push(`rule ${index}: "source" is required`);
+      return;
+    }
+    if (!isSeverity(severity)) {
+      errors.push(`rule ${index}: unknown severity ${JSON.stringify(severity)}`);
+      return;
+    }
+    if (from !== undefined && !isSeverity(from)) {
+      errors.push(`rule ${index}: unknown "from" severity ${JSON.stringify(from)}`);
+      return;
+    }
+    if (pattern !== undefined && typeof pattern !== 'string') {
+      errors.push(`rule ${index}: "pattern" must be a string`);
+      return;
+    }
+
+    let compiled: RegExp | undefined;
+    if (pattern !== undefined) {
+      try {
+        compiled = new RegExp(pattern, 'i');
+      } catch (error) {
+        errors.push(`rule ${index}: invalid pattern (${error instanceof Error ? error.message : String(error)})`);
+        return;
+      }
+    }
+
+    rules.push({ source: source as CommentSource | '*', from, pattern: compiled, severity });
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Apply per-repo severity overrides to an extracted result
+ */
+export function applySeverityRules(
+  result: SeverityResult,
+  body: string | null | undefined,
+  rules: SeverityRule[] | undefined
+): SeverityResult {
+  if (!rules?.length) return result;
+
+  for (const rule of rules) {
+    if (rule.source !== '*' && rule.source !== result.source) continue;
+    if (rule.from && rule.from !== result.severity) continue;
+    if (rule.pattern && !rule.pattern.test(body ?? '')) continue;
+
+    return { ...result, severity: rule.severity, type: severityToType(rule.severity) };
+  }
+
+  return result;
+}
+
 /**
  * Detect comment source from body and author
+ * @param scope - Repository scope for its custom agents (see agentScope)
  */
-export function detectSource(body: string | null | undefined, author?: string): CommentSource {
+export function detectSource(body: string | null | undefined, author?: string, scope?: string): CommentSource {
   if (!body) return 'unknown';
 
-  // Check author first (most reliable for Copilot, Sourcery, and Greptile)
+  // Local agents post under the server's token and mark their comments instead
+  const localAgent = parseLocalAgentMarker(body);
+  if (localAgent) {
+    return localAgent.agentId;
+  }
+
+  // Check author first (most reliable for Copilot, Sourcery, Greptile, and Qodo)
   if (author === 'copilot-pull-request-reviewer' || author === 'github-copilot') {
     return 'copilot';
   }
@@ -90,6 +201,13 @@ export function detectSource(body: string | null | undefined, author?: string):
   if (author === 'greptile-apps' || author === 'greptile') {
     return 'greptile';
   }
+  if (author === 'qodo-code-review' || author === 'qodo-merge-pro' || author === 'qodo-merge-pro-for-open-source') {
+    return 'qodo';
+  }
+  const customAgent = author ? getCustomAgentFromAuthor(author, scope) : null;
+  if (customAgent) {
+    return customAgent;
+  }
 
   // CodeRabbit markers
   if (body.includes('CodeRabbit') || body.includes('🤖 Prompt for AI Agents') || body.includes('🧩 Analysis chain')) {
@@ -118,36 +236,59 @@ export function detectSource(body: string | null | undefined, author?: string):
  * Extract severity from comment body
  * @param body - Comment body text
  * @param author - Comment author login (used for Copilot detection)
+ * @param rules - Per-repo overrides applied on top of the built-in patterns
+ * @param scope - Repository scope for its custom agents (see agentScope)
  */
-export function extractSeverity(body: string | null | undefined, author?: string): SeverityResult {
+export function extractSeverity(
+  body: string | null | undefined,
+  author?: string,
+  rules?: SeverityRule[],
+  scope?: string
+): SeverityResult {
+  return applySeverityRules(extractBuiltinSeverity(body, author, scope), body, rules);
+}
+
+/**
+ * Built-in severity detection (no overrides)
+ */
+function extractBuiltinSeverity(body: string | null | undefined, author?: string, scope?: string): SeverityResult {
   if (!body) {
     return { severity: 'N/A', type: 'other', source: 'unknown' };
   }
 
   // Check author-based source first (for Copilot)
-  const authorSource = detectSource(body, author);
+  const authorSource = detectSource(body, author, scope);
   if (authorSource === 'copilot') {
     // Copilot doesn't have severity badges - analyze content for severity hints
     const severity = detectCopilotSeverity(body);
     return { severity, type: severity === 'N/A' ? 'other' : 'issue', source: 'copilot' };
   }
 
+  // Local agents state the severity in their marker
+  const localAgent = parseLocalAgentMarker(body);
+  if (localAgent) {
+    const severity = isSeverity(localAgent.severity) ? localAgent.severity : 'N/A';
+    return { severity, type: severityToType(severity), source: localAgent.agentId };
+  }
+
+  // Greptile and Qodo labels are too generic to match without a known author
+  if (authorSource === 'greptile') {
+    const severity = detectGreptileSeverity(body);
+    return { severity, type: severityToType(severity), source: 'greptile' };
+  }
+  if (authorSource === 'qodo') {
+    const severity = detectQodoSeverity(body);
+    return { severity, type: severityToType(severity), source: 'qodo' };
+  }
+
   for (const { pattern, severity, source } of SEVERITY_PATTERNS) {
     if (pattern.test(body)) {
-      // Map to type
-      let type: IssueType = 'other';
-      if (['CRIT', 'MAJOR', 'MINOR'].includes(severity)) type = 'issue';
-      else if (severity === 'REFACTOR') type = 'refactor';
-      else if (severity === 'NITPICK' || severity === 'TRIVIAL') type = 'nitpick';
-      else if (severity === 'DOCS') type = 'docs';
-      else if (severity === 'ISSUE') type = 'issue';
-
-      return { severity, type, source };
+      return { severity, type: severityToType(severity), source };
     }
   }
 
   // No severity pattern matched, try to detect source anyway
-  const source = detectSource(body, author);
+  const source = detectSource(body, author, scope);
   return { severity: 'N/A', type: 'other', source };
 }
 
@@ -179,6 +320,51 @@ export function detectCopilotSeverity(body: string): Severity {
   return 'N/A';
 }
 
+const GREPTILE_PRIORITIES: Severity[] = ['CRIT', 'MAJOR', 'MINOR', 'TRIVIAL'];
+
+const GREPTILE_LABELS: Record<string, Severity> = {
+  security: 'CRIT',
+  logic: 'MAJOR',
+  syntax: 'MAJOR',
+  performance: 'MINOR',
+  style: 'NITPICK'
+};
+
+/**
+ * Detect severity from a Greptile inline comment
+ * Formats: priority badge (P0-P3) or label prefix (**logic:**, **syntax:**, **style:**)
+ * @internal Exported for testing
+ */
+export function detectGreptileSeverity(body: string): Severity {
+  const priority = body.match(/(?:!\[|<sub>|\*\*)\s*P([0-3])\b/i);
+  if (priority) {
+    return GREPTILE_PRIORITIES[Number(priority[1])];
+  }
+
+  const label = body.match(/\*\*(security|logic|syntax|performance|style)(?::\*\*|\*\*:)/i);
+  if (label) {
+    return GREPTILE_LABELS[label[1].toLowerCase()];
+  }
+
+  return 'N/A';
+}
+
+/**
+ * Detect severity from a Qodo inline code suggestion
+ * Format: **Suggestion:** ... [possible issue, importance: 8]
+ * @internal Exported for testing
+ */
+export function detectQodoSeverity(body: string): Severity {
+  const match = body.match(/importance:\s*(\d+)/i);
+  if (!match) return 'N/A';
+
+  const importance = Number(match[1]);
+  if (importance >= 9) return 'CRIT';
+  if (importance >= 7) return 'MAJOR';
+  if (importance >= 4) return 'MINOR';
+  return 'TRIVIAL';
+}
+
 /**
  * Check if comment is resolved based on body markers
  */
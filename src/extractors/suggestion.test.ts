@@ -0,0 +1,181 @@
+/**
+ * Unit tests for committable suggestion extraction and patching
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractSuggestions,
+  parseDiffLines,
+  extractHunkTargetLines,
+  buildSuggestionPatch,
+  applySuggestionPatch,
+} from './suggestion.js';
+
+describe('extractSuggestions', () => {
+  it('returns empty array for missing body', () => {
+    expect(extractSuggestions(null)).toEqual([]);
+    expect(extractSuggestions('No code here')).toEqual([]);
+  });
+
+  it('extracts suggestion block replacement lines', () => {
+    const body = 'Use const.\n\n```suggestion\nconst x = 1;\nconst y = 2;\n```\n';
+    expect(extractSuggestions(body)).toEqual([
+      { kind: 'suggestion', original: null, replacement: ['const x = 1;', 'const y = 2;'] }
+    ]);
+  });
+
+  it('treats an empty suggestion as a deletion', () => {
+    const body = '```suggestion\n```';
+    expect(extractSuggestions(body)).toEqual([
+      { kind: 'suggestion', original: null, replacement: [] }
+    ]);
+  });
+
+  it('supports longer fences containing nested backticks', () => {
+    const body = '````suggestion\nconst md = "```";\n````';
+    expect(extractSuggestions(body)[0].replacement).toEqual(['const md = "```";']);
+  });
+
+  it('extracts diff blocks and multiple blocks in order', () => {
+    const body = [
+      '```suggestion',
+      'a();',
+      '```',
+      '',
+      '```diff',
+      ' keep();',
+      '-old();',
+      '+new();',
+      '```'
+    ].join('\n');
+
+    const result = extractSuggestions(body);
+    expect(result).toHaveLength(2);
+    expect(result[0].kind).toBe('suggestion');
+    expect(result[1]).toEqual({
+      kind: 'diff',
+      original: ['keep();', 'old();'],
+      replacement: ['keep();', 'new();']
+    });
+  });
+
+  it('handles CRLF bodies', () => {
+    const body = '```suggestion\r\nfoo();\r\n```';
+    expect(extractSuggestions(body)[0].replacement).toEqual(['foo();']);
+  });
+});
+
+describe('parseDiffLines', () => {
+  it('skips hunk and file headers', () => {
+    const result = parseDiffLines(['--- a/x.ts', '+++ b/x.ts', '@@ -1,2 +1,2 @@', '-a', '+b']);
+    expect(result).toEqual({ kind: 'diff', original: ['a'], replacement: ['b'] });
+  });
+
+  it('returns null when nothing changes', () => {
+    expect(parseDiffLines([' a', ' b'])).toBeNull();
+  });
+});
+
+describe('extractHunkTargetLines', () => {
+  const hunk = [
+    '@@ -10,4 +10,5 @@ function f() {',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    '+const c = 4;',
+    ' return a;'
+  ].join('\n');
+
+  it('returns the last new-side lines of the hunk', () => {
+    expect(extractHunkTargetLines(hunk, 2)).toEqual(['const c = 4;', 'return a;']);
+  });
+
+  it('returns null when the hunk is too short or missing', () => {
+    expect(extractHunkTargetLines(hunk, 10)).toBeNull();
+    expect(extractHunkTargetLines(null, 1)).toBeNull();
+  });
+});
+
+describe('buildSuggestionPatch', () => {
+  it('uses the thread range and diff hunk for suggestion blocks', () => {
+    const patch = buildSuggestionPatch(
+      { kind: 'suggestion', original: null, replacement: ['x'] },
+      'src/a.ts',
+      12,
+      11,
+      '@@ -1,2 +1,2 @@\n one\n two'
+    );
+    expect(patch).toEqual({
+      kind: 'suggestion',
+      file: 'src/a.ts',
+      startLine: 11,
+      endLine: 12,
+      original: ['one', 'two'],
+      replacement: ['x']
+    });
+  });
+
+  it('sizes diff patches by their original lines', () => {
+    const patch = buildSuggestionPatch(
+      { kind: 'diff', original: ['a', 'b', 'c'], replacement: ['a'] },
+      'src/a.ts',
+      5,
+      null
+    );
+    expect(patch.startLine).toBe(5);
+    expect(patch.endLine).toBe(7);
+  });
+});
+
+describe('applySuggestionPatch', () => {
+  const content = 'line1\nline2\nline3\nline4\n';
+
+  it('replaces verified lines', () => {
+    const result = applySuggestionPatch(content, {
+      kind: 'suggestion', file: 'f', startLine: 2, endLine: 3,
+      original: ['line2', 'line3'], replacement: ['new']
+    });
+    expect(result).toEqual({ status: 'applied', content: 'line1\nnew\nline4\n', startLine: 2, endLine: 2 });
+  });
+
+  it('follows lines that shifted locally', () => {
+    const shifted = 'added\n' + content;
+    const result = applySuggestionPatch(shifted, {
+      kind: 'suggestion', file: 'f', startLine: 2, endLine: 2,
+      original: ['line2'], replacement: ['LINE2']
+    });
+    expect(result.status).toBe('applied');
+    if (result.status === 'applied') {
+      expect(result.content).toBe('added\nline1\nLINE2\nline3\nline4\n');
+      expect(result.startLine).toBe(3);
+    }
+  });
+
+  it('reports a conflict when the original lines changed', () => {
+    const result = applySuggestionPatch(content, {
+      kind: 'suggestion', file: 'f', startLine: 2, endLine: 2,
+      original: ['something else'], replacement: ['x']
+    });
+    expect(result).toMatchObject({ status: 'conflict', expected: ['something else'], actual: ['line2'] });
+  });
+
+  it('requires force when the original is unknown', () => {
+    const patch = {
+      kind: 'suggestion' as const, file: 'f', startLine: 1, endLine: 1,
+      original: null, replacement: ['x']
+    };
+    expect(applySuggestionPatch(content, patch).status).toBe('conflict');
+    expect(applySuggestionPatch(content, patch, true)).toMatchObject({
+      status: 'applied',
+      content: 'x\nline2\nline3\nline4\n'
+    });
+  });
+
+  it('preserves CRLF line endings', () => {
+    const result = applySuggestionPatch('a\r\nb\r\n', {
+      kind: 'suggestion', file: 'f', startLine: 1, endLine: 1,
+      original: ['a'], replacement: ['c']
+    });
+    expect(result).toMatchObject({ status: 'applied', content: 'c\r\nb\r\n' });
+  });
+});
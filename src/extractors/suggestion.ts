@@ -0,0 +1,215 @@
+/**
+ * Suggestion Extractor - Turn committable suggestions into structured patches
+ *
+ * Handles GitHub ```suggestion blocks (replacement for the commented lines) and
+ * ```diff blocks (original/replacement pairs located by content).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SuggestionKind = 'suggestion' | 'diff';
+
+export interface ParsedSuggestion {
+  kind: SuggestionKind;
+  /** Lines the block expects to replace (diff blocks only; suggestions rely on the thread range) */
+  original: string[] | null;
+  replacement: string[];
+}
+
+export interface SuggestionPatch {
+  kind: SuggestionKind;
+  file: string;
+  /** 1-based, inclusive */
+  startLine: number;
+  /** 1-based, inclusive */
+  endLine: number;
+  /** Expected current content of the target lines, when known */
+  original: string[] | null;
+  replacement: string[];
+}
+
+export type ApplyResult =
+  | { status: 'applied'; content: string; startLine: number; endLine: number }
+  | { status: 'conflict'; reason: string; expected: string[] | null; actual: string[] };
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const FENCE_REGEX = /(`{3,})(suggestion|diff)[^\n]*\n([\s\S]*?)^\1[ \t]*$/gm;
+
+/**
+ * Extract all suggestion and diff blocks from a comment body, in order
+ */
+export function extractSuggestions(body: string | null | undefined): ParsedSuggestion[] {
+  if (!body) return [];
+
+  const results: ParsedSuggestion[] = [];
+  const normalized = body.replace(/\r\n/g, '\n');
+
+  for (const match of normalized.matchAll(FENCE_REGEX)) {
+    const kind = match[2] as SuggestionKind;
+    const content = match[3].replace(/\n$/, '');
+    const lines = content === '' ? [] : content.split('\n');
+
+    if (kind === 'suggestion') {
+      results.push({ kind, original: null, replacement: lines });
+    } else {
+      const parsed = parseDiffLines(lines);
+      if (parsed) results.push(parsed);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Split diff block lines into original and replacement sides
+ * Returns null when the block has no changes
+ * @internal Exported for testing
+ */
+export function parseDiffLines(lines: string[]): ParsedSuggestion | null {
+  const original: string[] = [];
+  const replacement: string[] = [];
+  let changed = false;
+
+  for (const line of lines) {
+    // Skip hunk and file headers
+    if (line.startsWith('@@') || /^(?:---|\+\+\+) (?:a\/|b\/|\/dev\/null)/.test(line)) continue;
+
+    if (line.startsWith('-')) {
+      original.push(line.slice(1));
+      changed = true;
+    } else if (line.startsWith('+')) {
+      replacement.push(line.slice(1));
+      changed = true;
+    } else {
+      // Context line - leading space is optional in hand-written diffs
+      const context = line.startsWith(' ') ? line.slice(1) : line;
+      original.push(context);
+      replacement.push(context);
+    }
+  }
+
+  return changed ? { kind: 'diff', original, replacement } : null;
+}
+
+/**
+ * Recover the commented lines (RIGHT side) from a review comment's diff hunk.
+ * The hunk ends at the commented line, so the last `count` new-side lines are the target.
+ */
+export function extractHunkTargetLines(diffHunk: string | null | undefined, count: number): string[] | null {
+  if (!diffHunk || count <= 0) return null;
+
+  const newSide = diffHunk
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .filter(line => !line.startsWith('@@') && !line.startsWith('-') && !line.startsWith('\\'))
+    .map(line => line.slice(1));
+
+  if (newSide.length < count) return null;
+  return newSide.slice(newSide.length - count);
+}
+
+/**
+ * Build a patch for a thread's suggestion
+ */
+export function buildSuggestionPatch(
+  suggestion: ParsedSuggestion,
+  file: string,
+  line: number,
+  startLine: number | null,
+  diffHunk?: string | null
+): SuggestionPatch {
+  const start = startLine ?? line;
+  const original = suggestion.original
+    ?? extractHunkTargetLines(diffHunk, line - start + 1);
+
+  return {
+    kind: suggestion.kind,
+    file,
+    startLine: start,
+    endLine: suggestion.original ? start + suggestion.original.length - 1 : line,
+    original,
+    replacement: suggestion.replacement
+  };
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+function linesEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line.trimEnd() === b[i].trimEnd());
+}
+
+/**
+ * Find the 0-based index where `expected` occurs, preferring the one closest to `hint`
+ */
+function locate(lines: string[], expected: string[], hint: number): number | null {
+  let best: number | null = null;
+
+  for (let i = 0; i + expected.length <= lines.length; i++) {
+    if (linesEqual(lines.slice(i, i + expected.length), expected)) {
+      if (best === null || Math.abs(i - hint) < Math.abs(best - hint)) {
+        best = i;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Apply a patch to file content.
+ * The expected original lines must match (at the commented range, or nearby if the
+ * file shifted); patches without a known original only apply when `force` is set.
+ */
+export function applySuggestionPatch(content: string, patch: SuggestionPatch, force = false): ApplyResult {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const hint = patch.startLine - 1;
+  const span = patch.endLine - patch.startLine + 1;
+  const actual = lines.slice(hint, hint + span);
+
+  let index: number | null;
+  let length: number;
+
+  if (patch.original) {
+    index = locate(lines, patch.original, hint);
+    length = patch.original.length;
+    if (index === null) {
+      return {
+        status: 'conflict',
+        reason: 'Local file no longer matches the commented lines',
+        expected: patch.original,
+        actual
+      };
+    }
+  } else {
+    if (!force) {
+      return {
+        status: 'conflict',
+        reason: 'Original lines are unknown; cannot verify the local file (use force to apply anyway)',
+        expected: null,
+        actual
+      };
+    }
+    if (hint < 0 || hint + span > lines.length) {
+      return { status: 'conflict', reason: 'Line range is outside the local file', expected: null, actual };
+    }
+    index = hint;
+    length = span;
+  }
+
+  lines.splice(index, length, ...patch.replacement);
+
+  return {
+    status: 'applied',
+    content: lines.join(eol),
+    startLine: index + 1,
+    endLine: index + patch.replacement.length
+  };
+}
@@ -23,7 +23,15 @@ export const QUERIES = {
               viewerCanResolve
               path
               line
+              startLine
+              originalLine
               diffSide
+              firstComment: comments(first: 1) {
+                nodes {
+                  diffHunk
+                  originalCommit { oid }
+                }
+              }
               comments(first: 50) {
                 nodes {
                   id
@@ -68,6 +76,45 @@ export const QUERIES = {
     }
   `,
 
+  /**
+   * Minimize (hide) a comment
+   */
+  minimizeComment: `
+    mutation($subjectId: ID!, $classifier: ReportedContentClassifiers!) {
+      minimizeComment(input: { subjectId: $subjectId, classifier: $classifier }) {
+        minimizedComment {
+          isMinimized
+        }
+      }
+    }
+  `,
+
+  /**
+   * Delete an issue (PR timeline) comment
+   */
+  deleteIssueComment: `
+    mutation($id: ID!) {
+      deleteIssueComment(input: { id: $id }) {
+        clientMutationId
+      }
+    }
+  `,
+
+  /**
+   * Post a reply to a review thread
+   */
+  addThreadReply: `
+    mutation($threadId: ID!, $body: String!, $clientMutationId: String) {
+      addPullRequestReviewThreadReply(input: { pullRequestReviewThreadId: $threadId, body: $body, clientMutationId: $clientMutationId }) {
+        comment {
+          id
+          url
+          createdAt
+        }
+      }
+    }
+  `,
+
   /**
    * Get PR reviews (for extracting CodeRabbit nitpicks from review bodies)
    */
@@ -80,6 +127,7 @@ export const QUERIES = {
               id
               body
               state
+              submittedAt
               author { login }
             }
           }
@@ -166,7 +214,19 @@ export const QUERIES = {
           viewerCanResolve
           path
           line
+          startLine
+          originalLine
           diffSide
+          pullRequest {
+            number
+            repository { nameWithOwner }
+          }
+          firstComment: comments(first: 1) {
+            nodes {
+              diffHunk
+              originalCommit { oid }
+            }
+          }
           comments(first: 50) {
             nodes {
               id
@@ -181,6 +241,31 @@ export const QUERIES = {
     }
   `,
 
+  /**
+   * Get a thread's line range and first comment diff hunk (for applying suggestions)
+   */
+  getThreadSuggestion: `
+    query($threadId: ID!) {
+      node(id: $threadId) {
+        ... on PullRequestReviewThread {
+          id
+          isOutdated
+          path
+          line
+          startLine
+          diffSide
+          comments(first: 1) {
+            nodes {
+              id
+              body
+              diffHunk
+            }
+          }
+        }
+      }
+    }
+  `,
+
   /**
    * Add reaction to a subject (comment, review, etc.)
    * Reaction content: THUMBS_UP, THUMBS_DOWN, LAUGH, HOORAY, CONFUSED, HEART, ROCKET, EYES
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for repository config caching (GitHub calls mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Octokit } from '@octokit/rest';
+import { clearRepoConfigCache, loadRepoConfig } from './repo-config.js';
+
+/** Client that reads the given config, or gets a 404 when it is null */
+function client(config: object | null) {
+  const getContent = vi.fn(async () => {
+    if (!config) throw Object.assign(new Error('Not Found'), { status: 404 });
+    return { data: { type: 'file', encoding: 'base64', content: Buffer.from(JSON.stringify(config)).toString('base64') } };
+  });
+  return { octokit: { repos: { getContent } } as unknown as Octokit, getContent };
+}
+
+beforeEach(() => {
+  clearRepoConfigCache();
+});
+
+describe('loadRepoConfig', () => {
+  it('caches the config per client', async () => {
+    const allowed = client({ version: 1, invoke: { agents: ['gemini'] } });
+    const denied = client(null);
+
+    expect(await loadRepoConfig('o', 'r', allowed.octokit)).toEqual({ version: 1, invoke: { agents: ['gemini'] } });
+    expect(await loadRepoConfig('o', 'r', denied.octokit)).toBeNull();
+    expect(await loadRepoConfig('O', 'R', allowed.octokit)).not.toBeNull();
+
+    expect(allowed.getContent).toHaveBeenCalledTimes(1);
+    expect(denied.getContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the config again after the cache is cleared', async () => {
+    const { octokit, getContent } = client({ version: 1 });
+
+    await loadRepoConfig('o', 'r', octokit);
+    clearRepoConfigCache('o', 'r');
+    await loadRepoConfig('o', 'r', octokit);
+
+    expect(getContent).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Repository Config - Reads .github/pr-review.json from the target repository
+ *
+ * Format:
+ * {
+ *   "version": 1,
+ *   "invoke": { "agents": [...], "defaults": { ... }, "fallbacks": { "sourcery": ["gemini"] } },
+ *   "severity": { "rules": [{ "source": "gemini", "from": "MAJOR", "severity": "CRIT" }] },
+ *   "customAgents": { "acme-review": { "name": "Acme Review", "command": "@acme-bot review", ... } },
+ *   "coordination": { "partitionStrategy": "directory" }
+ * }
+ */
+
+import { getOctokit } from './octokit.js';
+import { logger } from '../logging.js';
+import { compileSeverityRules, type SeverityRule } from '../extractors/severity.js';
+import { agentScope, registerCustomAgents } from '../agents/registry.js';
+import { compileFallbackChains, type FallbackChains } from '../agents/fallback.js';
+import type { InvokeOptions } from '../agents/invoker.js';
+import { PARTITION_STRATEGIES, type PartitionStrategy } from '../coordination/types.js';
+import type { Octokit } from '@octokit/rest';
+
+export const REPO_CONFIG_PATH = '.github/pr-review.json';
+
+/** Configs are re-read after this long so edits on the default branch are picked up */
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface RepoConfig {
+  version?: number;
+  invoke?: {
+    agents?: string[];
+    defaults?: InvokeOptions;
+    /** Fallback agents by agent ID (validated by compileFallbackChains) */
+    fallbacks?: unknown;
+  };
+  severity?: {
+    rules?: unknown[];
+  };
+  /** Custom agent definitions keyed by agent ID (validated by the agent registry) */
+  customAgents?: Record<string, unknown>;
+  coordination?: {
+    /** Default partitioning for coordination runs (validated by loadPartitionStrategy) */
+    partitionStrategy?: unknown;
+  };
+}
+
+/**
+ * Loaded configs by repository, then by client: sessions authenticate with their own
+ * token, and a config one token may read must not be served to another
+ */
+const cache = new Map<string, WeakMap<Octokit, { expiresAt: number; config: Promise<RepoConfig | null> }>>();
+const compiledSeverityRules = new WeakMap<RepoConfig, SeverityRule[]>();
+const compiledFallbackChains = new WeakMap<RepoConfig, FallbackChains>();
+
+/**
+ * Get file content from repository via Octokit
+ * Handles all GitHub Content API response types properly
+ * @param ref - Commit SHA or branch (default branch when omitted)
+ */
+export async function getRepoFileContent(
+  owner: string,
+  repo: string,
+  path: string,
+  octokit?: Octokit,
+  ref?: string
+): Promise<string | null> {
+  try {
+    const ok = octokit ?? getOctokit();
+    const { data } = await ok.repos.getContent({
+      owner,
+      repo,
+      path,
+      ...(ref && { ref })
+    });
+
+    // Can be a directory listing
+    if (Array.isArray(data)) return null;
+
+    // Only files have base64 content
+    if (data.type !== 'file') return null;
+    if (!('content' in data) || !data.content) return null;
+    // Handle encoding: base64 for normal files, 'none' for 1-100MB files
+    if ('encoding' in data && data.encoding !== 'base64') return null;
+
+    return Buffer.from(data.content, 'base64').toString('utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load and parse .github/pr-review.json (cached per repository and client)
+ * Returns null when the file is missing or not valid JSON
+ */
+export async function loadRepoConfig(
+  owner: string,
+  repo: string,
+  octokit?: Octokit
+): Promise<RepoConfig | null> {
+  const ok = octokit ?? getOctokit();
+  const key = `${owner}/${repo}`.toLowerCase();
+  let byClient = cache.get(key);
+  if (!byClient) {
+    byClient = new WeakMap();
+    cache.set(key, byClient);
+  }
+
+  const cached = byClient.get(ok);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.config;
+  }
+
+  const config = fetchRepoConfig(owner, repo, ok);
+  byClient.set(ok, { expiresAt: Date.now() + CACHE_TTL_MS, config });
+  return config;
+}
+
+async function fetchRepoConfig(owner: string, repo: string, octokit: Octokit): Promise<RepoConfig | null> {
+  const content = await getRepoFileContent(owner, repo, REPO_CONFIG_PATH, octokit);
+  if (!content) return null;
+
+  try {
+    const parsed = JSON.parse(content);
+    if (typeof parsed !== 'object' || parsed === null) return null;
+
+    const config = parsed as RepoConfig;
+    // Replaces the agents of an earlier load, so removed definitions disappear
+    registerCustomAgents(config.customAgents, agentScope(owner, repo));
+    return config;
+  } catch (parseError) {
+    logger.warning(`[repo-config] Invalid JSON in ${REPO_CONFIG_PATH}`, {
+      repo: `${owner}/${repo}`,
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+    });
+    return null;
+  }
+}
+
+/**
+ * Drop cached configs (all repositories, or one)
+ */
+export function clearRepoConfigCache(owner?: string, repo?: string): void {
+  if (owner && repo) {
+    cache.delete(`${owner}/${repo}`.toLowerCase());
+  } else {
+    cache.clear();
+  }
+}
+
+/**
+ * Get the repository's severity overrides (empty when not configured)
+ */
+export async function loadSeverityRules(
+  owner: string,
+  repo: string,
+  octokit?: Octokit
+): Promise<SeverityRule[]> {
+  const config = await loadRepoConfig(owner, repo, octokit);
+  if (!config) return [];
+
+  const cached = compiledSeverityRules.get(config);
+  if (cached) return cached;
+
+  // Validated once per loaded config, so warnings are not repeated on every call
+  const { rules, errors } = compileSeverityRules(config.severity?.rules);
+  if (errors.length > 0) {
+    logger.warning(`[repo-config] Ignoring invalid severity rules in ${REPO_CONFIG_PATH}`, {
+      repo: `${owner}/${repo}`,
+      errors,
+    });
+  }
+  compiledSeverityRules.set(config, rules);
+  return rules;
+}
+
+/**
+ * Get the repository's fallback agent chains (empty when not configured)
+ */
+export async function loadFallbackChains(
+  owner: string,
+  repo: string,
+  octokit?: Octokit
+): Promise<FallbackChains> {
+  const config = await loadRepoConfig(owner, repo, octokit);
+  if (!config) return {};
+
+  const cached = compiledFallbackChains.get(config);
+  if (cached) return cached;
+
+  const { chains, errors } = compileFallbackChains(config.invoke?.fallbacks, agentScope(owner, repo));
+  if (errors.length > 0) {
+    logger.warning(`[repo-config] Ignoring invalid fallbacks in ${REPO_CONFIG_PATH}`, {
+      repo: `${owner}/${repo}`,
+      errors,
+    });
+  }
+  compiledFallbackChains.set(config, chains);
+  return chains;
+}
+
+/**
+ * Get the repository's default partitioning strategy for coordination runs
+ * (undefined when not configured or invalid)
+ */
+export async function loadPartitionStrategy(
+  owner: string,
+  repo: string,
+  octokit?: Octokit
+): Promise<PartitionStrategy | undefined> {
+  const config = await loadRepoConfig(owner, repo, octokit);
+  const strategy = config?.coordination?.partitionStrategy;
+  if (strategy === undefined) return undefined;
+
+  if (!(PARTITION_STRATEGIES as readonly unknown[]).includes(strategy)) {
+    logger.warning(`[repo-config] Ignoring invalid coordination.partitionStrategy in ${REPO_CONFIG_PATH}`, {
+      repo: `${owner}/${repo}`,
+      strategy,
+      valid: PARTITION_STRATEGIES,
+    });
+    return undefined;
+  }
+  return strategy as PartitionStrategy;
+}
@@ -10,7 +10,7 @@ import { QUERIES } from './queries.js';
 import { logger } from '../logging.js';
 import type { Octokit } from '@octokit/rest';
 import type { graphql } from '@octokit/graphql';
-import type { ParentChildEntry } from '../coordination/types.js';
+import type { Dismissal, NitpickResolution, ParentChildEntry } from '../coordination/types.js';
 
 // ============================================================================
 // Constants
@@ -27,7 +27,11 @@ const STATE_VERSION = 2;
 export interface PersistentState {
   version: number;
   parentChildren: Record<string, ParentChildEntry>;
-  resolvedNitpicks: Record<string, { resolvedAt: string; resolvedBy: string }>;
+  /**
+   * Resolution records keyed by comment ID. Holds synthetic nitpick resolutions and
+   * dismissals of any comment type (review threads, Qodo, children).
+   */
+  resolvedNitpicks: Record<string, NitpickResolution>;
   updatedAt: string;
 }
 
@@ -329,6 +333,31 @@ export async function markChildResolved(
   return null;
 }
 
+/**
+ * Helper: Mark child as pending again (undo markChildResolved)
+ */
+export async function markChildUnresolved(
+  owner: string,
+  repo: string,
+  pr: number,
+  childId: string,
+  octokit?: Octokit
+): Promise<{ parentId: string } | null> {
+  const state = await loadState(owner, repo, pr, octokit);
+
+  for (const [parentId, entry] of Object.entries(state.parentChildren)) {
+    if (childId in entry.childStatus) {
+      if (entry.childStatus[childId] !== 'pending') {
+        entry.childStatus[childId] = 'pending';
+        await saveState(owner, repo, pr, state, octokit);
+      }
+      return { parentId };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Helper: Check if child is already resolved
  */
@@ -392,6 +421,71 @@ export async function markNitpickResolved(
   await saveState(owner, repo, pr, state, octokit);
 }
 
+/**
+ * Helper: Remove nitpick resolution (undo markNitpickResolved)
+ * Returns false if the nitpick was not marked as resolved
+ */
+export async function markNitpickUnresolved(
+  owner: string,
+  repo: string,
+  pr: number,
+  nitpickId: string,
+  octokit?: Octokit
+): Promise<boolean> {
+  const state = await loadState(owner, repo, pr, octokit);
+
+  if (!(nitpickId in state.resolvedNitpicks)) {
+    return false;
+  }
+
+  delete state.resolvedNitpicks[nitpickId];
+  await saveState(owner, repo, pr, state, octokit);
+  return true;
+}
+
+/**
+ * Helper: Record a dismissal (reason + rationale) for any comment ID
+ */
+export async function recordDismissal(
+  owner: string,
+  repo: string,
+  pr: number,
+  commentId: string,
+  dismissal: Dismissal,
+  agentId: string,
+  octokit?: Octokit
+): Promise<void> {
+  const state = await loadState(owner, repo, pr, octokit);
+
+  state.resolvedNitpicks[commentId] = {
+    resolvedAt: state.resolvedNitpicks[commentId]?.resolvedAt ?? new Date().toISOString(),
+    resolvedBy: agentId,
+    dismissal
+  };
+
+  await saveState(owner, repo, pr, state, octokit);
+}
+
+/**
+ * Helper: Drop dismissal records (used when a dismissed comment is reopened)
+ */
+export async function clearDismissals(
+  owner: string,
+  repo: string,
+  pr: number,
+  commentIds: string[],
+  octokit?: Octokit
+): Promise<void> {
+  const state = await loadState(owner, repo, pr, octokit);
+  const dismissed = commentIds.filter(id => state.resolvedNitpicks[id]?.dismissal);
+  if (dismissed.length === 0) return;
+
+  for (const id of dismissed) {
+    delete state.resolvedNitpicks[id];
+  }
+  await saveState(owner, repo, pr, state, octokit);
+}
+
 /**
  * Helper: Check if nitpick is resolved
  */
@@ -30,7 +30,13 @@ export interface ReviewThread {
   viewerCanResolve: boolean;
   path: string;
   line: number | null;
+  startLine?: number | null;
+  originalLine?: number | null;
   diffSide: string;
+  /** First comment's diff hunk and the commit it was written against */
+  firstComment?: {
+    nodes: Array<{ diffHunk: string | null; originalCommit: { oid: string } | null }>;
+  };
   comments: {
     nodes: ReviewComment[];
   };
@@ -55,7 +61,23 @@ export interface ListThreadsData {
 }
 
 export interface GetThreadData {
-  node: ReviewThread | null;
+  node: (ReviewThread & {
+    pullRequest: { number: number; repository: { nameWithOwner: string } };
+  }) | null;
+}
+
+export interface ThreadSuggestionData {
+  node: {
+    id: string;
+    isOutdated: boolean;
+    path: string;
+    line: number | null;
+    startLine: number | null;
+    diffSide: string;
+    comments: {
+      nodes: Array<{ id: string; body: string; diffHunk: string }>;
+    };
+  } | null;
 }
 
 export interface ResolveThreadData {
@@ -76,10 +98,21 @@ export interface UnresolveThreadData {
   };
 }
 
+export interface AddThreadReplyData {
+  addPullRequestReviewThreadReply: {
+    comment: {
+      id: string;
+      url: string;
+      createdAt: string;
+    };
+  };
+}
+
 export interface PRReview {
   id: string;
   body: string | null;
   state: string;
+  submittedAt?: string | null;
   author: Author | null;
 }
 
@@ -105,7 +138,9 @@ export interface GraphQLResponse<T> {
 }
 
 // Comment source types
-export type CommentSource = 'coderabbit' | 'gemini' | 'codex' | 'copilot' | 'sourcery' | 'qodo' | 'greptile' | 'unknown';
+export type BuiltinCommentSource = 'coderabbit' | 'gemini' | 'codex' | 'copilot' | 'sourcery' | 'qodo' | 'greptile' | 'unknown';
+/** Built-in source, or the ID of a custom agent matched by author */
+export type CommentSource = BuiltinCommentSource | (string & {});
 
 // Processed comment type
 export interface ProcessedComment {
@@ -127,11 +162,32 @@ export interface ProcessedComment {
   author: string;
   parentId?: string;
   childIds?: string[];
+  /** Shared by comments from different agents that flag the same issue */
+  duplicateGroup?: string;
+  /** Diff position of review threads (absent for synthetic comments) */
+  codeContext?: CodeContext;
   createdAt: string | undefined;
   updatedAt: string | undefined;
   replies: ProcessedReply[];
 }
 
+export interface CodeContext {
+  diffHunk: string | null;
+  startLine: number | null;
+  originalLine: number | null;
+  /** Commit SHA the comment was originally made on */
+  originalCommit: string | null;
+  diffSide: string | null;
+}
+
+/** Lines of a file at the PR head around a commented range */
+export interface FileContext {
+  ref: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
 export interface ProcessedReply {
   id: string;
   body: string;
@@ -159,6 +215,12 @@ export interface SummaryOutput {
     resolved: number;
     unresolved: number;
   };
+  /** Resolved items split into fixed vs dismissed (see pr_dismiss) */
+  outcomes: {
+    fixed: number;
+    dismissed: number;
+    dismissedByReason: Record<string, number>;
+  };
 }
 
 export interface ListFilter {
@@ -166,14 +228,26 @@ export interface ListFilter {
   outdated?: boolean;
   file?: string;
   author?: string;
+  /** Exact severity match */
+  severity?: string;
+  /** This severity or higher (by SEVERITY_ORDER) */
+  minSeverity?: string;
+  source?: CommentSource;
+  hasAiPrompt?: boolean;
+  /** ISO 8601 timestamp; comments without a known creation time are excluded */
+  createdAfter?: string;
 }
 
+export type ListSort = 'severity' | 'file' | 'createdAt';
+
 export interface ListInput {
   owner: string;
   repo: string;
   pr: number;
   filter?: ListFilter;
+  sort?: ListSort;
   max?: number;
+  cursor?: string;
 }
 
 export interface ListComment {
@@ -186,12 +260,19 @@ export interface ListComment {
   title: string;
   resolved: boolean;
   hasAiPrompt: boolean;
+  duplicateGroup?: string;
+  createdAt?: string;
 }
 
 export interface ListOutput {
   comments: ListComment[];
+  /** Number of comments matching the filter across all pages */
   total: number;
+  /** Set when the PR has more review threads than one listing loads; total and paging cover the loaded ones */
+  truncated?: boolean;
   hasMore: boolean;
+  /** Pass back as `cursor` to fetch the next page */
+  cursor: string | null;
 }
 
 export interface GetInput {
@@ -199,6 +280,7 @@ export interface GetInput {
   repo: string;
   pr: number;
   id: string;
+  contextLines?: number;
 }
 
 export interface GetOutput {
@@ -216,6 +298,12 @@ export interface GetOutput {
   } | null;
   replies: ProcessedReply[];
   canResolve: boolean;
+  diffHunk?: string | null;
+  startLine?: number | null;
+  originalLine?: number | null;
+  originalCommit?: string | null;
+  diffSide?: string | null;
+  fileContext?: FileContext | null;
 }
 
 export interface ResolveInput {
@@ -231,6 +319,45 @@ export interface ResolveOutput {
   title?: string;
   synthetic?: boolean;
   message?: string;
+  /** Unresolved comments from other agents flagging the same issue (offered, not resolved) */
+  duplicates?: { group: string; threadIds: string[] };
+  /** Set when the duplicate group was resolved as well */
+  duplicatesResolved?: ResolveBatchOutput;
+}
+
+export interface ResolveBatchItem extends ResolveOutput {
+  threadId: string;
+  error?: { kind: string; message: string };
+}
+
+export interface ResolveBatchOutput {
+  /** True only when every item in the batch succeeded */
+  success: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: ResolveBatchItem[];
+}
+
+export interface ReplyInput {
+  owner: string;
+  repo: string;
+  pr: number;
+  threadId: string;
+  body: string;
+  resolve?: boolean;
+}
+
+export interface ReplyOutput {
+  success: boolean;
+  threadId: string;
+  /** Where the reply was posted: the review thread itself or the PR issue timeline */
+  target: 'thread' | 'issue_comment';
+  replyId: string;
+  replyUrl: string | null;
+  resolved?: boolean;
+  synthetic?: boolean;
+  message?: string;
 }
 
 export interface ChangesInput {
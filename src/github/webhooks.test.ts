@@ -0,0 +1,165 @@
+/**
+ * Unit tests for GitHub webhook verification and parsing
+ */
+
+import { createHmac } from 'crypto';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  clearWebhookDeliveries,
+  handleWebhookRequest,
+  ingestWebhookEvent,
+  verifyWebhookSignature,
+  webhookSignals,
+  webhookTargets,
+  webhooksLive,
+  WEBHOOK_LIVE_MS,
+} from './webhooks.js';
+
+const repository = { name: 'app', owner: { login: 'acme' } };
+
+function sign(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+describe('verifyWebhookSignature', () => {
+  const body = Buffer.from('{"zen":"Keep it logically awesome."}');
+
+  it('accepts the signature of the raw body', () => {
+    expect(verifyWebhookSignature('s3cret', body, sign('s3cret', body.toString()))).toBe(true);
+  });
+
+  it('rejects wrong secrets, altered bodies and missing headers', () => {
+    expect(verifyWebhookSignature('other', body, sign('s3cret', body.toString()))).toBe(false);
+    expect(verifyWebhookSignature('s3cret', Buffer.from('{}'), sign('s3cret', body.toString()))).toBe(false);
+    expect(verifyWebhookSignature('s3cret', body, undefined)).toBe(false);
+    expect(verifyWebhookSignature('s3cret', body, 'sha1=abc')).toBe(false);
+  });
+});
+
+describe('webhookTargets', () => {
+  it('finds the PR of each event type', () => {
+    expect(webhookTargets('pull_request_review', { repository, pull_request: { number: 4 } }))
+      .toEqual([{ owner: 'acme', repo: 'app', pr: 4 }]);
+    expect(webhookTargets('issue_comment', { repository, issue: { number: 5, pull_request: {} } }))
+      .toEqual([{ owner: 'acme', repo: 'app', pr: 5 }]);
+    expect(webhookTargets('check_run', { repository, check_run: { pull_requests: [{ number: 6 }, { number: 6 }, { number: 7 }] } }))
+      .toEqual([{ owner: 'acme', repo: 'app', pr: 6 }, { owner: 'acme', repo: 'app', pr: 7 }]);
+  });
+
+  it('ignores comments on plain issues and payloads without a repository', () => {
+    expect(webhookTargets('issue_comment', { repository, issue: { number: 5 } })).toEqual([]);
+    expect(webhookTargets('pull_request', { pull_request: { number: 4 } })).toEqual([]);
+  });
+});
+
+describe('webhookSignals', () => {
+  it('maps a submitted review to the polled review shape', () => {
+    const signals = webhookSignals('pull_request_review', {
+      action: 'submitted',
+      review: { user: { login: 'gemini-code-assist[bot]' }, state: 'commented', submitted_at: '2026-01-01T00:00:00Z', body: '## Code Review\n' }
+    });
+    expect(signals.reviews).toEqual([{
+      user: { login: 'gemini-code-assist[bot]' },
+      state: 'COMMENTED',
+      submitted_at: '2026-01-01T00:00:00Z',
+      body: '## Code Review\n'
+    }]);
+  });
+
+  it('carries no signal for deleted comments, dismissed reviews and running check runs', () => {
+    const empty = { reviews: [], issueComments: [], checkRuns: [] };
+    expect(webhookSignals('issue_comment', { action: 'deleted', comment: { body: 'x' } })).toEqual(empty);
+    expect(webhookSignals('pull_request_review', { action: 'dismissed', review: { body: 'x' } })).toEqual(empty);
+    expect(webhookSignals('check_run', { action: 'created', check_run: { status: 'in_progress' } })).toEqual(empty);
+  });
+});
+
+describe('ingestWebhookEvent', () => {
+  afterEach(() => {
+    clearWebhookDeliveries();
+    vi.useRealTimers();
+  });
+
+  it('marks the repository as delivering webhooks', () => {
+    expect(webhooksLive('acme', 'app')).toBe(false);
+    const result = ingestWebhookEvent(null, 'pull_request', { action: 'synchronize', repository, pull_request: { number: 4 } });
+    expect(result.targets).toEqual([{ owner: 'acme', repo: 'app', pr: 4 }]);
+    expect(webhooksLive('Acme', 'App')).toBe(true);
+  });
+
+  it('stops treating the repository as live when deliveries stop', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    ingestWebhookEvent(null, 'pull_request', { action: 'synchronize', repository, pull_request: { number: 4 } });
+
+    vi.setSystemTime(Date.now() + WEBHOOK_LIVE_MS - 1000);
+    expect(webhooksLive('acme', 'app')).toBe(true);
+    vi.setSystemTime(Date.now() + 2000);
+    expect(webhooksLive('acme', 'app')).toBe(false);
+  });
+});
+
+describe('handleWebhookRequest', () => {
+  const secret = 's3cret';
+
+  /** POST request streaming the given body chunks */
+  function request(chunks: string[], headers: Record<string, string>) {
+    const req = Object.assign(Readable.from(chunks.map(c => Buffer.from(c))), { method: 'POST', headers });
+    const read = vi.spyOn(req, 'read');
+    return { req: req as unknown as IncomingMessage, read };
+  }
+
+  async function handle(req: IncomingMessage): Promise<{ status: number; body: unknown }> {
+    const res = Object.assign(new EventEmitter(), { writeHead: vi.fn(), end: vi.fn() });
+    await handleWebhookRequest(req, res as unknown as ServerResponse, { secret, store: null });
+    return { status: res.writeHead.mock.calls[0][0], body: JSON.parse(res.end.mock.calls[0][0]) };
+  }
+
+  it('accepts a signed delivery sent in chunks', async () => {
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+    const { req } = request([body.slice(0, 10), body.slice(10)], {
+      'x-github-event': 'ping',
+      'x-hub-signature-256': sign(secret, body),
+    });
+    expect(await handle(req)).toEqual({ status: 200, body: { ok: true } });
+  });
+
+  it('rejects an unsigned delivery without reading its body', async () => {
+    const { req, read } = request(['{}'], { 'x-github-event': 'ping' });
+    expect(await handle(req)).toMatchObject({ status: 401 });
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  it('rejects an oversized delivery by its declared length', async () => {
+    const { req, read } = request(['{}'], {
+      'x-github-event': 'ping',
+      'x-hub-signature-256': sign(secret, '{}'),
+      'content-length': String(2 * 1024 * 1024),
+    });
+    expect(await handle(req)).toMatchObject({ status: 413 });
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  it('stops reading a delivery past the size limit and closes the connection after the 413', async () => {
+    const chunk = 'x'.repeat(512 * 1024);
+    const { req } = request([chunk, chunk, chunk, chunk], {
+      'x-github-event': 'ping',
+      'x-hub-signature-256': sign(secret, chunk),
+    });
+    const res = Object.assign(new EventEmitter(), { writeHead: vi.fn(), end: vi.fn() });
+
+    await handleWebhookRequest(req, res as unknown as ServerResponse, { secret, store: null });
+
+    expect(res.writeHead).toHaveBeenCalledWith(413, expect.objectContaining({ Connection: 'close' }));
+    expect(req.destroyed).toBe(false);
+    res.emit('finish');
+    expect(req.destroyed).toBe(true);
+  });
+
+  it('rejects a delivery whose signature does not match', async () => {
+    const { req } = request(['{}'], { 'x-github-event': 'ping', 'x-hub-signature-256': sign('other', '{}') });
+    expect(await handle(req)).toMatchObject({ status: 401, body: { error: 'Invalid signature' } });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * GitHub Webhooks - Push-based agent completion for HTTP mode
+ *
+ * POST /webhooks/github receives pull_request_review, issue_comment, check_run and
+ * pull_request events. Deliveries are verified against GITHUB_WEBHOOK_SECRET
+ * (X-Hub-Signature-256), then evaluated with the same per-agent completion strategies
+ * as polling, so agent_status is updated as soon as an agent posts its review.
+ *
+ * While a repository is delivering webhooks, pr_await_reviews answers from the stored
+ * state instead of polling GitHub on every call.
+ */
+
+import { createHmac, timingSafeEqual, type Hmac } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { agentScope, getAgentConfig } from '../agents/registry.js';
+import {
+  evaluateAgent,
+  type RawCheckRun,
+  type RawIssueComment,
+  type RawReview,
+} from '../agents/completion-detector.js';
+import { logger } from '../logging.js';
+import type { InvocationStore } from '../persistence/invocation-store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const WEBHOOK_EVENTS = ['pull_request_review', 'issue_comment', 'check_run', 'pull_request'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookTarget {
+  owner: string;
+  repo: string;
+  pr: number;
+}
+
+export interface WebhookIngestResult {
+  /** PRs the delivery is about */
+  targets: WebhookTarget[];
+  /** Agents whose status was updated from the delivery */
+  settled: Array<{ invocationId: number; agentId: string; ready: boolean }>;
+  /** Sequential invocations affected by the delivery (their pipeline should advance) */
+  pipelines: number[];
+}
+
+/** Completion signals carried by one delivery, in the shapes the completion detector reads */
+export interface WebhookSignals {
+  reviews: RawReview[];
+  issueComments: RawIssueComment[];
+  checkRuns: RawCheckRun[];
+}
+
+/** Subset of webhook payload fields used here */
+interface WebhookPayload {
+  action?: string;
+  repository?: { name?: string; owner?: { login?: string } };
+  pull_request?: { number?: number };
+  review?: { user?: { login?: string } | null; state?: string; submitted_at?: string | null; body?: string | null };
+  issue?: { number?: number; pull_request?: object };
+  comment?: { user?: { login?: string } | null; created_at?: string; updated_at?: string; body?: string };
+  check_run?: {
+    name?: string;
+    status?: string;
+    conclusion?: string | null;
+    completed_at?: string | null;
+    app?: { slug?: string } | null;
+    pull_requests?: Array<{ number?: number }>;
+  };
+}
+
+/**
+ * Largest delivery read. GitHub allows 25 MB, but the events handled here carry
+ * one review, comment or check run and stay far below this.
+ */
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+/** A repository that delivered nothing for this long is polled again, in case its webhook was removed */
+export const WEBHOOK_LIVE_MS = 30 * 60 * 1000;
+
+/** Repositories (owner/repo, lowercase) that delivered a verified webhook, by last delivery time */
+const deliveries = new Map<string, number>();
+
+// ============================================================================
+// Verification and Parsing
+// ============================================================================
+
+/**
+ * Check an X-Hub-Signature-256 header against the raw request body
+ */
+export function verifyWebhookSignature(secret: string, body: Buffer, signature: string | undefined): boolean {
+  return signatureMatches(createHmac('sha256', secret).update(body), signature);
+}
+
+/**
+ * Compare an X-Hub-Signature-256 header with an HMAC fed the whole body
+ */
+function signatureMatches(hmac: Hmac, signature: string | undefined): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(`sha256=${hmac.digest('hex')}`);
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * PRs a delivery is about (issue comments on plain issues and check runs
+ * outside a PR have none)
+ */
+export function webhookTargets(event: string, payload: unknown): WebhookTarget[] {
+  const p = payload as WebhookPayload;
+  const owner = p.repository?.owner?.login;
+  const repo = p.repository?.name;
+  if (!owner || !repo) return [];
+
+  let numbers: Array<number | undefined> = [];
+  switch (event) {
+    case 'pull_request':
+    case 'pull_request_review':
+      numbers = [p.pull_request?.number];
+      break;
+    case 'issue_comment':
+      numbers = p.issue?.pull_request ? [p.issue.number] : [];
+      break;
+    case 'check_run':
+      numbers = p.check_run?.pull_requests?.map(pr => pr.number) ?? [];
+      break;
+  }
+
+  return [...new Set(numbers)]
+    .filter((pr): pr is number => typeof pr === 'number')
+    .map(pr => ({ owner, repo, pr }));
+}
+
+/**
+ * Completion signals in a delivery. Deleted comments, dismissed reviews and
+ * unfinished check runs carry none.
+ */
+export function webhookSignals(event: string, payload: unknown): WebhookSignals {
+  const p = payload as WebhookPayload;
+  const signals: WebhookSignals = { reviews: [], issueComments: [], checkRuns: [] };
+
+  if (event === 'pull_request_review' && p.review && (p.action === 'submitted' || p.action === 'edited')) {
+    signals.reviews.push({
+      user: p.review.user?.login ? { login: p.review.user.login } : null,
+      // Webhooks report review states in lowercase
+      state: (p.review.state ?? '').toUpperCase(),
+      submitted_at: p.review.submitted_at,
+      body: p.review.body ?? null,
+    });
+  } else if (event === 'issue_comment' && p.comment && (p.action === 'created' || p.action === 'edited')) {
+    signals.issueComments.push({
+      user: p.comment.user?.login ? { login: p.comment.user.login } : null,
+      created_at: p.comment.created_at ?? new Date().toISOString(),
+      updated_at: p.comment.updated_at,
+      body: p.comment.body,
+    });
+  } else if (event === 'check_run' && p.check_run && p.action === 'completed') {
+    signals.checkRuns.push({
+      name: p.check_run.name ?? '',
+      status: p.check_run.status ?? 'completed',
+      conclusion: p.check_run.conclusion ?? null,
+      app: p.check_run.app?.slug ? { slug: p.check_run.app.slug } : null,
+      completed_at: p.check_run.completed_at,
+    });
+  }
+
+  return signals;
+}
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+/**
+ * Whether the repository delivered a verified webhook within WEBHOOK_LIVE_MS
+ */
+export function webhooksLive(owner: string, repo: string): boolean {
+  const key = `${owner}/${repo}`.toLowerCase();
+  const deliveredAt = deliveries.get(key);
+  if (deliveredAt === undefined) return false;
+  if (Date.now() - deliveredAt < WEBHOOK_LIVE_MS) return true;
+  deliveries.delete(key);
+  return false;
+}
+
+/**
+ * Forget recorded deliveries
+ * @internal Exported for testing
+ */
+export function clearWebhookDeliveries(): void {
+  deliveries.clear();
+}
+
+/**
+ * Apply a verified delivery to the active invocations of the PRs it is about.
+ * Agents still waiting are evaluated against the delivery with their completion
+ * strategy; only settled results (ready, or unavailable in parallel mode) are
+ * written. Pipelines handle unavailable agents themselves, since that appends
+ * their fallback step.
+ */
+export function ingestWebhookEvent(
+  store: InvocationStore | null,
+  event: string,
+  payload: unknown
+): WebhookIngestResult {
+  const targets = webhookTargets(event, payload);
+  const result: WebhookIngestResult = { targets, settled: [], pipelines: [] };
+  if (targets.length === 0) return result;
+
+  deliveries.set(`${targets[0].owner}/${targets[0].repo}`.toLowerCase(), Date.now());
+  if (!store) return result;
+
+  const signals = webhookSignals(event, payload);
+  const hasSignals = signals.reviews.length + signals.issueComments.length + signals.checkRuns.length > 0;
+
+  for (const { owner, repo, pr } of targets) {
+    const invocation = store.findActiveForPR(owner, repo, pr);
+    if (!invocation) continue;
+    if (invocation.mode === 'sequential') result.pipelines.push(invocation.id);
+    if (!hasSignals) continue;
+
+    for (const status of store.getAgentStatuses(invocation.id)) {
+      const waiting = !status.ready && !status.timedOut && !status.availability && !status.invokeError;
+      const config = getAgentConfig(status.agentId, agentScope(owner, repo));
+      if (!waiting || !config || !status.invokedAt) continue;
+
+      const since = invocation.mode === 'sequential' ? status.invokedAt : invocation.since;
+      const detected = evaluateAgent(
+        status.agentId, config, signals.reviews, signals.issueComments, signals.checkRuns, new Date(since)
+      );
+      const settles = detected.ready || (detected.unavailable !== undefined && invocation.mode === 'parallel');
+      if (!settles) continue;
+
+      store.updateAgentStatus(invocation.id, [{ ...detected, timedOut: false }]);
+      result.settled.push({ invocationId: invocation.id, agentId: status.agentId, ready: detected.ready });
+      logger.info(`[webhooks] ${owner}/${repo}#${pr}: ${config.name} ${detected.ready ? 'completed' : detected.unavailable} (${event})`);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// HTTP Handler
+// ============================================================================
+
+/**
+ * Read the request body, feeding it to the HMAC as it arrives
+ * @returns null when the body exceeds MAX_PAYLOAD_BYTES (reading stops, the request stays open)
+ */
+function readBody(req: IncomingMessage, hmac: Hmac): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_PAYLOAD_BYTES) {
+        req.off('data', onData);
+        req.pause();
+        resolve(null);
+        return;
+      }
+      hmac.update(chunk);
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function reply(res: ServerResponse, status: number, body: object, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Answer an oversized delivery with 413 and close the connection once the
+ * response is sent (the rest of the body is never read)
+ */
+function rejectTooLarge(req: IncomingMessage, res: ServerResponse): void {
+  res.once('finish', () => req.destroy());
+  reply(res, 413, { error: 'Payload Too Large' }, { Connection: 'close' });
+}
+
+/**
+ * Handle a POST /webhooks/github request
+ * @param onIngested - Called after a delivery was applied (resource notifications, pipeline advance)
+ */
+export async function handleWebhookRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: {
+    secret: string;
+    store: InvocationStore | null;
+    onIngested?: (result: WebhookIngestResult) => void;
+  }
+): Promise<void> {
+  if (req.method !== 'POST') {
+    reply(res, 405, { error: 'Method Not Allowed' });
+    return;
+  }
+
+  // Unsigned and oversized deliveries are rejected before the body is read
+  const header = req.headers['x-hub-signature-256'];
+  const signature = Array.isArray(header) ? header[0] : header;
+  if (!signature?.startsWith('sha256=')) {
+    logger.warning('[webhooks] Rejected delivery without signature', { delivery: req.headers['x-github-delivery'] });
+    reply(res, 401, { error: 'Missing signature' });
+    return;
+  }
+  if (Number(req.headers['content-length'] ?? 0) > MAX_PAYLOAD_BYTES) {
+    rejectTooLarge(req, res);
+    return;
+  }
+
+  const hmac = createHmac('sha256', options.secret);
+  const body = await readBody(req, hmac);
+  if (body === null) {
+    rejectTooLarge(req, res);
+    return;
+  }
+
+  if (!signatureMatches(hmac, signature)) {
+    logger.warning('[webhooks] Rejected delivery with invalid signature', { delivery: req.headers['x-github-delivery'] });
+    reply(res, 401, { error: 'Invalid signature' });
+    return;
+  }
+
+  const event = String(req.headers['x-github-event'] ?? '');
+  if (event === 'ping') {
+    reply(res, 200, { ok: true });
+    return;
+  }
+  if (!(WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+    reply(res, 202, { ignored: event });
+    return;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body.toString('utf-8'));
+  } catch {
+    reply(res, 400, { error: 'Invalid JSON payload' });
+    return;
+  }
+
+  const result = ingestWebhookEvent(options.store, event, payload);
+  options.onIngested?.(result);
+  reply(res, 202, {
+    event,
+    prs: result.targets.map(t => `${t.owner}/${t.repo}#${t.pr}`),
+    settled: result.settled.map(s => s.agentId),
+  });
+}
@@ -13,7 +13,7 @@ import { logger } from '../logging.js';
 
 const DB_DIR = join(homedir(), '.config', 'pr-review');
 const DB_PATH = join(DB_DIR, 'pr-review.db');
-const SCHEMA_VERSION = 1;
+const SCHEMA_VERSION = 8;
 
 // ============================================================================
 // DDL
@@ -32,6 +32,9 @@ CREATE TABLE IF NOT EXISTS invocations (
   status        TEXT NOT NULL DEFAULT 'active',
   completed_at  TEXT,
   result        TEXT,
+  mode          TEXT NOT NULL DEFAULT 'parallel',
+  options       TEXT,
+  pr_size       INTEGER,
   UNIQUE(owner, repo, pr, since)
 );
 CREATE INDEX IF NOT EXISTS idx_invocations_pr ON invocations(owner, repo, pr);
@@ -51,6 +54,13 @@ CREATE TABLE IF NOT EXISTS agent_status (
   timed_out      INTEGER NOT NULL DEFAULT 0,
   detail         TEXT,
   checked_at     TEXT NOT NULL,
+  step           INTEGER NOT NULL DEFAULT 0,
+  invoked_at     TEXT,
+  invoke_error   TEXT,
+  availability   TEXT,
+  retry_after    TEXT,
+  trigger_comment_id TEXT,
+  max_wait_ms    INTEGER,
   UNIQUE(invocation_id, agent_id)
 );
 `;
@@ -71,12 +81,56 @@ CREATE TABLE IF NOT EXISTS coordination (
   claimed_at     TEXT,
   completed_at   TEXT,
   created_at     TEXT NOT NULL,
+  lease_token    TEXT,
+  lease_expires_at TEXT,
+  outcomes       TEXT,
   UNIQUE(run_id, file)
 );
 CREATE INDEX IF NOT EXISTS idx_coordination_run ON coordination(run_id);
 CREATE INDEX IF NOT EXISTS idx_coordination_pr ON coordination(owner, repo, pr);
 `;
 
+// v2: sequential pipelines — invocation mode/options, per-step ordering and invocation time
+const MIGRATION_V2 = `
+ALTER TABLE invocations ADD COLUMN mode TEXT NOT NULL DEFAULT 'parallel';
+ALTER TABLE invocations ADD COLUMN options TEXT;
+ALTER TABLE agent_status ADD COLUMN step INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE agent_status ADD COLUMN invoked_at TEXT;
+ALTER TABLE agent_status ADD COLUMN invoke_error TEXT;
+`;
+
+// v3: agents that reported quota exhaustion or unavailability
+const MIGRATION_V3 = `
+ALTER TABLE agent_status ADD COLUMN availability TEXT;
+ALTER TABLE agent_status ADD COLUMN retry_after TEXT;
+`;
+
+// v4: PR size (changed lines) for learning per-agent wait times
+const MIGRATION_V4 = `
+ALTER TABLE invocations ADD COLUMN pr_size INTEGER;
+`;
+
+// v5: node ID of each agent's trigger comment (deleted or minimized when an invocation is cancelled)
+const MIGRATION_V5 = `
+ALTER TABLE agent_status ADD COLUMN trigger_comment_id TEXT;
+`;
+
+// v6: lease of each claimed partition (reports from a worker whose lease was reassigned are rejected)
+const MIGRATION_V6 = `
+ALTER TABLE coordination ADD COLUMN lease_token TEXT;
+ALTER TABLE coordination ADD COLUMN lease_expires_at TEXT;
+`;
+
+// v7: per-comment outcomes reported by workers (JSON array, one entry per thread)
+const MIGRATION_V7 = `
+ALTER TABLE coordination ADD COLUMN outcomes TEXT;
+`;
+
+// v8: wait time of each invoked pipeline step (the reaper keeps pipelines with a running step alive that long)
+const MIGRATION_V8 = `
+ALTER TABLE agent_status ADD COLUMN max_wait_ms INTEGER;
+`;
+
 const DDL_METADATA = `
 CREATE TABLE IF NOT EXISTS metadata (
   key   TEXT PRIMARY KEY,
@@ -147,8 +201,29 @@ function runMigrations(db: import('better-sqlite3').Database): void {
   const currentVersion = parseInt(row.value, 10);
 
   if (currentVersion < SCHEMA_VERSION) {
+    if (currentVersion < 2) {
+      db.exec(MIGRATION_V2);
+    }
+    if (currentVersion < 3) {
+      db.exec(MIGRATION_V3);
+    }
+    if (currentVersion < 4) {
+      db.exec(MIGRATION_V4);
+    }
+    if (currentVersion < 5) {
+      db.exec(MIGRATION_V5);
+    }
+    if (currentVersion < 6) {
+      db.exec(MIGRATION_V6);
+    }
+    if (currentVersion < 7) {
+      db.exec(MIGRATION_V7);
+    }
+    if (currentVersion < 8) {
+      db.exec(MIGRATION_V8);
+    }
     // Future migrations go here:
-    // if (currentVersion < 2) { ... db.exec(...); }
+    // if (currentVersion < 9) { ... db.exec(...); }
     db.prepare(`UPDATE metadata SET value = ? WHERE key = 'schema_version'`).run(
       String(SCHEMA_VERSION),
     );
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the invocation store (SQLite database in a temporary home directory)
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+import type Database from 'better-sqlite3';
+
+// The database path is resolved when database.ts loads, so the directory must exist first
+const home = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  const { join } = await import('path');
+  return mkdtempSync(join(tmpdir(), 'pr-review-store-'));
+});
+
+vi.mock('os', async (importOriginal) => {
+  const os = await importOriginal<typeof import('os')>();
+  return { ...os, homedir: () => home };
+});
+
+import { openDatabase } from './database.js';
+import { InvocationStore } from './invocation-store.js';
+
+const MINUTE = 60_000;
+
+let db: Database.Database;
+let store: InvocationStore;
+let pr = 0;
+
+beforeAll(() => {
+  db = openDatabase()!;
+  store = new InvocationStore(db);
+});
+
+afterAll(() => {
+  db?.close();
+  rmSync(home, { recursive: true, force: true });
+});
+
+const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+/** Sequential pipeline started two hours ago, its first step claimed `invokedMsAgo` ago */
+function pipeline(invokedMsAgo: number, maxWaitMs: number | null): number {
+  const id = store.record({
+    owner: 'o',
+    repo: 'r',
+    pr: ++pr,
+    sessionId: 's',
+    agents: ['coderabbit', 'gemini'],
+    since: ago(120 * MINUTE),
+    mode: 'sequential',
+  });
+  db.prepare('UPDATE invocations SET invoked_at = ? WHERE id = ?').run(ago(120 * MINUTE), id);
+  store.claimStep(id, 'coderabbit', ago(invokedMsAgo), maxWaitMs);
+  return id;
+}
+
+describe('InvocationStore.reap', () => {
+  it('keeps a pipeline whose running step is within its wait time', () => {
+    const id = pipeline(90 * MINUTE, 120 * MINUTE);
+    store.reap();
+    expect(store.getInvocation(id)?.status).toBe('active');
+  });
+
+  it('marks a pipeline stale once its running step is past its wait time', () => {
+    const id = pipeline(90 * MINUTE, 10 * MINUTE);
+    store.reap();
+    expect(store.getInvocation(id)?.status).toBe('stale');
+  });
+
+  it('ignores the wait time of a settled step', () => {
+    const id = pipeline(90 * MINUTE, 120 * MINUTE);
+    db.prepare('UPDATE agent_status SET ready = 1 WHERE invocation_id = ? AND agent_id = ?').run(id, 'coderabbit');
+    store.reap();
+    expect(store.getInvocation(id)?.status).toBe('stale');
+  });
+
+  it('keeps a pipeline with a step invoked in the last 30 minutes', () => {
+    const id = pipeline(5 * MINUTE, null);
+    store.reap();
+    expect(store.getInvocation(id)?.status).toBe('active');
+  });
+});
@@ -8,7 +8,7 @@
  */
 
 import type Database from 'better-sqlite3';
-import type { StoredInvocation, StoredAgentStatus } from './types.js';
+import type { StoredInvocation, StoredAgentStatus, StoredAgentRun } from './types.js';
 import type { AgentCompletionResult } from '../agents/completion-detector.js';
 import { logger } from '../logging.js';
 
@@ -28,6 +28,9 @@ interface InvocationRow {
   status: string;
   completed_at: string | null;
   result: string | null;
+  mode: string;
+  options: string | null;
+  pr_size: number | null;
 }
 
 interface AgentStatusRow {
@@ -41,6 +44,27 @@ interface AgentStatusRow {
   timed_out: number;
   detail: string | null;
   checked_at: string;
+  step: number;
+  invoked_at: string | null;
+  invoke_error: string | null;
+  availability: string | null;
+  retry_after: string | null;
+  trigger_comment_id: string | null;
+}
+
+interface AgentRunRow {
+  invocation_id: number;
+  owner: string;
+  repo: string;
+  pr: number;
+  pr_size: number | null;
+  agent_id: string;
+  invoked_at: string;
+  last_activity: string | null;
+  ready: number;
+  timed_out: number;
+  availability: string | null;
+  invoke_error: string | null;
 }
 
 // ============================================================================
@@ -60,6 +84,9 @@ function rowToInvocation(row: InvocationRow): StoredInvocation {
     status: row.status as StoredInvocation['status'],
     completedAt: row.completed_at,
     result: row.result !== null ? (JSON.parse(row.result) as object) : null,
+    mode: row.mode === 'sequential' ? 'sequential' : 'parallel',
+    options: row.options !== null ? (JSON.parse(row.options) as object) : null,
+    prSize: row.pr_size,
   };
 }
 
@@ -75,6 +102,29 @@ function rowToAgentStatus(row: AgentStatusRow): StoredAgentStatus {
     timedOut: row.timed_out === 1,
     detail: row.detail,
     checkedAt: row.checked_at,
+    step: row.step,
+    invokedAt: row.invoked_at,
+    invokeError: row.invoke_error,
+    availability: row.availability as StoredAgentStatus['availability'],
+    retryAfter: row.retry_after,
+    triggerCommentId: row.trigger_comment_id,
+  };
+}
+
+function rowToAgentRun(row: AgentRunRow): StoredAgentRun {
+  return {
+    invocationId: row.invocation_id,
+    owner: row.owner,
+    repo: row.repo,
+    pr: row.pr,
+    prSize: row.pr_size,
+    agentId: row.agent_id,
+    invokedAt: row.invoked_at,
+    lastActivity: row.last_activity,
+    ready: row.ready === 1,
+    timedOut: row.timed_out === 1,
+    availability: row.availability as StoredAgentRun['availability'],
+    invokeError: row.invoke_error,
   };
 }
 
@@ -88,20 +138,23 @@ export class InvocationStore {
   private readonly stmtFindActive: Database.Statement<[string, string, number]>;
   private readonly stmtGetAgentStatuses: Database.Statement<[number]>;
   private readonly stmtUpdateStatus: Database.Statement;
+  private readonly stmtClaimStep: Database.Statement;
+  private readonly stmtFailStep: Database.Statement;
   private readonly stmtReap: Database.Statement;
 
   constructor(private readonly db: Database.Database) {
     this.stmtInsertInvocation = db.prepare(`
-      INSERT INTO invocations (owner, repo, pr, session_id, agents, since, invoked_at, status)
-      VALUES (@owner, @repo, @pr, @sessionId, @agents, @since, @invokedAt, 'active')
+      INSERT INTO invocations (owner, repo, pr, session_id, agents, since, invoked_at, status, mode, options)
+      VALUES (@owner, @repo, @pr, @sessionId, @agents, @since, @invokedAt, 'active', @mode, @options)
       ON CONFLICT(owner, repo, pr, since) DO NOTHING
     `);
 
     this.stmtInsertAgentStatus = db.prepare(`
       INSERT INTO agent_status
-        (invocation_id, agent_id, ready, confidence, source, last_activity, timed_out, detail, checked_at)
+        (invocation_id, agent_id, ready, confidence, source, last_activity, timed_out, detail, checked_at,
+         step, invoked_at)
       VALUES
-        (@invocationId, @agentId, 0, NULL, NULL, NULL, 0, NULL, @checkedAt)
+        (@invocationId, @agentId, 0, NULL, NULL, NULL, 0, NULL, @checkedAt, @step, @invokedAt)
       ON CONFLICT(invocation_id, agent_id) DO NOTHING
     `);
 
@@ -113,7 +166,7 @@ export class InvocationStore {
     `);
 
     this.stmtGetAgentStatuses = db.prepare<[number], AgentStatusRow>(`
-      SELECT * FROM agent_status WHERE invocation_id = ?
+      SELECT * FROM agent_status WHERE invocation_id = ? ORDER BY step, id
     `);
 
     this.stmtUpdateStatus = db.prepare(`
@@ -124,11 +177,40 @@ export class InvocationStore {
       WHERE id = @id
     `);
 
+    // Only the first caller to claim a step posts its invocation comment
+    this.stmtClaimStep = db.prepare(`
+      UPDATE agent_status
+      SET invoked_at = @invokedAt,
+          max_wait_ms = @maxWaitMs
+      WHERE invocation_id = @invocationId AND agent_id = @agentId AND invoked_at IS NULL
+    `);
+
+    this.stmtFailStep = db.prepare(`
+      UPDATE agent_status
+      SET invoke_error = @error,
+          timed_out    = 1,
+          detail       = @error,
+          checked_at   = @checkedAt
+      WHERE invocation_id = @invocationId AND agent_id = @agentId
+    `);
+
+    // Pipelines stay active while a step was invoked recently, however long ago they started.
+    // A running step (not settled) extends that by its wait time, so slow agents aren't cut
+    // off before the pipeline times them out.
     this.stmtReap = db.prepare(`
       UPDATE invocations
       SET status = 'stale'
       WHERE status = 'active'
-        AND invoked_at < datetime('now', '-30 minutes')
+        AND datetime(invoked_at) < datetime('now', '-30 minutes')
+        AND NOT EXISTS (
+          SELECT 1 FROM agent_status s
+          WHERE s.invocation_id = invocations.id
+            AND s.invoked_at IS NOT NULL
+            AND (julianday('now') - julianday(s.invoked_at)) * 86400000 < 1800000 + (
+              CASE WHEN s.ready = 0 AND s.timed_out = 0 AND s.availability IS NULL
+                THEN COALESCE(s.max_wait_ms, 0) ELSE 0 END
+            )
+        )
     `);
   }
 
@@ -141,6 +223,9 @@ export class InvocationStore {
    * Uses a transaction so both inserts are atomic.
    * Deduplication: if (owner, repo, pr, since) already exists, returns the existing id.
    * Returns the invocation id (existing or newly created).
+   *
+   * Sequential invocations are pipelines: agents become ordered steps that are
+   * left un-invoked until claimed with `claimStep()`.
    */
   record(params: {
     owner: string;
@@ -149,7 +234,10 @@ export class InvocationStore {
     sessionId: string;
     agents: string[];
     since: string;
+    mode?: StoredInvocation['mode'];
+    options?: object;
   }): number {
+    const mode = params.mode ?? 'parallel';
     const now = new Date().toISOString();
 
     const runTransaction = this.db.transaction((): number => {
@@ -161,6 +249,8 @@ export class InvocationStore {
         agents: JSON.stringify(params.agents),
         since: params.since,
         invokedAt: now,
+        mode,
+        options: params.options !== undefined ? JSON.stringify(params.options) : null,
       });
 
       // Fetch the id whether we just inserted or it already existed.
@@ -174,13 +264,15 @@ export class InvocationStore {
         throw new Error('Failed to resolve invocation id after INSERT');
       }
 
-      for (const agentId of params.agents) {
+      params.agents.forEach((agentId, step) => {
         this.stmtInsertAgentStatus.run({
           invocationId: row.id,
           agentId,
           checkedAt: now,
+          step,
+          invokedAt: mode === 'sequential' ? null : now,
         });
-      }
+      });
 
       return row.id;
     });
@@ -204,9 +296,11 @@ export class InvocationStore {
 
     const upsertAgent = this.db.prepare(`
       INSERT INTO agent_status
-        (invocation_id, agent_id, ready, confidence, source, last_activity, timed_out, detail, checked_at)
+        (invocation_id, agent_id, ready, confidence, source, last_activity, timed_out, detail, checked_at,
+         availability, retry_after)
       VALUES
-        (@invocationId, @agentId, @ready, @confidence, @source, @lastActivity, @timedOut, @detail, @checkedAt)
+        (@invocationId, @agentId, @ready, @confidence, @source, @lastActivity, @timedOut, @detail, @checkedAt,
+         @availability, @retryAfter)
       ON CONFLICT(invocation_id, agent_id) DO UPDATE SET
         ready         = excluded.ready,
         confidence    = excluded.confidence,
@@ -214,7 +308,9 @@ export class InvocationStore {
         last_activity = excluded.last_activity,
         timed_out     = excluded.timed_out,
         detail        = excluded.detail,
-        checked_at    = excluded.checked_at
+        checked_at    = excluded.checked_at,
+        availability  = excluded.availability,
+        retry_after   = excluded.retry_after
     `);
 
     const runTransaction = this.db.transaction(() => {
@@ -229,39 +325,100 @@ export class InvocationStore {
           timedOut: (agent.timedOut ?? false) ? 1 : 0,
           detail: agent.detail ?? null,
           checkedAt: now,
+          availability: agent.unavailable ?? null,
+          retryAfter: agent.retryAfter ?? null,
         });
       }
 
-      // Derive invocation status from settled agents.
-      const allStatuses = this.stmtGetAgentStatuses.all(invocationId) as AgentStatusRow[];
-      const readyCount = allStatuses.filter(r => r.ready === 1).length;
-      const timedOutCount = allStatuses.filter(r => r.timed_out === 1).length;
-      const settledCount = readyCount + timedOutCount;
+      this.settleInvocation(invocationId, now);
+    });
+
+    runTransaction();
+  }
 
-      if (settledCount < allStatuses.length) {
-        return; // Some agents still pending — don't update invocation status yet.
-      }
+  /**
+   * Claim a pipeline step before invoking its agent.
+   * Returns false when the step was already claimed (by another poll or process).
+   * @param maxWaitMs - How long the step may run before it times out
+   */
+  claimStep(invocationId: number, agentId: string, invokedAt: string, maxWaitMs: number | null = null): boolean {
+    return this.stmtClaimStep.run({ invocationId, agentId, invokedAt, maxWaitMs }).changes > 0;
+  }
+
+  /**
+   * Append a step to a pipeline (used for fallback agents).
+   * Returns false when the agent is already part of the invocation.
+   */
+  appendStep(invocationId: number, agentId: string): boolean {
+    const now = new Date().toISOString();
 
-      let status: StoredInvocation['status'];
-      if (timedOutCount === 0) {
-        status = 'completed';
-      } else if (readyCount > 0) {
-        status = 'partial';
-      } else {
-        status = 'timed_out';
+    const runTransaction = this.db.transaction((): boolean => {
+      const inserted = this.db.prepare(`
+        INSERT INTO agent_status (invocation_id, agent_id, ready, timed_out, checked_at, step)
+        SELECT @invocationId, @agentId, 0, 0, @checkedAt, COALESCE(MAX(step), -1) + 1
+        FROM agent_status WHERE invocation_id = @invocationId
+        ON CONFLICT(invocation_id, agent_id) DO NOTHING
+      `).run({ invocationId, agentId, checkedAt: now });
+      if (inserted.changes === 0) return false;
+
+      const row = this.db
+        .prepare<[number], { agents: string }>(`SELECT agents FROM invocations WHERE id = ?`)
+        .get(invocationId);
+      if (row !== undefined) {
+        const agents = [...(JSON.parse(row.agents) as string[]), agentId];
+        this.db.prepare(`UPDATE invocations SET agents = ? WHERE id = ?`).run(JSON.stringify(agents), invocationId);
       }
+      return true;
+    });
 
-      this.stmtUpdateStatus.run({
-        id: invocationId,
-        status,
-        completedAt: now,
-        result: null,
-      });
+    return runTransaction();
+  }
+
+  /**
+   * Record that invoking a step's agent failed. The step counts as settled
+   * (timed out) so the pipeline moves on to the next agent.
+   */
+  failStep(invocationId: number, agentId: string, error: string): void {
+    const now = new Date().toISOString();
+
+    const runTransaction = this.db.transaction(() => {
+      this.stmtFailStep.run({ invocationId, agentId, error, checkedAt: now });
+      this.settleInvocation(invocationId, now);
     });
 
     runTransaction();
   }
 
+  /**
+   * Derive invocation status once every agent is ready, timed out or unavailable.
+   */
+  private settleInvocation(invocationId: number, now: string): void {
+    const allStatuses = this.stmtGetAgentStatuses.all(invocationId) as AgentStatusRow[];
+    const readyCount = allStatuses.filter(r => r.ready === 1).length;
+    const missedCount = allStatuses.filter(r => r.ready === 0 && (r.timed_out === 1 || r.availability !== null)).length;
+    const settledCount = readyCount + missedCount;
+
+    if (settledCount < allStatuses.length) {
+      return; // Some agents still pending — don't update invocation status yet.
+    }
+
+    let status: StoredInvocation['status'];
+    if (missedCount === 0) {
+      status = 'completed';
+    } else if (readyCount > 0) {
+      status = 'partial';
+    } else {
+      status = 'timed_out';
+    }
+
+    this.stmtUpdateStatus.run({
+      id: invocationId,
+      status,
+      completedAt: now,
+      result: null,
+    });
+  }
+
   /**
    * Explicitly set invocation status (e.g., after pr_await_reviews returns a final result).
    */
@@ -277,6 +434,39 @@ export class InvocationStore {
     });
   }
 
+  /**
+   * Record the comment that triggered an agent, so cancelling the invocation can remove it.
+   */
+  setTriggerComment(invocationId: number, agentId: string, commentId: string): void {
+    this.db
+      .prepare(`UPDATE agent_status SET trigger_comment_id = ? WHERE invocation_id = ? AND agent_id = ?`)
+      .run(commentId, invocationId, agentId);
+  }
+
+  /**
+   * Cancel an active invocation: it is marked stale, so pipelines stop invoking
+   * further steps and polls no longer pick it up.
+   * Returns false when the invocation is not active.
+   */
+  cancel(invocationId: number): boolean {
+    return this.db
+      .prepare(`
+        UPDATE invocations
+        SET status = 'stale', completed_at = ?, result = ?
+        WHERE id = ? AND status = 'active'
+      `)
+      .run(new Date().toISOString(), JSON.stringify({ cancelled: true }), invocationId).changes > 0;
+  }
+
+  /**
+   * Record the PR size (changed lines) once; later pushes don't change it.
+   */
+  setPrSize(invocationId: number, prSize: number): void {
+    this.db
+      .prepare(`UPDATE invocations SET pr_size = ? WHERE id = ? AND pr_size IS NULL`)
+      .run(prSize, invocationId);
+  }
+
   // ============================================================================
   // Reads
   // ============================================================================
@@ -290,6 +480,28 @@ export class InvocationStore {
     return row !== undefined ? rowToInvocation(row) : null;
   }
 
+  /**
+   * Get an invocation by id.
+   */
+  getInvocation(invocationId: number): StoredInvocation | null {
+    const row = this.db
+      .prepare<[number], InvocationRow>(`SELECT * FROM invocations WHERE id = ?`)
+      .get(invocationId);
+    return row !== undefined ? rowToInvocation(row) : null;
+  }
+
+  /**
+   * List active sequential pipelines (resumed by the pipeline runner after a restart).
+   */
+  listActivePipelines(): StoredInvocation[] {
+    const rows = this.db
+      .prepare<[], InvocationRow>(
+        `SELECT * FROM invocations WHERE status = 'active' AND mode = 'sequential' ORDER BY invoked_at`,
+      )
+      .all();
+    return rows.map(rowToInvocation);
+  }
+
   /**
    * List invocations matching the given filter. Defaults to last 50 entries.
    */
@@ -333,18 +545,63 @@ export class InvocationStore {
   }
 
   /**
-   * Retrieve all agent status rows for an invocation.
+   * Retrieve all agent status rows for an invocation, in pipeline step order.
    */
   getAgentStatuses(invocationId: number): StoredAgentStatus[] {
     return (this.stmtGetAgentStatuses.all(invocationId) as AgentStatusRow[]).map(rowToAgentStatus);
   }
 
+  /**
+   * List agent runs invoked at or after `since`, oldest first.
+   * Pipeline steps that were never invoked are excluded.
+   */
+  listAgentRuns(filter: {
+    since: string;
+    owner?: string;
+    repo?: string;
+    agentId?: string;
+  }): StoredAgentRun[] {
+    const conditions: string[] = ['invoked_at >= ?'];
+    const values: string[] = [filter.since];
+
+    if (filter.owner !== undefined) {
+      conditions.push('owner = ?');
+      values.push(filter.owner);
+    }
+    if (filter.repo !== undefined) {
+      conditions.push('repo = ?');
+      values.push(filter.repo);
+    }
+    if (filter.agentId !== undefined) {
+      conditions.push('agent_id = ?');
+      values.push(filter.agentId);
+    }
+
+    // Parallel rows recorded before schema v2 have no invoked_at; their invocation's since stands in
+    const rows = this.db
+      .prepare<string[], AgentRunRow>(`
+        SELECT * FROM (
+          SELECT a.invocation_id, i.owner, i.repo, i.pr, i.pr_size, a.agent_id,
+                 COALESCE(a.invoked_at, CASE WHEN i.mode = 'parallel' THEN i.since END) AS invoked_at,
+                 a.last_activity, a.ready, a.timed_out, a.availability, a.invoke_error
+          FROM agent_status a
+          JOIN invocations i ON i.id = a.invocation_id
+        )
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY invoked_at
+      `)
+      .all(...values);
+
+    return rows.map(rowToAgentRun);
+  }
+
   // ============================================================================
   // Lifecycle
   // ============================================================================
 
   /**
-   * Mark active invocations older than 30 minutes as stale.
+   * Mark active invocations older than 30 minutes as stale, unless a step was invoked
+   * within the last 30 minutes or is still running within its wait time plus 30 minutes.
    * Returns the number of rows updated.
    */
   reap(): number {
@@ -363,7 +620,7 @@ export class InvocationStore {
     const deleteTerminal = this.db.prepare(`
       DELETE FROM invocations
       WHERE status IN ('completed', 'partial', 'timed_out')
-        AND invoked_at < datetime('now', '-7 days')
+        AND invoked_at < datetime('now', '-30 days')
     `);
 
     const deleteStale = this.db.prepare(`
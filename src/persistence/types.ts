@@ -14,6 +14,11 @@ export interface StoredInvocation {
   status: 'active' | 'completed' | 'partial' | 'timed_out' | 'stale';
   completedAt: string | null;
   result: object | null;  // parsed from JSON column
+  /** 'sequential' invocations are pipelines: agents are invoked one step at a time */
+  mode: 'parallel' | 'sequential';
+  options: object | null; // invoke options reused for later pipeline steps
+  /** Changed lines (additions + deletions) when the PR was first polled */
+  prSize: number | null;
 }
 
 export interface StoredAgentStatus {
@@ -27,4 +32,35 @@ export interface StoredAgentStatus {
   timedOut: boolean;
   detail: string | null;
   checkedAt: string;      // ISO 8601
+  /** Position in the pipeline (0 for parallel invocations) */
+  step: number;
+  /** When this agent was invoked; null while a pipeline step is still waiting */
+  invokedAt: string | null;
+  /** Set when posting the invocation comment failed */
+  invokeError: string | null;
+  /** Set when the agent reported it is out of quota or can't review */
+  availability: 'quota_exhausted' | 'unavailable' | null;
+  /** When a quota-exhausted agent accepts requests again (ISO 8601), if known */
+  retryAfter: string | null;
+  /** GraphQL node ID of the comment that triggered the agent, if one was posted */
+  triggerCommentId: string | null;
+}
+
+/**
+ * One agent's part in an invocation, joined with its invocation (for analytics).
+ */
+export interface StoredAgentRun {
+  invocationId: number;
+  owner: string;
+  repo: string;
+  pr: number;
+  prSize: number | null;
+  agentId: string;
+  /** When the agent was invoked (ISO 8601) */
+  invokedAt: string;
+  lastActivity: string | null;
+  ready: boolean;
+  timedOut: boolean;
+  availability: StoredAgentStatus['availability'];
+  invokeError: string | null;
 }
@@ -304,7 +304,7 @@ pr_labels { owner, repo, pr, action: "get" }
 ### Step 2: PREFLIGHT
 \`\`\`
 pr_progress_update { phase: "preflight" }
-pr_get_work_status {}
+pr_get_work_status { pr_info: { owner, repo, pr } }
 \`\`\`
 - \`isActive && runAge < 300000\` → **ABORT** (another orchestrator)
 - \`isActive && runAge >= 300000\` → Stale, proceed
@@ -392,6 +392,7 @@ Load tools via MCPSearch:
 - "select:mcp__pr__pr_get"
 - "select:mcp__pr__pr_resolve"
 - "select:mcp__pr__pr_report_progress"
+- "select:mcp__pr__pr_heartbeat"
 
 ## Workflow Loop
 
@@ -399,7 +400,7 @@ Load tools via MCPSearch:
 \`\`\`
 pr_claim_work { agent_id: "worker-{N}", pr_info: { owner, repo, pr } }
 \`\`\`
-- "claimed" → proceed
+- "claimed" → proceed (keep partition.leaseToken for heartbeats and the report)
 - "no_work" → EXIT (run build first if you made changes)
 
 ### 2. PROCESS each threadId in partition.comments
@@ -413,6 +414,12 @@ pr_get { owner, repo, pr, id: threadId }
 pr_resolve { owner, repo, pr, threadId }
 \`\`\`
 
+If the partition takes longer than a few minutes, extend its lease between comments:
+\`\`\`
+pr_heartbeat { agent_id: "worker-{N}", file: partition.file, lease_token: partition.leaseToken }
+\`\`\`
+- "error" → the partition was reassigned: stop working on it and go to Step 1
+
 **IMPORTANT:** Call pr_resolve regardless of canResolve value.
 The server handles synthetic comments, Qodo issues, and permission errors internally.
 If permission error occurs, report in pr_report_progress errors array.
@@ -422,10 +429,17 @@ If permission error occurs, report in pr_report_progress errors array.
 pr_report_progress {
   agent_id: "worker-{N}",
   file: partition.file,
+  lease_token: partition.leaseToken,
   status: "done",
-  result: { commentsProcessed: N, commentsResolved: N, errors: [] }
+  result: { commentsProcessed: N, commentsResolved: N, errors: [] },
+  outcomes: [
+    { threadId, outcome: "fixed", note: "Added null check" },
+    { threadId, outcome: "dismissed", reason: "false_positive", note: "Value is validated by the schema" }
+  ]
 }
 \`\`\`
+- One outcome per threadId: fixed, dismissed (reason: false_positive | wont_fix | out_of_scope | deferred), deferred or failed
+- Add commitSha when you committed the fix; keep notes to one sentence
 
 ### 4. LOOP
 Return to Step 1 (claim next partition).
@@ -458,7 +472,7 @@ Poll \`pr_get_work_status\` every 15s. Check progress.pending, progress.claimed,
 
 **Final validation:**
 \`\`\`
-pr_get_work_status {}
+pr_get_work_status { pr_info: { owner, repo, pr } }
 \`\`\`
 - Confirms all partitions complete (\`progress.pending === 0 && progress.claimed === 0\`)
 - **Check progress.failed:** If any workers reported resolution failures, investigate
@@ -482,6 +496,7 @@ pr_progress_update { phase: "build_test" }
 ### Step 9: COMPLETION
 \`\`\`
 pr_progress_update { phase: "complete" }
+pr_review_report { owner, repo, pr, post: true }
 pr_labels { owner, repo, pr, action: "set", labels: ["ai-review:passed"] }
 \`\`\`
 
@@ -913,6 +928,7 @@ function generateBatchPrompt(context: PromptContext, delegation: boolean = true)
 **Config:** agents=${envConfig.agents.join(',')} | mode=${envConfig.mode} | workers=${desiredWorkers}
 
 Process ${envConfig.mode === 'parallel' ? 'in parallel' : 'sequentially'}, starting with ${targets[0].owner}/${targets[0].repo}#${targets[0].pr}.
+Each PR has its own coordination run: always pass that PR's pr_info to pr_claim_work and pr_get_work_status, and never reset coordination between PRs.
 
 ---
 
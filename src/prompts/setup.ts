@@ -9,11 +9,12 @@
  * - /pr:setup owner/repo     → Setup for specific repo
  */
 
-import { getOctokit } from '../github/octokit.js';
-import type { Octokit } from '@octokit/rest';
+import { loadRepoConfig, REPO_CONFIG_PATH } from '../github/repo-config.js';
 import {
-  INVOKABLE_AGENTS,
-  getEnvConfig
+  agentScope,
+  getAgentConfig,
+  getEnvConfig,
+  getInvokableAgentIds
 } from '../agents/registry.js';
 
 // ============================================================================
@@ -25,56 +26,6 @@ export interface SetupPromptArgs {
   repo?: string;
 }
 
-// ============================================================================
-// Config Reader
-// ============================================================================
-
-interface RepoConfig {
-  version?: number;
-  invoke?: {
-    agents?: string[];
-    defaults?: {
-      focus?: string;
-      incremental?: boolean;
-    };
-  };
-}
-
-async function readRepoConfig(
-  owner: string,
-  repo: string,
-  octokit?: Octokit
-): Promise<{ exists: boolean; config?: RepoConfig; error?: string }> {
-  try {
-    const ok = octokit ?? getOctokit();
-    const { data } = await ok.repos.getContent({
-      owner,
-      repo,
-      path: '.github/pr-review.json'
-    });
-
-    if (Array.isArray(data) || data.type !== 'file' || !('content' in data) || !data.content) {
-      return { exists: false };
-    }
-
-    const content = Buffer.from(data.content, 'base64').toString('utf-8');
-    try {
-      const config: RepoConfig = JSON.parse(content);
-      return { exists: true, config };
-    } catch (parseError) {
-      return { exists: true, error: 'Invalid JSON in config file' };
-    }
-  } catch (error) {
-    // A 404 is expected if the file doesn't exist. Other errors (e.g., auth) are not.
-    if (error && typeof error === 'object' && 'status' in error && (error as { status: number }).status === 404) {
-      return { exists: false };
-    }
-    // Log unexpected errors for debugging but still return exists: false to avoid breaking the prompt
-    console.error(`[readRepoConfig] Unexpected error fetching config for ${owner}/${repo}:`, error);
-    return { exists: false, error: 'Failed to fetch config' };
-  }
-}
-
 // ============================================================================
 // Prompt Generator
 // ============================================================================
@@ -97,10 +48,7 @@ export async function generateSetupPrompt(
     }
   }
 
-  // Build agent table
-  const agentRows = Object.entries(INVOKABLE_AGENTS)
-    .map(([id, cfg]) => `| \`${id}\` | ${cfg.name} | ${cfg.type} | ${cfg.supports.join(', ') || 'none'} |`)
-    .join('\n');
+  const scope = owner && repo ? agentScope(owner, repo) : undefined;
 
   // Current env config
   const envConfig = getEnvConfig();
@@ -109,8 +57,9 @@ export async function generateSetupPrompt(
   // Repo config (if we have owner/repo)
   let repoConfigSection = '';
   if (owner && repo) {
-    const { exists, config, error } = await readRepoConfig(owner, repo);
-    if (exists && config) {
+    // Loading the config also registers its custom agents for this repository
+    const config = await loadRepoConfig(owner, repo);
+    if (config) {
       const repoAgents = config.invoke?.agents?.join(', ') || 'not specified';
       repoConfigSection = `
 ### Current Repo Config (\`.github/pr-review.json\`)
@@ -118,25 +67,21 @@ export async function generateSetupPrompt(
 ${JSON.stringify(config, null, 2)}
 \`\`\`
 - Agents: ${repoAgents}
-`;
-    } else if (exists && error) {
-      repoConfigSection = `
-### Repo Config: ERROR
-\`.github/pr-review.json\` exists in \`${owner}/${repo}\` but could not be read: ${error}
-`;
-    } else if (error) {
-      repoConfigSection = `
-### Repo Config: ACCESS ERROR
-Failed to check \`.github/pr-review.json\` in \`${owner}/${repo}\`: ${error}
 `;
     } else {
       repoConfigSection = `
 ### Repo Config: NOT FOUND
-\`.github/pr-review.json\` does not exist in \`${owner}/${repo}\`.
+\`${REPO_CONFIG_PATH}\` does not exist in \`${owner}/${repo}\`, is not valid JSON, or could not be read with the current token.
 `;
     }
   }
 
+  // Build agent table (after the repo config so its custom agents are listed)
+  const agentRows = getInvokableAgentIds(scope)
+    .map(id => ({ id, cfg: getAgentConfig(id, scope)! }))
+    .map(({ id, cfg }) => `| \`${id}\` | ${cfg.name} | ${cfg.type} | ${cfg.supports.join(', ') || 'none'} |`)
+    .join('\n');
+
   // Need to infer repo
   const inferSection = (!owner || !repo) ? `
 ## Step 1: Identify Repository
@@ -200,6 +145,7 @@ Create \`.github/pr-review.json\` in the repository to configure which agents ar
 | \`invoke.agents\` | string[] | Agent IDs to invoke with \`agent: "all"\` |
 | \`invoke.defaults.focus\` | string | Default review focus |
 | \`invoke.defaults.incremental\` | boolean | Default to incremental reviews |
+| \`customAgents\` | object | Custom review agents keyed by ID (\`name\`, \`command\`, \`type\`, \`supports\`, \`authorPattern\`, \`completionStrategy\`) |
 
 ## Action
 
@@ -30,9 +30,15 @@ import { toMcpError } from './tools/shared.js';
 import { prSummary, SummaryInputSchema, SummaryOutputSchema } from './tools/summary.js';
 import { prList, ListInputSchema, ListOutputSchema } from './tools/list.js';
 import { prGet, GetInputSchema, GetOutputSchema } from './tools/get.js';
-import { prResolveWithContext, ResolveInputSchema } from './tools/resolve.js';
+import { prResolve, ResolveInputSchema } from './tools/resolve.js';
+import { prUnresolveWithContext, UnresolveInputSchema } from './tools/unresolve.js';
+import { prReply, ReplyInputSchema } from './tools/reply.js';
+import { prApplySuggestion, ApplySuggestionInputSchema } from './tools/apply-suggestion.js';
+import { prDismiss, DismissInputSchema } from './tools/dismiss.js';
 import { prChanges, ChangesInputSchema } from './tools/changes.js';
 import { prInvoke, InvokeInputSchema } from './tools/invoke.js';
+import { prCancelInvocation, CancelInvocationInputSchema } from './tools/cancel.js';
+import { prAgentCommand, AgentCommandInputSchema } from './tools/agent-command.js';
 import { prPollUpdates, PollInputSchema } from './tools/poll.js';
 import { prAwaitReviews, AwaitInputSchema, type AwaitInput } from './tools/await-reviews.js';
 import { prLabels, LabelsInputSchema } from './tools/labels.js';
@@ -41,15 +47,18 @@ import { prCreate, CreateInputSchema } from './tools/create.js';
 import { prMerge, MergeInputSchema } from './tools/merge.js';
 import { prListPRs, ListPRsInputSchema } from './tools/list-prs.js';
 import { prSessions, SessionsInputSchema } from './tools/sessions.js';
+import { prAgentStats, AgentStatsInputSchema } from './tools/agent-stats.js';
 import {
   prClaimWork,
   prReportProgress,
+  prHeartbeat,
   prGetWorkStatus,
   prResetCoordination,
   prProgressUpdate,
   prProgressCheck,
   ClaimWorkSchema,
   ReportProgressSchema,
+  HeartbeatSchema,
   GetWorkStatusSchema,
   ResetCoordinationSchema,
   ProgressUpdateSchema,
@@ -57,6 +66,7 @@ import {
   WorkStatusOutputSchema,
   ProgressCheckOutputSchema,
 } from './tools/coordination.js';
+import { prReviewReport, ReviewReportInputSchema, ReviewReportOutputSchema } from './tools/review-report.js';
 
 // Prompts
 import {
@@ -78,6 +88,8 @@ import { MuxSessionManager } from './session/manager.js';
 // Persistence
 import { openDatabase } from './persistence/database.js';
 import { InvocationStore } from './persistence/invocation-store.js';
+import { PipelineRunner } from './agents/pipeline.js';
+import { handleWebhookRequest, type WebhookIngestResult } from './github/webhooks.js';
 
 // Resources
 import { readPRResource } from './resources/pr.js';
@@ -95,6 +107,8 @@ export class PRReviewMCPServer {
   private githubClient: GitHubClient;
   private httpServer?: import('node:http').Server;
   private sessionManager: MuxSessionManager;
+  private pipelineRunner?: PipelineRunner;
+  private invocationStore?: InvocationStore;
 
   constructor() {
     this.mcpServer = new McpServer(
@@ -117,9 +131,20 @@ export class PRReviewMCPServer {
     const db = openDatabase();
     this.sessionManager.setDatabase(db);
     if (db) {
-      const gcStore = new InvocationStore(db);
-      gcStore.gc(); // Purge expired records on startup
-      setInterval(() => gcStore.gc(), 60 * 60 * 1000).unref(); // Every 60 minutes
+      const store = new InvocationStore(db);
+      this.invocationStore = store;
+      store.gc(); // Purge expired records on startup
+      setInterval(() => store.gc(), 60 * 60 * 1000).unref(); // Every 60 minutes
+
+      // Sequential pipelines advance in the background, on behalf of the session that started them
+      this.pipelineRunner = new PipelineRunner(
+        store,
+        sessionId => this.sessionManager.findContext(sessionId)?.octokit ?? null,
+        inv => {
+          this.mcpServer.server.sendResourceUpdated({ uri: `pr://${inv.owner}/${inv.repo}/${inv.pr}` })
+            .catch(() => { /* no client connected */ });
+        },
+      );
     }
 
     logger.initialize(this.mcpServer.server);
@@ -246,7 +271,7 @@ export class PRReviewMCPServer {
 
     this.mcpServer.registerTool('pr_list', {
       title: 'List PR Review Comments',
-      description: 'List PR review comments with optional filtering by resolved/file/severity',
+      description: 'List PR review comments from all sources. Filter by resolved/outdated/file/author, severity (exact or minSeverity), source, hasAiPrompt and createdAfter; sort by severity, file or createdAt. When hasMore is true, pass the returned cursor with the same filter and sort to get the next page.',
       inputSchema: ListInputSchema,
       outputSchema: ListOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
@@ -258,13 +283,13 @@ export class PRReviewMCPServer {
 
     this.mcpServer.registerTool('pr_get', {
       title: 'Get Detailed Comment Information',
-      description: 'Get detailed comment information including full body and AI prompt',
+      description: 'Get detailed comment information including full body, AI prompt and diff position (diffHunk, startLine, originalLine, originalCommit, diffSide). Set contextLines to also return the surrounding file content at the PR head SHA.',
       inputSchema: GetInputSchema,
       outputSchema: GetOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     }, async (args, extra) => {
       const ctx = this.sessionManager.getContext(extra);
-      try { return PRReviewMCPServer.structuredResult(await prGet(args, ctx.githubClient)); }
+      try { return PRReviewMCPServer.structuredResult(await prGet(args, ctx.githubClient, ctx.octokit)); }
       catch (e) { throw toMcpError(e); }
     });
 
@@ -292,9 +317,9 @@ export class PRReviewMCPServer {
 
     this.mcpServer.registerTool('pr_await_reviews', {
       title: 'Check Agent Review Completion',
-      description: 'Non-blocking: checks agent review completion status once and returns immediately. Use after pr_invoke — pass the `since` field. Returns retryAfterMs hint if agents are still pending (call again after that delay). Per-agent timeouts via maxWaitMs mark agents that likely won\'t respond.',
+      description: 'Non-blocking: checks agent review completion status once and returns immediately. Use after pr_invoke — pass the `since` field. Returns a per-agent eta and a retryAfterMs hint if agents are still pending (call again after that delay). Per-agent timeouts (maxWaitMs, learned from completion history) mark agents that likely won\'t respond. For a sequential pipeline each poll also invokes the next agent once the current one settles.',
       inputSchema: AwaitInputSchema,
-      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     }, async (args, extra) => {
       const ctx = this.sessionManager.getContext(extra);
       try {
@@ -310,18 +335,70 @@ export class PRReviewMCPServer {
 
     this.mcpServer.registerTool('pr_resolve', {
       title: 'Resolve Review Thread',
-      description: 'Mark a review thread as resolved',
+      description: 'Mark a review thread as resolved. Pass threadIds to resolve several threads in one call; each ID gets its own result and failures do not stop the rest of the batch. When the thread has duplicates from other agents (duplicateGroup in pr_list), resolving it offers to resolve the whole group; set resolveDuplicates to skip the prompt.',
       inputSchema: ResolveInputSchema,
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     }, async (args, extra) => {
       const ctx = this.sessionManager.getContext(extra);
-      try { return PRReviewMCPServer.textResult(await prResolveWithContext(args, ctx.githubClient, ctx.coordination)); }
+      // Offer to resolve cross-agent duplicates; a declined prompt keeps the offer in the output.
+      // Without elicitation support there is nobody to ask, so duplicates aren't looked up.
+      const confirmDuplicates = this.mcpServer.server.getClientCapabilities()?.elicitation
+        ? (duplicates: { threadIds: string[] }) => this.elicitConfirmation(
+          `Also resolve ${duplicates.threadIds.length} duplicate comment(s) from other agents flagging the same issue?`,
+          extra,
+        ).catch(() => false)
+        : undefined;
+      try { return PRReviewMCPServer.textResult(await prResolve(args, ctx.githubClient, ctx.coordination, confirmDuplicates)); }
+      catch (e) { throw toMcpError(e); }
+    });
+
+    this.mcpServer.registerTool('pr_unresolve', {
+      title: 'Unresolve Review Thread',
+      description: 'Reopen a resolved review thread. Accepts the same IDs as pr_resolve; synthetic nitpicks, Qodo issues and multi-issue children are reopened in the state or tracker comment.',
+      inputSchema: UnresolveInputSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try { return PRReviewMCPServer.textResult(await prUnresolveWithContext(args, ctx.githubClient, ctx.coordination)); }
+      catch (e) { throw toMcpError(e); }
+    });
+
+    this.mcpServer.registerTool('pr_reply', {
+      title: 'Reply to Review Thread',
+      description: 'Post a reply to a review thread, optionally resolving it. Synthetic comments (CodeRabbit nitpicks, Qodo, Greptile) are answered on the PR timeline; multi-issue children are answered on their parent thread.',
+      inputSchema: ReplyInputSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try { return PRReviewMCPServer.textResult(await prReply(args, ctx.githubClient, ctx.coordination, ctx.octokit)); }
+      catch (e) { throw toMcpError(e); }
+    });
+
+    this.mcpServer.registerTool('pr_dismiss', {
+      title: 'Dismiss Review Comment',
+      description: 'Dismiss a review comment without fixing it: posts the rationale as a reply, resolves the thread, and records the reason (false_positive, wont_fix, out_of_scope, deferred) so pr_summary reports fixed and dismissed counts separately.',
+      inputSchema: DismissInputSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try { return PRReviewMCPServer.textResult(await prDismiss(args, ctx.githubClient, ctx.coordination, ctx.octokit)); }
+      catch (e) { throw toMcpError(e); }
+    });
+
+    this.mcpServer.registerTool('pr_apply_suggestion', {
+      title: 'Apply Suggestion Locally',
+      description: 'Parse a ```suggestion or ```diff block from a review comment into a patch (file, line range, replacement), verify the local file still matches the commented lines, then apply it or report a conflict. Use dryRun to preview.',
+      inputSchema: ApplySuggestionInputSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try { return PRReviewMCPServer.textResult(await prApplySuggestion(args, ctx.githubClient)); }
       catch (e) { throw toMcpError(e); }
     });
 
     this.mcpServer.registerTool('pr_invoke', {
       title: 'Invoke AI Code Review Agents',
-      description: 'Invoke AI code review agents on a PR. When agent="all", agents are resolved from: (1) .github/pr-review.json in repo, (2) PR_REVIEW_AGENTS env var, (3) default (coderabbit only). Use pr:setup prompt to configure per-repo agents. Smart detection skips agents that already reviewed (use force to override).',
+      description: 'Invoke AI code review agents on a PR. When agent="all", agents are resolved from: (1) .github/pr-review.json in repo, (2) PR_REVIEW_AGENTS env var, (3) default (coderabbit only). Use pr:setup prompt to configure per-repo agents. Agents that already reviewed are re-invoked only for files changed since their last review (as files or incremental when supported) and skipped when nothing changed; force re-invokes them for a full review. In sequential mode (PR_REVIEW_MODE, default) agent="all" starts a server-side pipeline: agents are invoked one at a time, each after the previous completes or times out.',
       inputSchema: InvokeInputSchema,
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
     }, async (args, extra) => {
@@ -330,6 +407,32 @@ export class PRReviewMCPServer {
       catch (e) { throw toMcpError(e); }
     });
 
+    this.mcpServer.registerTool('pr_agent_command', {
+      title: 'Send Agent Command',
+      description: 'Send a command from a review agent\'s catalog: CodeRabbit full_review/pause/resume/resolve/summary/explain, Sourcery summary/guide/resolve/dismiss, Qodo improve/describe/ask, Gemini summary/explain. The command is validated against the agent\'s catalog before posting. Commands that produce a review or reply return a trackingId and are recorded so pr_await_reviews can wait for them.',
+      inputSchema: AgentCommandInputSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try { return PRReviewMCPServer.textResult(await prAgentCommand(args, ctx.octokit, ctx.invocationStore, ctx.sessionId)); }
+      catch (e) { throw toMcpError(e); }
+    });
+
+    this.mcpServer.registerTool('pr_cancel_invocation', {
+      title: 'Cancel Invocation',
+      description: 'Cancel an active invocation started by pr_invoke (default: the latest one for the PR): mark it stale so a sequential pipeline stops invoking agents, and minimize (default) or delete the trigger comments it posted. Pass retrigger to invoke a single agent again with new options. Agents that already started reviewing may still post.',
+      inputSchema: CancelInvocationInputSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try {
+        const result = await prCancelInvocation(args, ctx.githubClient, ctx.invocationStore, ctx.octokit, ctx.sessionId);
+        this.mcpServer.server.sendResourceUpdated({ uri: `pr://${args.owner}/${args.repo}/${args.pr}` })
+          .catch(() => { /* no client connected */ });
+        return PRReviewMCPServer.textResult(result);
+      } catch (e) { throw toMcpError(e); }
+    });
+
     this.mcpServer.registerTool('pr_labels', {
       title: 'Manage PR Labels',
       description: 'Get, add, remove, or set labels on a PR',
@@ -390,18 +493,18 @@ export class PRReviewMCPServer {
 
     this.mcpServer.registerTool('pr_claim_work', {
       title: 'Claim Work Partition',
-      description: 'Claim file partition for parallel PR review processing',
+      description: 'Claim a partition of unresolved comments for parallel PR review processing. A call that starts a run can pick the partitioning strategy (per file, per directory, balanced batches or line regions)',
       inputSchema: ClaimWorkSchema,
       annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
     }, async (args, extra) => {
       const ctx = this.sessionManager.getContext(extra);
-      try { return PRReviewMCPServer.textResult(await prClaimWork(args, ctx.githubClient, ctx.coordination)); }
+      try { return PRReviewMCPServer.textResult(await prClaimWork(args, ctx.githubClient, ctx.coordination, ctx.octokit)); }
       catch (e) { throw toMcpError(e); }
     });
 
     this.mcpServer.registerTool('pr_report_progress', {
       title: 'Report Work Progress',
-      description: 'Report completion status for a claimed file partition',
+      description: 'Report completion status for a claimed partition. Pass the lease token from pr_claim_work (omitting it is deprecated); reports under a lease that was reassigned are rejected. Include an outcome per thread (fixed, dismissed with reason, deferred or failed, with the commit SHA and a short note)',
       inputSchema: ReportProgressSchema,
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
     }, async (args, extra) => {
@@ -410,9 +513,20 @@ export class PRReviewMCPServer {
       catch (e) { throw toMcpError(e); }
     });
 
+    this.mcpServer.registerTool('pr_heartbeat', {
+      title: 'Extend Partition Lease',
+      description: 'Extend the lease on a claimed partition while still working on it. Leases expire 5 minutes after the claim or the last heartbeat, after which the partition can be reassigned',
+      inputSchema: HeartbeatSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try { return PRReviewMCPServer.textResult(await prHeartbeat(args, ctx.coordination)); }
+      catch (e) { throw toMcpError(e); }
+    });
+
     this.mcpServer.registerTool('pr_get_work_status', {
       title: 'Get Work Status',
-      description: 'Get current coordination run status and progress',
+      description: 'Get coordination run status and progress for a run (run_id or pr_info; default: the most recent run), the outcome reported for each of its threads, plus a summary of every run',
       inputSchema: GetWorkStatusSchema,
       outputSchema: WorkStatusOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
@@ -424,14 +538,16 @@ export class PRReviewMCPServer {
 
     this.mcpServer.registerTool('pr_reset_coordination', {
       title: 'Reset Coordination State',
-      description: 'Reset/clear the current coordination run. Uses interactive elicitation for confirmation when supported, falls back to confirm=true parameter.',
+      description: 'Reset/clear coordination runs: the run selected by run_id or pr_info, or all runs. Uses interactive elicitation for confirmation when supported, falls back to confirm=true parameter.',
       inputSchema: ResetCoordinationSchema,
       annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
     }, async (args, extra) => {
       try {
         if (!args.confirm) {
           const confirmed = await this.elicitConfirmation(
-            'Reset the current coordination run? This will clear all partition state.',
+            args.run_id !== undefined || args.pr_info
+              ? 'Reset the selected coordination run? This will clear its partition state.'
+              : 'Reset all coordination runs? This will clear all partition state.',
             extra,
           );
           if (!confirmed) {
@@ -457,7 +573,7 @@ export class PRReviewMCPServer {
 
     this.mcpServer.registerTool('pr_progress_check', {
       title: 'Check Orchestrator Progress',
-      description: 'Check orchestrator progress and run status in a single call',
+      description: 'Check orchestrator progress and run status in a single call (totals across all runs and a summary per run)',
       inputSchema: ProgressCheckSchema,
       outputSchema: ProgressCheckOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
@@ -467,9 +583,21 @@ export class PRReviewMCPServer {
       catch (e) { throw toMcpError(e); }
     });
 
+    this.mcpServer.registerTool('pr_review_report', {
+      title: 'Review Report',
+      description: 'Build a Markdown report of a PR\'s coordination run: comments per source and severity, the outcome reported for each comment and by which worker, commits pushed since the run started, time per orchestrator phase and comments left open. With post: true, posts it as a PR comment that later reports update in place.',
+      inputSchema: ReviewReportInputSchema,
+      outputSchema: ReviewReportOutputSchema,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try { return PRReviewMCPServer.structuredResult(await prReviewReport(args, ctx.githubClient, ctx.coordination, ctx.octokit)); }
+      catch (e) { throw toMcpError(e); }
+    });
+
     this.mcpServer.registerTool('pr_sessions', {
       title: 'List Review Sessions',
-      description: 'List active and recent review invocations across sessions. Shows which agents were invoked, their completion status, and elapsed time. Useful for recovery after crash/compaction.',
+      description: 'List active and recent review invocations across sessions. Shows which agents were invoked, their completion status, and elapsed time; sequential pipelines include per-step status. Useful for recovery after crash/compaction.',
       inputSchema: SessionsInputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
     }, async (args, extra) => {
@@ -478,6 +606,20 @@ export class PRReviewMCPServer {
       catch (e) { throw toMcpError(e); }
     });
 
+    this.mcpServer.registerTool('pr_agent_stats', {
+      title: 'Agent Performance Statistics',
+      description: 'Per-agent performance by repository over the last N days (default 7, max 30): median/p90 time to complete, timeout rate, runs that were unavailable or failed, and comments produced with the share later resolved versus dismissed. Built from the invocation history in SQLite; set includeComments=false to skip the GitHub calls for comment outcomes.',
+      inputSchema: AgentStatsInputSchema,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    }, async (args, extra) => {
+      const ctx = this.sessionManager.getContext(extra);
+      try {
+        return PRReviewMCPServer.structuredResult(
+          await prAgentStats(args, ctx.invocationStore, ctx.githubClient, ctx.octokit),
+        );
+      } catch (e) { throw toMcpError(e); }
+    });
+
   }
 
   // --------------------------------------------------------------------------
@@ -548,6 +690,9 @@ export class PRReviewMCPServer {
   async run(options: { mode?: 'stdio' | 'http'; port?: number } = {}): Promise<void> {
     const { mode = 'stdio', port = 3000 } = options;
 
+    // Resume pipelines left active by a previous run
+    this.pipelineRunner?.start();
+
     // Check prerequisites — warn if no token in env (session-aware mode gets tokens from _meta.muxEnv)
     try {
       this.githubClient.checkPrerequisites();
@@ -589,11 +734,20 @@ export class PRReviewMCPServer {
     }, 60_000);
     cleanupInterval.unref(); // Don't prevent process exit
 
+    // Push-based agent completion; the endpoint only exists with a secret to verify deliveries
+    const webhookSecret = process.env.GITHUB_WEBHOOK_SECRET;
+
     this.httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
       try {
         const url = req.url ?? '/';
 
-        if (url === '/mcp' || url === '/') {
+        if (webhookSecret && url.split('?')[0] === '/webhooks/github') {
+          await handleWebhookRequest(req, res, {
+            secret: webhookSecret,
+            store: this.invocationStore ?? null,
+            onIngested: result => this.onWebhookIngested(result),
+          });
+        } else if (url === '/mcp' || url === '/') {
           const sessionId = req.headers['mcp-session-id'] as string | undefined;
 
           if (req.method === 'POST' || req.method === 'GET' || req.method === 'DELETE') {
@@ -644,6 +798,23 @@ export class PRReviewMCPServer {
 
     this.httpServer.listen(port, () => {
       console.error(`PR Review MCP server running on http://localhost:${port}/mcp`);
+      if (webhookSecret) {
+        console.error(`GitHub webhooks accepted on http://localhost:${port}/webhooks/github`);
+      }
     });
   }
+
+  /**
+   * Notify subscribers of PRs touched by a webhook delivery, and advance
+   * pipelines right away instead of on the runner's next tick
+   */
+  private onWebhookIngested(result: WebhookIngestResult): void {
+    for (const { owner, repo, pr } of result.targets) {
+      this.mcpServer.server.sendResourceUpdated({ uri: `pr://${owner}/${repo}/${pr}` })
+        .catch(() => { /* no client connected */ });
+    }
+    if (result.pipelines.length > 0) {
+      void this.pipelineRunner?.tick();
+    }
+  }
 }
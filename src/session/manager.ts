@@ -77,6 +77,22 @@ export class MuxSessionManager {
     return ctx;
   }
 
+  /**
+   * Get an existing context without creating one (background work has no request _meta).
+   * The default session is created on demand when process.env provides a token.
+   */
+  findContext(sessionId: string): MuxSessionContext | null {
+    const existing = this.sessions.get(sessionId);
+    if (existing) return existing;
+    if (sessionId !== DEFAULT_SESSION_ID) return null;
+
+    try {
+      return this.getContextFromMeta({ sessionId, env: {} });
+    } catch {
+      return null; // No token in process.env
+    }
+  }
+
   /** Number of active sessions */
   get size(): number {
     return this.sessions.size;
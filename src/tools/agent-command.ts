@@ -0,0 +1,116 @@
+/**
+ * pr_agent_command tool - Send a catalog command to a review agent
+ *
+ * Commands are validated against the agent's catalog in the registry (pause,
+ * resume, full review, summary, explain, ...). Commands with a completion
+ * pattern are recorded as an invocation so pr_await_reviews can track them.
+ */
+
+import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
+import { StructuredError } from '../github/client.js';
+import { agentScope, commandTrackingId, getAgentConfig, getInvokableAgentIds, isInvokableAgent } from '../agents/registry.js';
+import { buildAgentCommand, postInvocationComment } from '../agents/invoker.js';
+import { logger } from '../logging.js';
+import type { InvocationStore } from '../persistence/invocation-store.js';
+
+// ============================================================================
+// Input/Output Schemas
+// ============================================================================
+
+export const AgentCommandInputSchema = z.object({
+  owner: z.string().min(1, 'Repository owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr: z.number().int().positive('PR number must be positive'),
+  agent: z.string().min(1, 'Agent is required').describe('Agent ID: coderabbit, sourcery, qodo or gemini'),
+  command: z.string().min(1, 'Command is required')
+    .describe('Command name from the agent\'s catalog, e.g. full_review, pause, resume, resolve, summary, explain, improve, describe, ask'),
+  args: z.string().max(2000).optional().describe('Arguments for commands that take them (e.g. the question for explain/ask)'),
+});
+
+export type AgentCommandInput = z.infer<typeof AgentCommandInputSchema>;
+
+export interface AgentCommandOutput {
+  success: boolean;
+  agent: string;
+  command: string;
+  /** Comment that was posted */
+  body: string;
+  commentUrl: string | null;
+  /** Agent ID to pass to pr_await_reviews; null when the command can't be tracked */
+  trackingId: string | null;
+  /** ISO timestamp of the command — use as `since` parameter for pr_await_reviews */
+  since: string;
+  /** Invocation record id (when the command is tracked and SQLite persistence is available) */
+  invocationId?: number;
+  awaitHint: string;
+  message: string;
+}
+
+// ============================================================================
+// Tool Function
+// ============================================================================
+
+/**
+ * Post a command from an agent's catalog
+ */
+export async function prAgentCommand(
+  input: AgentCommandInput,
+  octokit?: Octokit,
+  invocationStore?: InvocationStore | null,
+  sessionId?: string,
+): Promise<AgentCommandOutput> {
+  const { owner, repo, pr, agent, command, args } = AgentCommandInputSchema.parse(input);
+
+  // Local agents run a command instead of reading comments, so they have no catalog
+  const scope = agentScope(owner, repo);
+  const config = isInvokableAgent(agent, scope) ? getAgentConfig(agent, scope) : undefined;
+  if (!config || config.type === 'local') {
+    throw new StructuredError(
+      'parse',
+      `Unknown agent: ${agent}. Valid agents: ${getInvokableAgentIds(scope).join(', ')}`,
+      false
+    );
+  }
+  const body = buildAgentCommand(agent, command, args);
+  const trackingId = commandTrackingId(agent, command);
+
+  // Capture 1s before posting to avoid strict > filtering missing same-second events
+  const since = new Date(Date.now() - 1000).toISOString();
+  const result = await postInvocationComment(owner, repo, pr, body, config, octokit);
+
+  const output: AgentCommandOutput = {
+    success: result.success,
+    agent,
+    command,
+    body,
+    commentUrl: result.commentUrl,
+    trackingId,
+    since,
+    awaitHint: result.success && trackingId
+      ? `Call pr_await_reviews with since="${since}" and agents=${JSON.stringify([trackingId])} to wait for ${config.name}'s response.`
+      : 'This command is not tracked — no need to call pr_await_reviews.',
+    message: result.success ? `Posted "${body}" for ${config.name}` : result.message,
+  };
+
+  if (result.success && trackingId && invocationStore) {
+    try {
+      output.invocationId = invocationStore.record({
+        owner,
+        repo,
+        pr,
+        sessionId: sessionId ?? 'default',
+        agents: [trackingId],
+        since,
+        options: { command, ...(args && { args }) },
+      });
+      if (result.commentId) {
+        invocationStore.setTriggerComment(output.invocationId, trackingId, result.commentId);
+      }
+    } catch (e) {
+      logger.warning(`[agent-command] Failed to record invocation: ${e}`);
+    }
+  }
+
+  return output;
+}
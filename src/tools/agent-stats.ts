@@ -0,0 +1,204 @@
+/**
+ * pr_agent_stats tool — per-agent performance analytics.
+ *
+ * Completion times and timeout rates come from the SQLite invocation history.
+ * Comment outcomes are counted on the PRs those agents were invoked on:
+ * resolved threads count as fixed unless the state comment records a dismissal
+ * (a dismissed comment that was reopened counts as open, as in pr_summary).
+ */
+
+import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
+import { GitHubClient } from '../github/client.js';
+import { fetchAllThreads } from './shared.js';
+import { fetchQodoReview, qodoToNormalizedComments } from '../adapters/qodo.js';
+import { fetchGreptileReview, greptileToNormalizedComments } from '../adapters/greptile.js';
+import { getTrackerResolvedMap } from '../adapters/qodo-tracker.js';
+import { loadState } from '../github/state-comment.js';
+import { loadRepoConfig } from '../github/repo-config.js';
+import { summarizeRuns, tallyComments, type AgentStats } from '../agents/stats.js';
+import { parseLocalFindingId } from '../agents/local.js';
+import { logger } from '../logging.js';
+import type { InvocationStore } from '../persistence/invocation-store.js';
+import type { StoredAgentRun } from '../persistence/types.js';
+
+/** Completed invocations are kept in SQLite for 30 days */
+const MAX_DAYS = 30;
+
+/** PRs scanned for comment outcomes per call (most recently invoked first) */
+const MAX_PRS = 25;
+
+// ============================================================================
+// Input/Output Schemas
+// ============================================================================
+
+export const AgentStatsInputSchema = z.object({
+  owner: z.string().min(1).optional().describe('Filter by repository owner'),
+  repo: z.string().min(1).optional().describe('Filter by repository name'),
+  agent: z.string().min(1).optional().describe('Filter by agent ID'),
+  days: z.number().int().positive().max(MAX_DAYS).optional().default(7)
+    .describe(`Time window in days, counted back from now (default: 7, max: ${MAX_DAYS})`),
+  includeComments: z.boolean().optional().default(true)
+    .describe(`Count comments and their outcomes on the invoked PRs (up to ${MAX_PRS} PRs; costs GitHub API calls)`),
+});
+
+export type AgentStatsInput = z.input<typeof AgentStatsInputSchema>;
+
+export interface AgentStatsOutput {
+  window: { since: string; until: string; days: number };
+  agents: AgentStats[];
+  /** PRs whose comments were counted */
+  prsScanned: number;
+  /** PRs left out: beyond the scan limit, or their comments could not be fetched */
+  prsSkipped: number;
+}
+
+interface AttributedComment {
+  source: string;
+  createdAt?: string;
+  resolved: boolean;
+  dismissed: boolean;
+}
+
+// ============================================================================
+// Tool Function
+// ============================================================================
+
+/**
+ * Report completion time, timeout rate and comment outcomes per agent and repository.
+ * Returns empty results when the DB is unavailable (graceful degradation).
+ */
+export async function prAgentStats(
+  input: AgentStatsInput,
+  invocationStore: InvocationStore | null,
+  client: GitHubClient,
+  octokit: Octokit,
+): Promise<AgentStatsOutput> {
+  const validated = AgentStatsInputSchema.parse(input);
+  const until = new Date();
+  const since = new Date(until.getTime() - validated.days * 24 * 60 * 60 * 1000).toISOString();
+  const window = { since, until: until.toISOString(), days: validated.days };
+
+  if (!invocationStore) {
+    return { window, agents: [], prsScanned: 0, prsSkipped: 0 };
+  }
+
+  const runs = invocationStore.listAgentRuns({
+    since,
+    owner: validated.owner,
+    repo: validated.repo,
+    agentId: validated.agent,
+  });
+
+  // Registers custom agents declared in repository configs, so their names resolve
+  const repos = new Map(runs.map(r => [`${r.owner}/${r.repo}`, r]));
+  await Promise.all([...repos.values()].map(r => loadRepoConfig(r.owner, r.repo, octokit)));
+
+  const agents = summarizeRuns(runs);
+  if (!validated.includeComments || agents.length === 0) {
+    return { window, agents, prsScanned: 0, prsSkipped: 0 };
+  }
+
+  // Agents invoked per PR, most recently invoked PR first
+  const prs = new Map<string, { run: StoredAgentRun; agentIds: Set<string> }>();
+  for (const run of [...runs].reverse()) {
+    const key = `${run.owner}/${run.repo}#${run.pr}`;
+    const entry = prs.get(key) ?? { run, agentIds: new Set<string>() };
+    entry.agentIds.add(run.agentId);
+    prs.set(key, entry);
+  }
+
+  const comments = new Map<string, AttributedComment[]>();
+  let prsScanned = 0;
+  let prsSkipped = Math.max(0, prs.size - MAX_PRS);
+
+  // One PR at a time to stay well within GitHub rate limits
+  for (const { run, agentIds } of [...prs.values()].slice(0, MAX_PRS)) {
+    const { owner, repo, pr } = run;
+    let prComments: AttributedComment[];
+    try {
+      prComments = await fetchAttributedComments(client, octokit, owner, repo, pr);
+    } catch (e) {
+      logger.warning(`[agent-stats] Skipping ${owner}/${repo}#${pr}: comments could not be fetched`, {
+        error: e instanceof Error ? e.message : String(e),
+      });
+      prsSkipped++;
+      continue;
+    }
+    prsScanned++;
+
+    for (const comment of prComments) {
+      if (!agentIds.has(comment.source)) continue;
+      if (comment.createdAt && Date.parse(comment.createdAt) < Date.parse(since)) continue;
+      const key = `${owner}/${repo}\0${comment.source}`;
+      const list = comments.get(key) ?? [];
+      list.push(comment);
+      comments.set(key, list);
+    }
+  }
+
+  for (const stats of agents) {
+    stats.comments = tallyComments(comments.get(`${stats.repo}\0${stats.agentId}`) ?? []);
+  }
+
+  return { window, agents, prsScanned, prsSkipped };
+}
+
+/**
+ * All review comments on a PR with their source and outcome: review threads,
+ * CodeRabbit nitpicks and local agent findings (resolved ones live only in the state
+ * comment), Qodo and Greptile.
+ */
+async function fetchAttributedComments(
+  client: GitHubClient,
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: number,
+): Promise<AttributedComment[]> {
+  const [threadsResult, qodoReview, greptileReview, trackerResolved, state] = await Promise.all([
+    fetchAllThreads(client, owner, repo, pr, { maxItems: 1000 }),
+    fetchQodoReview(owner, repo, pr, octokit),
+    fetchGreptileReview(owner, repo, pr, octokit),
+    getTrackerResolvedMap(owner, repo, pr),
+    loadState(owner, repo, pr, octokit),
+  ]);
+
+  // Same rule as pr_summary: only a dismissal of a comment that is still resolved counts
+  const outcome = (id: string, resolved: boolean) => ({
+    resolved,
+    dismissed: resolved && state.resolvedNitpicks[id]?.dismissal !== undefined,
+  });
+  const seen = new Set<string>();
+  const result: AttributedComment[] = [];
+
+  for (const c of threadsResult.comments) {
+    seen.add(c.threadId);
+    result.push({ source: c.source, createdAt: c.createdAt, ...outcome(c.threadId, c.resolved) });
+  }
+
+  // fetchAllThreads leaves out nitpicks and local findings that were already resolved
+  for (const id of Object.keys(state.resolvedNitpicks)) {
+    if (seen.has(id)) continue;
+    const source = id.startsWith('coderabbit-nitpick-') || id.startsWith('coderabbit-outside-diff-')
+      ? 'coderabbit'
+      : parseLocalFindingId(id);
+    if (!source) continue;
+    result.push({ source, ...outcome(id, true) });
+  }
+
+  if (qodoReview) {
+    for (const qc of qodoToNormalizedComments(qodoReview)) {
+      result.push({ source: 'qodo', createdAt: qodoReview.updatedAt, ...outcome(qc.id, trackerResolved.get(qc.id) ?? false) });
+    }
+  }
+
+  // Greptile issue comments can't be resolved via API
+  if (greptileReview) {
+    for (const gc of greptileToNormalizedComments(greptileReview)) {
+      result.push({ source: 'greptile', createdAt: greptileReview.updatedAt, ...outcome(gc.id, false) });
+    }
+  }
+
+  return result;
+}
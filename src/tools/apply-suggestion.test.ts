@@ -0,0 +1,169 @@
+/**
+ * Unit tests for pr_apply_suggestion (GitHub calls mocked, files in a temporary checkout)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { GitHubClient } from '../github/client.js';
+import type { ProcessedComment } from '../github/types.js';
+
+const mocks = vi.hoisted(() => ({
+  findThread: vi.fn(),
+  detectGitRepo: vi.fn(),
+}));
+
+vi.mock('./shared.js', () => ({ findThread: mocks.findThread }));
+vi.mock('../git/detect.js', () => ({ detectGitRepo: mocks.detectGitRepo }));
+
+import { prApplySuggestion } from './apply-suggestion.js';
+
+function comment(threadId: string, overrides: Partial<ProcessedComment> = {}): ProcessedComment {
+  return {
+    id: `c-${threadId}`,
+    threadId,
+    file: 'src/db.ts',
+    line: 2,
+    outdated: false,
+    resolved: false,
+    canResolve: true,
+    severity: 'MINOR',
+    type: 'suggestion',
+    source: 'gemini',
+    title: `Issue ${threadId}`,
+    body: '',
+    fullBody: '',
+    aiPrompt: null,
+    aiPromptConfidence: 'absent',
+    author: 'gemini-code-assist',
+    createdAt: undefined,
+    updatedAt: undefined,
+    replies: [],
+    ...overrides,
+  };
+}
+
+const SOURCE = 'import { pool } from "./pool";\nconst x = 1;\nexport { x };\n';
+const SUGGESTION = 'Prefer a larger value.\n\n```suggestion\nconst x = 2;\n```';
+
+let root: string;
+let client: GitHubClient;
+let graphql: ReturnType<typeof vi.fn>;
+
+/** Review thread on line 2 of src/db.ts, as returned by getThreadSuggestion */
+function threadNode(overrides: Record<string, unknown> = {}) {
+  return {
+    node: {
+      id: 'PRRT_a',
+      isOutdated: false,
+      path: 'src/db.ts',
+      line: 2,
+      startLine: null,
+      diffSide: 'RIGHT',
+      comments: { nodes: [{ id: 'PRRC_a', body: SUGGESTION, diffHunk: '@@ -1,2 +1,2 @@\n import { pool } from "./pool";\n+const x = 1;' }] },
+      ...overrides,
+    },
+  };
+}
+
+const local = () => readFileSync(join(root, 'src', 'db.ts'), 'utf-8');
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'pr-review-apply-'));
+  mkdirSync(join(root, 'src'));
+  writeFileSync(join(root, 'src', 'db.ts'), SOURCE);
+
+  mocks.findThread.mockReset().mockResolvedValue(comment('PRRT_a'));
+  mocks.detectGitRepo.mockReset().mockReturnValue({ owner: 'o', repo: 'r' });
+  graphql = vi.fn(async () => threadNode());
+  client = { graphql } as unknown as GitHubClient;
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const base = () => ({ owner: 'o', repo: 'r', pr: 1, threadId: 'PRRT_a', repoRoot: root });
+
+describe('prApplySuggestion', () => {
+  it('applies a review thread suggestion to the local file', async () => {
+    const result = await prApplySuggestion(base(), client);
+
+    expect(result).toMatchObject({
+      success: true,
+      status: 'applied',
+      file: 'src/db.ts',
+      suggestionsFound: 1,
+      patch: { startLine: 2, endLine: 2, original: ['const x = 1;'], replacement: ['const x = 2;'] },
+      appliedRange: { startLine: 2, endLine: 2 },
+    });
+    expect(local()).toBe(SOURCE.replace('const x = 1;', 'const x = 2;'));
+  });
+
+  it('leaves the file alone on a dry run', async () => {
+    const result = await prApplySuggestion({ ...base(), dryRun: true }, client);
+
+    expect(result).toMatchObject({ success: true, status: 'dry_run' });
+    expect(local()).toBe(SOURCE);
+  });
+
+  it('reports a conflict when the commented lines changed locally', async () => {
+    writeFileSync(join(root, 'src', 'db.ts'), SOURCE.replace('const x = 1;', 'const x = 5;'));
+
+    const result = await prApplySuggestion(base(), client);
+
+    expect(result).toMatchObject({ success: false, status: 'conflict', expected: ['const x = 1;'], actual: ['const x = 5;'] });
+    expect(local()).toBe(SOURCE.replace('const x = 1;', 'const x = 5;'));
+  });
+
+  it('reports a conflict when the file is missing locally', async () => {
+    rmSync(join(root, 'src', 'db.ts'));
+
+    const result = await prApplySuggestion(base(), client);
+
+    expect(result).toMatchObject({ success: false, status: 'conflict', reason: 'File src/db.ts not found locally' });
+  });
+
+  it('applies a diff block from a synthetic comment without querying the thread', async () => {
+    mocks.findThread.mockResolvedValue(comment('coderabbit-nitpick-abc', {
+      line: '2',
+      fullBody: '```diff\n-const x = 1;\n+const x = 3;\n```',
+    }));
+
+    const result = await prApplySuggestion({ ...base(), threadId: 'coderabbit-nitpick-abc' }, client);
+
+    expect(result).toMatchObject({ success: true, status: 'applied', patch: { kind: 'diff' } });
+    expect(local()).toContain('const x = 3;');
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  it('rejects suggestions on the old side of the diff', async () => {
+    graphql.mockResolvedValue(threadNode({ diffSide: 'LEFT' }));
+    await expect(prApplySuggestion(base(), client)).rejects.toMatchObject({ kind: 'parse' });
+  });
+
+  it('rejects unknown threads, comments without suggestions and indexes out of range', async () => {
+    mocks.findThread.mockResolvedValueOnce(null);
+    await expect(prApplySuggestion(base(), client)).rejects.toMatchObject({ kind: 'not_found' });
+
+    await expect(prApplySuggestion({ ...base(), index: 1 }, client))
+      .rejects.toMatchObject({ kind: 'not_found', message: expect.stringContaining('out of range') });
+
+    graphql.mockResolvedValue(threadNode({ comments: { nodes: [{ id: 'PRRC_a', body: 'Looks good', diffHunk: '' }] } }));
+    await expect(prApplySuggestion(base(), client)).rejects.toMatchObject({ kind: 'not_found' });
+  });
+
+  it('refuses paths outside the checkout', async () => {
+    graphql.mockResolvedValue(threadNode({ path: '../outside.ts' }));
+    await expect(prApplySuggestion(base(), client)).rejects.toMatchObject({ kind: 'permission' });
+  });
+
+  it('refuses a working directory that checks out another repository', async () => {
+    mocks.detectGitRepo.mockReturnValue({ owner: 'other', repo: 'app' });
+
+    await expect(prApplySuggestion({ owner: 'o', repo: 'r', pr: 1, threadId: 'PRRT_a' }, client))
+      .rejects.toMatchObject({ kind: 'permission' });
+    expect(mocks.findThread).not.toHaveBeenCalled();
+  });
+});
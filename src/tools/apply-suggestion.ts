@@ -0,0 +1,212 @@
+/**
+ * pr_apply_suggestion tool - Apply a committable suggestion to the local working tree
+ */
+
+import { z } from 'zod';
+import path from 'path';
+import { readFile, writeFile } from 'fs/promises';
+import { GitHubClient, StructuredError } from '../github/client.js';
+import { QUERIES } from '../github/queries.js';
+import { findThread } from './shared.js';
+import { detectGitRepo } from '../git/detect.js';
+import {
+  extractSuggestions,
+  buildSuggestionPatch,
+  applySuggestionPatch,
+  type SuggestionPatch
+} from '../extractors/suggestion.js';
+import { logger } from '../logging.js';
+import type { ThreadSuggestionData } from '../github/types.js';
+
+export const ApplySuggestionInputSchema = z.object({
+  owner: z.string().min(1, 'Repository owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr: z.number().int().positive('PR number must be positive'),
+  threadId: z.string().min(1, 'Thread ID is required'),
+  index: z.number().int().min(0).default(0).describe('Which suggestion/diff block in the comment to apply (default: 0)'),
+  dryRun: z.boolean().default(false).describe('Build and verify the patch without writing the file'),
+  force: z.boolean().default(false).describe('Apply even when the original lines cannot be verified'),
+  repoRoot: z.string().optional().describe('Local checkout root (default: server working directory)')
+});
+
+export type ApplySuggestionInput = z.input<typeof ApplySuggestionInputSchema>;
+
+export interface ApplySuggestionOutput {
+  success: boolean;
+  threadId: string;
+  file: string;
+  status: 'applied' | 'dry_run' | 'conflict';
+  suggestionsFound: number;
+  patch: SuggestionPatch;
+  /** Lines written in the local file (after applying) */
+  appliedRange?: { startLine: number; endLine: number };
+  reason?: string;
+  expected?: string[] | null;
+  actual?: string[];
+}
+
+interface SuggestionSource {
+  threadId: string;
+  file: string;
+  body: string;
+  line: number | null;
+  startLine: number | null;
+  diffHunk: string | null;
+}
+
+/**
+ * Parse a "12" or "12-15" line value into a range
+ */
+function parseLineRange(line: number | string): { line: number | null; startLine: number | null } {
+  if (typeof line === 'number') return { line, startLine: null };
+  const match = line.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return { line: null, startLine: null };
+  return match[2]
+    ? { line: parseInt(match[2], 10), startLine: parseInt(match[1], 10) }
+    : { line: parseInt(match[1], 10), startLine: null };
+}
+
+/**
+ * Load the comment body and line range for a thread (review thread or synthetic comment)
+ */
+async function loadSuggestionSource(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: number,
+  threadId: string
+): Promise<SuggestionSource> {
+  const comment = await findThread(client, owner, repo, pr, threadId);
+  if (!comment) {
+    throw new StructuredError('not_found', `Thread ${threadId} not found`, false);
+  }
+
+  if (!comment.threadId.startsWith('PRRT_')) {
+    // Synthetic comment (e.g. CodeRabbit nitpick) - no diff hunk, range comes from the body
+    return {
+      threadId: comment.threadId,
+      file: comment.file,
+      body: comment.fullBody,
+      ...parseLineRange(comment.line),
+      diffHunk: null
+    };
+  }
+
+  const data = await client.graphql<ThreadSuggestionData>(QUERIES.getThreadSuggestion, {
+    threadId: comment.threadId
+  });
+  const thread = data.node;
+  const first = thread?.comments.nodes[0];
+  if (!thread || !first) {
+    throw new StructuredError('not_found', `Thread ${comment.threadId} not found`, false);
+  }
+  if (thread.diffSide === 'LEFT') {
+    throw new StructuredError(
+      'parse',
+      'Suggestion targets the old side of the diff and cannot be applied',
+      false
+    );
+  }
+
+  return {
+    threadId: thread.id,
+    file: thread.path,
+    body: first.body,
+    line: thread.line,
+    startLine: thread.startLine,
+    diffHunk: first.diffHunk
+  };
+}
+
+/**
+ * Resolve a repo-relative path inside the checkout, rejecting traversal
+ */
+function resolveLocalPath(root: string, file: string): string {
+  const resolvedRoot = path.resolve(root);
+  const target = path.resolve(resolvedRoot, file);
+  if (target !== resolvedRoot && !target.startsWith(resolvedRoot + path.sep)) {
+    throw new StructuredError('permission', `Path ${file} is outside the repository root`, false);
+  }
+  return target;
+}
+
+/**
+ * Apply a suggestion block from a review thread to the local file
+ */
+export async function prApplySuggestion(
+  input: ApplySuggestionInput,
+  client: GitHubClient
+): Promise<ApplySuggestionOutput> {
+  const { owner, repo, pr, threadId, index, dryRun, force, repoRoot } =
+    ApplySuggestionInputSchema.parse(input);
+
+  if (!repoRoot) {
+    const local = detectGitRepo();
+    if (local && (local.owner.toLowerCase() !== owner.toLowerCase() || local.repo.toLowerCase() !== repo.toLowerCase())) {
+      throw new StructuredError(
+        'permission',
+        `Working directory is a checkout of ${local.owner}/${local.repo}, not ${owner}/${repo}`,
+        false,
+        'Pass repoRoot pointing at a checkout of the PR repository'
+      );
+    }
+  }
+
+  const source = await loadSuggestionSource(client, owner, repo, pr, threadId);
+  const suggestions = extractSuggestions(source.body);
+  if (suggestions.length === 0) {
+    throw new StructuredError('not_found', `No suggestion or diff block in ${source.threadId}`, false);
+  }
+  const suggestion = suggestions[index];
+  if (!suggestion) {
+    throw new StructuredError(
+      'not_found',
+      `Suggestion index ${index} out of range (found ${suggestions.length})`,
+      false
+    );
+  }
+
+  // Outdated threads lose their line; diff blocks can still be located by content
+  if (source.line === null && suggestion.kind === 'suggestion') {
+    throw new StructuredError(
+      'not_found',
+      `Thread ${source.threadId} no longer maps to a line in the current diff`,
+      false
+    );
+  }
+
+  const patch = buildSuggestionPatch(suggestion, source.file, source.line ?? 1, source.startLine, source.diffHunk);
+  const base = { threadId: source.threadId, file: source.file, suggestionsFound: suggestions.length, patch };
+
+  const filePath = resolveLocalPath(repoRoot ?? process.cwd(), source.file);
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch {
+    return { ...base, success: false, status: 'conflict', reason: `File ${source.file} not found locally`, actual: [] };
+  }
+
+  const result = applySuggestionPatch(content, patch, force);
+  if (result.status === 'conflict') {
+    return {
+      ...base,
+      success: false,
+      status: 'conflict',
+      reason: result.reason,
+      expected: result.expected,
+      actual: result.actual
+    };
+  }
+
+  if (!dryRun) {
+    await writeFile(filePath, result.content, 'utf-8');
+    logger.debug('[apply-suggestion] Applied suggestion', { threadId: source.threadId, file: source.file });
+  }
+
+  return {
+    ...base,
+    success: true,
+    status: dryRun ? 'dry_run' : 'applied',
+    appliedRange: { startLine: result.startLine, endLine: result.endLine }
+  };
+}
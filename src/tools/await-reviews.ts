@@ -7,14 +7,37 @@
  *
  * This replaces the previous blocking implementation that held the
  * MCP tool call open for minutes, freezing the client session.
+ *
+ * For a sequential pipeline, each poll also advances the pipeline: once the
+ * current agent settles, the server invokes the next one.
+ *
+ * Per-agent wait times (ETA, timeout and retry hint) are learned from completion
+ * history in the invocation store, with the completion strategy values as priors.
+ *
+ * While the repository delivers webhooks (HTTP mode), parallel invocations are
+ * answered from the agent status the webhooks keep current, with a GitHub poll
+ * at most every few minutes as a safety net.
  */
 
 import { z } from 'zod';
 import type { Octokit } from '@octokit/rest';
-import { getDefaultAgents, isInvokableAgent, INVOKABLE_AGENTS, type InvokableAgentId } from '../agents/registry.js';
-import { fetchCompletionStatus } from '../agents/completion-detector.js';
+import { agentScope, getDefaultAgents, isTrackableAgent, getAgentConfig, type InvokableAgentId } from '../agents/registry.js';
+import {
+  fetchCompletionStatus,
+  type AgentCompletionResult,
+  type AgentUnavailableState,
+  type CompletionConfidence,
+  type CompletionDetectionResult,
+} from '../agents/completion-detector.js';
+import type { CompletionSource } from '../agents/registry.js';
+import { nextFallback } from '../agents/fallback.js';
 import { getOctokit } from '../github/octokit.js';
+import { loadFallbackChains } from '../github/repo-config.js';
+import { advancePipeline, currentStep, type PipelineStep, type PipelineStepStatus } from '../agents/pipeline.js';
+import { agentEta, loadWaitTimes, suggestRetryAfter, type AgentEta, type WaitTimes } from '../agents/wait-times.js';
+import { webhooksLive } from '../github/webhooks.js';
 import type { InvocationStore } from '../persistence/invocation-store.js';
+import type { StoredAgentStatus, StoredInvocation } from '../persistence/types.js';
 
 // ============================================================================
 // Input/Output Schemas
@@ -43,6 +66,18 @@ export interface AgentAwaitStatus {
   source?: string;
   lastActivity?: string;
   detail?: string;
+  /** Step status when the agents run as a sequential pipeline */
+  pipelineStatus?: PipelineStepStatus;
+  /** The agent replied that it is out of quota or can't review — no need to wait for it */
+  unavailable?: AgentUnavailableState;
+  /** The agent's explanation when unavailable */
+  reason?: string;
+  /** When a quota-exhausted agent accepts requests again, if known */
+  retryAfter?: string;
+  /** Configured fallback to invoke instead (call pr_invoke with this agent) */
+  fallbackAgent?: string;
+  /** Expected completion and timeout for agents still pending */
+  eta?: AgentEta;
 }
 
 export interface AwaitResult {
@@ -57,14 +92,29 @@ export interface AwaitResult {
     ready: number;
     pending: number;
     agentTimedOut: number;
+    unavailable: number;
     total: number;
   };
   /** Hint for client: suggested delay before next poll (ms) */
   retryAfterMs: number | null;
+  /** Present when the invocation is a sequential pipeline */
+  pipeline?: {
+    invocationId: number;
+    /** Agent the pipeline is on; null once every step settled */
+    currentAgent: string | null;
+  };
+  /** True when statuses came from webhook-updated state instead of a GitHub poll */
+  fromCache?: boolean;
   /** Set when the call cannot proceed (e.g., no active invocation found) */
   error?: string;
 }
 
+/** While webhooks deliver for the repository, poll GitHub at most this often per invocation */
+const WEBHOOK_POLL_INTERVAL_MS = 5 * 60_000;
+
+/** Last GitHub poll per invocation (this process) */
+const lastPolled = new Map<number, number>();
+
 // ============================================================================
 // Main Tool Function
 // ============================================================================
@@ -85,16 +135,26 @@ export async function prAwaitReviews(
 ): Promise<AwaitResult> {
   const validated = AwaitInputSchema.parse(input);
   const { owner, repo, pr, force } = validated;
+  const scope = agentScope(owner, repo);
+
+  // Also registers custom agents declared in the repository config
+  const fallbackChains = await loadFallbackChains(owner, repo, octokit);
+
+  const active = invocationStore?.findActiveForPR(owner, repo, pr) ?? null;
+
+  // Pipelines track their own per-step timestamps
+  if (invocationStore && active?.mode === 'sequential' && (!validated.since || validated.since === active.since)) {
+    return awaitPipeline(active, invocationStore, octokit);
+  }
 
   // Resolve since / agents — explicit values take priority; fall back to active invocation.
   let since = validated.since;
   let agentIds: string[] | undefined = validated.agents;
 
-  if ((!since || !agentIds?.length) && invocationStore) {
-    const active = invocationStore.findActiveForPR(owner, repo, pr);
+  if (!since || !agentIds?.length) {
     if (active) {
       since = since ?? active.since;
-      agentIds = agentIds?.length ? agentIds : active.agents.filter(isInvokableAgent);
+      agentIds = agentIds?.length ? agentIds : active.agents.filter(id => isTrackableAgent(id, scope));
       // Bind to the discovered invocation id (unless caller already supplied one).
       invocationId = invocationId ?? active.id;
     }
@@ -106,7 +166,7 @@ export async function prAwaitReviews(
       partial: false,
       elapsedMs: 0,
       agents: [],
-      summary: { ready: 0, pending: 0, agentTimedOut: 0, total: 0 },
+      summary: { ready: 0, pending: 0, agentTimedOut: 0, unavailable: 0, total: 0 },
       retryAfterMs: null,
       error: 'No active invocation found for this PR. Call pr_invoke first, or supply a `since` timestamp.',
     };
@@ -115,37 +175,59 @@ export async function prAwaitReviews(
   // Resolve final agent list
   let agents: InvokableAgentId[];
   if (agentIds && agentIds.length > 0) {
-    agents = agentIds.filter((id): id is InvokableAgentId => isInvokableAgent(id));
+    agents = agentIds.filter((id): id is InvokableAgentId => isTrackableAgent(id, scope));
     if (agents.length === 0) {
-      agents = getDefaultAgents();
+      agents = getDefaultAgents(scope);
     }
   } else {
-    agents = getDefaultAgents();
+    agents = getDefaultAgents(scope);
   }
 
   const ok = octokit ?? getOctokit();
 
-  // Fetch head SHA for check runs
-  let headSha: string | undefined;
-  try {
-    const prData = await ok.pulls.get({ owner, repo, pull_number: pr });
-    headSha = prData.data.head.sha;
-  } catch {
-    // headSha remains undefined — check runs won't be fetched
-  }
+  // Webhook-updated state stands in for a poll, unless the caller forces one
+  const stored = invocationStore && invocationId !== undefined ? invocationStore.getAgentStatuses(invocationId) : [];
+  const fromCache = !force && invocationStore !== undefined && invocationId !== undefined &&
+    webhooksLive(owner, repo) &&
+    Date.now() - (lastPolled.get(invocationId) ?? 0) < WEBHOOK_POLL_INTERVAL_MS &&
+    agents.every(agentId => stored.some(s => s.agentId === agentId));
 
-  // Single poll — no loop, no blocking
-  // `force` is reserved for future cache-skip behaviour; currently we always poll GitHub.
-  void force;
-  const detection = await fetchCompletionStatus(owner, repo, pr, agents, since, ok, headSha);
+  let detection: CompletionDetectionResult;
+  let prSize: number | undefined;
+  if (fromCache) {
+    prSize = invocationStore!.getInvocation(invocationId!)?.prSize ?? undefined;
+    detection = storedDetection(stored, agents, scope);
+  } else {
+    // Fetch head SHA for check runs and PR size for learned wait times
+    let headSha: string | undefined;
+    try {
+      const prData = await ok.pulls.get({ owner, repo, pull_number: pr });
+      headSha = prData.data.head.sha;
+      prSize = prData.data.additions + prData.data.deletions;
+    } catch {
+      // headSha remains undefined — check runs won't be fetched
+    }
+    if (invocationStore && invocationId !== undefined && prSize !== undefined) {
+      invocationStore.setPrSize(invocationId, prSize);
+    }
+
+    // Single poll — no loop, no blocking
+    detection = await fetchCompletionStatus(owner, repo, pr, agents, since, ok, headSha);
+    if (invocationId !== undefined) lastPolled.set(invocationId, Date.now());
+  }
+  const waitTimes = loadWaitTimes(invocationStore, agents, { owner, repo, prSize });
   const elapsedMs = Date.now() - new Date(since).getTime();
 
   // Check per-agent timeouts based on elapsed time since invocation
   const agentStatuses: AgentAwaitStatus[] = agents.map(agentId => {
     const detected = detection.agents.find(a => a.agentId === agentId);
-    const config = INVOKABLE_AGENTS[agentId];
-    const maxWaitMs = config?.completionStrategy.maxWaitMs ?? 600_000;
-    const isTimedOut = !detected?.ready && elapsedMs >= maxWaitMs;
+    const config = getAgentConfig(agentId, scope);
+    const maxWaitMs = waitTimes.get(agentId)!.maxWaitMs;
+    const isTimedOut = !detected?.ready && !detected?.unavailable && elapsedMs >= maxWaitMs;
+    const isPending = !detected?.ready && !detected?.unavailable && !isTimedOut;
+    const fallbackAgent = detected?.unavailable
+      ? nextFallback(agentId, fallbackChains, new Set(agents))
+      : null;
 
     return {
       agentId,
@@ -156,15 +238,23 @@ export async function prAwaitReviews(
       source: detected?.source,
       lastActivity: detected?.lastActivity,
       detail: detected?.detail ?? (isTimedOut ? `Exceeded maxWaitMs (${Math.round(maxWaitMs / 1000)}s)` : undefined),
+      ...(detected?.unavailable && {
+        unavailable: detected.unavailable,
+        reason: detected.reason,
+        retryAfter: detected.retryAfter,
+      }),
+      ...(fallbackAgent && { fallbackAgent }),
+      ...(isPending && { eta: agentEta(waitTimes.get(agentId)!, since!) }),
     };
   });
 
   const ready = agentStatuses.filter(a => a.ready).length;
   const agentTimedOut = agentStatuses.filter(a => a.agentTimedOut && !a.ready).length;
-  const pending = agentStatuses.filter(a => !a.ready && !a.agentTimedOut).length;
+  const unavailable = agentStatuses.filter(a => a.unavailable).length;
+  const pending = agentStatuses.filter(a => !a.ready && !a.agentTimedOut && !a.unavailable).length;
   const total = agentStatuses.length;
   const allReady = ready === total;
-  const allSettled = agentStatuses.every(a => a.ready || a.agentTimedOut);
+  const allSettled = pending === 0;
   const someReady = ready > 0 && !allReady;
 
   // Persist agent status to SQLite so pr_sessions can reflect current state.
@@ -201,23 +291,148 @@ export async function prAwaitReviews(
   }
 
   // Suggest retry delay: null if all settled (no more polling needed)
-  let retryAfterMs: number | null = null;
-  if (!allSettled) {
-    // Suggest 15s for early polling, 30s after 2 minutes
-    retryAfterMs = elapsedMs < 120_000 ? 15_000 : 30_000;
-  }
+  const retryAfterMs = allSettled
+    ? null
+    : suggestRetryAfter(agentStatuses.filter(a => a.eta).map(a => ({ elapsedMs, waitTimes: waitTimes.get(a.agentId)! })));
 
   return {
     completed: allReady,
-    partial: someReady && (allSettled || agentTimedOut > 0),
+    partial: someReady && (allSettled || agentTimedOut > 0 || unavailable > 0),
     elapsedMs,
     agents: agentStatuses,
     summary: {
       ready,
       pending,
       agentTimedOut,
+      unavailable,
       total,
     },
     retryAfterMs,
+    ...(fromCache && { fromCache }),
+  };
+}
+
+/**
+ * Completion results as last stored for the invocation (by polls or webhooks)
+ */
+function storedDetection(
+  statuses: StoredAgentStatus[],
+  agents: InvokableAgentId[],
+  scope: string,
+): CompletionDetectionResult {
+  const results: AgentCompletionResult[] = agents.map(agentId => {
+    const status = statuses.find(s => s.agentId === agentId);
+    return {
+      agentId,
+      name: getAgentConfig(agentId, scope)?.name ?? agentId,
+      ready: status?.ready ?? false,
+      confidence: (status?.confidence ?? 'low') as CompletionConfidence,
+      source: (status?.source ?? undefined) as CompletionSource | undefined,
+      lastActivity: status?.lastActivity ?? undefined,
+      detail: status?.detail ?? undefined,
+      ...(status?.availability && {
+        unavailable: status.availability,
+        retryAfter: status.retryAfter ?? undefined,
+      }),
+    };
+  });
+
+  return {
+    allReady: results.every(r => r.ready),
+    agents: results,
+    fetchedAt: new Date().toISOString(),
   };
 }
+
+/**
+ * Advance a sequential pipeline and report its steps as agent statuses.
+ * Waiting steps count as pending; per-agent timeouts run from each step's invocation.
+ */
+async function awaitPipeline(
+  invocation: StoredInvocation,
+  invocationStore: InvocationStore,
+  octokit?: Octokit,
+): Promise<AwaitResult> {
+  const { steps } = await advancePipeline(invocationStore, invocation, octokit);
+  const elapsedMs = Date.now() - new Date(invocation.since).getTime();
+
+  // The pipeline records the PR size on its first poll
+  const prSize = invocationStore.getInvocation(invocation.id)?.prSize;
+  const waitTimes = loadWaitTimes(invocationStore, steps.map(s => s.agentId), {
+    owner: invocation.owner,
+    repo: invocation.repo,
+    prSize,
+  });
+  const etas = pipelineEtas(steps, waitTimes);
+
+  const agents: AgentAwaitStatus[] = steps.map(s => ({
+    agentId: s.agentId,
+    name: s.name,
+    ready: s.status === 'completed',
+    agentTimedOut: s.status === 'timed_out' || s.status === 'failed',
+    ...((s.status === 'quota_exhausted' || s.status === 'unavailable') && {
+      unavailable: s.status,
+      retryAfter: s.retryAfter ?? undefined,
+    }),
+    confidence: s.confidence ?? undefined,
+    source: s.source ?? undefined,
+    lastActivity: s.lastActivity ?? undefined,
+    detail: s.status === 'waiting'
+      ? `Pipeline step ${s.step}/${steps.length}: waiting for earlier agents`
+      : s.detail ?? undefined,
+    pipelineStatus: s.status,
+    ...(etas.has(s.agentId) && { eta: etas.get(s.agentId) }),
+  }));
+
+  const ready = agents.filter(a => a.ready).length;
+  const agentTimedOut = agents.filter(a => a.agentTimedOut).length;
+  const unavailable = agents.filter(a => a.unavailable).length;
+  const total = agents.length;
+  const current = currentStep(steps);
+  const stepElapsedMs = current?.invokedAt ? Date.now() - new Date(current.invokedAt).getTime() : 0;
+
+  return {
+    completed: ready === total,
+    partial: ready > 0 && ready < total && current === null,
+    elapsedMs,
+    agents,
+    summary: {
+      ready,
+      pending: total - ready - agentTimedOut - unavailable,
+      agentTimedOut,
+      unavailable,
+      total,
+    },
+    retryAfterMs: current
+      ? suggestRetryAfter([{ elapsedMs: stepElapsedMs, waitTimes: waitTimes.get(current.agentId)! }])
+      : null,
+    pipeline: {
+      invocationId: invocation.id,
+      currentAgent: current?.agentId ?? null,
+    },
+  };
+}
+
+/**
+ * ETAs for the running step and the steps still waiting: each waiting step is
+ * expected to start when the one before it is expected to finish.
+ */
+function pipelineEtas(steps: PipelineStep[], waitTimes: Map<string, WaitTimes>): Map<string, AgentEta> {
+  const etas = new Map<string, AgentEta>();
+  let nextStart = Date.now();
+
+  for (const step of steps) {
+    const times = waitTimes.get(step.agentId)!;
+    if (step.status === 'running' && step.invokedAt) {
+      const eta = agentEta(times, step.invokedAt);
+      etas.set(step.agentId, eta);
+      nextStart = Math.max(nextStart, Date.parse(eta.expectedAt));
+    } else if (step.status === 'waiting') {
+      const expectedAt = nextStart + times.expectedTimeMs;
+      etas.set(step.agentId, { ...times, expectedAt: new Date(expectedAt).toISOString(), timeoutAt: null });
+      nextStart = expectedAt;
+    }
+  }
+
+  return etas;
+}
@@ -0,0 +1,155 @@
+/**
+ * pr_cancel_invocation tool - Take back an invocation posted by pr_invoke
+ *
+ * Marks the invocation stale (pipelines stop invoking further steps), deletes or
+ * minimizes the trigger comments recorded for its agents, and can re-trigger a
+ * single agent with new options.
+ */
+
+import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
+import { GitHubClient, StructuredError } from '../github/client.js';
+import { QUERIES } from '../github/queries.js';
+import { agentScope, getAgentConfig } from '../agents/registry.js';
+import { InvokeInputSchema, prInvoke, type InvokeOutput } from './invoke.js';
+import { logger } from '../logging.js';
+import type { InvocationStore } from '../persistence/invocation-store.js';
+
+// ============================================================================
+// Input/Output Schemas
+// ============================================================================
+
+export const CancelInvocationInputSchema = z.object({
+  owner: z.string().min(1, 'Repository owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr: z.number().int().positive('PR number must be positive'),
+  invocationId: z.number().int().positive().optional()
+    .describe('Invocation to cancel (default: the most recent active invocation for the PR)'),
+  comments: z.enum(['minimize', 'delete']).optional().default('minimize')
+    .describe('What to do with the trigger comments: minimize (hide as outdated) or delete'),
+  retrigger: z.object({
+    agent: z.string().min(1, 'Agent is required').describe('Agent to invoke again (a single agent, not "all")'),
+    options: InvokeInputSchema.shape.options,
+  }).optional().describe('Invoke one agent again after cancelling; force defaults to true'),
+});
+
+export type CancelInvocationInput = z.input<typeof CancelInvocationInputSchema>;
+
+export interface CancelledComment {
+  agentId: string;
+  action: 'minimized' | 'deleted' | 'failed';
+  error?: string;
+}
+
+export interface CancelInvocationOutput {
+  invocationId: number;
+  /** Agents of the cancelled invocation */
+  agents: string[];
+  comments: CancelledComment[];
+  /** Invoked agents without a recorded trigger comment (invoked before trigger comments were recorded) */
+  untracked: string[];
+  /** Result of invoking `retrigger.agent` */
+  retriggered?: InvokeOutput;
+  message: string;
+}
+
+// ============================================================================
+// Tool Function
+// ============================================================================
+
+/**
+ * Cancel an active invocation and clean up its trigger comments
+ */
+export async function prCancelInvocation(
+  input: CancelInvocationInput,
+  client: GitHubClient,
+  invocationStore: InvocationStore | null,
+  octokit?: Octokit,
+  sessionId?: string,
+): Promise<CancelInvocationOutput> {
+  const { owner, repo, pr, invocationId, comments: action, retrigger } = CancelInvocationInputSchema.parse(input);
+
+  if (!invocationStore) {
+    throw new StructuredError(
+      'not_found',
+      'Invocations are not recorded: SQLite persistence is unavailable',
+      false,
+      'Check that better-sqlite3 loads on this machine'
+    );
+  }
+  if (retrigger?.agent === 'all') {
+    throw new StructuredError('parse', 'retrigger.agent must be a single agent, not "all"', false);
+  }
+
+  const invocation = invocationId !== undefined
+    ? invocationStore.getInvocation(invocationId)
+    : invocationStore.findActiveForPR(owner, repo, pr);
+  if (!invocation || invocation.owner !== owner || invocation.repo !== repo || invocation.pr !== pr) {
+    throw new StructuredError(
+      'not_found',
+      invocationId !== undefined
+        ? `Invocation ${invocationId} not found for ${owner}/${repo}#${pr}`
+        : `No active invocation for ${owner}/${repo}#${pr}`,
+      false,
+      'Use pr_sessions to list invocations'
+    );
+  }
+  if (!invocationStore.cancel(invocation.id)) {
+    throw new StructuredError(
+      'parse',
+      `Invocation ${invocation.id} is already ${invocation.status === 'active' ? 'settled' : invocation.status}`,
+      false,
+      'Only active invocations can be cancelled'
+    );
+  }
+  logger.info(`[cancel] ${owner}/${repo}#${pr}: cancelled invocation ${invocation.id}`);
+
+  const statuses = invocationStore.getAgentStatuses(invocation.id);
+  const comments: CancelledComment[] = [];
+  const untracked: string[] = [];
+
+  for (const status of statuses) {
+    if (!status.triggerCommentId) {
+      if (status.invokedAt && getAgentConfig(status.agentId, agentScope(owner, repo))?.type !== 'local') untracked.push(status.agentId);
+      continue;
+    }
+
+    try {
+      if (action === 'delete') {
+        await client.graphql(QUERIES.deleteIssueComment, { id: status.triggerCommentId });
+      } else {
+        await client.graphql(QUERIES.minimizeComment, { subjectId: status.triggerCommentId, classifier: 'OUTDATED' });
+      }
+      comments.push({ agentId: status.agentId, action: action === 'delete' ? 'deleted' : 'minimized' });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      comments.push({ agentId: status.agentId, action: 'failed', error });
+      logger.warning(`[cancel] Failed to ${action} trigger comment of ${status.agentId}`, { error });
+    }
+  }
+
+  let retriggered: InvokeOutput | undefined;
+  if (retrigger) {
+    retriggered = await prInvoke(
+      { owner, repo, pr, agent: retrigger.agent, options: { force: true, ...retrigger.options } },
+      octokit,
+      invocationStore,
+      sessionId,
+    );
+  }
+
+  const done = comments.filter(c => c.action !== 'failed').length;
+  const parts = [`Cancelled invocation ${invocation.id}`];
+  parts.push(`${action === 'delete' ? 'deleted' : 'minimized'} ${done}/${comments.length} trigger comment(s)`);
+  if (untracked.length > 0) parts.push(`no recorded trigger comment for ${untracked.join(', ')}`);
+  if (retriggered) parts.push(retriggered.message);
+
+  return {
+    invocationId: invocation.id,
+    agents: statuses.map(s => s.agentId),
+    comments,
+    untracked,
+    ...(retriggered && { retriggered }),
+    message: parts.join('. '),
+  };
+}
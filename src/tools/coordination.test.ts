@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the coordination tools with runs for several PRs (GitHub calls mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Octokit } from '@octokit/rest';
+import type { GitHubClient } from '../github/client.js';
+
+const { fetchAllThreads } = vi.hoisted(() => ({ fetchAllThreads: vi.fn() }));
+
+vi.mock('./shared.js', () => ({ fetchAllThreads }));
+vi.mock('../github/repo-config.js', () => ({ loadPartitionStrategy: async () => undefined }));
+
+import { CoordinationStateManager } from '../coordination/state.js';
+import { prClaimWork, prReportProgress, prResetCoordination } from './coordination.js';
+
+const client = {} as GitHubClient;
+const octokit = {
+  pulls: { get: async () => ({ data: { head: { sha: 'head' } } }) },
+} as unknown as Octokit;
+
+const pr1 = { owner: 'o', repo: 'r', pr: 1 };
+const pr2 = { owner: 'o', repo: 'r', pr: 2 };
+
+let coordination: CoordinationStateManager;
+
+/** Claim for a PR, starting its run when needed */
+async function claim(agentId: string, prInfo?: typeof pr1, force?: boolean) {
+  return prClaimWork({ agent_id: agentId, pr_info: prInfo, force }, client, coordination, octokit);
+}
+
+beforeEach(() => {
+  coordination = new CoordinationStateManager();
+  // One unresolved comment per PR, in a file named after the PR
+  fetchAllThreads.mockReset().mockImplementation(async (_client, _owner, _repo, pr: number) => ({
+    comments: [{ threadId: `t${pr}`, file: `pr${pr}.ts`, severity: 'MAJOR' }],
+  }));
+});
+
+describe('prClaimWork', () => {
+  it('keeps separate runs for PRs claimed at the same time', async () => {
+    const [first, second] = await Promise.all([claim('worker-1', pr1), claim('worker-2', pr2)]);
+
+    expect(first).toMatchObject({ status: 'claimed', partition: { file: 'pr1.ts' } });
+    expect(second).toMatchObject({ status: 'claimed', partition: { file: 'pr2.ts' } });
+    expect(first.runId).not.toBe(second.runId);
+    expect(coordination.listRuns().map(r => r.prInfo?.pr)).toEqual([1, 2]);
+  });
+
+  it('claims from the only active run without a selector', async () => {
+    const { runId } = await claim('worker-1', pr1);
+    coordination.addPartitions([{ file: 'more.ts', comments: ['t9'], severity: 'MINOR', status: 'pending' }], runId);
+
+    expect(await claim('worker-2')).toMatchObject({ status: 'claimed', runId, partition: { file: 'more.ts' } });
+  });
+
+  it('requires a selector when several runs are active', async () => {
+    await claim('worker-1', pr1);
+    await claim('worker-2', pr2);
+
+    await expect(claim('worker-3')).rejects.toMatchObject({
+      kind: 'parse',
+      message: expect.stringContaining('o/r#1, o/r#2'),
+    });
+  });
+
+  it('replaces only the forced PR\'s run', async () => {
+    const first = await claim('worker-1', pr1);
+    const second = await claim('worker-2', pr2);
+
+    const replaced = await claim('worker-3', pr1, true);
+
+    expect(replaced.runId).not.toBe(first.runId);
+    expect(coordination.findRun({ runId: first.runId })).toBeNull();
+    expect(coordination.findRun({ prInfo: pr2 })?.runId).toBe(second.runId);
+  });
+});
+
+describe('prReportProgress', () => {
+  it('accepts a report without a lease token, with a deprecation warning', async () => {
+    await claim('worker-1', pr1);
+    await claim('worker-2', pr2);
+
+    const result = await prReportProgress({ agent_id: 'worker-2', file: 'pr2.ts', status: 'done' }, coordination);
+
+    expect(result).toMatchObject({ status: 'success', file: 'pr2.ts', warning: expect.stringContaining('deprecated') });
+    expect(coordination.findRun({ prInfo: pr2 })?.partitions.get('pr2.ts')?.status).toBe('done');
+  });
+
+  it('rejects outcomes for threads outside the claimed partition', async () => {
+    const claimed = await claim('worker-1', pr1);
+    const leaseToken = claimed.partition?.leaseToken;
+
+    const result = await prReportProgress({
+      agent_id: 'worker-1', file: 'pr1.ts', lease_token: leaseToken, status: 'done',
+      outcomes: [{ threadId: 't1', outcome: 'fixed' }, { threadId: 't2', outcome: 'fixed' }],
+    }, coordination);
+
+    expect(result).toMatchObject({ status: 'error', message: expect.stringContaining('t2') });
+    const partition = coordination.findRun({ prInfo: pr1 })?.partitions.get('pr1.ts');
+    expect(partition?.status).toBe('claimed');
+    expect(partition?.outcomes).toBeUndefined();
+  });
+
+  it('rejects a report without a lease token from an agent that holds no claim', async () => {
+    await claim('worker-1', pr1);
+
+    const result = await prReportProgress({ agent_id: 'worker-2', file: 'pr1.ts', status: 'done' }, coordination);
+
+    expect(result).toMatchObject({ status: 'error', message: expect.stringContaining('deprecated') });
+  });
+});
+
+describe('prResetCoordination', () => {
+  beforeEach(async () => {
+    await claim('worker-1', pr1);
+    await claim('worker-2', pr2);
+  });
+
+  it('requires confirmation', async () => {
+    await expect(prResetCoordination({}, coordination)).rejects.toMatchObject({ kind: 'permission' });
+  });
+
+  it('resets only the run for pr_info', async () => {
+    const result = await prResetCoordination({ confirm: true, pr_info: pr1 }, coordination);
+
+    expect(result.previousRuns).toEqual([expect.objectContaining({ pr: 'o/r#1', wasActive: true })]);
+    expect(coordination.listRuns().map(r => r.prInfo?.pr)).toEqual([2]);
+  });
+
+  it('resets every run without a selector', async () => {
+    const result = await prResetCoordination({ confirm: true }, coordination);
+
+    expect(result.previousRuns.map(r => r.pr)).toEqual(['o/r#1', 'o/r#2']);
+    expect(coordination.listRuns()).toEqual([]);
+  });
+
+  it('rejects a PR without a run', async () => {
+    await expect(prResetCoordination({ confirm: true, pr_info: { ...pr1, pr: 3 } }, coordination))
+      .rejects.toMatchObject({ kind: 'not_found' });
+    expect(coordination.listRuns()).toHaveLength(2);
+  });
+});
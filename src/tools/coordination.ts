@@ -7,98 +7,38 @@ import type { ICoordinationStateManager } from '../coordination/types.js';
 import {
   ClaimWorkSchema,
   ReportProgressSchema,
+  HeartbeatSchema,
   GetWorkStatusSchema,
   ResetCoordinationSchema,
   ProgressUpdateSchema,
   ProgressCheckSchema,
-  type FilePartition,
+  PARTITION_STRATEGIES,
+  COMMENT_OUTCOMES,
+  DISMISS_REASONS,
   type ClaimWorkInput,
+  type CoordinationStatus,
+  type FilePartition,
+  type PartitionStrategy,
   type ReportProgressInput,
+  type HeartbeatInput,
   type GetWorkStatusInput,
   type ResetCoordinationInput,
   type ProgressUpdateInput,
   type ProgressCheckInput
 } from '../coordination/types.js';
 import { fetchAllThreads } from './shared.js';
-import { SEVERITY_ORDER, type Severity } from '../extractors/severity.js';
+import { createPartitions, DEFAULT_PARTITION_STRATEGY } from '../coordination/partitioning.js';
+import { collectOutcomes, foreignOutcomes } from '../coordination/outcomes.js';
+import { loadPartitionStrategy } from '../github/repo-config.js';
 import { detectReviewedAgents } from '../agents/detector.js';
 
-// ============================================================================
-// Constants
-// ============================================================================
-
-/**
- * Threshold for auto-force replacement of old runs (5 minutes)
- * Workers typically complete quickly, so runs older than this are likely stale
- */
-const OLD_RUN_THRESHOLD_MS = 5 * 60 * 1000;
-
 // ============================================================================
 // Helpers
 // ============================================================================
 
-/**
- * Compare severities to find the higher one (lower index in SEVERITY_ORDER is higher severity)
- */
-function maxSeverity(s1: Severity, s2: Severity): Severity {
-  const i1 = SEVERITY_ORDER.indexOf(s1);
-  const i2 = SEVERITY_ORDER.indexOf(s2);
-  // If not found, treat as lowest priority (end of list)
-  const idx1 = i1 === -1 ? SEVERITY_ORDER.length : i1;
-  const idx2 = i2 === -1 ? SEVERITY_ORDER.length : i2;
-  return idx1 < idx2 ? s1 : s2;
-}
-
-/**
- * Group comments by file and create partitions
- * Shared logic used by initializeRun and refreshPartitions
- */
-function createPartitionsFromComments(
-  comments: Array<{ file?: string; threadId: string; severity: string }>
-): FilePartition[] {
-  // Group by file
-  const fileGroups = new Map<string, { threadIds: Set<string>, severity: Severity }>();
-
-  for (const comment of comments) {
-    if (!comment.file) continue;
-
-    const existingGroup = fileGroups.get(comment.file);
-    const group = existingGroup ?? {
-      threadIds: new Set<string>(),
-      severity: comment.severity as Severity
-    };
-
-    group.threadIds.add(comment.threadId);
-
-    if (existingGroup) {
-      group.severity = maxSeverity(group.severity, comment.severity as Severity);
-    }
-
-    fileGroups.set(comment.file, group);
-  }
-
-  // Create partitions
-  const partitions: FilePartition[] = Array.from(fileGroups.entries()).map(([file, data]) => ({
-    file,
-    comments: Array.from(data.threadIds),
-    severity: data.severity,
-    status: 'pending' as const
-  }));
-
-  // Sort by severity (highest first)
-  partitions.sort((a, b) => {
-    const i1 = SEVERITY_ORDER.indexOf(a.severity);
-    const i2 = SEVERITY_ORDER.indexOf(b.severity);
-    const idx1 = i1 === -1 ? SEVERITY_ORDER.length : i1;
-    const idx2 = i2 === -1 ? SEVERITY_ORDER.length : i2;
-    return idx1 - idx2;
-  });
-
-  return partitions;
-}
-
 /**
  * Initialize a new run by fetching PR data
+ * @param strategy - Partitioning strategy (default: the repo config's, else per file)
  */
 async function initializeRun(
   client: GitHubClient,
@@ -106,179 +46,266 @@ async function initializeRun(
   repo: string,
   pr: number,
   coordination: ICoordinationStateManager,
+  strategy?: PartitionStrategy,
   octokit?: import('@octokit/rest').Octokit
 ): Promise<string> {
   const ok = octokit ?? getOctokit();
 
-  // 1. Fetch PR data and threads in parallel
-  const [prResponse, threadsResponse] = await Promise.all([
+  // 1. Fetch PR data, threads and the repo's default strategy in parallel
+  const [prResponse, threadsResponse, repoStrategy] = await Promise.all([
     ok.pulls.get({ owner, repo, pull_number: pr }),
     fetchAllThreads(client, owner, repo, pr, {
       filter: { resolved: false },
       maxItems: 500 // Reasonable limit
-    })
+    }),
+    strategy ? undefined : loadPartitionStrategy(owner, repo, ok)
   ]);
   const headSha = prResponse.data.head.sha;
   const { comments } = threadsResponse;
+  const runStrategy = strategy ?? repoStrategy ?? DEFAULT_PARTITION_STRATEGY;
 
-  // 2. Group by file and create partitions
-  const partitions = createPartitionsFromComments(comments);
+  // 2. Create partitions
+  const partitions = createPartitions(comments, runStrategy);
 
   // 3. Init run
-  return coordination.initRun({ owner, repo, pr }, headSha, partitions);
+  return coordination.initRun({ owner, repo, pr }, headSha, partitions, runStrategy);
 }
 
 /**
  * Refresh partitions by fetching current unresolved comments
- * and adding new files that aren't already in the run.
+ * and adding the ones that aren't already in the run.
  * This handles comments added by review agents AFTER the initial run started.
  */
 async function refreshPartitions(
   client: GitHubClient,
-  owner: string,
-  repo: string,
-  pr: number,
-  coordination: ICoordinationStateManager
+  coordination: ICoordinationStateManager,
+  runId: string
 ): Promise<number> {
+  const run = coordination.findRun({ runId });
+  if (!run) return 0;
+  const { owner, repo, pr } = run.prInfo;
+
   // Fetch current unresolved comments
   const { comments } = await fetchAllThreads(client, owner, repo, pr, {
     filter: { resolved: false },
     maxItems: 500
   });
 
-  // Group by file and create partitions
-  const newPartitions = createPartitionsFromComments(comments);
+  // Partition new comments with the run's strategy; per-file and per-directory keys
+  // match existing partitions, so their comments merge into them
+  const known = new Set(Array.from(run.partitions.values()).flatMap(p => p.comments));
+  const newPartitions = createPartitions(
+    comments.filter(c => !known.has(c.threadId)),
+    run.strategy,
+    run.partitions.keys()
+  );
 
   // Add new comments/partitions to the existing run
-  return coordination.addPartitions(newPartitions);
+  return coordination.addPartitions(newPartitions, runId);
 }
 
 // ============================================================================
 // Tool Implementations
 // ============================================================================
 
-export async function prClaimWork(
+/**
+ * Format a run's PR as owner/repo#pr
+ */
+function runLabel(prInfo: { owner: string; repo: string; pr: number }): string {
+  return `${prInfo.owner}/${prInfo.repo}#${prInfo.pr}`;
+}
+
+/**
+ * Pick the run a claim goes to: the given run, the run for pr_info (started
+ * when missing or forced), or the only active run
+ */
+async function resolveClaimRun(
   input: ClaimWorkInput,
   client: GitHubClient,
   coordination: ICoordinationStateManager,
   octokit?: import('@octokit/rest').Octokit
-) {
-  const { agent_id, pr_info, force } = input;
-
-  const isActive = coordination.isRunActive();
-  const currentRun = coordination.getCurrentRun();
-
-  // Determine if we need to initialize a new run
-  let needsInit = false;
+): Promise<string> {
+  const { run_id, pr_info, force, strategy } = input;
 
-  if (!currentRun) {
-    // No run at all - need pr_info to start
-    if (!pr_info) {
+  if (run_id !== undefined) {
+    const run = coordination.findRun({ runId: run_id });
+    if (!run) {
       throw new StructuredError(
         'not_found',
-        'No active coordination run. Provide pr_info to start a new run.',
+        `Coordination run ${run_id} not found. Provide pr_info to start a new run.`,
         false
       );
     }
-    needsInit = true;
-  } else if (pr_info) {
-    // Run exists, pr_info provided - check if it's a different PR
-    const curr = currentRun.prInfo;
-    const isDifferentPR =
-      curr.owner !== pr_info.owner ||
-      curr.repo !== pr_info.repo ||
-      curr.pr !== pr_info.pr;
-
-    if (isDifferentPR) {
-      // Different PR requested
-      // Check if truly active (no completedAt) vs. reopened by refresh
-      const hasCompletedAt = !!currentRun.completedAt;
-
-      // Auto-allow replacement if run is old (>5 minutes) - workers complete quickly
-      const runAge = coordination.getRunAge();
-      const autoForce = (runAge && runAge > OLD_RUN_THRESHOLD_MS) || hasCompletedAt;
-
-      if (isActive && !force && !autoForce) {
-        // Current run is still active - cannot replace (unless forced or old/completed)
-        throw new StructuredError(
-          'permission',
-          `Active run exists for ${curr.owner}/${curr.repo}#${curr.pr}, cannot claim for different PR. Use force=true to override.`,
-          false
-        );
-      }
-      // Current run completed OR force=true OR old run - safe to replace
-      if ((force || autoForce) && isActive) {
-        const reason = hasCompletedAt ? 'previously completed' : 'old';
-        logger.warning(`[coordination] Force-replacing active run ${currentRun.runId} (${reason}) for ${curr.owner}/${curr.repo}#${curr.pr}`);
-      }
-      needsInit = true;
+    return run.runId;
+  }
+
+  if (pr_info) {
+    const run = coordination.findRun({ prInfo: pr_info });
+    if (run && !force) return run.runId;
+
+    if (run && coordination.isRunActive(run.runId)) {
+      logger.warning(`[coordination] Force-replacing active run ${run.runId} for ${runLabel(pr_info)}`);
     }
-  } else if (!isActive) {
-    // Run exists but completed, no pr_info - error
+    return initializeRun(client, pr_info.owner, pr_info.repo, pr_info.pr, coordination, strategy, octokit);
+  }
+
+  // No selector: only unambiguous when exactly one run is active
+  const active = coordination.listRuns().filter(r => r.active && r.runId);
+  if (active.length === 0) {
     throw new StructuredError(
       'not_found',
       'No active coordination run. Provide pr_info to start a new run.',
       false
     );
   }
-
-  if (needsInit) {
-    await initializeRun(client, pr_info!.owner, pr_info!.repo, pr_info!.pr, coordination, octokit);
+  if (active.length > 1) {
+    throw new StructuredError(
+      'parse',
+      `Multiple active coordination runs (${active.map(r => runLabel(r.prInfo!)).join(', ')}). Provide run_id or pr_info.`,
+      false
+    );
   }
+  return active[0].runId!;
+}
 
-  let partition = coordination.claimPartition(agent_id);
+export async function prClaimWork(
+  input: ClaimWorkInput,
+  client: GitHubClient,
+  coordination: ICoordinationStateManager,
+  octokit?: import('@octokit/rest').Octokit
+) {
+  const { agent_id } = input;
+
+  const runId = await resolveClaimRun(input, client, coordination, octokit);
+  let partition = coordination.claimPartition(agent_id, runId);
 
   // If no partition available, check if we should refresh with new unresolved comments
   // This handles comments added by review agents AFTER the initial run started
-  if (!partition && coordination.allPartitionsDone()) {
-    const run = coordination.getCurrentRun();
-    if (run) {
-      const { owner, repo, pr } = run.prInfo;
-      const touchedPartitionsCount = await refreshPartitions(client, owner, repo, pr, coordination);
-
-      if (touchedPartitionsCount > 0) {
-        logger.warning(`[coordination] Refreshed partitions - added/updated ${touchedPartitionsCount} partitions`);
-        // Try to claim again after refresh
-        partition = coordination.claimPartition(agent_id);
-      }
+  if (!partition && coordination.allPartitionsDone(runId)) {
+    const touchedPartitionsCount = await refreshPartitions(client, coordination, runId);
+
+    if (touchedPartitionsCount > 0) {
+      logger.warning(`[coordination] Refreshed partitions - added/updated ${touchedPartitionsCount} partitions`);
+      // Try to claim again after refresh
+      partition = coordination.claimPartition(agent_id, runId);
     }
   }
 
   if (!partition) {
     return {
       status: 'no_work',
+      runId,
       message: 'No pending partitions available.'
     };
   }
 
   return {
     status: 'claimed',
+    runId,
     partition
   };
 }
 
+const MISSING_LEASE_TOKEN_WARNING = 'Reports without lease_token are deprecated and will be rejected in a future ' +
+  'release. Pass the leaseToken returned by pr_claim_work.';
+
+/**
+ * Claimed partitions under this key in every active run
+ */
+function findClaims(coordination: ICoordinationStateManager, file: string): FilePartition[] {
+  return coordination.listRuns().flatMap(run => {
+    const partition = run.active && run.runId
+      ? coordination.findRun({ runId: run.runId })?.partitions.get(file)
+      : undefined;
+    return partition?.status === 'claimed' ? [partition] : [];
+  });
+}
+
+/**
+ * Lease of the partition an agent holds under this key, for reports that omit the token.
+ * Null unless exactly one active run has such a claim.
+ */
+function findLeaseToken(coordination: ICoordinationStateManager, agentId: string, file: string): string | null {
+  const tokens = findClaims(coordination, file).flatMap(p => (p.claimedBy === agentId && p.leaseToken ? [p.leaseToken] : []));
+  return tokens.length === 1 ? tokens[0] : null;
+}
+
 export async function prReportProgress(
   input: ReportProgressInput,
   coordination: ICoordinationStateManager
 ): Promise<
   | { status: 'error'; message: string }
-  | { status: 'success'; file: string; new_status: 'done' | 'failed' | 'skipped' }
+  | {
+      status: 'success';
+      file: string;
+      new_status: 'done' | 'failed' | 'skipped';
+      outcomesRecorded: number;
+      warning?: string;
+    }
 > {
-  const { agent_id, file, status, result } = input;
+  const { agent_id, file, status, result, outcomes } = input;
+
+  // Workers written before leases existed report without a token; accepted for now
+  const leaseToken = input.lease_token ?? findLeaseToken(coordination, agent_id, file);
+  if (!input.lease_token) {
+    logger.warning(`[coordination] ${agent_id} reported ${file} without a lease token (deprecated)`);
+  }
+
+  // Outcomes must belong to the claimed partition; a report naming other threads is rejected whole
+  const claimed = findClaims(coordination, file).find(p => leaseToken !== null && p.leaseToken === leaseToken);
+  const foreign = claimed && outcomes ? foreignOutcomes(claimed, outcomes) : [];
+  if (foreign.length > 0) {
+    return {
+      status: 'error',
+      message: `Outcomes name threads outside partition ${file}: ${foreign.map(o => o.threadId).join(', ')}. ` +
+        'Report each thread with the partition that contains it.'
+    };
+  }
 
-  const success = coordination.reportProgress(agent_id, file, status, result);
+  const success = leaseToken !== null &&
+    coordination.reportProgress(agent_id, file, leaseToken, status, result, outcomes);
 
   if (!success) {
     return {
       status: 'error',
-      message: 'Failed to report progress. Partition may not be claimed by this agent or run is not active.'
+      message: 'Failed to report progress. Partition may not be claimed by this agent, its lease may have been ' +
+        'reassigned after it expired, or run is not active.' +
+        (input.lease_token ? '' : ` ${MISSING_LEASE_TOKEN_WARNING}`)
+    };
+  }
+
+  return {
+    status: 'success',
+    file,
+    new_status: status === 'skipped' ? 'done' : status,
+    outcomesRecorded: outcomes?.length ?? 0,
+    ...(!input.lease_token && { warning: MISSING_LEASE_TOKEN_WARNING })
+  };
+}
+
+export async function prHeartbeat(
+  input: HeartbeatInput,
+  coordination: ICoordinationStateManager
+): Promise<
+  | { status: 'error'; message: string }
+  | { status: 'success'; file: string; leaseExpiresAt: string }
+> {
+  const { agent_id, file, lease_token } = input;
+
+  const partition = coordination.heartbeat(agent_id, file, lease_token);
+
+  if (!partition?.leaseExpiresAt) {
+    return {
+      status: 'error',
+      message: 'Lease is no longer current: the partition was reassigned or the run is not active. ' +
+        'Stop working on it and claim new work.'
     };
   }
 
   return {
     status: 'success',
     file,
-    new_status: status === 'skipped' ? 'done' : status
+    leaseExpiresAt: partition.leaseExpiresAt
   };
 }
 
@@ -288,10 +315,10 @@ export async function prGetWorkStatus(
   coordination: ICoordinationStateManager,
   octokit?: Octokit,
 ) {
-  // We currently ignore run_id in input as we only support singleton active run
-  const { active, ...status } = coordination.getStatus();
-  const isActive = coordination.isRunActive();
-  const runAge = coordination.getRunAge();
+  const run = coordination.findRun({ runId: input.run_id, prInfo: input.pr_info });
+  const { active, ...status }: CoordinationStatus = run ? coordination.getStatus(run.runId) : { active: false };
+  const isActive = run ? coordination.isRunActive(run.runId) : false;
+  const runAge = run ? coordination.getRunAge(run.runId) : null;
 
   // Check for pending AI reviewers if we have an active run with PR info
   let pendingAgents: string[] = [];
@@ -305,6 +332,8 @@ export async function prGetWorkStatus(
     reviewedAgents = [...detection.reviewed];
   }
 
+  const { outcomes, counts: outcomeCounts } = collectOutcomes(run?.partitions.values() ?? []);
+
   return {
     ...status,
     isActive,
@@ -312,7 +341,12 @@ export async function prGetWorkStatus(
     pendingAgents,
     reviewedAgents,
     // Convenience flag: true only when all partitions done AND no pending agents
-    isFullyComplete: !isActive && pendingAgents.length === 0 && status.prInfo !== undefined
+    isFullyComplete: !isActive && pendingAgents.length === 0 && status.prInfo !== undefined,
+    // What workers reported for each thread of the run
+    outcomes,
+    outcomeCounts,
+    // Every run in this session (one per PR)
+    runs: coordination.listRuns()
   };
 }
 
@@ -329,19 +363,26 @@ export async function prResetCoordination(
     );
   }
 
-  const currentRun = coordination.getCurrentRun();
-  const wasActive = coordination.isRunActive();
+  const selected = input.run_id !== undefined || input.pr_info !== undefined;
+  const target = selected ? coordination.findRun({ runId: input.run_id, prInfo: input.pr_info }) : null;
+  if (selected && !target) {
+    throw new StructuredError('not_found', 'No coordination run matches run_id/pr_info', false);
+  }
+
+  const previousRuns = coordination.listRuns()
+    .filter(r => !target || r.runId === target.runId)
+    .map(r => ({
+      runId: r.runId,
+      pr: runLabel(r.prInfo!),
+      wasActive: r.active,
+      completedAt: r.completedAt
+    }));
 
-  coordination.resetRun();
+  coordination.resetRun(target?.runId);
 
   return {
     status: 'reset',
-    previousRun: currentRun ? {
-      runId: currentRun.runId,
-      pr: `${currentRun.prInfo.owner}/${currentRun.prInfo.repo}#${currentRun.prInfo.pr}`,
-      wasActive,
-      completedAt: currentRun.completedAt
-    } : null
+    previousRuns
   };
 }
 
@@ -358,35 +399,54 @@ export async function prProgressCheck(
   coordination: ICoordinationStateManager
 ) {
   const progress = coordination.getOrchestratorProgress();
-  const status = coordination.getStatus();
+  const runs = coordination.listRuns();
+
   return {
     orchestrator: progress,
-    run: {
-      active: coordination.isRunActive(),
-      progress: status.progress,
-      total: status.total,
-      agents: (status as any).agents?.length,
-      completedAt: status.completedAt
-    }
+    // Totals across all runs
+    run: runs.length === 0 ? { active: false } : {
+      active: runs.some(r => r.active),
+      progress: runs.reduce((sum, r) => {
+        for (const key of Object.keys(sum) as Array<keyof typeof sum>) sum[key] += r.progress?.[key] ?? 0;
+        return sum;
+      }, { pending: 0, claimed: 0, done: 0, failed: 0, skipped: 0 }),
+      total: runs.reduce((sum, r) => sum + (r.total ?? 0), 0),
+      agents: new Set(runs.flatMap(r => r.agents?.map(a => a.agentId) ?? [])).size,
+      completedAt: runs.every(r => r.completedAt)
+        ? runs.map(r => r.completedAt!).sort().pop()
+        : undefined
+    },
+    runs: runs.map(r => ({
+      runId: r.runId!,
+      pr: runLabel(r.prInfo!),
+      active: r.active,
+      progress: r.progress,
+      total: r.total,
+      completedAt: r.completedAt
+    }))
   };
 }
 
 // Output schemas for structured content
 
-export const WorkStatusOutputSchema = z.object({
+const RunProgressSchema = z.object({
+  pending: z.number(),
+  claimed: z.number(),
+  done: z.number(),
+  failed: z.number(),
+  skipped: z.number(),
+});
+
+const RunStatusSchema = z.object({
+  active: z.boolean(),
   runId: z.string().optional(),
   prInfo: z.object({
     owner: z.string(),
     repo: z.string(),
     pr: z.number(),
   }).optional(),
-  progress: z.object({
-    pending: z.number(),
-    claimed: z.number(),
-    done: z.number(),
-    failed: z.number(),
-    skipped: z.number(),
-  }).optional(),
+  strategy: z.enum(PARTITION_STRATEGIES).optional(),
+  progress: RunProgressSchema.optional(),
   total: z.number().optional(),
   agents: z.array(z.object({
     agentId: z.string(),
@@ -396,11 +456,32 @@ export const WorkStatusOutputSchema = z.object({
   })).optional(),
   startedAt: z.string().optional(),
   completedAt: z.string().optional(),
+});
+
+export const WorkStatusOutputSchema = RunStatusSchema.omit({ active: true }).extend({
   isActive: z.boolean(),
   runAge: z.number().nullable(),
   pendingAgents: z.array(z.string()),
   reviewedAgents: z.array(z.string()),
   isFullyComplete: z.boolean(),
+  outcomes: z.array(z.object({
+    threadId: z.string(),
+    outcome: z.enum(COMMENT_OUTCOMES),
+    reason: z.enum(DISMISS_REASONS).optional(),
+    commitSha: z.string().optional(),
+    note: z.string().optional(),
+    agentId: z.string(),
+    reportedAt: z.string(),
+    partition: z.string(),
+  })),
+  outcomeCounts: z.object({
+    fixed: z.number(),
+    dismissed: z.number(),
+    deferred: z.number(),
+    failed: z.number(),
+    unreported: z.number(),
+  }),
+  runs: z.array(RunStatusSchema),
 });
 
 export const ProgressCheckOutputSchema = z.object({
@@ -417,21 +498,23 @@ export const ProgressCheckOutputSchema = z.object({
   }).nullable(),
   run: z.object({
     active: z.boolean(),
-    progress: z.object({
-      pending: z.number(),
-      claimed: z.number(),
-      done: z.number(),
-      failed: z.number(),
-      skipped: z.number(),
-    }).optional(),
+    progress: RunProgressSchema.optional(),
     total: z.number().optional(),
     agents: z.number().optional(),
     completedAt: z.string().optional(),
   }),
+  runs: z.array(z.object({
+    runId: z.string(),
+    pr: z.string(),
+    active: z.boolean(),
+    progress: RunProgressSchema.optional(),
+    total: z.number().optional(),
+    completedAt: z.string().optional(),
+  })),
 });
 
 // Export schemas for registration
 export {
-  ClaimWorkSchema, ReportProgressSchema, GetWorkStatusSchema, ResetCoordinationSchema,
+  ClaimWorkSchema, ReportProgressSchema, HeartbeatSchema, GetWorkStatusSchema, ResetCoordinationSchema,
   ProgressUpdateSchema, ProgressCheckSchema
 };
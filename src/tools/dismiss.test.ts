@@ -0,0 +1,69 @@
+/**
+ * Unit tests for pr_dismiss (reply and state comment mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { GitHubClient } from '../github/client.js';
+
+const mocks = vi.hoisted(() => ({
+  prReply: vi.fn(),
+  recordDismissal: vi.fn(),
+}));
+
+vi.mock('./reply.js', () => ({ prReply: mocks.prReply }));
+vi.mock('../github/state-comment.js', () => ({ recordDismissal: mocks.recordDismissal }));
+
+import { prDismiss } from './dismiss.js';
+
+const base = { owner: 'o', repo: 'r', pr: 1, reason: 'false_positive' as const, rationale: 'Guarded by the caller' };
+const client = {} as GitHubClient;
+
+beforeEach(() => {
+  mocks.prReply.mockReset();
+  mocks.recordDismissal.mockReset().mockResolvedValue(undefined);
+});
+
+describe('prDismiss', () => {
+  it('records a review thread under its node ID', async () => {
+    mocks.prReply.mockResolvedValue({ synthetic: false, threadId: 'PRRT_a', replyUrl: 'https://x/1', resolved: true });
+
+    const result = await prDismiss({ ...base, threadId: 'PRRC_a' }, client);
+
+    expect(mocks.prReply).toHaveBeenCalledWith(
+      expect.objectContaining({ threadId: 'PRRC_a', resolve: true, body: expect.stringContaining('False positive') }),
+      client, undefined, undefined
+    );
+    expect(mocks.recordDismissal).toHaveBeenCalledWith(
+      'o', 'r', 1, 'PRRT_a', { reason: 'false_positive', rationale: base.rationale }, 'agent', undefined
+    );
+    expect(result).toMatchObject({ success: true, threadId: 'PRRT_a', resolved: true, recorded: true });
+  });
+
+  it('records a synthetic comment under the given ID', async () => {
+    mocks.prReply.mockResolvedValue({ synthetic: true, threadId: 'PRRT_review', replyUrl: null, resolved: true });
+
+    const result = await prDismiss({ ...base, threadId: 'coderabbit-nitpick-abc' }, client);
+
+    expect(mocks.recordDismissal.mock.calls[0][3]).toBe('coderabbit-nitpick-abc');
+    expect(result.threadId).toBe('coderabbit-nitpick-abc');
+  });
+
+  it('reports an unrecorded dismissal when the state comment cannot be written', async () => {
+    mocks.prReply.mockResolvedValue({ synthetic: false, threadId: 'PRRT_a', replyUrl: 'https://x/1', resolved: true });
+    mocks.recordDismissal.mockRejectedValue(new Error('403'));
+
+    const result = await prDismiss({ ...base, threadId: 'PRRT_a' }, client);
+
+    expect(result).toMatchObject({ success: true, resolved: true, recorded: false });
+  });
+
+  it('replies to a Greptile comment and records the dismissal without resolving it', async () => {
+    mocks.prReply.mockResolvedValue({ synthetic: true, threadId: 'greptile-1', replyUrl: 'https://x/2' });
+
+    const result = await prDismiss({ ...base, threadId: 'greptile-1' }, client);
+
+    expect(mocks.prReply).toHaveBeenCalledWith(expect.objectContaining({ threadId: 'greptile-1', resolve: false }), client, undefined, undefined);
+    expect(mocks.recordDismissal.mock.calls[0][3]).toBe('greptile-1');
+    expect(result).toMatchObject({ success: true, resolved: false, recorded: true, message: expect.stringContaining('Greptile') });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * pr_dismiss tool - Dismiss a review comment with a reason category and rationale
+ */
+
+import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
+import { GitHubClient } from '../github/client.js';
+import { recordDismissal } from '../github/state-comment.js';
+import { prReply } from './reply.js';
+import { DISMISS_REASONS, type DismissReason, type ICoordinationStateManager } from '../coordination/types.js';
+import { logger } from '../logging.js';
+
+export const DismissInputSchema = z.object({
+  owner: z.string().min(1, 'Repository owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr: z.number().int().positive('PR number must be positive'),
+  threadId: z.string().min(1, 'Thread ID is required'),
+  reason: z.enum(DISMISS_REASONS).describe('Why the comment is not being fixed'),
+  rationale: z.string().min(1, 'Rationale is required').describe('Free-text explanation posted as a reply')
+});
+
+export type DismissInput = z.infer<typeof DismissInputSchema>;
+
+export interface DismissOutput {
+  success: boolean;
+  threadId: string;
+  reason: DismissReason;
+  replyUrl: string | null;
+  resolved: boolean;
+  /** False when the dismissal could not be written to the state comment */
+  recorded: boolean;
+  message?: string;
+}
+
+const REASON_LABELS: Record<DismissReason, string> = {
+  false_positive: 'False positive',
+  wont_fix: "Won't fix",
+  out_of_scope: 'Out of scope',
+  deferred: 'Deferred'
+};
+
+/**
+ * Reply with the rationale, resolve the thread, and record the dismissal category
+ */
+export async function prDismiss(
+  input: DismissInput,
+  client: GitHubClient,
+  coordination?: ICoordinationStateManager,
+  octokit?: Octokit
+): Promise<DismissOutput> {
+  const { owner, repo, pr, threadId, reason, rationale } = DismissInputSchema.parse(input);
+
+  // Greptile comments live in one issue comment with nothing to resolve; only the reply and record apply
+  const resolvable = !threadId.startsWith('greptile-');
+
+  const reply = await prReply(
+    {
+      owner,
+      repo,
+      pr,
+      threadId,
+      body: `**Dismissed — ${REASON_LABELS[reason]}**\n\n${rationale}`,
+      resolve: resolvable
+    },
+    client,
+    coordination,
+    octokit
+  );
+
+  // Review threads are keyed by node ID; synthetic and child IDs as given, matching pr_list
+  const recordId = reply.synthetic ? threadId : reply.threadId;
+  let recorded = true;
+  try {
+    await recordDismissal(owner, repo, pr, recordId, { reason, rationale }, 'agent', octokit);
+  } catch (error) {
+    recorded = false;
+    logger.warning('[dismiss] Failed to record dismissal in state comment', { threadId, error });
+  }
+
+  return {
+    success: true,
+    threadId: recordId,
+    reason,
+    replyUrl: reply.replyUrl,
+    resolved: reply.resolved ?? false,
+    recorded,
+    ...(reply.message && { message: reply.message }),
+    ...(!resolvable && { message: 'Greptile comments cannot be resolved; the reply was posted without resolving' })
+  };
+}
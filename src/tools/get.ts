@@ -3,17 +3,24 @@
  */
 
 import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
 import { GitHubClient, StructuredError } from '../github/client.js';
-import { fetchAllThreads, fetchSingleThread } from './shared.js';
+import { getOctokit } from '../github/octokit.js';
+import { fetchAllThreads, fetchSingleThread, overrideSeverity } from './shared.js';
 import { fetchQodoReview, qodoToNormalizedComments } from '../adapters/qodo.js';
 import { fetchGreptileReview, greptileToNormalizedComments } from '../adapters/greptile.js';
-import type { GetInput, GetOutput } from '../github/types.js';
+import { loadSeverityRules, getRepoFileContent } from '../github/repo-config.js';
+import { parseLineWindow } from '../extractors/duplicates.js';
+import { logger } from '../logging.js';
+import type { GetInput, GetOutput, FileContext } from '../github/types.js';
 
 export const GetInputSchema = z.object({
   owner: z.string().min(1, 'Repository owner is required'),
   repo: z.string().min(1, 'Repository name is required'),
   pr: z.number().int().positive('PR number must be positive'),
-  id: z.string().min(1, 'Comment ID is required')
+  id: z.string().min(1, 'Comment ID is required'),
+  contextLines: z.number().int().min(0).max(200).optional()
+    .describe('Include this many lines of the file at the PR head SHA around the commented range')
 });
 
 export const GetOutputSchema = z.object({
@@ -36,6 +43,17 @@ export const GetOutputSchema = z.object({
     createdAt: z.string().optional(),
   })),
   canResolve: z.boolean(),
+  diffHunk: z.string().nullable().optional(),
+  startLine: z.number().nullable().optional(),
+  originalLine: z.number().nullable().optional(),
+  originalCommit: z.string().nullable().optional(),
+  diffSide: z.string().nullable().optional(),
+  fileContext: z.object({
+    ref: z.string(),
+    startLine: z.number(),
+    endLine: z.number(),
+    content: z.string(),
+  }).nullable().optional(),
 });
 
 /** Convert a ProcessedComment to GetOutput format */
@@ -54,25 +72,43 @@ function toGetOutput(comment: import('../github/types.js').ProcessedComment): Ge
       confidence: comment.aiPromptConfidence === 'absent' ? 'low' : comment.aiPromptConfidence
     } : null,
     replies: comment.replies,
-    canResolve: comment.canResolve
+    canResolve: comment.canResolve,
+    ...comment.codeContext
   };
 }
 
 /**
  * Get detailed information about a specific comment
+ * With contextLines, also returns the surrounding file content at the PR head
  */
 export async function prGet(
   input: GetInput,
-  client: GitHubClient
+  client: GitHubClient,
+  octokit?: Octokit
 ): Promise<GetOutput> {
   const validated = GetInputSchema.parse(input);
+  const comment = await findComment(validated, client);
+
+  if (!validated.contextLines) return comment;
+
+  const { owner, repo, pr, contextLines } = validated;
+  return {
+    ...comment,
+    fileContext: await loadFileContext(owner, repo, pr, comment, contextLines, octokit)
+  };
+}
+
+async function findComment(
+  validated: z.infer<typeof GetInputSchema>,
+  client: GitHubClient
+): Promise<GetOutput> {
   const { owner, repo, pr, id } = validated;
 
   // Fast path: if ID looks like a full GraphQL node ID, try single-thread fetch first.
   // This avoids fetching all threads when the caller already has a thread ID.
   const isFullNodeId = id.length > 20 && /^[A-Za-z]/.test(id);
   if (isFullNodeId) {
-    const directComment = await fetchSingleThread(client, id);
+    const directComment = await fetchSingleThread(client, owner, repo, pr, id, await loadSeverityRules(owner, repo));
     if (directComment) {
       return toGetOutput(directComment);
     }
@@ -133,7 +169,7 @@ export async function prGet(
         threadId: qodoComment.id, // Qodo doesn't have threads
         file: qodoComment.file,
         line: qodoComment.line ?? '?',
-        severity: qodoComment.severity,
+        severity: overrideSeverity(qodoComment.severity, 'qodo', qodoComment.body, await loadSeverityRules(owner, repo)).severity,
         source: 'qodo',
         title: qodoComment.title,
         body: qodoComment.body,
@@ -171,7 +207,7 @@ export async function prGet(
         threadId: greptileComment.id, // Greptile issue comments don't have threads
         file: greptileComment.file || '',
         line: greptileComment.line ?? '?',
-        severity: greptileComment.severity,
+        severity: overrideSeverity(greptileComment.severity, 'greptile', greptileComment.body, await loadSeverityRules(owner, repo)).severity,
         source: 'greptile',
         title: greptileComment.title,
         body: greptileComment.body,
@@ -188,3 +224,46 @@ export async function prGet(
 
   return toGetOutput(comment);
 }
+
+/**
+ * Read the commented range plus `contextLines` on each side from the PR head.
+ * Returns null when the position can't be mapped to the head (unknown line,
+ * comment on the base side) or the file can't be read.
+ */
+async function loadFileContext(
+  owner: string,
+  repo: string,
+  pr: number,
+  comment: GetOutput,
+  contextLines: number,
+  octokit?: Octokit
+): Promise<FileContext | null> {
+  if (!comment.file || comment.diffSide === 'LEFT') return null;
+  const window = parseLineWindow(comment.line);
+  if (!window) return null;
+
+  const start = comment.startLine ?? window[0];
+  const end = window[1];
+
+  try {
+    const ok = octokit ?? getOctokit();
+    const { data: pull } = await ok.pulls.get({ owner, repo, pull_number: pr });
+    const ref = pull.head.sha;
+
+    const content = await getRepoFileContent(owner, repo, comment.file, ok, ref);
+    if (content === null) return null;
+
+    const lines = content.split('\n');
+    const from = Math.max(1, start - contextLines);
+    const to = Math.min(lines.length, end + contextLines);
+    if (from > to) return null;
+
+    return { ref, startLine: from, endLine: to, content: lines.slice(from - 1, to).join('\n') };
+  } catch (error) {
+    logger.warning('[get] Failed to load file context', {
+      file: comment.file,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for pr_invoke fallbacks on failed invocations (agents and GitHub mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { InvokeResult } from '../agents/invoker.js';
+
+const mocks = vi.hoisted(() => ({
+  invokeAgent: vi.fn(),
+  loadFallbackChains: vi.fn(),
+}));
+
+vi.mock('../agents/invoker.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../agents/invoker.js')>()),
+  invokeAgent: mocks.invokeAgent,
+}));
+vi.mock('../github/repo-config.js', () => ({
+  loadRepoConfig: async () => null,
+  loadFallbackChains: mocks.loadFallbackChains,
+}));
+vi.mock('../agents/fallback.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../agents/fallback.js')>()),
+  findUnavailableAgents: async () => new Map(),
+}));
+
+import { prInvoke } from './invoke.js';
+
+/** invokeAgent result; only the agents in `working` succeed */
+function invokeWith(working: string[]) {
+  return async (_owner: string, _repo: string, _pr: number, agent: string): Promise<InvokeResult> => ({
+    success: working.includes(agent),
+    agent,
+    agentName: agent,
+    commentUrl: null,
+    message: working.includes(agent) ? 'Invoked' : `${agent} is not installed`,
+  });
+}
+
+const input = { owner: 'o', repo: 'r', pr: 1, agent: 'sourcery', options: { force: true } };
+
+beforeEach(() => {
+  mocks.loadFallbackChains.mockReset().mockResolvedValue({ sourcery: ['gemini', 'coderabbit', 'codex'] });
+  mocks.invokeAgent.mockReset();
+});
+
+describe('prInvoke fallbacks', () => {
+  it('tries fallbacks in order until one is invoked', async () => {
+    mocks.invokeAgent.mockImplementation(invokeWith(['coderabbit', 'codex']));
+
+    const result = await prInvoke(input);
+
+    expect(mocks.invokeAgent.mock.calls.map(c => c[3])).toEqual(['sourcery', 'gemini', 'coderabbit']);
+    expect(result.fallbacks).toEqual([
+      { agent: 'sourcery', fallback: 'gemini', reason: 'sourcery is not installed' },
+      { agent: 'gemini', fallback: 'coderabbit', reason: 'gemini is not installed' },
+    ]);
+    expect(result.invoked).toEqual(['coderabbit']);
+    expect(result.invokedAgentIds).toEqual(['sourcery', 'gemini', 'coderabbit']);
+  });
+
+  it('stops once the chain is exhausted', async () => {
+    mocks.invokeAgent.mockImplementation(invokeWith([]));
+
+    const result = await prInvoke(input);
+
+    expect(mocks.invokeAgent).toHaveBeenCalledTimes(4);
+    expect(result.invoked).toEqual([]);
+    expect(result.failed).toEqual(['sourcery', 'gemini', 'coderabbit', 'codex']);
+  });
+});
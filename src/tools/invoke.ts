@@ -3,21 +3,27 @@
  */
 
 import { z } from 'zod';
-import { getOctokit } from '../github/octokit.js';
-import { GitHubClient } from '../github/client.js';
+import { loadFallbackChains, loadRepoConfig } from '../github/repo-config.js';
+import { GitHubClient, StructuredError } from '../github/client.js';
 import {
   InvokableAgentId,
-  INVOKABLE_AGENTS,
+  agentScope,
+  getAgentConfig,
   getDefaultAgents,
+  getInvokableAgentIds,
+  getReviewMode,
   isInvokableAgent
 } from '../agents/registry.js';
 import {
-  invokeMultipleAgents,
+  invokeAgent,
   aggregateResults,
   InvokeOptions,
   InvokeResult
 } from '../agents/invoker.js';
 import { detectReviewedAgents } from '../agents/detector.js';
+import { advancePipeline, type PipelineOptions, type PipelineStep } from '../agents/pipeline.js';
+import { fetchChangedFilesSince, planReviewScope, type ScopedAgent } from '../agents/incremental.js';
+import { findUnavailableAgents, nextFallback, type FallbackChains } from '../agents/fallback.js';
 import { logger } from '../logging.js';
 import type { InvocationStore } from '../persistence/invocation-store.js';
 
@@ -29,24 +35,40 @@ export const InvokeInputSchema = z.object({
   owner: z.string().min(1, 'Repository owner is required'),
   repo: z.string().min(1, 'Repository name is required'),
   pr: z.number().int().positive('PR number must be positive'),
-  agent: z.enum(['coderabbit', 'sourcery', 'qodo', 'gemini', 'codex', 'copilot', 'all'])
-    .describe('Agent to invoke (or "all" for configured agents)'),
+  agent: z.string().min(1, 'Agent is required')
+    .describe('Agent to invoke: coderabbit, sourcery, qodo, gemini, codex, copilot, greptile, a custom agent ID, or "all" for configured agents'),
   options: z.object({
     focus: z.string().optional().describe('Review focus: security, performance, best-practices'),
     files: z.array(z.string()).optional().describe('Specific files to review'),
     incremental: z.boolean().optional().describe('Review only new changes'),
-    force: z.boolean().optional().describe('Force re-invoke even if agent already reviewed')
+    force: z.boolean().optional().describe('Force a full re-review even if the agent already reviewed and nothing changed since')
   }).optional()
 });
 
 export type InvokeInput = z.infer<typeof InvokeInputSchema>;
 
+/** An agent replaced by its configured fallback */
+export interface InvokeFallback {
+  /** Agent that was replaced */
+  agent: string;
+  /** Agent invoked instead */
+  fallback: string;
+  /** Why the agent was replaced (its quota/setup message, or the invocation error) */
+  reason: string;
+  /** When the replaced agent accepts requests again, if known */
+  retryAfter?: string;
+}
+
 export interface InvokeOutput {
   success: boolean;
   invoked: string[];
   failed: string[];
-  /** Agents skipped because they already reviewed (unless force=true) */
+  /** Agents skipped because they already reviewed and no commits were pushed since (unless force=true) */
   skipped: string[];
+  /** Agents re-invoked for the changes pushed since their last review */
+  scoped?: ScopedAgent[];
+  /** Agents replaced by fallbacks from the repository config */
+  fallbacks?: InvokeFallback[];
   results: InvokeResult[];
   message: string;
   /** ISO timestamp of invocation — use as `since` parameter for pr_await_reviews */
@@ -55,94 +77,95 @@ export interface InvokeOutput {
   invokedAgentIds: string[];
   /** Human-readable instruction for using pr_await_reviews */
   awaitHint: string;
+  /** Invocation record id (when SQLite persistence is available) */
+  invocationId?: number;
+  /** Set when agents run as a server-side sequential pipeline */
+  pipeline?: {
+    steps: PipelineStep[];
+  };
 }
 
 // ============================================================================
 // Configuration Loading
 // ============================================================================
 
-interface RepoConfig {
-  version?: number;
-  invoke?: {
-    agents?: string[];
-    defaults?: InvokeOptions;
-  };
-}
-
-/**
- * Get file content from repository via Octokit
- * Handles all GitHub Content API response types properly
- */
-async function getFileContent(
-  owner: string,
-  repo: string,
-  path: string,
-  octokit?: import('@octokit/rest').Octokit
-): Promise<string | null> {
-  try {
-    const ok = octokit ?? getOctokit();
-    const { data } = await ok.repos.getContent({
-      owner,
-      repo,
-      path
-    });
-
-    // Can be a directory listing
-    if (Array.isArray(data)) return null;
-
-    // Only files have base64 content
-    if (data.type !== 'file') return null;
-    if (!('content' in data) || !data.content) return null;
-    // Handle encoding: base64 for normal files, 'none' for 1-100MB files
-    if ('encoding' in data && data.encoding !== 'base64') return null;
-
-    return Buffer.from(data.content, 'base64').toString('utf-8');
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Get configured agents from repository config file
- * Falls back to all invokable agents if no config exists
+ * Falls back to all invokable agents if no config exists.
+ * Loading the config also registers its custom agents.
  */
 async function getConfiguredAgents(
   owner: string,
   repo: string,
   octokit?: import('@octokit/rest').Octokit
 ): Promise<{ agents: InvokableAgentId[]; defaults?: InvokeOptions }> {
+  const scope = agentScope(owner, repo);
   try {
-    const content = await getFileContent(owner, repo, '.github/pr-review.json', octokit);
+    const config = await loadRepoConfig(owner, repo, octokit);
 
-    if (!content) {
-      return { agents: getDefaultAgents() };
-    }
-
-    let config: RepoConfig;
-    try {
-      config = JSON.parse(content);
-    } catch (parseError) {
-      logger.warning('[invoke] Invalid JSON in .github/pr-review.json, using default agents', {
-        error: parseError instanceof Error ? parseError.message : String(parseError),
-      });
-      return { agents: getDefaultAgents() };
+    if (!config) {
+      return { agents: getDefaultAgents(scope) };
     }
 
     const configuredAgents = config.invoke?.agents || [];
 
     // Filter to only valid invokable agents
     const validAgents = configuredAgents.filter(
-      (id): id is InvokableAgentId => isInvokableAgent(id)
+      (id): id is InvokableAgentId => isInvokableAgent(id, scope)
     );
 
     return {
-      agents: validAgents.length > 0 ? validAgents : getDefaultAgents(),
+      agents: validAgents.length > 0 ? validAgents : getDefaultAgents(scope),
       defaults: config.invoke?.defaults
     };
   } catch {
     // Config file doesn't exist or network error - use default agents
-    return { agents: getDefaultAgents() };
+    return { agents: getDefaultAgents(scope) };
+  }
+}
+
+/**
+ * Swap agents that recently reported quota exhaustion or unavailability on the PR
+ * for their first usable fallback. Agents without a usable fallback are kept.
+ * Only checks availability when one of the agents has a fallback configured.
+ */
+async function substituteUnavailableAgents(
+  owner: string,
+  repo: string,
+  pr: number,
+  agents: InvokableAgentId[],
+  chains: FallbackChains,
+  reviewed: ReadonlySet<string>,
+  octokit?: import('@octokit/rest').Octokit
+): Promise<{ agents: InvokableAgentId[]; fallbacks: InvokeFallback[] }> {
+  const fallbacks: InvokeFallback[] = [];
+  if (!agents.some(id => chains[id]?.length)) {
+    return { agents, fallbacks };
   }
+
+  const candidates = [...new Set([...agents, ...agents.flatMap(id => chains[id] ?? [])])];
+  const unavailable = await findUnavailableAgents(owner, repo, pr, candidates, octokit);
+  const excluded = new Set<string>([...agents, ...reviewed, ...unavailable.keys()]);
+
+  const result = agents.map(agentId => {
+    const status = unavailable.get(agentId);
+    if (!status) return agentId;
+
+    const fallback = nextFallback(agentId, chains, excluded);
+    if (!fallback) return agentId;
+
+    excluded.add(fallback);
+    logger.info(`[invoke] ${status.name} is ${status.unavailable} — invoking fallback ${fallback}`);
+    fallbacks.push({
+      agent: agentId,
+      fallback,
+      reason: status.reason || status.detail || String(status.unavailable),
+      ...(status.retryAfter && { retryAfter: status.retryAfter })
+    });
+    return fallback;
+  });
+
+  return { agents: result, fallbacks };
 }
 
 // ============================================================================
@@ -163,15 +186,17 @@ export async function prInvoke(
 ): Promise<InvokeOutput> {
   const validated = InvokeInputSchema.parse(input);
   const { owner, repo, pr, agent, options } = validated;
+  const repoScope = agentScope(owner, repo);
   // Capture 1s before invocation to avoid strict > filtering missing same-second events
   const since = new Date(Date.now() - 1000).toISOString();
 
   let agentsToInvoke: InvokableAgentId[];
   let mergedOptions = options;
 
+  // Get agents from repo config
+  const config = await getConfiguredAgents(owner, repo, sessionOctokit);
+
   if (agent === 'all') {
-    // Get agents from repo config
-    const config = await getConfiguredAgents(owner, repo, sessionOctokit);
     agentsToInvoke = config.agents;
 
     // Merge options with defaults from config
@@ -179,25 +204,61 @@ export async function prInvoke(
       mergedOptions = { ...config.defaults, ...options };
     }
   } else {
+    if (!isInvokableAgent(agent, repoScope)) {
+      throw new StructuredError(
+        'parse',
+        `Unknown agent: ${agent}. Valid agents: ${getInvokableAgentIds(repoScope).join(', ')}, all`,
+        false
+      );
+    }
     agentsToInvoke = [agent];
   }
 
-  // Smart detection: skip agents that already reviewed (unless force=true)
+  // Smart detection: agents that already reviewed are re-invoked only for the
+  // changes pushed since their last review (unless force=true)
   const skipped: string[] = [];
+  const scoped: ScopedAgent[] = [];
+  const scopes = new Map<string, Pick<InvokeOptions, 'files' | 'incremental'>>();
   const force = mergedOptions?.force ?? false;
+  const reviewed = new Set<string>();
 
   if (!force) {
     const client = new GitHubClient();
     const detection = await detectReviewedAgents(client, owner, repo, pr, sessionOctokit);
-    
+    detection.reviewed.forEach(id => reviewed.add(id));
+
+    const reviewedAt = new Map<string, string>();
+    for (const detail of detection.details) {
+      if (detail.status === 'reviewed' && detail.reviewedAt && agentsToInvoke.includes(detail.agentId)) {
+        reviewedAt.set(detail.agentId, detail.reviewedAt);
+      }
+    }
+    const changes = await fetchChangedFilesSince(owner, repo, pr, reviewedAt, sessionOctokit);
+    // An explicit scope from the caller (or repo defaults) replaces the computed one
+    const explicitScope = Boolean(mergedOptions?.files?.length || mergedOptions?.incremental);
+
     const originalCount = agentsToInvoke.length;
     agentsToInvoke = agentsToInvoke.filter(agentId => {
-      if (detection.reviewed.has(agentId)) {
-        const agentName = INVOKABLE_AGENTS[agentId].name;
+      if (!detection.reviewed.has(agentId)) return true;
+
+      const config = getAgentConfig(agentId, repoScope);
+      const agentName = config?.name ?? agentId;
+      const changedFiles = changes.get(agentId);
+      const scope = config && changedFiles !== undefined ? planReviewScope(config, changedFiles) : { action: 'skip' as const };
+      if (scope.action === 'skip') {
         skipped.push(agentName);
-        logger.info(`[invoke] Skipping ${agentName} - already reviewed`);
+        logger.info(`[invoke] Skipping ${agentName} - already reviewed, no changes since`);
         return false;
       }
+
+      if (!explicitScope) scopes.set(agentId, scope.options);
+      scoped.push({
+        agent: agentId,
+        reviewedAt: reviewedAt.get(agentId)!,
+        changedFiles: changedFiles ?? null,
+        ...(explicitScope ? {} : scope.options),
+      });
+      logger.info(`[invoke] Re-invoking ${agentName} for ${changedFiles?.length ?? 'unknown'} file(s) changed since its last review`);
       return true;
     });
 
@@ -206,6 +267,14 @@ export async function prInvoke(
     }
   }
 
+  // Replace agents that recently reported quota exhaustion or unavailability
+  const fallbackChains = await loadFallbackChains(owner, repo, sessionOctokit);
+  const substitution = await substituteUnavailableAgents(
+    owner, repo, pr, agentsToInvoke, fallbackChains, reviewed, sessionOctokit
+  );
+  agentsToInvoke = substitution.agents;
+  const fallbacks = substitution.fallbacks;
+
   // If all agents were skipped, return early
   if (agentsToInvoke.length === 0) {
     return {
@@ -215,7 +284,7 @@ export async function prInvoke(
       skipped,
       results: [],
       message: skipped.length > 0
-        ? `All agents already reviewed: ${skipped.join(', ')}. Use force=true to re-invoke.`
+        ? `All agents already reviewed and nothing changed since: ${skipped.join(', ')}. Use force=true to re-invoke.`
         : 'No agents to invoke',
       since,
       invokedAgentIds: [],
@@ -223,19 +292,52 @@ export async function prInvoke(
     };
   }
 
-  // Invoke remaining agents
-  const results = await invokeMultipleAgents(
-    owner,
-    repo,
-    pr,
-    agentsToInvoke,
-    mergedOptions,
-    sessionOctokit
-  );
+  // Sequential mode: the server invokes one agent at a time (needs persisted state)
+  if (agent === 'all' && agentsToInvoke.length > 1 && getReviewMode() === 'sequential') {
+    if (invocationStore) {
+      const options: PipelineOptions | undefined = scopes.size > 0
+        ? { ...mergedOptions, scopes: Object.fromEntries(scopes) }
+        : mergedOptions;
+      return startPipeline(
+        { owner, repo, pr, agents: agentsToInvoke, options, since, skipped, scoped, fallbacks },
+        invocationStore,
+        sessionId,
+        sessionOctokit,
+      );
+    }
+    logger.warning('[invoke] Sequential pipeline needs SQLite persistence — invoking agents in parallel');
+  }
+
+  // Invoke remaining agents (re-invoked agents with their computed scope)
+  const results = await Promise.all(agentsToInvoke.map(agentId =>
+    invokeAgent(owner, repo, pr, agentId, { ...mergedOptions, ...scopes.get(agentId) }, sessionOctokit)
+  ));
+
+  // Agents whose invocation failed are replaced by their fallbacks, in order, until one succeeds
+  const planned = new Set<string>([...agentsToInvoke, ...reviewed]);
+  for (const [index, result] of [...results.entries()]) {
+    const agentId = agentsToInvoke[index];
+    let failedId: string = agentId;
+    let attempt = result;
+    while (!attempt.success) {
+      const fallback = nextFallback(agentId, fallbackChains, planned);
+      if (!fallback) break;
+
+      planned.add(fallback);
+      logger.info(`[invoke] ${attempt.agentName} failed — invoking fallback ${fallback}`);
+      fallbacks.push({ agent: failedId, fallback, reason: attempt.message });
+      attempt = await invokeAgent(owner, repo, pr, fallback, mergedOptions, sessionOctokit);
+      results.push(attempt);
+      agentsToInvoke = [...agentsToInvoke, fallback];
+      failedId = fallback;
+    }
+  }
 
   const aggregated = aggregateResults(results, skipped);
   const output: InvokeOutput = {
     ...aggregated,
+    ...(scoped.length > 0 && { scoped }),
+    ...(fallbacks.length > 0 && { fallbacks }),
     since,
     invokedAgentIds: agentsToInvoke as string[],
     awaitHint: aggregated.invoked.length > 0
@@ -254,7 +356,13 @@ export async function prInvoke(
         agents: agentsToInvoke as string[],
         since,
       });
-      (output as InvokeOutput & { invocationId?: number }).invocationId = invocationId;
+      output.invocationId = invocationId;
+      // Results line up with agentsToInvoke (fallbacks are appended to both)
+      results.forEach((result, index) => {
+        if (result.commentId) {
+          invocationStore.setTriggerComment(invocationId, agentsToInvoke[index], result.commentId);
+        }
+      });
     } catch (e) {
       logger.warning(`[invoke] Failed to record invocation: ${e}`);
     }
@@ -262,3 +370,58 @@ export async function prInvoke(
 
   return output;
 }
+
+/**
+ * Record a sequential pipeline and invoke its first agent.
+ * Later agents are invoked by pr_await_reviews polls and the pipeline runner.
+ */
+async function startPipeline(
+  params: {
+    owner: string;
+    repo: string;
+    pr: number;
+    agents: InvokableAgentId[];
+    options?: PipelineOptions;
+    since: string;
+    skipped: string[];
+    scoped: ScopedAgent[];
+    fallbacks: InvokeFallback[];
+  },
+  invocationStore: InvocationStore,
+  sessionId?: string,
+  sessionOctokit?: import('@octokit/rest').Octokit,
+): Promise<InvokeOutput> {
+  const { owner, repo, pr, agents, options, since, skipped, scoped, fallbacks } = params;
+
+  const invocationId = invocationStore.record({
+    owner,
+    repo,
+    pr,
+    sessionId: sessionId ?? 'default',
+    agents: agents as string[],
+    since,
+    mode: 'sequential',
+    options,
+  });
+  const invocation = invocationStore.getInvocation(invocationId);
+  if (!invocation) {
+    throw new Error(`Failed to load pipeline invocation ${invocationId}`);
+  }
+
+  const { steps, invoked } = await advancePipeline(invocationStore, invocation, sessionOctokit);
+  const aggregated = aggregateResults(invoked, skipped);
+  const order = steps.map(s => s.name).join(' → ');
+
+  return {
+    ...aggregated,
+    ...(scoped.length > 0 && { scoped }),
+    ...(fallbacks.length > 0 && { fallbacks }),
+    message: `Sequential pipeline: ${order}. ${aggregated.message}. ` +
+      'The server invokes each next agent after the previous one completes or times out.',
+    since,
+    invokedAgentIds: agents as string[],
+    awaitHint: `Call pr_await_reviews with since="${since}" to follow the pipeline — each poll advances it and reports per-step status.`,
+    invocationId,
+    pipeline: { steps },
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Unit tests for pr_list (comment sources mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { GitHubClient } from '../github/client.js';
+import type { ProcessedComment } from '../github/types.js';
+import type { QodoComment, QodoReview } from '../adapters/qodo.js';
+
+const mocks = vi.hoisted(() => ({
+  fetchAllThreads: vi.fn(),
+  fetchQodoReview: vi.fn(),
+  fetchGreptileReview: vi.fn(),
+}));
+
+vi.mock('./shared.js', () => ({
+  fetchAllThreads: mocks.fetchAllThreads,
+  overrideSeverity: (severity: string) => ({ severity, type: 'other' }),
+}));
+vi.mock('../adapters/qodo.js', () => ({
+  fetchQodoReview: mocks.fetchQodoReview,
+  qodoToNormalizedComments: (review: QodoReview) => [...review.securityConcerns, ...review.focusAreas],
+}));
+vi.mock('../adapters/greptile.js', () => ({
+  fetchGreptileReview: mocks.fetchGreptileReview,
+  greptileToNormalizedComments: () => [],
+}));
+vi.mock('../adapters/qodo-tracker.js', () => ({ getTrackerResolvedMap: async () => new Map() }));
+vi.mock('../github/repo-config.js', () => ({ loadSeverityRules: async () => [] }));
+
+import { prList } from './list.js';
+
+function thread(threadId: string, overrides: Partial<ProcessedComment> = {}): ProcessedComment {
+  return {
+    id: `c-${threadId}`,
+    threadId,
+    file: 'src/db.ts',
+    line: 42,
+    outdated: false,
+    resolved: false,
+    canResolve: true,
+    severity: 'MAJOR',
+    type: 'issue',
+    source: 'coderabbit',
+    title: `Issue ${threadId}`,
+    body: '',
+    fullBody: '',
+    aiPrompt: null,
+    aiPromptConfidence: 'absent',
+    author: 'coderabbitai',
+    createdAt: undefined,
+    updatedAt: undefined,
+    replies: [],
+    ...overrides,
+  };
+}
+
+function qodoItem(id: string, overrides: Partial<QodoComment> = {}): QodoComment {
+  return {
+    id,
+    source: 'qodo',
+    file: 'src/db.ts',
+    line: 43,
+    lineEnd: null,
+    severity: 'MAJOR',
+    title: `Qodo ${id}`,
+    body: '',
+    url: '',
+    resolved: false,
+    ...overrides,
+  };
+}
+
+function qodoReview(items: QodoComment[]): QodoReview {
+  return {
+    commentId: 1,
+    commentUrl: '',
+    updatedAt: '2026-01-01T00:00:00Z',
+    commitSha: 'abc',
+    effort: 1,
+    hasTests: false,
+    securityConcerns: [],
+    focusAreas: items,
+  };
+}
+
+const base = { owner: 'o', repo: 'r', pr: 1 };
+const NULL_POOL = 'The connection pool may be undefined when query() runs before init().';
+let client: GitHubClient;
+
+/** Review threads returned by the listing */
+function threads(...comments: ProcessedComment[]) {
+  mocks.fetchAllThreads.mockResolvedValue({ comments });
+}
+
+const ids = (result: { comments: Array<{ threadId: string }> }) => result.comments.map(c => c.threadId);
+
+beforeEach(() => {
+  // Listings are cached per client, so every test gets its own
+  client = {} as GitHubClient;
+  mocks.fetchAllThreads.mockReset().mockResolvedValue({ comments: [] });
+  mocks.fetchQodoReview.mockReset().mockResolvedValue(null);
+  mocks.fetchGreptileReview.mockReset().mockResolvedValue(null);
+});
+
+describe('prList', () => {
+  it('groups Qodo items with review threads that flag the same issue', async () => {
+    mocks.fetchAllThreads.mockResolvedValue({
+      comments: [thread('PRRT_a', { title: 'Possible null dereference', body: NULL_POOL })],
+    });
+    mocks.fetchQodoReview.mockResolvedValue(qodoReview([
+      qodoItem('qodo-1', { title: 'Null pool dereference', body: NULL_POOL }),
+      qodoItem('qodo-2', { title: 'Unrelated naming nit', body: 'Rename helper for clarity', line: 90 }),
+    ]));
+
+    const { comments } = await prList(base, client);
+    const byId = new Map(comments.map(c => [c.threadId, c]));
+
+    expect(byId.get('qodo-1')?.duplicateGroup).toBeDefined();
+    expect(byId.get('qodo-1')?.duplicateGroup).toBe(byId.get('PRRT_a')?.duplicateGroup);
+    expect(byId.get('qodo-2')?.duplicateGroup).toBeUndefined();
+  });
+
+  it('applies filters to every source', async () => {
+    threads(
+      thread('a', { severity: 'CRIT', createdAt: '2026-01-02T00:00:00Z', aiPrompt: 'fix it' }),
+      thread('b', { severity: 'MINOR', createdAt: '2026-01-03T00:00:00Z' }),
+      thread('c', { severity: 'MAJOR', source: 'gemini' }),
+    );
+    mocks.fetchQodoReview.mockResolvedValue(qodoReview([qodoItem('q1', { severity: 'CRIT', line: 90 })]));
+
+    expect(ids(await prList({ ...base, filter: { minSeverity: 'MAJOR' } }, client)).sort()).toEqual(['a', 'c', 'q1']);
+    expect(ids(await prList({ ...base, filter: { source: 'qodo' } }, client))).toEqual(['q1']);
+    expect(ids(await prList({ ...base, filter: { hasAiPrompt: true } }, client))).toEqual(['a']);
+    expect(ids(await prList({ ...base, filter: { createdAfter: '2026-01-02T12:00:00Z' } }, client))).toEqual(['b']);
+  });
+
+  describe('sorting', () => {
+    beforeEach(() => {
+      threads(
+        thread('t3', { severity: 'MINOR', file: 'b.ts', line: 2, createdAt: '2026-01-01T00:00:00Z' }),
+        thread('t1', { severity: 'CRIT', file: 'b.ts', line: 10, createdAt: '2026-01-03T00:00:00Z' }),
+        thread('t2', { severity: 'MINOR', file: 'a.ts', line: 5 }),
+        thread('t0', { severity: 'CRIT', file: 'a.ts', line: 5, createdAt: '2026-01-02T00:00:00Z' }),
+      );
+    });
+
+    it('orders by severity, then thread ID', async () => {
+      expect(ids(await prList({ ...base, sort: 'severity' }, client))).toEqual(['t0', 't1', 't2', 't3']);
+    });
+
+    it('orders by path and line', async () => {
+      expect(ids(await prList({ ...base, sort: 'file' }, client))).toEqual(['t0', 't2', 't3', 't1']);
+    });
+
+    it('orders newest first, undated comments last', async () => {
+      expect(ids(await prList({ ...base, sort: 'createdAt' }, client))).toEqual(['t1', 't0', 't3', 't2']);
+    });
+
+    it('orders oldest first by default, undated comments last', async () => {
+      expect(ids(await prList(base, client))).toEqual(['t3', 't0', 't1', 't2']);
+    });
+  });
+
+  describe('cursor', () => {
+    const listing = () => Array.from({ length: 5 }, (_, i) =>
+      thread(`t${i}`, { createdAt: `2026-01-0${i + 1}T00:00:00Z` }));
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('pages through the listing without fetching it again', async () => {
+      threads(...listing());
+
+      const first = await prList({ ...base, max: 2 }, client);
+      const second = await prList({ ...base, max: 2, cursor: first.cursor! }, client);
+      const third = await prList({ ...base, max: 2, cursor: second.cursor! }, client);
+
+      expect([ids(first), ids(second), ids(third)]).toEqual([['t0', 't1'], ['t2', 't3'], ['t4']]);
+      expect(third).toMatchObject({ total: 5, hasMore: false, cursor: null });
+      expect(mocks.fetchAllThreads).toHaveBeenCalledTimes(1);
+    });
+
+    it('resumes after the last comment when the listing changed', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      threads(...listing());
+      const first = await prList({ ...base, max: 2 }, client);
+
+      // The snapshot expired; a thread before the cursor was resolved away and one was added
+      vi.setSystemTime(Date.now() + 120_000);
+      threads(...listing().filter(c => c.threadId !== 't0'), thread('t9', { createdAt: '2026-01-01T12:00:00Z' }));
+      const second = await prList({ ...base, max: 2, cursor: first.cursor! }, client);
+
+      expect(ids(second)).toEqual(['t2', 't3']);
+      expect(mocks.fetchAllThreads).toHaveBeenCalledTimes(2);
+    });
+
+    it('flags every page of a listing that left out review threads', async () => {
+      mocks.fetchAllThreads.mockResolvedValue({ comments: listing(), truncated: true });
+
+      const first = await prList({ ...base, max: 2 }, client);
+      const second = await prList({ ...base, max: 2, cursor: first.cursor! }, client);
+
+      expect(first).toMatchObject({ total: 5, truncated: true });
+      expect(second.truncated).toBe(true);
+    });
+
+    it('rejects cursors of another query and malformed cursors', async () => {
+      threads(...listing());
+      const { cursor } = await prList({ ...base, max: 2 }, client);
+
+      await expect(prList({ ...base, max: 2, sort: 'severity', cursor: cursor! }, client))
+        .rejects.toMatchObject({ kind: 'parse', message: expect.stringContaining('different pr_list query') });
+      await expect(prList({ ...base, cursor: 'not-a-cursor' }, client)).rejects.toMatchObject({ kind: 'parse' });
+    });
+  });
+});
@@ -1,14 +1,38 @@
 /**
- * pr_list tool - List PR review comments with filtering
+ * pr_list tool - List PR review comments with filtering, sorting and cursor paging
  */
 
 import { z } from 'zod';
-import { GitHubClient } from '../github/client.js';
-import { fetchAllThreads } from './shared.js';
+import { createHash } from 'crypto';
+import { GitHubClient, StructuredError } from '../github/client.js';
+import { fetchAllThreads, overrideSeverity } from './shared.js';
 import { fetchQodoReview, qodoToNormalizedComments } from '../adapters/qodo.js';
 import { fetchGreptileReview, greptileToNormalizedComments } from '../adapters/greptile.js';
 import { getTrackerResolvedMap } from '../adapters/qodo-tracker.js';
-import type { ListInput, ListOutput, ListComment } from '../github/types.js';
+import { loadSeverityRules } from '../github/repo-config.js';
+import { SEVERITY_ORDER, type Severity } from '../extractors/severity.js';
+import { findDuplicateGroups } from '../extractors/duplicates.js';
+import type { ListInput, ListOutput, ListComment, ListFilter, ListSort } from '../github/types.js';
+
+const SEVERITIES = SEVERITY_ORDER as [Severity, ...Severity[]];
+
+/**
+ * Upper bound on review threads loaded per call. Every order, the default one
+ * included, interleaves all comment sources, so sorting and paging need the full set.
+ */
+const MAX_THREADS = 1000;
+
+/** How long follow-up pages are served from the first page's listing */
+const SNAPSHOT_TTL_MS = 60_000;
+
+/** Filtered and sorted comments, and whether review threads past MAX_THREADS were left out */
+interface Listing {
+  comments: ListComment[];
+  truncated: boolean;
+}
+
+/** Sorted listings by query key, per client (tokens differ per session) */
+const snapshots = new WeakMap<GitHubClient, Map<string, { expiresAt: number; listing: Listing }>>();
 
 export const ListInputSchema = z.object({
   owner: z.string().min(1, 'Repository owner is required'),
@@ -18,9 +42,20 @@ export const ListInputSchema = z.object({
     resolved: z.boolean().optional(),
     outdated: z.boolean().optional(),
     file: z.string().optional(),
-    author: z.string().optional()
+    author: z.string().optional(),
+    severity: z.enum(SEVERITIES).optional().describe('Exact severity'),
+    minSeverity: z.enum(SEVERITIES).optional().describe('This severity or higher (CRIT > MAJOR > MINOR > ...)'),
+    source: z.string().min(1).optional().describe('coderabbit, gemini, codex, copilot, sourcery, qodo, greptile, unknown, or a custom agent ID'),
+    hasAiPrompt: z.boolean().optional(),
+    createdAfter: z.string()
+      .refine(value => !Number.isNaN(Date.parse(value)), 'createdAfter must be an ISO 8601 timestamp')
+      .optional()
+      .describe('Only comments created after this time; comments without a known creation time are excluded')
   }).optional(),
-  max: z.number().int().positive().max(100).default(20)
+  sort: z.enum(['severity', 'file', 'createdAt']).optional()
+    .describe('severity: most severe first; file: path then line; createdAt: newest first (default: oldest first)'),
+  max: z.number().int().positive().max(100).default(20),
+  cursor: z.string().optional().describe('Opaque cursor from a previous pr_list call with the same filter and sort')
 });
 
 export const ListOutputSchema = z.object({
@@ -34,34 +69,82 @@ export const ListOutputSchema = z.object({
     title: z.string(),
     resolved: z.boolean(),
     hasAiPrompt: z.boolean(),
+    duplicateGroup: z.string().optional(),
+    createdAt: z.string().optional(),
   })),
   total: z.number(),
+  truncated: z.boolean().optional(),
   hasMore: z.boolean(),
+  cursor: z.string().nullable(),
 });
 
 /**
  * List PR review comments with optional filtering
- * Fetches both review threads and Qodo's persistent issue comment
+ * Fetches review threads, CodeRabbit nitpicks, and Qodo/Greptile issue comments,
+ * then filters, sorts and pages the combined list
  */
 export async function prList(
   input: ListInput,
   client: GitHubClient
 ): Promise<ListOutput> {
   const validated = ListInputSchema.parse(input);
-  const { owner, repo, pr, filter = {}, max = 20 } = validated;
+  const { owner, repo, pr, filter = {}, sort, max = 20 } = validated;
+
+  const queryKey = cursorQueryKey(owner, repo, pr, filter, sort);
+  const after = validated.cursor ? decodeCursor(validated.cursor, queryKey) : null;
+
+  // Follow-up pages reuse the first page's listing while it is fresh; the keyset
+  // cursor stays valid when the listing is fetched again
+  const cached = after ? snapshots.get(client)?.get(queryKey) : undefined;
+  const listing = cached && cached.expiresAt > Date.now()
+    ? cached.listing
+    : await fetchMatching(client, owner, repo, pr, filter, sort);
+  if (!after) saveSnapshot(client, queryKey, listing);
+  const matching = listing.comments;
+
+  const start = after ? matching.findIndex(c => compareKeys(sortKey(c, sort), after) > 0) : 0;
+  const page = start === -1 ? [] : matching.slice(start, start + max);
+  const hasMore = start !== -1 && start + page.length < matching.length;
+
+  return {
+    comments: page,
+    total: matching.length,
+    ...(listing.truncated && { truncated: true }),
+    hasMore,
+    cursor: hasMore ? encodeCursor(sortKey(page[page.length - 1], sort), queryKey) : null
+  };
+}
+
+/**
+ * Fetch threads, nitpicks and Qodo/Greptile items, then filter and sort them
+ */
+async function fetchMatching(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: number,
+  filter: ListFilter,
+  sort?: ListSort
+): Promise<Listing> {
+  // Thread-level filters are applied while paging through GraphQL; the rest below
+  const threadFilter = {
+    resolved: filter.resolved,
+    outdated: filter.outdated,
+    file: filter.file,
+    author: filter.author
+  };
 
   // Fetch review threads, Qodo/Greptile reviews, and tracker resolved status in parallel
-  const [threadsResult, qodoReview, greptileReview, trackerResolved] = await Promise.all([
-    fetchAllThreads(client, owner, repo, pr, { filter, maxItems: max }),
+  const [threadsResult, qodoReview, greptileReview, trackerResolved, severityRules] = await Promise.all([
+    fetchAllThreads(client, owner, repo, pr, { filter: threadFilter, maxItems: MAX_THREADS }),
     fetchQodoReview(owner, repo, pr),
     fetchGreptileReview(owner, repo, pr),
-    getTrackerResolvedMap(owner, repo, pr)
+    getTrackerResolvedMap(owner, repo, pr),
+    loadSeverityRules(owner, repo)
   ]);
 
-  const { comments, totalCount, hasMore } = threadsResult;
-
   // Convert review thread comments
-  const listComments: ListComment[] = comments.map(c => ({
+  const listComments: ListComment[] = threadsResult.comments.map(c => ({
     id: c.id,
     threadId: c.threadId,
     file: c.file,
@@ -70,8 +153,11 @@ export async function prList(
     source: c.source,
     title: c.title,
     resolved: c.resolved,
-    hasAiPrompt: c.aiPrompt !== null
+    hasAiPrompt: c.aiPrompt !== null,
+    ...(c.createdAt && { createdAt: c.createdAt })
   }));
+  // Comment text by thread ID, for duplicate detection across all sources
+  const bodies = new Map(threadsResult.comments.map(c => [c.threadId, c.body]));
 
   // Compute Qodo and Greptile comments once
   const qodoComments = qodoReview ? qodoToNormalizedComments(qodoReview) : [];
@@ -91,12 +177,15 @@ export async function prList(
       threadId: qc.id, // Qodo doesn't have threads
       file: qc.file,
       line: qc.line ?? '?',
-      severity: qc.severity,
+      severity: overrideSeverity(qc.severity, 'qodo', qc.body, severityRules).severity,
       source: 'qodo',
       title: qc.title,
       resolved,
-      hasAiPrompt: false
+      hasAiPrompt: false,
+      // Items have no timestamp of their own; the issue comment is rewritten per review
+      ...(qodoReview && { createdAt: qodoReview.updatedAt })
     });
+    bodies.set(qc.id, qc.body);
   }
 
   // Add Greptile comments if available
@@ -113,20 +202,140 @@ export async function prList(
       threadId: gc.id, // Greptile doesn't have threads for issue comments
       file: gc.file || '',
       line: gc.line ?? '?',
-      severity: gc.severity,
+      severity: overrideSeverity(gc.severity, 'greptile', gc.body, severityRules).severity,
       source: 'greptile',
       title: gc.title,
       resolved,
-      hasAiPrompt: false
+      hasAiPrompt: false,
+      ...(greptileReview && { createdAt: greptileReview.updatedAt })
     });
+    bodies.set(gc.id, gc.body);
   }
 
-  const greptileCount = greptileComments.length;
-  const qodoCount = qodoComments.length;
+  // Group duplicates over the combined list, so Qodo and Greptile items join review threads
+  const duplicateGroups = findDuplicateGroups(listComments.map(c => ({ ...c, body: bodies.get(c.threadId) ?? '' })));
+  for (const comment of listComments) {
+    const group = duplicateGroups.get(comment.threadId);
+    if (group) comment.duplicateGroup = group;
+  }
 
   return {
-    comments: listComments,
-    total: totalCount + qodoCount + greptileCount,
-    hasMore
+    comments: sortComments(listComments.filter(c => matchesFilter(c, filter)), sort),
+    truncated: threadsResult.truncated,
   };
 }
+
+function saveSnapshot(client: GitHubClient, queryKey: string, listing: Listing): void {
+  let byQuery = snapshots.get(client);
+  if (!byQuery) {
+    byQuery = new Map();
+    snapshots.set(client, byQuery);
+  }
+  const now = Date.now();
+  for (const [key, entry] of byQuery) {
+    if (entry.expiresAt <= now) byQuery.delete(key);
+  }
+  byQuery.set(queryKey, { expiresAt: now + SNAPSHOT_TTL_MS, listing });
+}
+
+/**
+ * Apply the filters that are shared by every comment source
+ */
+function matchesFilter(comment: ListComment, filter: ListFilter): boolean {
+  if (filter.severity && comment.severity !== filter.severity) return false;
+  if (filter.minSeverity && severityRank(comment.severity) > severityRank(filter.minSeverity)) return false;
+  if (filter.source && comment.source !== filter.source) return false;
+  if (filter.hasAiPrompt !== undefined && comment.hasAiPrompt !== filter.hasAiPrompt) return false;
+  if (filter.createdAfter) {
+    if (!comment.createdAt) return false;
+    if (Date.parse(comment.createdAt) <= Date.parse(filter.createdAfter)) return false;
+  }
+  return true;
+}
+
+function severityRank(severity: string): number {
+  const index = SEVERITY_ORDER.indexOf(severity as Severity);
+  return index === -1 ? SEVERITY_ORDER.length : index;
+}
+
+function lineStart(line: number | string): number {
+  const parsed = typeof line === 'number' ? line : parseInt(line, 10);
+  return Number.isNaN(parsed) ? Number.MAX_SAFE_INTEGER : parsed;
+}
+
+type SortKey = Array<number | string>;
+
+/**
+ * Position of a comment in the listing order. The thread ID breaks ties, so the
+ * order is total and a cursor can resume after any comment.
+ */
+function sortKey(comment: ListComment, sort?: ListSort): SortKey {
+  const created = comment.createdAt ? Date.parse(comment.createdAt) : null;
+  switch (sort) {
+    case 'severity':
+      return [severityRank(comment.severity), comment.threadId];
+    case 'file':
+      return [comment.file, lineStart(comment.line), comment.threadId];
+    case 'createdAt':
+      // Newest first; comments without a creation time last
+      return [-(created ?? 0), comment.threadId];
+    default:
+      // Oldest first; comments without a creation time last
+      return [created ?? Number.MAX_SAFE_INTEGER, comment.threadId];
+  }
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') return (a[i] as number) - (b[i] as number);
+    return String(a[i]) < String(b[i]) ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+function sortComments(comments: ListComment[], sort?: ListSort): ListComment[] {
+  return comments
+    .map(comment => ({ comment, key: sortKey(comment, sort) }))
+    .sort((a, b) => compareKeys(a.key, b.key))
+    .map(({ comment }) => comment);
+}
+
+/**
+ * Fingerprint of the query a cursor belongs to
+ */
+function cursorQueryKey(owner: string, repo: string, pr: number, filter: ListFilter, sort?: ListSort): string {
+  const query = JSON.stringify({ pr: `${owner}/${repo}#${pr}`.toLowerCase(), filter, sort: sort ?? null });
+  return createHash('sha256').update(query).digest('hex').substring(0, 12);
+}
+
+/**
+ * Cursor holding the sort key of the last comment returned (keyset paging), so
+ * comments added or resolved between calls don't shift later pages
+ */
+function encodeCursor(key: SortKey, queryKey: string): string {
+  return Buffer.from(JSON.stringify({ k: key, q: queryKey })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, queryKey: string): SortKey {
+  let parsed: { k?: unknown; q?: unknown };
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new StructuredError('parse', 'Invalid pr_list cursor', false, 'Omit cursor to start from the first page');
+  }
+
+  const key = parsed?.k;
+  if (!Array.isArray(key) || key.length === 0 || !key.every(v => typeof v === 'number' || typeof v === 'string')) {
+    throw new StructuredError('parse', 'Invalid pr_list cursor', false, 'Omit cursor to start from the first page');
+  }
+  if (parsed.q !== queryKey) {
+    throw new StructuredError(
+      'parse',
+      'Cursor belongs to a different pr_list query',
+      false,
+      'Reuse the same filter and sort as the call that returned the cursor, or omit cursor'
+    );
+  }
+  return key;
+}
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for pr_reply routing (GitHub calls mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Octokit } from '@octokit/rest';
+import type { GitHubClient } from '../github/client.js';
+import type { ProcessedComment } from '../github/types.js';
+import type { ICoordinationStateManager } from '../coordination/types.js';
+import type { QodoComment, QodoReview } from '../adapters/qodo.js';
+
+const mocks = vi.hoisted(() => ({
+  fetchAllThreads: vi.fn(),
+  findThread: vi.fn(),
+  prResolveWithContext: vi.fn(),
+  fetchQodoReview: vi.fn(),
+  fetchGreptileReview: vi.fn(),
+}));
+
+vi.mock('./shared.js', () => ({ fetchAllThreads: mocks.fetchAllThreads, findThread: mocks.findThread }));
+vi.mock('./resolve.js', () => ({ prResolveWithContext: mocks.prResolveWithContext }));
+vi.mock('../adapters/qodo.js', () => ({
+  fetchQodoReview: mocks.fetchQodoReview,
+  qodoToNormalizedComments: (review: QodoReview) => review.focusAreas,
+}));
+vi.mock('../adapters/greptile.js', () => ({
+  fetchGreptileReview: mocks.fetchGreptileReview,
+  greptileToNormalizedComments: () => [
+    { id: 'greptile-1', source: 'greptile', file: 'src/db.ts', line: 3, title: 'Unused import', url: '' },
+  ],
+}));
+
+import { prReply } from './reply.js';
+
+function thread(threadId: string, overrides: Partial<ProcessedComment> = {}): ProcessedComment {
+  return {
+    id: `c-${threadId}`,
+    threadId,
+    file: 'src/db.ts',
+    line: 42,
+    outdated: false,
+    resolved: false,
+    canResolve: true,
+    severity: 'MINOR',
+    type: 'nitpick',
+    source: 'coderabbit',
+    title: `Issue ${threadId}`,
+    body: '',
+    fullBody: '',
+    aiPrompt: null,
+    aiPromptConfidence: 'absent',
+    author: 'coderabbitai',
+    createdAt: undefined,
+    updatedAt: undefined,
+    replies: [],
+    ...overrides,
+  };
+}
+
+const base = { owner: 'o', repo: 'r', pr: 1, body: 'Fixed in abc123' };
+let client: GitHubClient;
+let graphql: ReturnType<typeof vi.fn>;
+let octokit: Octokit;
+let createComment: ReturnType<typeof vi.fn>;
+
+/** Coordination manager that knows one multi-issue child */
+function withParent(childId: string, parentId: string) {
+  return {
+    getParentIdForChild: vi.fn(async (id: string) => (id === childId ? parentId : null)),
+  } as unknown as ICoordinationStateManager;
+}
+
+beforeEach(() => {
+  mocks.fetchAllThreads.mockReset().mockResolvedValue({ comments: [] });
+  mocks.findThread.mockReset().mockResolvedValue(null);
+  mocks.prResolveWithContext.mockReset().mockResolvedValue({ success: true });
+  mocks.fetchQodoReview.mockReset().mockResolvedValue(null);
+  mocks.fetchGreptileReview.mockReset().mockResolvedValue(null);
+  graphql = vi.fn(async () => ({
+    addPullRequestReviewThreadReply: { comment: { id: 'PRRC_reply', url: 'https://github.com/o/r/pull/1#r1' } },
+  }));
+  client = { graphql } as unknown as GitHubClient;
+  createComment = vi.fn(async () => ({ data: { id: 7, html_url: 'https://github.com/o/r/pull/1#issuecomment-7' } }));
+  octokit = { issues: { createComment } } as unknown as Octokit;
+});
+
+describe('prReply', () => {
+  it('replies on the review thread', async () => {
+    mocks.findThread.mockResolvedValue(thread('PRRT_a'));
+
+    const result = await prReply({ ...base, threadId: 'PRRC_a' }, client, undefined, octokit);
+
+    expect(graphql).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ threadId: 'PRRT_a', body: base.body }));
+    expect(result).toEqual({
+      success: true, threadId: 'PRRT_a', target: 'thread', replyId: 'PRRC_reply', replyUrl: 'https://github.com/o/r/pull/1#r1',
+    });
+    expect(createComment).not.toHaveBeenCalled();
+  });
+
+  it('fails for an unknown thread', async () => {
+    await expect(prReply({ ...base, threadId: 'PRRT_gone' }, client, undefined, octokit))
+      .rejects.toMatchObject({ kind: 'not_found' });
+  });
+
+  it('replies to a multi-issue child on its parent thread', async () => {
+    mocks.findThread.mockResolvedValue(thread('PRRT_parent'));
+
+    const result = await prReply({ ...base, threadId: 'PRRT_parent-issue-2' }, client, withParent('PRRT_parent-issue-2', 'PRRT_parent'), octokit);
+
+    expect(mocks.findThread).toHaveBeenCalledWith(client, 'o', 'r', 1, 'PRRT_parent');
+    expect(result).toMatchObject({ threadId: 'PRRT_parent', target: 'thread', synthetic: true });
+  });
+
+  it('quotes a CodeRabbit nitpick in a timeline reply', async () => {
+    mocks.fetchAllThreads.mockResolvedValue({ comments: [thread('coderabbit-nitpick-abc', { title: 'Prefer const' })] });
+
+    const result = await prReply({ ...base, threadId: 'coderabbit-nitpick-abc' }, client, undefined, octokit);
+
+    expect(createComment).toHaveBeenCalledWith({
+      owner: 'o',
+      repo: 'r',
+      issue_number: 1,
+      body: '> **`src/db.ts:42`** — Prefer const\n> <sub>Re: `coderabbit-nitpick-abc`</sub>\n\nFixed in abc123',
+    });
+    expect(result).toMatchObject({ threadId: 'coderabbit-nitpick-abc', target: 'issue_comment', replyId: '7', synthetic: true });
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  it('links a Qodo item in a timeline reply', async () => {
+    const item: QodoComment = {
+      id: 'qodo-1', source: 'qodo', file: 'src/db.ts', line: 10, lineEnd: null, severity: 'MAJOR',
+      title: 'Null pool', body: '', url: 'https://github.com/o/r/pull/1#issuecomment-3', resolved: false,
+    };
+    mocks.fetchQodoReview.mockResolvedValue({ focusAreas: [item] });
+
+    await prReply({ ...base, threadId: 'qodo-1' }, client, undefined, octokit);
+
+    expect(createComment.mock.calls[0][0].body).toContain(`[Null pool](${item.url})`);
+  });
+
+  it('fails for an unknown synthetic comment', async () => {
+    await expect(prReply({ ...base, threadId: 'qodo-9' }, client, undefined, octokit))
+      .rejects.toMatchObject({ kind: 'not_found' });
+    expect(createComment).not.toHaveBeenCalled();
+  });
+
+  it('resolves with the original ID after replying', async () => {
+    mocks.findThread.mockResolvedValue(thread('PRRT_parent'));
+    mocks.prResolveWithContext.mockResolvedValue({ success: true, message: 'All issues resolved' });
+    const coordination = withParent('PRRT_parent-issue-2', 'PRRT_parent');
+
+    const result = await prReply({ ...base, threadId: 'PRRT_parent-issue-2', resolve: true }, client, coordination, octokit);
+
+    expect(mocks.prResolveWithContext).toHaveBeenCalledWith(
+      { owner: 'o', repo: 'r', pr: 1, threadId: 'PRRT_parent-issue-2' }, client, coordination
+    );
+    expect(result).toMatchObject({ resolved: true, message: 'All issues resolved' });
+  });
+
+  it('reports a failed resolve after the reply was posted', async () => {
+    mocks.prResolveWithContext.mockRejectedValue(Object.assign(new Error('Thread greptile-1 not found'), { kind: 'not_found' }));
+    mocks.fetchGreptileReview.mockResolvedValue({});
+
+    const result = await prReply({ ...base, threadId: 'greptile-1', resolve: true }, client, undefined, octokit);
+
+    expect(createComment).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      success: true,
+      target: 'issue_comment',
+      resolved: false,
+      message: expect.stringContaining('could not be resolved'),
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * pr_reply tool - Reply to a review thread (optionally resolving it)
+ */
+
+import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
+import { GitHubClient, StructuredError } from '../github/client.js';
+import { getOctokit } from '../github/octokit.js';
+import { QUERIES } from '../github/queries.js';
+import { fetchAllThreads, findThread } from './shared.js';
+import { prResolveWithContext } from './resolve.js';
+import { fetchQodoReview, qodoToNormalizedComments } from '../adapters/qodo.js';
+import { fetchGreptileReview, greptileToNormalizedComments } from '../adapters/greptile.js';
+import { parseLocalFindingId } from '../agents/local.js';
+import type { ICoordinationStateManager } from '../coordination/types.js';
+import { logger } from '../logging.js';
+import type { AddThreadReplyData, ReplyInput, ReplyOutput } from '../github/types.js';
+
+export const ReplyInputSchema = z.object({
+  owner: z.string().min(1, 'Repository owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr: z.number().int().positive('PR number must be positive'),
+  threadId: z.string().min(1, 'Thread ID is required'),
+  body: z.string().min(1, 'Reply body is required'),
+  resolve: z.boolean().optional().describe('Resolve the thread after replying (default: false)')
+});
+
+/** Context quoted at the top of an issue-timeline reply to a synthetic comment */
+interface SyntheticTarget {
+  id: string;
+  file: string;
+  line: number | string | null;
+  title: string;
+  url?: string;
+}
+
+/**
+ * Check whether an ID refers to a synthetic comment (no GitHub review thread behind it)
+ */
+function isSyntheticId(id: string): boolean {
+  return id.startsWith('coderabbit-') || id.startsWith('qodo-') || id.startsWith('greptile-') ||
+    parseLocalFindingId(id) !== null;
+}
+
+/**
+ * Format an issue-timeline reply that quotes the synthetic comment it answers
+ */
+function formatTimelineReply(target: SyntheticTarget, body: string): string {
+  const location = target.file
+    ? `\`${target.file}${target.line !== null && target.line !== '?' ? `:${target.line}` : ''}\``
+    : 'General';
+  const title = target.url ? `[${target.title}](${target.url})` : target.title;
+
+  return [
+    `> **${location}** — ${title}`,
+    `> <sub>Re: \`${target.id}\`</sub>`,
+    '',
+    body
+  ].join('\n');
+}
+
+/**
+ * Find quoting context for a synthetic comment ID
+ */
+async function findSyntheticTarget(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: number,
+  id: string,
+  coordination?: ICoordinationStateManager,
+  octokit?: Octokit
+): Promise<SyntheticTarget | null> {
+  if (id.startsWith('qodo-')) {
+    const review = await fetchQodoReview(owner, repo, pr, octokit);
+    const item = review
+      ? qodoToNormalizedComments(review).find(qc => qc.id === id)
+      : undefined;
+    return item ? { id: item.id, file: item.file, line: item.line, title: item.title, url: item.url } : null;
+  }
+
+  if (id.startsWith('greptile-')) {
+    const review = await fetchGreptileReview(owner, repo, pr, octokit);
+    const item = review
+      ? greptileToNormalizedComments(review).find(gc => gc.id === id)
+      : undefined;
+    return item ? { id: item.id, file: item.file, line: item.line, title: item.title, url: item.url } : null;
+  }
+
+  // CodeRabbit nitpicks, outside-diff comments, local agent findings and multi-issue children
+  const { comments } = await fetchAllThreads(client, owner, repo, pr, { maxItems: 1000 }, coordination);
+  const comment = comments.find(c => c.threadId === id);
+  return comment
+    ? { id: comment.threadId, file: comment.file, line: comment.line, title: comment.title }
+    : null;
+}
+
+/**
+ * Post a reply on a GitHub review thread
+ */
+async function postThreadReply(
+  client: GitHubClient,
+  threadId: string,
+  body: string
+): Promise<{ replyId: string; replyUrl: string }> {
+  const data = await client.graphql<AddThreadReplyData>(QUERIES.addThreadReply, {
+    threadId,
+    body,
+    clientMutationId: `reply-${threadId}-${Date.now()}`
+  });
+  const comment = data.addPullRequestReviewThreadReply.comment;
+  return { replyId: comment.id, replyUrl: comment.url };
+}
+
+/**
+ * Reply to a review thread, or to a synthetic comment via the PR issue timeline
+ */
+export async function prReply(
+  input: ReplyInput,
+  client: GitHubClient,
+  coordination?: ICoordinationStateManager,
+  octokit?: Octokit
+): Promise<ReplyOutput> {
+  const validated = ReplyInputSchema.parse(input);
+  const { owner, repo, pr, threadId, body, resolve } = validated;
+
+  // Multi-issue children are replied to on their parent
+  const parentId = coordination
+    ? await coordination.getParentIdForChild(threadId, { owner, repo, pr })
+    : null;
+
+  let output: ReplyOutput;
+
+  if (parentId && !isSyntheticId(parentId)) {
+    // Parent is a real review thread/comment - reply there
+    const parent = await findThread(client, owner, repo, pr, parentId);
+    if (!parent) {
+      throw new StructuredError('not_found', `Parent thread ${parentId} not found for ${threadId}`, false);
+    }
+    const reply = await postThreadReply(client, parent.threadId, body);
+    output = { success: true, threadId: parent.threadId, target: 'thread', ...reply, synthetic: true };
+  } else if (parentId || isSyntheticId(threadId)) {
+    // Synthetic comment - no thread to reply on, post to the issue timeline instead
+    const target = await findSyntheticTarget(client, owner, repo, pr, threadId, coordination, octokit);
+    if (!target) {
+      throw new StructuredError('not_found', `Comment ${threadId} not found`, false);
+    }
+
+    const ok = octokit ?? getOctokit();
+    const { data } = await ok.issues.createComment({
+      owner,
+      repo,
+      issue_number: pr,
+      body: formatTimelineReply(target, body)
+    });
+    logger.debug('[reply] Posted timeline reply for synthetic comment', { threadId, commentId: data.id });
+
+    output = {
+      success: true,
+      threadId: target.id,
+      target: 'issue_comment',
+      replyId: String(data.id),
+      replyUrl: data.html_url,
+      synthetic: true
+    };
+  } else {
+    const thread = await findThread(client, owner, repo, pr, threadId);
+    if (!thread) {
+      throw new StructuredError('not_found', `Thread ${threadId} not found`, false);
+    }
+    const reply = await postThreadReply(client, thread.threadId, body);
+    output = { success: true, threadId: thread.threadId, target: 'thread', ...reply };
+  }
+
+  if (resolve) {
+    // Resolve using the original ID so child/nitpick/Qodo bookkeeping still applies.
+    // The reply is already public, so a failed resolve is reported rather than thrown.
+    try {
+      const resolved = await prResolveWithContext({ owner, repo, pr, threadId }, client, coordination);
+      output.resolved = resolved.success;
+      if (resolved.message) output.message = resolved.message;
+    } catch (error) {
+      output.resolved = false;
+      output.message = `Reply posted, but the comment could not be resolved: ${error instanceof Error ? error.message : String(error)}`;
+      logger.warning('[reply] Failed to resolve after replying', { threadId, error });
+    }
+  }
+
+  return output;
+}
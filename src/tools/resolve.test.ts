@@ -0,0 +1,151 @@
+/**
+ * Unit tests for pr_resolve (GitHub calls mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import type { GitHubClient } from '../github/client.js';
+import type { ProcessedComment } from '../github/types.js';
+
+const { createThreadLookup } = vi.hoisted(() => ({ createThreadLookup: vi.fn() }));
+
+vi.mock('./shared.js', () => ({ createThreadLookup }));
+
+import { prResolve, ResolveInputSchema } from './resolve.js';
+
+function thread(threadId: string, overrides: Partial<ProcessedComment> = {}): ProcessedComment {
+  return {
+    id: `c-${threadId}`,
+    threadId,
+    file: 'src/a.ts',
+    line: 1,
+    outdated: false,
+    resolved: false,
+    canResolve: true,
+    severity: 'MAJOR',
+    type: 'issue',
+    source: 'coderabbit',
+    title: `Issue ${threadId}`,
+    body: '',
+    fullBody: '',
+    aiPrompt: null,
+    aiPromptConfidence: 'absent',
+    author: 'coderabbitai',
+    createdAt: undefined,
+    updatedAt: undefined,
+    replies: [],
+    ...overrides,
+  };
+}
+
+/** Thread lookup over a fixed listing, optionally already loaded */
+function mockLookup(comments: ProcessedComment[], loaded = false) {
+  const lookup = vi.fn(async (id: string) => comments.find(c => c.threadId === id) ?? null);
+  return Object.assign(lookup, {
+    all: vi.fn(async () => comments),
+    loaded: vi.fn(() => (loaded ? comments : null)),
+  });
+}
+
+const base = { owner: 'o', repo: 'r', pr: 1 };
+let client: GitHubClient;
+let graphql: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  createThreadLookup.mockReset();
+  graphql = vi.fn().mockResolvedValue({});
+  client = { graphql } as unknown as GitHubClient;
+});
+
+describe('ResolveInputSchema', () => {
+  it('is a plain object schema so MCP clients see its parameters', () => {
+    expect(ResolveInputSchema).toBeInstanceOf(z.ZodObject);
+    expect(Object.keys(ResolveInputSchema.shape)).toEqual(
+      expect.arrayContaining(['threadId', 'threadIds', 'resolveDuplicates'])
+    );
+  });
+});
+
+describe('prResolve', () => {
+  it('requires exactly one of threadId and threadIds', async () => {
+    await expect(prResolve(base, client)).rejects.toMatchObject({ kind: 'parse' });
+    await expect(prResolve({ ...base, threadId: 'a', threadIds: ['b'] }, client)).rejects.toMatchObject({ kind: 'parse' });
+  });
+
+  it('rejects batches over 100 IDs', async () => {
+    const threadIds = Array.from({ length: 101 }, (_, i) => `t${i}`);
+    await expect(prResolve({ ...base, threadIds }, client)).rejects.toThrow(z.ZodError);
+  });
+
+  it('reports a result per item and keeps going after failures', async () => {
+    createThreadLookup.mockReturnValue(mockLookup([thread('t1'), thread('t3', { canResolve: false })]));
+
+    const result = await prResolve({ ...base, threadIds: ['t1', 't2', 't3'] }, client);
+
+    expect(result).toMatchObject({ success: false, total: 3, succeeded: 1, failed: 2 });
+    expect('results' in result && result.results).toEqual([
+      expect.objectContaining({ success: true, threadId: 't1' }),
+      expect.objectContaining({ success: false, threadId: 't2', error: expect.objectContaining({ kind: 'not_found' }) }),
+      expect.objectContaining({ success: false, threadId: 't3', error: expect.objectContaining({ kind: 'permission' }) }),
+    ]);
+    expect(graphql).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one thread lookup across the batch and skips repeated IDs', async () => {
+    const lookup = mockLookup([thread('t1'), thread('t2')]);
+    createThreadLookup.mockReturnValue(lookup);
+
+    const result = await prResolve({ ...base, threadIds: ['t1', 't2', 't1'] }, client);
+
+    expect(result).toMatchObject({ success: true, total: 2 });
+    expect(createThreadLookup).toHaveBeenCalledTimes(1);
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  describe('duplicates', () => {
+    const listing = () => [
+      thread('t1', { duplicateGroup: 'dup-1' }),
+      thread('t2', { duplicateGroup: 'dup-1', source: 'gemini' }),
+    ];
+
+    it('does not list the PR when nobody can confirm resolving the group', async () => {
+      const lookup = mockLookup(listing());
+      createThreadLookup.mockReturnValue(lookup);
+
+      const result = await prResolve({ ...base, threadId: 't1' }, client);
+
+      expect(result).toMatchObject({ success: true, threadId: 't1' });
+      expect(result).not.toHaveProperty('duplicates');
+      expect(lookup.all).not.toHaveBeenCalled();
+    });
+
+    it('reports the group from a listing the lookup already loaded', async () => {
+      createThreadLookup.mockReturnValue(mockLookup(listing(), true));
+
+      const result = await prResolve({ ...base, threadId: 't1' }, client);
+
+      expect(result).toMatchObject({ duplicates: expect.objectContaining({ threadIds: ['t2'] }) });
+      expect(graphql).toHaveBeenCalledTimes(1);
+    });
+
+    it('lists the PR and resolves the group when asked to', async () => {
+      const lookup = mockLookup(listing());
+      createThreadLookup.mockReturnValue(lookup);
+
+      await prResolve({ ...base, threadId: 't1', resolveDuplicates: true }, client);
+
+      expect(lookup.all).toHaveBeenCalledTimes(1);
+      expect(graphql).toHaveBeenCalledTimes(2);
+    });
+
+    it('asks the confirmer before resolving the group', async () => {
+      createThreadLookup.mockReturnValue(mockLookup(listing()));
+      const confirm = vi.fn(async () => false);
+
+      await prResolve({ ...base, threadId: 't1' }, client, undefined, confirm);
+
+      expect(confirm).toHaveBeenCalledWith(expect.objectContaining({ threadIds: ['t2'] }));
+      expect(graphql).toHaveBeenCalledTimes(1);
+    });
+  });
+});
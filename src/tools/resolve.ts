@@ -5,21 +5,150 @@
 import { z } from 'zod';
 import { GitHubClient, StructuredError } from '../github/client.js';
 import { QUERIES } from '../github/queries.js';
-import { fetchAllThreads } from './shared.js';
+import { createThreadLookup, type ThreadLookup } from './shared.js';
 import { fetchQodoReview } from '../adapters/qodo.js';
 import { toggleQodoIssue } from '../adapters/qodo-tracker.js';
+import { parseLocalFindingId } from '../agents/local.js';
 import type { ICoordinationStateManager } from '../coordination/types.js';
 import { addResolvedReaction, addReactionToNode } from '../github/state-comment.js';
 import { logger } from '../logging.js';
-import type { ResolveInput, ResolveOutput, ResolveThreadData } from '../github/types.js';
+import type {
+  ResolveInput,
+  ResolveOutput,
+  ResolveThreadData,
+  ResolveBatchItem,
+  ResolveBatchOutput
+} from '../github/types.js';
+
+/** Upper bound on IDs per batch call */
+const MAX_BATCH_SIZE = 100;
 
 export const ResolveInputSchema = z.object({
   owner: z.string().min(1, 'Repository owner is required'),
   repo: z.string().min(1, 'Repository name is required'),
   pr: z.number().int().positive('PR number must be positive'),
-  threadId: z.string().min(1, 'Thread ID is required')
+  threadId: z.string().min(1, 'Thread ID is required').optional(),
+  threadIds: z.array(z.string().min(1)).min(1).max(MAX_BATCH_SIZE).optional()
+    .describe('Resolve several threads in one call; each ID gets its own result'),
+  resolveDuplicates: z.boolean().optional()
+    .describe('Also resolve comments from other agents in the same duplicateGroup (single threadId only)')
 });
 
+export type ResolveToolInput = z.infer<typeof ResolveInputSchema>;
+
+/**
+ * Asked before resolving a duplicate group; returning false leaves the offer in the output
+ */
+export type ConfirmDuplicates = (duplicates: { group: string; threadIds: string[] }) => Promise<boolean>;
+
+/**
+ * pr_resolve entry point: a single thread, or a batch with per-item results
+ */
+export async function prResolve(
+  input: ResolveToolInput,
+  client: GitHubClient,
+  coordination?: ICoordinationStateManager,
+  confirmDuplicates?: ConfirmDuplicates
+): Promise<ResolveOutput | ResolveBatchOutput> {
+  const { owner, repo, pr, threadId, threadIds, resolveDuplicates } = ResolveInputSchema.parse(input);
+
+  // Checked here rather than with .refine(): MCP clients can't read a refined object schema
+  if ((threadId === undefined) === (threadIds === undefined)) {
+    throw new StructuredError('parse', 'Provide either threadId or threadIds', false);
+  }
+
+  if (threadId === undefined) {
+    return resolveBatch(owner, repo, pr, threadIds ?? [], client, coordination);
+  }
+
+  const lookup = createThreadLookup(client, owner, repo, pr);
+  const result = await prResolveWithContext({ owner, repo, pr, threadId }, client, coordination, lookup);
+
+  // Listing the PR only pays off when the group may be resolved; otherwise the
+  // group is reported only if the lookup already fetched the listing
+  const fetchGroup = resolveDuplicates === true || (resolveDuplicates === undefined && confirmDuplicates !== undefined);
+  const duplicates = await findOpenDuplicates(lookup, result.threadId ?? threadId, fetchGroup);
+  if (!duplicates) {
+    return result;
+  }
+
+  const confirmed = resolveDuplicates ?? (confirmDuplicates ? await confirmDuplicates(duplicates) : false);
+  if (!confirmed) {
+    return { ...result, duplicates };
+  }
+
+  return {
+    ...result,
+    duplicatesResolved: await resolveBatch(owner, repo, pr, duplicates.threadIds, client, coordination, lookup)
+  };
+}
+
+/**
+ * Find unresolved members of a comment's duplicate group (other agents, same issue)
+ * @param fetch - List the PR's threads when the lookup hasn't already
+ */
+async function findOpenDuplicates(
+  lookup: ThreadLookup,
+  threadId: string,
+  fetch: boolean
+): Promise<{ group: string; threadIds: string[] } | null> {
+  let comments = lookup.loaded();
+  try {
+    if (!comments && fetch) comments = await lookup.all();
+  } catch (error) {
+    // Duplicate detection is advisory - never fail a successful resolve over it
+    logger.debug('[resolve] Skipping duplicate detection', { threadId, error });
+    return null;
+  }
+  if (!comments) return null;
+
+  const group = comments.find(c => c.threadId === threadId)?.duplicateGroup;
+  if (!group) return null;
+
+  const threadIds = comments
+    .filter(c => c.duplicateGroup === group && c.threadId !== threadId && !c.resolved)
+    .map(c => c.threadId);
+  return threadIds.length > 0 ? { group, threadIds } : null;
+}
+
+/**
+ * Resolve several threads sequentially, sharing one thread lookup.
+ * A failing item is recorded and the rest of the batch continues.
+ */
+async function resolveBatch(
+  owner: string,
+  repo: string,
+  pr: number,
+  threadIds: string[],
+  client: GitHubClient,
+  coordination?: ICoordinationStateManager,
+  lookup: ThreadLookup = createThreadLookup(client, owner, repo, pr)
+): Promise<ResolveBatchOutput> {
+  const results: ResolveBatchItem[] = [];
+
+  // Sequential on purpose: state/tracker comments are read-modify-write
+  for (const id of [...new Set(threadIds)]) {
+    try {
+      const result = await prResolveWithContext({ owner, repo, pr, threadId: id }, client, coordination, lookup);
+      results.push({ ...result, threadId: result.threadId ?? id });
+    } catch (error) {
+      const kind = error instanceof StructuredError ? error.kind : 'unknown';
+      const message = error instanceof Error ? error.message : String(error);
+      logger.debug('[resolve] Batch item failed', { threadId: id, kind, message });
+      results.push({ success: false, threadId: id, error: { kind, message } });
+    }
+  }
+
+  const succeeded = results.filter(r => r.success).length;
+  return {
+    success: succeeded === results.length,
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results
+  };
+}
+
 /**
  * Resolve with context (fetches thread info first)
  * Supports both review threads and Qodo issues
@@ -27,7 +156,8 @@ export const ResolveInputSchema = z.object({
 export async function prResolveWithContext(
   input: ResolveInput & { pr: number },
   client: GitHubClient,
-  coordination?: ICoordinationStateManager
+  coordination?: ICoordinationStateManager,
+  lookup: ThreadLookup = createThreadLookup(client, input.owner, input.repo, input.pr)
 ): Promise<ResolveOutput> {
   const { owner, repo, pr } = input;
   let { threadId } = input;
@@ -61,7 +191,7 @@ export async function prResolveWithContext(
         // GraphQL node ID (review comment, review, or thread) - use GraphQL API
         await addReactionToNode(parentId, '+1');
         logger.debug('[resolve] Added reaction to review comment via GraphQL', { parentId });
-      } else if (parentId.startsWith('coderabbit-')) {
+      } else if (parentId.startsWith('coderabbit-') || parseLocalFindingId(parentId)) {
         // Synthetic nitpick - no real GitHub entity to react to
         logger.debug('[resolve] Skipping reaction for synthetic comment', { parentId });
       } else {
@@ -92,25 +222,17 @@ export async function prResolveWithContext(
     threadId = parentId;
   }
 
-  // Handle synthetic CodeRabbit comments (nitpicks and outside-diff)
-  if (threadId.startsWith('coderabbit-nitpick-') || threadId.startsWith('coderabbit-outside-diff-')) {
+  // Handle synthetic comments (CodeRabbit nitpicks and outside-diff, local agent findings)
+  if (threadId.startsWith('coderabbit-nitpick-') || threadId.startsWith('coderabbit-outside-diff-') ||
+      parseLocalFindingId(threadId)) {
     if (coordination) {
       await coordination.markNitpickResolved(threadId, 'agent', { owner, repo, pr });
     }
     return { success: true, synthetic: true, message: 'Synthetic comment marked as resolved internally' };
   }
 
-  // Find the thread first
-  const { comments } = await fetchAllThreads(client, owner, repo, pr, {
-    maxItems: 1000
-  });
-
-  // Match exact ID or suffix after separator (prevents false positives)
-  const comment = comments.find(c =>
-    c.threadId === threadId ||
-    c.threadId.endsWith(`_${threadId}`) ||
-    c.threadId.endsWith(`-${threadId}`)
-  );
+  // Find the thread first (direct fetch for node IDs, shared listing otherwise)
+  const comment = await lookup(threadId);
 
   if (!comment) {
     throw new StructuredError('not_found', `Thread ${threadId} not found`, false);
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for pr_review_report phase attribution (GitHub calls mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Octokit } from '@octokit/rest';
+import type { GitHubClient } from '../github/client.js';
+
+const { fetchAllThreads } = vi.hoisted(() => ({ fetchAllThreads: vi.fn() }));
+
+vi.mock('./shared.js', () => ({ fetchAllThreads }));
+
+import { CoordinationStateManager } from '../coordination/state.js';
+import { prReviewReport } from './review-report.js';
+
+const client = {} as GitHubClient;
+const octokit = { paginate: async () => [], pulls: { listCommits: vi.fn() } } as unknown as Octokit;
+const pr1 = { owner: 'o', repo: 'r', pr: 1 };
+const pr2 = { owner: 'o', repo: 'r', pr: 2 };
+
+let coordination: CoordinationStateManager;
+
+/** Start a run for a PR with one partition */
+function startRun(prInfo: typeof pr1): void {
+  coordination.initRun(prInfo, 'head', [{ file: `pr${prInfo.pr}.ts`, comments: [`t${prInfo.pr}`], severity: 'MAJOR', status: 'pending' }]);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  coordination = new CoordinationStateManager();
+  fetchAllThreads.mockReset().mockResolvedValue({ comments: [] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('prReviewReport', () => {
+  it('reports orchestrator phases for the only run they overlap', async () => {
+    startRun(pr1);
+    coordination.updateOrchestratorPhase('spawn_workers');
+    vi.setSystemTime(new Date('2026-01-01T00:05:00Z'));
+    coordination.updateOrchestratorPhase('complete');
+
+    const { markdown } = await prReviewReport({ ...pr1 }, client, coordination, octokit);
+
+    expect(markdown).toContain('### Phases');
+  });
+
+  it('leaves phases out while runs for several PRs overlap', async () => {
+    startRun(pr1);
+    startRun(pr2);
+    coordination.updateOrchestratorPhase('spawn_workers');
+
+    const first = await prReviewReport({ ...pr1 }, client, coordination, octokit);
+    const second = await prReviewReport({ ...pr2 }, client, coordination, octokit);
+
+    expect(first.markdown).not.toContain('### Phases');
+    expect(second.markdown).not.toContain('### Phases');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * pr_review_report tool - End-of-run review report for a PR
+ *
+ * Builds a Markdown summary of the PR's coordination run (see coordination/report.ts)
+ * and can post it as a single PR comment that later reports update in place.
+ */
+
+import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
+import { getOctokit } from '../github/octokit.js';
+import { GitHubClient, StructuredError } from '../github/client.js';
+import { fetchAllThreads } from './shared.js';
+import { splitCommitsAt } from '../agents/incremental.js';
+import { buildRunReport, REPORT_MARKER, type ReportCommit } from '../coordination/report.js';
+import type { CoordinationStatus, ICoordinationStateManager, OrchestratorProgress } from '../coordination/types.js';
+import { logger } from '../logging.js';
+
+// ============================================================================
+// Input/Output Schemas
+// ============================================================================
+
+export const ReviewReportInputSchema = z.object({
+  owner: z.string().min(1, 'Repository owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr: z.number().int().positive('PR number must be positive'),
+  run_id: z.string().optional().describe('Run to report (default: the PR\'s run)'),
+  post: z.boolean().optional().default(false)
+    .describe('Post the report as a PR comment, replacing the previous report'),
+});
+
+export type ReviewReportInput = z.input<typeof ReviewReportInputSchema>;
+
+export const ReviewReportOutputSchema = z.object({
+  runId: z.string(),
+  markdown: z.string(),
+  bySource: z.record(z.record(z.number())),
+  outcomeCounts: z.object({
+    fixed: z.number(),
+    dismissed: z.number(),
+    deferred: z.number(),
+    failed: z.number(),
+    unreported: z.number(),
+  }),
+  commits: z.number(),
+  open: z.number(),
+  posted: z.boolean(),
+  commentUrl: z.string().nullable(),
+});
+
+export type ReviewReportOutput = z.infer<typeof ReviewReportOutputSchema>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Commits pushed since the run started (empty when they can't be listed)
+ */
+async function fetchRunCommits(
+  ok: Octokit,
+  owner: string,
+  repo: string,
+  pr: number,
+  startedAt: string,
+): Promise<ReportCommit[]> {
+  try {
+    const commits = await ok.paginate(ok.pulls.listCommits, { owner, repo, pull_number: pr, per_page: 100 });
+    const newer = new Set(splitCommitsAt(commits, startedAt).newer);
+    return commits.filter(c => newer.has(c.sha)).map(c => ({ sha: c.sha, message: c.commit.message }));
+  } catch (error) {
+    logger.warning(`[review-report] Could not list commits of ${owner}/${repo}#${pr}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Orchestrator progress when its orchestration overlaps this run and no other.
+ * Progress is kept once per session rather than per run, so while runs for
+ * several PRs overlap it can't be attributed and is left out.
+ */
+function progressForRun(
+  progress: OrchestratorProgress | null,
+  runId: string,
+  runs: CoordinationStatus[],
+): OrchestratorProgress | null {
+  if (!progress) return null;
+  const now = Date.now();
+  const overlaps = (startedAt: string, completedAt?: string) =>
+    new Date(progress.startedAt).getTime() <= new Date(completedAt ?? now).getTime()
+    && new Date(progress.completedAt ?? now).getTime() >= new Date(startedAt).getTime();
+  const overlapping = runs.filter(r => r.startedAt && overlaps(r.startedAt, r.completedAt));
+  return overlapping.length === 1 && overlapping[0].runId === runId ? progress : null;
+}
+
+/**
+ * Replace the previous report comment, or post the first one
+ */
+async function upsertReportComment(
+  ok: Octokit,
+  owner: string,
+  repo: string,
+  pr: number,
+  body: string,
+): Promise<string> {
+  const comments = await ok.paginate(ok.issues.listComments, { owner, repo, issue_number: pr, per_page: 100 });
+  const existing = comments.find(c => c.body?.startsWith(REPORT_MARKER));
+
+  if (existing) {
+    const { data } = await ok.issues.updateComment({ owner, repo, comment_id: existing.id, body });
+    return data.html_url;
+  }
+  const { data } = await ok.issues.createComment({ owner, repo, issue_number: pr, body });
+  return data.html_url;
+}
+
+// ============================================================================
+// Tool Function
+// ============================================================================
+
+/**
+ * Build the report for a PR's coordination run and optionally post it
+ */
+export async function prReviewReport(
+  input: ReviewReportInput,
+  client: GitHubClient,
+  coordination: ICoordinationStateManager,
+  octokit?: Octokit,
+): Promise<ReviewReportOutput> {
+  const { owner, repo, pr, run_id, post } = ReviewReportInputSchema.parse(input);
+
+  const run = coordination.findRun(run_id !== undefined ? { runId: run_id } : { prInfo: { owner, repo, pr } });
+  if (!run || run.prInfo.owner !== owner || run.prInfo.repo !== repo || run.prInfo.pr !== pr) {
+    throw new StructuredError(
+      'not_found',
+      run_id !== undefined
+        ? `Run ${run_id} not found for ${owner}/${repo}#${pr}`
+        : `No coordination run for ${owner}/${repo}#${pr}`,
+      false,
+      'Use pr_get_work_status to list runs'
+    );
+  }
+
+  const ok = octokit ?? getOctokit();
+  const [{ comments }, commits] = await Promise.all([
+    fetchAllThreads(client, owner, repo, pr, { maxItems: 1000 }, coordination),
+    fetchRunCommits(ok, owner, repo, pr, run.startedAt),
+  ]);
+
+  const report = buildRunReport({
+    run,
+    comments,
+    commits,
+    progress: progressForRun(coordination.getOrchestratorProgress(), run.runId, coordination.listRuns()),
+  });
+
+  const commentUrl = post ? await upsertReportComment(ok, owner, repo, pr, report.markdown) : null;
+  if (commentUrl) {
+    logger.info(`[review-report] ${owner}/${repo}#${pr}: posted report for run ${run.runId}`);
+  }
+
+  return {
+    runId: run.runId,
+    markdown: report.markdown,
+    bySource: report.bySource,
+    outcomeCounts: report.outcomeCounts,
+    commits: report.commits.length,
+    open: report.open.length,
+    posted: commentUrl !== null,
+    commentUrl,
+  };
+}
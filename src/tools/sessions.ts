@@ -1,9 +1,12 @@
 /**
  * pr_sessions tool — list active and recent review invocations across sessions.
  * Useful for recovery after crash or context compaction.
+ * Sequential invocations are listed as one pipeline with per-step status.
  */
 
 import { z } from 'zod';
+import { currentStep, toPipelineSteps, type PipelineStep } from '../agents/pipeline.js';
+import { agentScope } from '../agents/registry.js';
 import type { InvocationStore } from '../persistence/invocation-store.js';
 
 // ============================================================================
@@ -34,13 +37,22 @@ export interface SessionsOutput {
     invokedAt: string;
     status: string;
     completedAt: string | null;
+    mode: 'parallel' | 'sequential';
     agentStatuses: Array<{
       agentId: string;
       ready: boolean;
       confidence: string | null;
       lastActivity: string | null;
       timedOut: boolean;
+      /** 'quota_exhausted' or 'unavailable' when the agent said it can't review */
+      availability: string | null;
+      retryAfter: string | null;
     }>;
+    pipeline?: {
+      /** Agent the pipeline is on; null once every step settled */
+      currentAgent: string | null;
+      steps: PipelineStep[];
+    };
   }>;
   total: number;
 }
@@ -74,25 +86,39 @@ export function prSessions(
     limit: validated.limit,
   });
 
-  const enriched = invocations.map(inv => ({
-    id: inv.id,
-    owner: inv.owner,
-    repo: inv.repo,
-    pr: inv.pr,
-    sessionId: inv.sessionId,
-    agents: inv.agents,
-    since: inv.since,
-    invokedAt: inv.invokedAt,
-    status: inv.status,
-    completedAt: inv.completedAt,
-    agentStatuses: invocationStore.getAgentStatuses(inv.id).map(a => ({
-      agentId: a.agentId,
-      ready: a.ready,
-      confidence: a.confidence,
-      lastActivity: a.lastActivity,
-      timedOut: a.timedOut,
-    })),
-  }));
+  const enriched = invocations.map(inv => {
+    const statuses = invocationStore.getAgentStatuses(inv.id);
+    const steps = inv.mode === 'sequential' ? toPipelineSteps(statuses, agentScope(inv.owner, inv.repo)) : null;
+
+    return {
+      id: inv.id,
+      owner: inv.owner,
+      repo: inv.repo,
+      pr: inv.pr,
+      sessionId: inv.sessionId,
+      agents: inv.agents,
+      since: inv.since,
+      invokedAt: inv.invokedAt,
+      status: inv.status,
+      completedAt: inv.completedAt,
+      mode: inv.mode,
+      agentStatuses: statuses.map(a => ({
+        agentId: a.agentId,
+        ready: a.ready,
+        confidence: a.confidence,
+        lastActivity: a.lastActivity,
+        timedOut: a.timedOut,
+        availability: a.availability,
+        retryAfter: a.retryAfter,
+      })),
+      ...(steps && {
+        pipeline: {
+          currentAgent: inv.status === 'active' ? currentStep(steps)?.agentId ?? null : null,
+          steps,
+        },
+      }),
+    };
+  });
 
   return { invocations: enriched, total: enriched.length };
 }
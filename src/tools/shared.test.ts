@@ -0,0 +1,39 @@
+/**
+ * Unit tests for single-thread lookups (GitHub calls mocked)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { GitHubClient } from '../github/client.js';
+import { fetchSingleThread } from './shared.js';
+
+/** Client whose getThread query returns a thread of the given PR */
+function clientFor(nameWithOwner: string, number: number) {
+  const graphql = vi.fn(async () => ({
+    node: {
+      id: 'PRRT_a',
+      isResolved: false,
+      isOutdated: false,
+      viewerCanResolve: true,
+      path: 'src/db.ts',
+      line: 42,
+      diffSide: 'RIGHT',
+      pullRequest: { number, repository: { nameWithOwner } },
+      comments: {
+        nodes: [{ id: 'PRRC_a', body: 'Null pool', createdAt: '', updatedAt: '', author: { login: 'octocat' } }],
+      },
+    },
+  }));
+  return { graphql } as unknown as GitHubClient;
+}
+
+describe('fetchSingleThread', () => {
+  it('returns a thread of the requested PR', async () => {
+    const comment = await fetchSingleThread(clientFor('Octo/App', 7), 'octo', 'app', 7, 'PRRT_a');
+    expect(comment).toMatchObject({ threadId: 'PRRT_a', id: 'PRRC_a', file: 'src/db.ts' });
+  });
+
+  it('ignores a thread of another PR or repository', async () => {
+    expect(await fetchSingleThread(clientFor('octo/app', 8), 'octo', 'app', 7, 'PRRT_a')).toBeNull();
+    expect(await fetchSingleThread(clientFor('octo/other', 7), 'octo', 'app', 7, 'PRRT_a')).toBeNull();
+  });
+});
@@ -16,7 +16,15 @@ import type {
   ListFilter
 } from '../github/types.js';
 import { extractPrompt, extractTitle, truncateBody } from '../extractors/prompt.js';
-import { extractSeverity } from '../extractors/severity.js';
+import {
+  extractSeverity,
+  applySeverityRules,
+  type Severity,
+  type IssueType,
+  type SeverityRule,
+  type CommentSource
+} from '../extractors/severity.js';
+import { loadSeverityRules } from '../github/repo-config.js';
 import { logger } from '../logging.js';
 import {
   parseNitpicksFromReviewBody,
@@ -25,6 +33,9 @@ import {
   outsideDiffToProcessedComment
 } from '../extractors/coderabbit-nitpicks.js';
 import { detectMultiIssue, splitMultiIssue } from '../extractors/multi-issue.js';
+import { findDuplicateGroups } from '../extractors/duplicates.js';
+import { fetchLocalFindings } from '../agents/local.js';
+import { agentScope } from '../agents/registry.js';
 import type { ICoordinationStateManager } from '../coordination/types.js';
 import { loadState } from '../github/state-comment.js';
 
@@ -91,6 +102,7 @@ async function fetchCodeRabbitNitpicks(
     // safe: finding either section means this is the active review with current data.
     let allNitpicks: ReturnType<typeof parseNitpicksFromReviewBody> = [];
     let allOutsideDiff: ReturnType<typeof parseOutsideDiffComments> = [];
+    let submittedAt: string | undefined;
 
     for (const review of coderabbitReviews) {
       const body = review.body ?? '';
@@ -100,6 +112,7 @@ async function fetchCodeRabbitNitpicks(
 
       allNitpicks = parseNitpicksFromReviewBody(body);
       allOutsideDiff = parseOutsideDiffComments(body);
+      submittedAt = review.submittedAt ?? undefined;
       break;
     }
 
@@ -107,7 +120,7 @@ async function fetchCodeRabbitNitpicks(
     const initialComments = [
       ...allNitpicks.map(nitpickToProcessedComment),
       ...allOutsideDiff.map(outsideDiffToProcessedComment)
-    ];
+    ].map(comment => ({ ...comment, createdAt: submittedAt }));
 
     // Handle Multi-Issue Comments
     const finalComments: ProcessedComment[] = [];
@@ -145,13 +158,15 @@ async function fetchCodeRabbitNitpicks(
 
 /**
  * Process GraphQL thread into comment object
+ * @param scope - Repository scope for custom agent sources (see agentScope)
  */
-export function processThread(thread: ReviewThread): ProcessedComment {
+export function processThread(thread: ReviewThread, severityRules?: SeverityRule[], scope?: string): ProcessedComment {
   const firstComment = thread.comments?.nodes?.[0];
   const body = firstComment?.body || '';
   const author = firstComment?.author?.login;
-  const { severity, type, source } = extractSeverity(body, author);
+  const { severity, type, source } = extractSeverity(body, author, severityRules, scope);
   const extraction = extractPrompt(body, source);
+  const contextComment = thread.firstComment?.nodes?.[0];
 
   return {
     id: firstComment?.id || thread.id,
@@ -170,6 +185,13 @@ export function processThread(thread: ReviewThread): ProcessedComment {
     aiPrompt: extraction.prompt,
     aiPromptConfidence: extraction.confidence,
     author: firstComment?.author?.login || 'unknown',
+    codeContext: {
+      diffHunk: contextComment?.diffHunk ?? null,
+      startLine: thread.startLine ?? null,
+      originalLine: thread.originalLine ?? null,
+      originalCommit: contextComment?.originalCommit?.oid ?? null,
+      diffSide: thread.diffSide ?? null
+    },
     createdAt: firstComment?.createdAt,
     updatedAt: firstComment?.updatedAt,
     replies: (thread.comments?.nodes || []).slice(1).map(c => ({
@@ -182,18 +204,46 @@ export function processThread(thread: ReviewThread): ProcessedComment {
 }
 
 /**
- * Fetch a single thread by its GraphQL node ID.
- * Returns null if the thread is not found or the ID is not a thread ID.
+ * Apply per-repo severity overrides to a comment that was not parsed by extractSeverity
+ * (synthetic nitpicks, Qodo, Greptile)
+ */
+export function overrideSeverity(
+  severity: string,
+  source: CommentSource,
+  body: string,
+  severityRules: SeverityRule[]
+): { severity: Severity; type: IssueType } {
+  const result = applySeverityRules(
+    { severity: severity as Severity, type: 'other', source },
+    body,
+    severityRules
+  );
+  return { severity: result.severity, type: result.type };
+}
+
+/**
+ * Fetch a single thread of the given PR by its GraphQL node ID.
+ * Returns null if the thread is not found, the ID is not a thread ID,
+ * or the thread belongs to another PR.
  */
 export async function fetchSingleThread(
   client: GitHubClient,
-  threadId: string
+  owner: string,
+  repo: string,
+  pr: number,
+  threadId: string,
+  severityRules?: SeverityRule[]
 ): Promise<ProcessedComment | null> {
   try {
     const data = await client.graphql<GetThreadData>(QUERIES.getThread, { threadId });
     const thread = data?.node;
     if (!thread || !thread.comments?.nodes?.length) return null;
-    return processThread(thread);
+    const { number, repository } = thread.pullRequest;
+    if (number !== pr || repository.nameWithOwner.toLowerCase() !== `${owner}/${repo}`.toLowerCase()) {
+      logger.debug('Thread belongs to another PR', { threadId, pr: `${repository.nameWithOwner}#${number}` });
+      return null;
+    }
+    return processThread(thread, severityRules, agentScope(owner, repo));
   } catch {
     return null;
   }
@@ -210,10 +260,13 @@ export interface FetchResult {
   totalCount: number;
   cursor: string | null;
   hasMore: boolean;
+  /** maxItems was reached before the last review thread was read */
+  truncated: boolean;
 }
 
 /**
- * Fetch all threads with pagination, including CodeRabbit nitpicks
+ * Fetch all threads with pagination, including CodeRabbit nitpicks and
+ * synthetic findings of local agents
  */
 export async function fetchAllThreads(
   client: GitHubClient,
@@ -227,11 +280,17 @@ export async function fetchAllThreads(
   const comments: ProcessedComment[] = [];
   let cursor = startCursor;
   let totalCount = 0;
+  let truncated = false;
 
   // Fetch inline threads and CodeRabbit nitpicks in parallel (only on first page)
   const nitpicksPromise = startCursor === null
     ? fetchCodeRabbitNitpicks(client, owner, repo, pr, coordination)
     : Promise.resolve([]);
+  const severityRules = await loadSeverityRules(owner, repo);
+  // After the repo config is loaded, so its custom agents are registered
+  const localFindingsPromise = startCursor === null
+    ? fetchLocalFindings(owner, repo, pr)
+    : Promise.resolve([]);
 
   while (comments.length < maxItems) {
     const data = await client.graphql<ListThreadsData>(QUERIES.listThreads, {
@@ -248,8 +307,8 @@ export async function fetchAllThreads(
 
     totalCount = threads.totalCount;
 
-    for (const thread of threads.nodes) {
-      const comment = processThread(thread);
+    for (const [index, thread] of threads.nodes.entries()) {
+      const comment = processThread(thread, severityRules, agentScope(owner, repo));
 
       // Apply filters
       if (filter.resolved !== undefined && comment.resolved !== filter.resolved) continue;
@@ -259,7 +318,10 @@ export async function fetchAllThreads(
 
       comments.push(comment);
 
-      if (comments.length >= maxItems) break;
+      if (comments.length >= maxItems) {
+        truncated = index < threads.nodes.length - 1 || threads.pageInfo.hasNextPage;
+        break;
+      }
     }
 
     if (!threads.pageInfo.hasNextPage) {
@@ -269,8 +331,8 @@ export async function fetchAllThreads(
     cursor = threads.pageInfo.endCursor;
   }
 
-  // Merge nitpicks (only on first page fetch)
-  const nitpicks = await nitpicksPromise;
+  // Merge nitpicks and local findings (only on first page fetch)
+  const nitpicks = [...await nitpicksPromise, ...await localFindingsPromise];
   if (nitpicks.length > 0 && startCursor === null) {
     // Load state once and check nitpicks locally to avoid N API calls
     const state = await loadState(owner, repo, pr);
@@ -278,6 +340,10 @@ export async function fetchAllThreads(
     for (const n of nitpicks) {
       const isResolved = n.id in state.resolvedNitpicks;
       if (!isResolved) {
+        if (severityRules.length > 0) {
+          const overridden = overrideSeverity(n.severity, n.source, n.fullBody, severityRules);
+          if (overridden.severity !== n.severity) Object.assign(n, overridden);
+        }
         unresolvedNitpicks.push(n);
       }
     }
@@ -301,6 +367,83 @@ export async function fetchAllThreads(
     totalCount += unresolvedNitpicks.length;
   }
 
+  // Tag cross-agent duplicates within the fetched set
+  const duplicateGroups = findDuplicateGroups(comments);
+  for (const comment of comments) {
+    const group = duplicateGroups.get(comment.threadId);
+    if (group) comment.duplicateGroup = group;
+  }
+
   const hasMore = comments.length >= maxItems || totalCount > comments.length;
-  return { comments, totalCount, cursor, hasMore };
+  return { comments, totalCount, cursor, hasMore, truncated };
+}
+
+/**
+ * Resolves a thread ID (node ID, first-comment ID, or ID suffix) to a processed thread
+ */
+export interface ThreadLookup {
+  (threadId: string): Promise<ProcessedComment | null>;
+  /** Full thread listing for the PR (fetched once, shared with lookups) */
+  all(): Promise<ProcessedComment[]>;
+  /** The listing if a lookup already fetched it, without fetching */
+  loaded(): ProcessedComment[] | null;
+}
+
+/**
+ * Create a thread lookup for one PR.
+ * Full thread node IDs (PRRT_*) of this PR are fetched directly; anything else is matched
+ * against a thread listing that is fetched once, on first use, and shared by
+ * every later lookup.
+ */
+export function createThreadLookup(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: number
+): ThreadLookup {
+  let snapshot: Promise<ProcessedComment[]> | null = null;
+  let listing: ProcessedComment[] | null = null;
+
+  const all = (): Promise<ProcessedComment[]> => {
+    snapshot ??= fetchAllThreads(client, owner, repo, pr, { maxItems: 1000 })
+      .then(result => (listing = result.comments))
+      .catch(error => {
+        // Don't cache failures - the next lookup retries the listing
+        snapshot = null;
+        throw error;
+      });
+    return snapshot;
+  };
+
+  const lookup = async (threadId: string) => {
+    if (threadId.startsWith('PRRT_')) {
+      const direct = await fetchSingleThread(client, owner, repo, pr, threadId);
+      if (direct) return direct;
+    }
+
+    const comments = await all();
+
+    // Match exact ID or suffix after separator (prevents false positives)
+    return comments.find(c =>
+      c.threadId === threadId ||
+      c.id === threadId ||
+      c.threadId.endsWith(`_${threadId}`) ||
+      c.threadId.endsWith(`-${threadId}`)
+    ) ?? null;
+  };
+
+  return Object.assign(lookup, { all, loaded: () => listing });
+}
+
+/**
+ * Locate a single review thread (see createThreadLookup for matching rules)
+ */
+export async function findThread(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: number,
+  threadId: string
+): Promise<ProcessedComment | null> {
+  return createThreadLookup(client, owner, repo, pr)(threadId);
 }
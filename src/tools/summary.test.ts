@@ -0,0 +1,110 @@
+/**
+ * Unit tests for pr_summary outcome counts (comment sources mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { GitHubClient } from '../github/client.js';
+import type { ProcessedComment } from '../github/types.js';
+import type { PersistentState } from '../github/state-comment.js';
+import type { ICoordinationStateManager, NitpickResolution } from '../coordination/types.js';
+
+const mocks = vi.hoisted(() => ({
+  fetchAllThreads: vi.fn(),
+  loadState: vi.fn(),
+}));
+
+vi.mock('./shared.js', () => ({
+  fetchAllThreads: mocks.fetchAllThreads,
+  overrideSeverity: (severity: string) => ({ severity, type: 'other' }),
+}));
+vi.mock('../adapters/qodo.js', () => ({ fetchQodoReview: async () => null, qodoToNormalizedComments: () => [] }));
+vi.mock('../adapters/greptile.js', () => ({ fetchGreptileReview: async () => null, greptileToNormalizedComments: () => [] }));
+vi.mock('../adapters/qodo-tracker.js', () => ({ getTrackerResolvedMap: async () => new Map() }));
+vi.mock('../github/state-comment.js', () => ({ loadState: mocks.loadState }));
+vi.mock('../github/repo-config.js', () => ({ loadSeverityRules: async () => [] }));
+
+import { prSummary } from './summary.js';
+
+function thread(threadId: string, resolved: boolean): ProcessedComment {
+  return {
+    id: `c-${threadId}`,
+    threadId,
+    file: 'src/db.ts',
+    line: 42,
+    outdated: false,
+    resolved,
+    canResolve: true,
+    severity: 'MAJOR',
+    type: 'issue',
+    source: 'gemini',
+    title: `Issue ${threadId}`,
+    body: '',
+    fullBody: '',
+    aiPrompt: null,
+    aiPromptConfidence: 'absent',
+    author: 'gemini-code-assist',
+    createdAt: undefined,
+    updatedAt: undefined,
+    replies: [],
+  };
+}
+
+const dismissed: NitpickResolution = {
+  resolvedAt: '2026-01-01T00:00:00Z',
+  resolvedBy: 'agent',
+  dismissal: { reason: 'false_positive', rationale: 'Guarded by the caller' },
+};
+const fixed: NitpickResolution = { resolvedAt: '2026-01-01T00:00:00Z', resolvedBy: 'agent' };
+
+function state(resolvedNitpicks: Record<string, NitpickResolution>): PersistentState {
+  return { version: 2, parentChildren: {}, resolvedNitpicks, updatedAt: '2026-01-01T00:00:00Z' };
+}
+
+const base = { owner: 'o', repo: 'r', pr: 1 };
+const client = {} as GitHubClient;
+
+beforeEach(() => {
+  mocks.fetchAllThreads.mockReset();
+  mocks.loadState.mockReset();
+});
+
+describe('prSummary outcomes', () => {
+  it('counts dismissals only while their comment is resolved', async () => {
+    mocks.fetchAllThreads.mockResolvedValue({
+      comments: [thread('PRRT_a', true), thread('PRRT_b', true), thread('PRRT_reopened', false)],
+      totalCount: 3,
+    });
+    mocks.loadState.mockResolvedValue(state({ PRRT_a: dismissed, PRRT_reopened: dismissed }));
+
+    const { outcomes } = await prSummary(base, client);
+
+    expect(outcomes).toEqual({ fixed: 1, dismissed: 1, dismissedByReason: { false_positive: 1 } });
+  });
+
+  it('counts resolved CodeRabbit nitpicks from the coordination manager', async () => {
+    mocks.fetchAllThreads.mockResolvedValue({ comments: [thread('PRRT_a', true)], totalCount: 1 });
+    mocks.loadState.mockResolvedValue(state({
+      'coderabbit-nitpick-1': dismissed,
+      'coderabbit-nitpick-2': fixed,
+      PRRT_a: dismissed,
+    }));
+    const coordination = {
+      getResolvedNitpicksCount: vi.fn(async () => 2),
+    } as unknown as ICoordinationStateManager;
+
+    const summary = await prSummary(base, client, coordination);
+
+    expect(summary.nitpicks).toEqual({ total: 2, resolved: 2, unresolved: 0 });
+    expect(summary.outcomes).toMatchObject({ fixed: 1, dismissed: 2 });
+  });
+
+  it('counts resolved CodeRabbit nitpicks from the state comment without a coordination manager', async () => {
+    mocks.fetchAllThreads.mockResolvedValue({ comments: [], totalCount: 0 });
+    mocks.loadState.mockResolvedValue(state({ 'coderabbit-nitpick-1': dismissed }));
+
+    const summary = await prSummary(base, client);
+
+    expect(summary.nitpicks).toEqual({ total: 1, resolved: 1, unresolved: 0 });
+    expect(summary.outcomes).toMatchObject({ fixed: 0, dismissed: 1 });
+  });
+});
@@ -4,10 +4,12 @@
 
 import { z } from 'zod';
 import { GitHubClient } from '../github/client.js';
-import { fetchAllThreads } from './shared.js';
+import { fetchAllThreads, overrideSeverity } from './shared.js';
 import { fetchQodoReview, qodoToNormalizedComments } from '../adapters/qodo.js';
 import { fetchGreptileReview, greptileToNormalizedComments } from '../adapters/greptile.js';
 import { getTrackerResolvedMap } from '../adapters/qodo-tracker.js';
+import { loadState } from '../github/state-comment.js';
+import { loadSeverityRules } from '../github/repo-config.js';
 import type { ICoordinationStateManager } from '../coordination/types.js';
 import type { SummaryInput, SummaryOutput } from '../github/types.js';
 
@@ -30,6 +32,11 @@ export const SummaryOutputSchema = z.object({
     resolved: z.number(),
     unresolved: z.number(),
   }).optional(),
+  outcomes: z.object({
+    fixed: z.number(),
+    dismissed: z.number(),
+    dismissedByReason: z.record(z.number()),
+  }),
 });
 
 /**
@@ -45,15 +52,20 @@ export async function prSummary(
   const { owner, repo, pr } = validated;
 
   // Fetch review threads, Qodo/Greptile reviews, tracker resolved status, and nitpicks count in parallel
-  const [threadsResult, qodoReview, greptileReview, trackerResolved, resolvedNitpicksCount] = await Promise.all([
+  const [threadsResult, qodoReview, greptileReview, trackerResolved, coordinationNitpicksCount, state, severityRules] = await Promise.all([
     fetchAllThreads(client, owner, repo, pr, { maxItems: 1000 }),
     fetchQodoReview(owner, repo, pr),
     fetchGreptileReview(owner, repo, pr),
     getTrackerResolvedMap(owner, repo, pr),
-    coordination?.getResolvedNitpicksCount({ owner, repo, pr }) ?? Promise.resolve(0)
+    coordination?.getResolvedNitpicksCount({ owner, repo, pr }) ?? Promise.resolve(null),
+    loadState(owner, repo, pr),
+    loadSeverityRules(owner, repo)
   ]);
 
   const { comments, totalCount } = threadsResult;
+  // Without a coordination manager, count the synthetic comments the state comment marks resolved
+  const resolvedNitpicksCount = coordinationNitpicksCount
+    ?? Object.keys(state.resolvedNitpicks).filter(id => id.startsWith('coderabbit-')).length;
   // Count synthetic CodeRabbit comments (nitpicks + outside-diff)
   const unresolvedNitpicks = comments.filter(c =>
     c.threadId.startsWith('coderabbit-nitpick-') ||
@@ -62,7 +74,10 @@ export async function prSummary(
   const totalNitpicksCount = unresolvedNitpicks.length + resolvedNitpicksCount;
 
   // Get Qodo comments with resolved status from tracker
-  const qodoComments = qodoReview ? qodoToNormalizedComments(qodoReview) : [];
+  const qodoComments = (qodoReview ? qodoToNormalizedComments(qodoReview) : []).map(qc => ({
+    ...qc,
+    severity: overrideSeverity(qc.severity, 'qodo', qc.body, severityRules).severity
+  }));
   const qodoCount = qodoComments.length;
 
   // Apply tracker resolved status to Qodo comments
@@ -76,7 +91,10 @@ export async function prSummary(
   ).length;
 
   // Get Greptile comments (can't be resolved via API)
-  const greptileComments = greptileReview ? greptileToNormalizedComments(greptileReview) : [];
+  const greptileComments = (greptileReview ? greptileToNormalizedComments(greptileReview) : []).map(gc => ({
+    ...gc,
+    severity: overrideSeverity(gc.severity, 'greptile', gc.body, severityRules).severity
+  }));
   const greptileCount = greptileComments.length;
 
   // Combine all comments for stats
@@ -96,10 +114,29 @@ export async function prSummary(
     byFile[file] = (byFile[file] || 0) + 1;
   }
 
+  const resolvedCount = comments.filter(c => c.resolved).length + resolvedQodoCount;
+
+  // A dismissed comment counts while it is resolved; a synthetic CodeRabbit comment is
+  // resolved while it has a state entry, and is then left out of the thread listing
+  const commentResolved = new Map<string, boolean>([
+    ...comments.map(c => [c.threadId, c.resolved] as const),
+    ...qodoComments.map(qc => [qc.id, trackerResolved.get(qc.id) ?? false] as const),
+  ]);
+  const isResolved = (id: string) => commentResolved.get(id) ?? id.startsWith('coderabbit-');
+
+  // Dismissals are recorded in the state comment; everything else resolved counts as fixed
+  const dismissedByReason: Record<string, number> = {};
+  let dismissedCount = 0;
+  for (const [id, entry] of Object.entries(state.resolvedNitpicks)) {
+    if (!entry.dismissal || !isResolved(id)) continue;
+    dismissedByReason[entry.dismissal.reason] = (dismissedByReason[entry.dismissal.reason] || 0) + 1;
+    dismissedCount++;
+  }
+
   return {
     pr: `${owner}/${repo}#${pr}`,
     total: totalCount + qodoCount + greptileCount,
-    resolved: comments.filter(c => c.resolved).length + resolvedQodoCount,
+    resolved: resolvedCount,
     unresolved: allUnresolved.length,
     outdated: comments.filter(c => c.outdated).length,
     bySeverity,
@@ -112,6 +149,11 @@ export async function prSummary(
             unresolved: unresolvedNitpicks.length
           }
         }
-      : {})
+      : {}),
+    outcomes: {
+      fixed: resolvedCount + resolvedNitpicksCount - dismissedCount,
+      dismissed: dismissedCount,
+      dismissedByReason
+    }
   };
 }
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for pr_unresolve routing (GitHub calls mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { GitHubClient } from '../github/client.js';
+import type { ProcessedComment } from '../github/types.js';
+import type { ICoordinationStateManager } from '../coordination/types.js';
+
+const mocks = vi.hoisted(() => ({
+  findThread: vi.fn(),
+  fetchQodoReview: vi.fn(),
+  toggleQodoIssue: vi.fn(),
+  clearDismissals: vi.fn(),
+}));
+
+vi.mock('./shared.js', () => ({ findThread: mocks.findThread }));
+vi.mock('../adapters/qodo.js', () => ({ fetchQodoReview: mocks.fetchQodoReview }));
+vi.mock('../adapters/qodo-tracker.js', () => ({ toggleQodoIssue: mocks.toggleQodoIssue }));
+vi.mock('../github/state-comment.js', () => ({ clearDismissals: mocks.clearDismissals }));
+
+import { prUnresolveWithContext } from './unresolve.js';
+
+function thread(threadId: string, overrides: Partial<ProcessedComment> = {}): ProcessedComment {
+  return {
+    id: `c-${threadId}`,
+    threadId,
+    file: 'src/db.ts',
+    line: 42,
+    outdated: false,
+    resolved: true,
+    canResolve: true,
+    severity: 'MAJOR',
+    type: 'issue',
+    source: 'coderabbit',
+    title: `Issue ${threadId}`,
+    body: '',
+    fullBody: '',
+    aiPrompt: null,
+    aiPromptConfidence: 'absent',
+    author: 'coderabbitai',
+    createdAt: undefined,
+    updatedAt: undefined,
+    replies: [],
+    ...overrides,
+  };
+}
+
+const base = { owner: 'o', repo: 'r', pr: 1 };
+let client: GitHubClient;
+let graphql: ReturnType<typeof vi.fn>;
+
+/** Coordination manager knowing the given child → parent links; every nitpick was resolved */
+function coordinationWith(parents: Record<string, string> = {}) {
+  return {
+    getParentIdForChild: vi.fn(async (id: string) => parents[id] ?? null),
+    markChildUnresolved: vi.fn(async () => undefined),
+    markNitpickUnresolved: vi.fn(async () => true),
+  };
+}
+
+beforeEach(() => {
+  mocks.findThread.mockReset().mockResolvedValue(null);
+  mocks.fetchQodoReview.mockReset().mockResolvedValue({ commentId: 1 });
+  mocks.toggleQodoIssue.mockReset().mockResolvedValue({ items: [{ id: 'qodo-1', file: 'src/db.ts', title: 'Null pool' }] });
+  mocks.clearDismissals.mockReset().mockResolvedValue(undefined);
+  graphql = vi.fn().mockResolvedValue({});
+  client = { graphql } as unknown as GitHubClient;
+});
+
+describe('prUnresolveWithContext', () => {
+  it('reopens a resolved review thread and forgets its dismissal', async () => {
+    mocks.findThread.mockResolvedValue(thread('PRRT_a'));
+
+    const result = await prUnresolveWithContext({ ...base, threadId: 'PRRC_a' }, client);
+
+    expect(graphql).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ threadId: 'PRRT_a' }));
+    expect(mocks.clearDismissals).toHaveBeenCalledWith('o', 'r', 1, ['PRRT_a']);
+    expect(result).toMatchObject({ success: true, threadId: 'PRRT_a', title: 'Issue PRRT_a' });
+  });
+
+  it('leaves an open thread alone', async () => {
+    mocks.findThread.mockResolvedValue(thread('PRRT_a', { resolved: false }));
+
+    const result = await prUnresolveWithContext({ ...base, threadId: 'PRRT_a' }, client);
+
+    expect(result).toMatchObject({ success: true, title: 'Thread was not resolved' });
+    expect(graphql).not.toHaveBeenCalled();
+    expect(mocks.clearDismissals).not.toHaveBeenCalled();
+  });
+
+  it('fails for an unknown thread', async () => {
+    await expect(prUnresolveWithContext({ ...base, threadId: 'PRRT_gone' }, client))
+      .rejects.toMatchObject({ kind: 'not_found' });
+  });
+
+  it('reopens a Qodo issue in the tracker', async () => {
+    const result = await prUnresolveWithContext({ ...base, threadId: 'qodo-1' }, client);
+
+    expect(mocks.toggleQodoIssue).toHaveBeenCalledWith('o', 'r', 1, { commentId: 1 }, 'qodo-1', false);
+    expect(mocks.clearDismissals).toHaveBeenCalledWith('o', 'r', 1, ['qodo-1']);
+    expect(result).toEqual({ success: true, threadId: 'qodo-1', file: 'src/db.ts', title: 'Null pool' });
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  it('fails for a Qodo issue without a Qodo review', async () => {
+    mocks.fetchQodoReview.mockResolvedValue(null);
+    await expect(prUnresolveWithContext({ ...base, threadId: 'qodo-1' }, client))
+      .rejects.toMatchObject({ kind: 'not_found' });
+  });
+
+  it('reopens a child together with its parent thread', async () => {
+    const coordination = coordinationWith({ 'PRRT_p-issue-2': 'PRRT_p' });
+    mocks.findThread.mockResolvedValue(thread('PRRT_p'));
+
+    const result = await prUnresolveWithContext(
+      { ...base, threadId: 'PRRT_p-issue-2' }, client, coordination as unknown as ICoordinationStateManager
+    );
+
+    expect(coordination.markChildUnresolved).toHaveBeenCalledWith('PRRT_p-issue-2', base);
+    expect(mocks.findThread).toHaveBeenCalledWith(client, 'o', 'r', 1, 'PRRT_p');
+    expect(graphql).toHaveBeenCalledTimes(1);
+    expect(mocks.clearDismissals.mock.calls.map(c => c[3])).toEqual([['PRRT_p-issue-2'], ['PRRT_p']]);
+    expect(result).toMatchObject({ threadId: 'PRRT_p', synthetic: true, message: expect.stringContaining('parent') });
+  });
+
+  it('reopens a nitpick child together with its parent nitpick', async () => {
+    const coordination = coordinationWith({ 'coderabbit-nitpick-abc-child-1f': 'coderabbit-nitpick-abc' });
+
+    const result = await prUnresolveWithContext(
+      { ...base, threadId: 'coderabbit-nitpick-abc-child-1f' }, client, coordination as unknown as ICoordinationStateManager
+    );
+
+    expect(coordination.markChildUnresolved).toHaveBeenCalledWith('coderabbit-nitpick-abc-child-1f', base);
+    expect(coordination.markNitpickUnresolved).toHaveBeenCalledWith('coderabbit-nitpick-abc', base);
+    expect(result).toEqual({
+      success: true,
+      synthetic: true,
+      threadId: 'coderabbit-nitpick-abc-child-1f',
+      message: 'Child issue reopened together with its parent.',
+    });
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  it('marks a CodeRabbit nitpick unresolved', async () => {
+    const coordination = coordinationWith();
+
+    const result = await prUnresolveWithContext(
+      { ...base, threadId: 'coderabbit-nitpick-abc' }, client, coordination as unknown as ICoordinationStateManager
+    );
+
+    expect(coordination.markNitpickUnresolved).toHaveBeenCalledWith('coderabbit-nitpick-abc', base);
+    expect(result).toMatchObject({ success: true, synthetic: true, message: 'Synthetic comment marked as unresolved internally' });
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  it('reports a nitpick that was not resolved', async () => {
+    const result = await prUnresolveWithContext({ ...base, threadId: 'coderabbit-outside-diff-1' }, client);
+    expect(result).toMatchObject({ synthetic: true, message: 'Synthetic comment was not resolved' });
+  });
+
+  it('still reopens when the dismissal record cannot be cleared', async () => {
+    mocks.findThread.mockResolvedValue(thread('PRRT_a'));
+    mocks.clearDismissals.mockRejectedValue(new Error('403'));
+
+    await expect(prUnresolveWithContext({ ...base, threadId: 'PRRT_a' }, client)).resolves.toMatchObject({ success: true });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * pr_unresolve tool - Reopen a resolved review thread or Qodo issue
+ */
+
+import { z } from 'zod';
+import { GitHubClient, StructuredError } from '../github/client.js';
+import { QUERIES } from '../github/queries.js';
+import { findThread } from './shared.js';
+import { fetchQodoReview } from '../adapters/qodo.js';
+import { toggleQodoIssue } from '../adapters/qodo-tracker.js';
+import { parseLocalFindingId } from '../agents/local.js';
+import { clearDismissals } from '../github/state-comment.js';
+import type { ICoordinationStateManager } from '../coordination/types.js';
+import { logger } from '../logging.js';
+import type { ResolveInput, ResolveOutput, UnresolveThreadData } from '../github/types.js';
+
+export const UnresolveInputSchema = z.object({
+  owner: z.string().min(1, 'Repository owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr: z.number().int().positive('PR number must be positive'),
+  threadId: z.string().min(1, 'Thread ID is required')
+});
+
+/**
+ * Unresolve with context (fetches thread info first)
+ * Mirrors prResolveWithContext: review threads, Qodo issues, synthetic nitpicks
+ * and multi-issue children are all supported.
+ */
+export async function prUnresolveWithContext(
+  input: ResolveInput & { pr: number },
+  client: GitHubClient,
+  coordination?: ICoordinationStateManager
+): Promise<ResolveOutput> {
+  const { owner, repo, pr } = input;
+  let { threadId } = input;
+  let childMessage: string | undefined;
+
+  // Check if this is a Qodo issue ID
+  if (threadId.startsWith('qodo-')) {
+    const result = await unresolveQodoIssue(owner, repo, pr, threadId);
+    await forgetDismissals(owner, repo, pr, [threadId]);
+    return result;
+  }
+
+  // Child of a multi-issue comment: reopen the child, then its parent
+  const parentId = coordination
+    ? await coordination.getParentIdForChild(threadId, { owner, repo, pr })
+    : null;
+  if (parentId && coordination) {
+    await coordination.markChildUnresolved(threadId, { owner, repo, pr });
+    logger.debug('[unresolve] Child marked pending', { childId: threadId, parentId });
+    await forgetDismissals(owner, repo, pr, [threadId]);
+
+    if (parentId.startsWith('qodo-')) {
+      // pr_resolve never resolves Qodo parents, so there is nothing more to undo
+      return { success: true, synthetic: true, threadId, message: 'Child issue reopened.' };
+    }
+
+    // The parent was resolved once all of its children were - reopen it as well
+    childMessage = 'Child issue reopened together with its parent.';
+    threadId = parentId;
+  }
+
+  // Handle synthetic comments (CodeRabbit nitpicks and outside-diff, local agent findings)
+  if (threadId.startsWith('coderabbit-nitpick-') || threadId.startsWith('coderabbit-outside-diff-') ||
+      parseLocalFindingId(threadId)) {
+    const wasResolved = coordination
+      ? await coordination.markNitpickUnresolved(threadId, { owner, repo, pr })
+      : false;
+    return {
+      success: true,
+      synthetic: true,
+      threadId: input.threadId,
+      message: childMessage ?? (wasResolved
+        ? 'Synthetic comment marked as unresolved internally'
+        : 'Synthetic comment was not resolved')
+    };
+  }
+
+  const comment = await findThread(client, owner, repo, pr, threadId);
+  if (!comment) {
+    throw new StructuredError('not_found', `Thread ${threadId} not found`, false);
+  }
+
+  if (!comment.resolved) {
+    return {
+      success: true,
+      threadId: comment.threadId,
+      file: comment.file,
+      title: 'Thread was not resolved',
+      ...(childMessage && { synthetic: true, message: childMessage })
+    };
+  }
+
+  // Execute unresolve mutation
+  const clientMutationId = `unresolve-${comment.threadId}-${Date.now()}`;
+  await client.graphql<UnresolveThreadData>(QUERIES.unresolveThread, {
+    threadId: comment.threadId,
+    clientMutationId
+  });
+  await forgetDismissals(owner, repo, pr, [comment.threadId]);
+
+  return {
+    success: true,
+    threadId: comment.threadId,
+    file: comment.file,
+    title: comment.title,
+    ...(childMessage && { synthetic: true, message: childMessage })
+  };
+}
+
+/**
+ * Drop dismissal records for reopened comments (best effort - pr_summary counts them)
+ */
+async function forgetDismissals(owner: string, repo: string, pr: number, ids: string[]): Promise<void> {
+  try {
+    await clearDismissals(owner, repo, pr, ids);
+  } catch (error) {
+    logger.warning('[unresolve] Failed to clear dismissal record', { ids, error });
+  }
+}
+
+/**
+ * Reopen a Qodo issue via tracker comment
+ */
+async function unresolveQodoIssue(
+  owner: string,
+  repo: string,
+  pr: number,
+  issueId: string
+): Promise<ResolveOutput> {
+  const qodoReview = await fetchQodoReview(owner, repo, pr);
+
+  if (!qodoReview) {
+    throw new StructuredError('not_found', 'No Qodo review found for this PR', false);
+  }
+
+  const state = await toggleQodoIssue(owner, repo, pr, qodoReview, issueId, false);
+  const item = state.items.find(i => i.id === issueId || i.id.endsWith(issueId));
+
+  return {
+    success: true,
+    threadId: issueId,
+    file: item?.file || '',
+    title: item?.title || 'Qodo issue reopened'
+  };
+}